@@ -2,8 +2,20 @@ const asBool = (v: string | boolean | undefined) => v === true || v === 'true';
 
 const DEBUG = asBool(import.meta.env.VITE_DEBUG_LOGGING);
 
+export type AuthStorage = 'local' | 'session' | 'memory';
+
+const asAuthStorage = (v: string | undefined): AuthStorage =>
+  v === 'session' || v === 'memory' ? v : 'local';
+
 export const config = {
   BASE_API_URL: import.meta.env.VITE_API_BASE_URL ?? '',
+  /** Shows "Sign in with SSO" (the server needs OIDC_ISSUER) */
+  SSO_ENABLED: asBool(import.meta.env.VITE_SSO_ENABLED),
+  /** Where the signed-in session survives reloads: local (default), session (tab) or memory (none) */
+  AUTH_STORAGE: asAuthStorage(import.meta.env.VITE_AUTH_STORAGE),
+  /** Checks responses against per-call schemas; always on in development */
+  VALIDATE_RESPONSES:
+    import.meta.env.DEV || asBool(import.meta.env.VITE_VALIDATE_RESPONSES),
   DEBUG_LOGGING: DEBUG,
   REQUEST_LOGGING: DEBUG,
   I18N_LOGGING: DEBUG,
@@ -1,13 +1,22 @@
+import type { ClientResponse } from 'hono/client';
+import type { z } from 'zod';
 import { config } from '@/config';
+import { unwrapResponse } from '@/lib/api/client';
+import type { ApiData } from '@/lib/api/client';
 import {
   buildApiUrl,
-  createAuthHeaders,
-  handleUnauthorized,
   parseApiResponse,
   toApiError,
   unwrapApiResponse,
+  validateApiResponse,
 } from '@/lib/api/fetch-utils';
-import { useAuthForRequest } from './useAuth';
+import { fetchWithAuth } from '@/lib/auth/token-refresh';
+
+interface CallOptions<T> {
+  skipAuth?: boolean;
+  /** Expected `data`, checked when response validation is on */
+  schema?: z.ZodType<T>;
+}
 
 const log = config.REQUEST_LOGGING
   ? (message: string, ...args: unknown[]) => {
@@ -16,16 +25,20 @@ const log = config.REQUEST_LOGGING
   : () => {};
 
 export const useApi = () => {
-  const { token, logout } = useAuthForRequest();
-
-  const handleResponse = async <T>(response: Response): Promise<T> => {
-    handleUnauthorized(response, logout);
-
+  const handleResponse = async <T>(
+    url: string,
+    response: Response,
+    schema?: z.ZodType<T>
+  ): Promise<T> => {
     if (response.status === 204) {
       return undefined as T;
     }
 
-    const data = await parseApiResponse<T>(response);
+    const data = validateApiResponse(
+      url,
+      await parseApiResponse(response),
+      schema
+    );
 
     if (!response.ok) {
       throw toApiError(response, data);
@@ -36,20 +49,21 @@ export const useApi = () => {
 
   const get = async <T>(
     endpoint: string,
-    options?: { skipAuth?: boolean }
+    options?: CallOptions<T>
   ): Promise<T> => {
     const url = buildApiUrl(endpoint);
     log(`GET ${url}`);
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        ...createAuthHeaders(token, options?.skipAuth),
+    const response = await fetchWithAuth(
+      url,
+      {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json' },
       },
-    });
+      options?.skipAuth
+    );
 
-    const result = await handleResponse<T>(response);
+    const result = await handleResponse(url, response, options?.schema);
     log(`GET ${url} success`, result);
     return result;
   };
@@ -57,21 +71,22 @@ export const useApi = () => {
   const post = async <T>(
     endpoint: string,
     data?: unknown,
-    options?: { skipAuth?: boolean }
+    options?: CallOptions<T>
   ): Promise<T> => {
     const url = buildApiUrl(endpoint);
     log(`POST ${url}`, data);
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...createAuthHeaders(token, options?.skipAuth),
+    const response = await fetchWithAuth(
+      url,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
       },
-      body: JSON.stringify(data),
-    });
+      options?.skipAuth
+    );
 
-    const result = await handleResponse<T>(response);
+    const result = await handleResponse(url, response, options?.schema);
     log(`POST ${url} success`, result);
     return result;
   };
@@ -79,41 +94,43 @@ export const useApi = () => {
   const put = async <T>(
     endpoint: string,
     data?: unknown,
-    options?: { skipAuth?: boolean }
+    options?: CallOptions<T>
   ): Promise<T> => {
     const url = buildApiUrl(endpoint);
     log(`PUT ${url}`, data);
 
-    const response = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        ...createAuthHeaders(token, options?.skipAuth),
+    const response = await fetchWithAuth(
+      url,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
       },
-      body: JSON.stringify(data),
-    });
+      options?.skipAuth
+    );
 
-    const result = await handleResponse<T>(response);
+    const result = await handleResponse(url, response, options?.schema);
     log(`PUT ${url} success`, result);
     return result;
   };
 
   const del = async <T>(
     endpoint: string,
-    options?: { skipAuth?: boolean }
+    options?: CallOptions<T>
   ): Promise<T> => {
     const url = buildApiUrl(endpoint);
     log(`DELETE ${url}`);
 
-    const response = await fetch(url, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-        ...createAuthHeaders(token, options?.skipAuth),
+    const response = await fetchWithAuth(
+      url,
+      {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
       },
-    });
+      options?.skipAuth
+    );
 
-    const result = await handleResponse<T>(response);
+    const result = await handleResponse(url, response, options?.schema);
     log(`DELETE ${url} success`, result);
     return result;
   };
@@ -121,26 +138,41 @@ export const useApi = () => {
   const patch = async <T>(
     endpoint: string,
     data?: unknown,
-    options?: { skipAuth?: boolean }
+    options?: CallOptions<T>
   ): Promise<T> => {
     const url = buildApiUrl(endpoint);
     log(`PATCH ${url}`, data);
 
-    const response = await fetch(url, {
-      method: 'PATCH',
-      headers: {
-        'Content-Type': 'application/json',
-        ...createAuthHeaders(token, options?.skipAuth),
+    const response = await fetchWithAuth(
+      url,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
       },
-      body: JSON.stringify(data),
-    });
+      options?.skipAuth
+    );
 
-    const result = await handleResponse<T>(response);
+    const result = await handleResponse(url, response, options?.schema);
     log(`PATCH ${url} success`, result);
     return result;
   };
 
+  /**
+   * Sends a typed `apiClient` request; params, body and the returned data
+   * are checked against the server route, and at runtime against `schema`
+   */
+  const call = async <R extends ClientResponse<unknown>>(
+    request: Promise<R>,
+    schema?: z.ZodType<ApiData<R>>
+  ) => {
+    const result = await unwrapResponse(request, schema);
+    log('call success', result);
+    return result;
+  };
+
   return {
+    call,
     get,
     post,
     put,
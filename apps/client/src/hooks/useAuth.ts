@@ -28,15 +28,6 @@ export const useAuth = () => {
   );
 };
 
-export const useAuthForRequest = () => {
-  const token = useToken();
-  const { signout } = useAuth();
-  return {
-    token,
-    logout: signout,
-  };
-};
-
 export {
   useAuthStore,
   useIsAuthenticated,
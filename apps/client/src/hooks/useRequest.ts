@@ -6,16 +6,17 @@ import type {
 } from '@/types/api';
 import {
   buildApiUrl,
-  createAuthHeaders,
-  handleUnauthorized,
   parseApiResponse,
-  SESSION_EXPIRED_MESSAGE,
   toApiError,
   unwrapApiResponse,
+  validateApiResponse,
 } from '@/lib/api/fetch-utils';
+import {
+  fetchWithAuth,
+  SessionExpiredError,
+} from '@/lib/auth/token-refresh';
 import { useCallback, useRef, useState } from 'react';
 import { toast } from '@/utils';
-import { useAuthForRequest } from './useAuth';
 
 const log = config.REQUEST_LOGGING
   ? (message: string, ...args: unknown[]) => {
@@ -45,7 +46,6 @@ const normalizeHeaders = (headers: HeadersInit = {}): Record<string, string> =>
 export const useRequest = <T = unknown>(
   initialState: Partial<RequestState<T>> = {}
 ): UseRequestReturn<T> => {
-  const { token, logout } = useAuthForRequest();
   const [state, setState] = useState<RequestState<T>>({
     data: null,
     isLoading: false,
@@ -64,13 +64,14 @@ export const useRequest = <T = unknown>(
   }, []);
 
   const request = useCallback(
-    async (url: string, options: RequestOptions = {}) => {
+    async (url: string, options: RequestOptions<T> = {}) => {
       const {
         method = 'GET',
         headers = {},
         onSuccess,
         onError,
         skipAuth = false,
+        schema,
         ...fetchOptions
       } = options;
 
@@ -91,10 +92,7 @@ export const useRequest = <T = unknown>(
       try {
         const normalizedHeaders = normalizeHeaders(headers);
 
-        const authHeaders = createAuthHeaders(token, skipAuth);
-
         const requestHeaders: Record<string, string> = {
-          ...authHeaders,
           ...normalizedHeaders,
         };
 
@@ -107,14 +105,16 @@ export const useRequest = <T = unknown>(
 
         const fullUrl = buildApiUrl(url);
 
-        const response = await fetch(fullUrl, {
-          method,
-          headers: requestHeaders,
-          signal: abortControllerRef.current.signal,
-          ...fetchOptions,
-        });
-
-        handleUnauthorized(response, logout, skipAuth);
+        const response = await fetchWithAuth(
+          fullUrl,
+          {
+            method,
+            headers: requestHeaders,
+            signal: abortControllerRef.current.signal,
+            ...fetchOptions,
+          },
+          skipAuth
+        );
 
         if (response.status === 204) {
           setState((prev: RequestState<T>) => ({
@@ -127,7 +127,11 @@ export const useRequest = <T = unknown>(
           return;
         }
 
-        const data = await parseApiResponse<T>(response);
+        const data = validateApiResponse(
+          fullUrl,
+          await parseApiResponse(response),
+          schema
+        );
 
         if (!response.ok) {
           throw toApiError(response, data);
@@ -150,33 +154,34 @@ export const useRequest = <T = unknown>(
           return;
         }
 
-        const errorMessage =
+        const requestError =
           error instanceof Error
-            ? error.message
-            : 'An unexpected error occurred';
+            ? error
+            : new Error('An unexpected error occurred');
 
         log(`${method} ${url} error`, error);
 
         setState((prev: RequestState<T>) => ({
           ...prev,
           isLoading: false,
-          error: errorMessage,
+          error: requestError,
         }));
 
-        if (!errorMessage.includes(SESSION_EXPIRED_MESSAGE)) {
+        // The session-expired toast is shown once by the refresh coordinator
+        if (!(error instanceof SessionExpiredError)) {
           toast({
             title: 'Request Failed',
-            description: errorMessage,
+            description: requestError.message,
             variant: 'error',
           });
         }
 
-        onError?.(errorMessage);
+        onError?.(requestError);
       } finally {
         abortControllerRef.current = null;
       }
     },
-    [token, logout]
+    []
   );
 
   return {
@@ -1,4 +1,5 @@
 import { config } from '@/config';
+import { useAuthStore } from '@/stores/auth';
 
 const joinUrl = (base: string, path: string) => {
   return `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
@@ -23,7 +24,117 @@ export const getGraphQLUrls = () => {
   return { httpUrl, wsUrl };
 };
 
-export const getToken = (): string | null => {
-  if (typeof window === 'undefined') return null;
-  return localStorage.getItem('auth-token');
+export const getToken = (): string | null => useAuthStore.getState().token;
+
+/** SHA-256 round constants (FIPS 180-4) */
+const K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+type HashState = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+];
+
+/**
+ * SHA-256 in plain JS for origins without `crypto.subtle`, which browsers
+ * only expose in secure contexts (HTTPS or localhost)
+ */
+const digestFallback = (data: Uint8Array): Uint8Array => {
+  // Message, 0x80, zero padding, then the bit length in the last 8 bytes
+  const length = Math.ceil((data.length + 9) / 64) * 64;
+  const bytes = new Uint8Array(length);
+  bytes.set(data);
+  bytes[data.length] = 0x80;
+  const message = new DataView(bytes.buffer);
+  message.setUint32(length - 8, Math.floor(data.length / 0x20000000));
+  message.setUint32(length - 4, data.length * 8);
+
+  let hash: HashState = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ];
+  const w = new DataView(new ArrayBuffer(64 * 4));
+  const word = (i: number) => w.getUint32(i * 4);
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 64; i++) {
+      if (i < 16) {
+        w.setUint32(i * 4, message.getUint32(offset + i * 4));
+        continue;
+      }
+      const s0 = rotr(word(i - 15), 7) ^ rotr(word(i - 15), 18);
+      const s1 = rotr(word(i - 2), 17) ^ rotr(word(i - 2), 19);
+      w.setUint32(
+        i * 4,
+        word(i - 16) +
+          (s0 ^ (word(i - 15) >>> 3)) +
+          word(i - 7) +
+          (s1 ^ (word(i - 2) >>> 10))
+      );
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    K.forEach((k, i) => {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + k + word(i)) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    });
+    hash = [
+      (hash[0] + a) | 0,
+      (hash[1] + b) | 0,
+      (hash[2] + c) | 0,
+      (hash[3] + d) | 0,
+      (hash[4] + e) | 0,
+      (hash[5] + f) | 0,
+      (hash[6] + g) | 0,
+      (hash[7] + h) | 0,
+    ];
+  }
+
+  const digest = new DataView(new ArrayBuffer(32));
+  hash.forEach((value, i) => digest.setUint32(i * 4, value >>> 0));
+  return new Uint8Array(digest.buffer);
+};
+
+/**
+ * Hex sha256 of an operation, the id of automatic persisted queries;
+ * hashed in JS where `crypto.subtle` is missing (plain-HTTP hosts), since
+ * strict servers only accept operations sent by hash
+ */
+export const sha256 = async (query: string): Promise<string> => {
+  const data = new TextEncoder().encode(query);
+  const digest =
+    globalThis.crypto?.subtle === undefined
+      ? digestFallback(data)
+      : new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join(
+    ''
+  );
 };
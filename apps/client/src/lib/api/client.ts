@@ -0,0 +1,76 @@
+import { hc } from 'hono/client';
+import type { ClientResponse } from 'hono/client';
+import type { AppType } from 'server-template/app';
+import type { z } from 'zod';
+import { fetchWithAuth } from '@/lib/auth/token-refresh';
+import { apiPrefix } from './endpoints';
+import {
+  buildApiUrl,
+  parseApiResponse,
+  toApiError,
+  unwrapApiResponse,
+  validateApiResponse,
+} from './fetch-utils';
+
+/**
+ * REST client typed by the server routes: params, bodies, success data and
+ * error envelopes are inferred from its zod-openapi schemas. Requests carry
+ * the bearer token and are replayed after a token refresh.
+ *
+ * @example
+ * await unwrapResponse(apiClient.users[':id'].$get({ param: { id } }));
+ */
+export const apiClient = hc<AppType>(buildApiUrl(apiPrefix), {
+  fetch: (input: RequestInfo | URL, init?: RequestInit) =>
+    fetchWithAuth(String(input), init),
+});
+
+/**
+ * Client for sign-in and other public routes: no bearer token, and a 401
+ * is an answer rather than an expired session
+ */
+export const publicApiClient = hc<AppType>(buildApiUrl(apiPrefix));
+
+/** `data` of the success envelopes a typed request can resolve with */
+export type ApiData<R> =
+  R extends ClientResponse<infer Output>
+    ? Output extends { success: true; data: infer Data }
+      ? Data
+      : never
+    : never;
+
+/** Success data of an endpoint, e.g. `ApiResult<typeof apiClient.auth.me.$get>` */
+export type ApiResult<
+  Endpoint extends (...args: never[]) => Promise<ClientResponse<unknown>>,
+> = ApiData<Awaited<ReturnType<Endpoint>>>;
+
+/**
+ * Resolves a typed request to its success data, checked against `schema`
+ * when response validation is on
+ *
+ * @throws ApiError with the problem details (ApiValidationError for 422),
+ * as `useApi`
+ * @throws ApiContractError when the response does not match `schema`
+ */
+export const unwrapResponse = async <R extends ClientResponse<unknown>>(
+  request: Promise<R>,
+  schema?: z.ZodType<ApiData<R>>
+): Promise<ApiData<R>> => {
+  const response = await request;
+
+  if (response.status === 204) {
+    return undefined as ApiData<R>;
+  }
+
+  const data = validateApiResponse(
+    response.url,
+    await parseApiResponse(response),
+    schema
+  );
+
+  if (!response.ok) {
+    throw toApiError(response, data);
+  }
+
+  return unwrapApiResponse(data);
+};
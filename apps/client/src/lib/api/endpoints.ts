@@ -1,6 +1,6 @@
 import { config } from '@/config';
 
-const apiPrefix = '/rest/v1' as const;
+export const apiPrefix = '/rest/v1' as const;
 
 type QueryParams = Record<string, string | number | boolean | undefined | null>;
 export const qs = (params?: QueryParams): string => {
@@ -27,6 +27,7 @@ export const ENDPOINTS = {
   health: (): string => `${apiPrefix}/health`,
   signIn: (): string => `${apiPrefix}/auth/signin`,
   signUp: (): string => `${apiPrefix}/auth/signup`,
+  refresh: (): string => `${apiPrefix}/auth/refresh`,
   users: (params?: PaginationParams): string =>
     `${apiPrefix}/users${qs(params)}`,
   userDetail: (userId: string | number): string =>
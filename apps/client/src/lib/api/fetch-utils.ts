@@ -1,13 +1,91 @@
+import { apiResponseEnvelopeSchema } from '@repo/shared';
+import type { ProblemDetails, ResponseMeta } from '@repo/shared';
+import type { z } from 'zod';
 import { config } from '@/config';
 import {
   isErrorResponse,
   isSuccessResponse,
   isValidationResponse,
 } from '@/types/api';
-import type { ApiResponse } from '@/types/api';
+import type { ApiResponse, ValidationError } from '@/types/api';
 
 export const SESSION_EXPIRED_MESSAGE = 'Session expired. Please sign in again.';
 
+const formatFieldErrors = (errors: ValidationError[]): string =>
+  errors.map(err => `${err.field ?? 'field'}: ${err.message}`).join(', ');
+
+/**
+ * Failed request with the RFC 9457 problem details and the response meta
+ * of its error envelope; branch on `code` with `isProblem`
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly problem: ProblemDetails,
+    readonly meta: ResponseMeta | null = null,
+    message: string = problem.detail || problem.title
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get status(): number {
+    return this.problem.status;
+  }
+
+  /** Stable E-code, e.g. `AUTH_CODES.TOKEN_EXPIRED` */
+  get code(): string {
+    return this.problem.code;
+  }
+
+  /** From the response meta, or the `requestId` member of GraphQL problems */
+  get requestId(): string | undefined {
+    const { requestId } = this.problem;
+    return (
+      this.meta?.requestId ??
+      (typeof requestId === 'string' ? requestId : undefined)
+    );
+  }
+}
+
+/** 422 response whose field errors forms can show next to their inputs */
+export class ApiValidationError extends ApiError {
+  constructor(problem: ProblemDetails, meta: ResponseMeta | null = null) {
+    super(problem, meta, formatFieldErrors(problem.errors));
+    this.name = 'ApiValidationError';
+  }
+
+  get errors(): ValidationError[] {
+    return this.problem.errors;
+  }
+}
+
+/**
+ * Whether `error` is a problem response, optionally with the given code
+ *
+ * @example
+ * if (isProblem(err, AUTH_CODES.EMAIL_NOT_VERIFIED)) showResendLink();
+ */
+export const isProblem = (error: unknown, code?: string): error is ApiError =>
+  error instanceof ApiError && (code === undefined || error.code === code);
+
+/**
+ * Response that does not match the schema the caller expects; the server
+ * and client disagree on the contract, so the data is not rendered
+ */
+export class ApiContractError extends Error {
+  constructor(
+    readonly url: string,
+    readonly issues: z.core.$ZodIssue[],
+    readonly requestId: string | undefined
+  ) {
+    super(
+      `Unexpected response from ${url}` +
+        (requestId ? ` (request ${requestId})` : '')
+    );
+    this.name = 'ApiContractError';
+  }
+}
+
 export const buildApiUrl = (endpoint: string): string =>
   `${config.BASE_API_URL}${endpoint}`;
 
@@ -17,17 +95,6 @@ export const createAuthHeaders = (
 ): Record<string, string> =>
   !skipAuth && token ? { Authorization: `Bearer ${token}` } : {};
 
-export const handleUnauthorized = (
-  response: Response,
-  logout: () => void,
-  skipAuth: boolean = false
-) => {
-  if (response.status === 401 && !skipAuth) {
-    logout();
-    throw new Error(SESSION_EXPIRED_MESSAGE);
-  }
-};
-
 export const parseApiResponse = async <T>(
   response: Response
 ): Promise<ApiResponse<T> | null> => {
@@ -38,32 +105,79 @@ export const parseApiResponse = async <T>(
   return null;
 };
 
+const requestIdOf = (data: unknown): string | undefined => {
+  if (typeof data !== 'object' || data === null || !('meta' in data)) {
+    return undefined;
+  }
+  const { meta } = data as { meta: unknown };
+  return typeof meta === 'object' &&
+    meta !== null &&
+    'requestId' in meta &&
+    typeof meta.requestId === 'string'
+    ? meta.requestId
+    : undefined;
+};
+
+/**
+ * Checks the envelope and its success data against `schema` when response
+ * validation is on (always in development, see `VITE_VALIDATE_RESPONSES`)
+ *
+ * @throws ApiContractError after logging the issues with the request ID
+ */
+export const validateApiResponse = <T>(
+  url: string,
+  data: ApiResponse<unknown> | null,
+  schema?: z.ZodType<T>
+): ApiResponse<T> | null => {
+  if (!schema || !data || !config.VALIDATE_RESPONSES) {
+    return data as ApiResponse<T> | null;
+  }
+
+  const result = apiResponseEnvelopeSchema(schema).safeParse(data);
+  if (result.success) {
+    return result.data as ApiResponse<T>;
+  }
+
+  const error = new ApiContractError(
+    url,
+    result.error.issues,
+    requestIdOf(data)
+  );
+  console.error(`[API] ${error.message}`, result.error.issues);
+  throw error;
+};
+
 export const parseValidationErrors = (data: ApiResponse<unknown>): string => {
   if (!isValidationResponse(data) || data.error.errors.length === 0) {
     return '';
   }
 
-  return data.error.errors
-    .map(err => `${err.field ?? 'field'}: ${err.message}`)
-    .join(', ');
+  return formatFieldErrors(data.error.errors);
 };
 
+/**
+ * Problem details of a failed response; responses without an error
+ * envelope (e.g. from a proxy) get one derived from the status
+ */
 export const toApiError = (
   response: Response,
   data: ApiResponse<unknown> | null
-): Error => {
-  if (data) {
-    const validationMessage = parseValidationErrors(data);
-    if (validationMessage) {
-      return new Error(validationMessage);
-    }
-
-    if (isErrorResponse(data)) {
-      return new Error(data.error.detail || data.error.title);
-    }
+): ApiError => {
+  if (data && isErrorResponse(data)) {
+    return parseValidationErrors(data)
+      ? new ApiValidationError(data.error, data.meta)
+      : new ApiError(data.error, data.meta);
   }
 
-  return new Error(`Request failed with status ${response.status}`);
+  return new ApiError({
+    type: 'about:blank',
+    title: response.statusText || 'Request failed',
+    status: response.status,
+    detail: `Request failed with status ${response.status}`,
+    instance: response.url,
+    code: '',
+    errors: [],
+  });
 };
 
 export const unwrapApiResponse = <T>(data: ApiResponse<T> | null): T => {
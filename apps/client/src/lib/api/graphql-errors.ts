@@ -0,0 +1,43 @@
+import { CombinedGraphQLErrors } from '@apollo/client/errors';
+import { graphQLProblemExtensionsSchema } from '@repo/shared';
+import type { GraphQLFormattedError } from 'graphql';
+import { ApiError, ApiValidationError } from './fetch-utils';
+
+/**
+ * Problem of a GraphQL error whose extensions carry the server's problem
+ * members (`code`, `problemType`, `status`, `errors`, `requestId`); null
+ * for other errors, e.g. query validation errors
+ */
+export const fromGraphQLError = (
+  error: GraphQLFormattedError
+): ApiError | null => {
+  const parsed = graphQLProblemExtensionsSchema.safeParse(error.extensions);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const { problemType, ...extensions } = parsed.data;
+  const problem = {
+    ...extensions,
+    type: problemType,
+    title: error.message,
+    detail: error.message,
+    instance: error.path?.join('.') ?? '',
+  };
+
+  return problem.status === 422
+    ? new ApiValidationError(problem)
+    : new ApiError(problem);
+};
+
+/**
+ * Problems of an Apollo error (`error` of useQuery/useMutation), so
+ * GraphQL failures can be handled with `isProblem` like REST ones
+ *
+ * @example
+ * if (getGraphQLProblems(error).some(p => isProblem(p, AUTH_CODES.INSUFFICIENT_PERMISSIONS))) ...
+ */
+export const getGraphQLProblems = (error: unknown): ApiError[] =>
+  CombinedGraphQLErrors.is(error)
+    ? error.errors.flatMap(item => fromGraphQLError(item) ?? [])
+    : [];
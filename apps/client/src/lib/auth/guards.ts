@@ -0,0 +1,42 @@
+import { redirect } from '@tanstack/react-router';
+import type { ParsedLocation } from '@tanstack/react-router';
+import { PATHNAMES } from '@/lib/paths/pathnames';
+import { useAuthStore } from '@/stores/auth';
+
+interface GuardContext {
+  location: ParsedLocation;
+}
+
+/**
+ * `beforeLoad` guard: sends signed-out visitors to sign-in and back to the
+ * requested page afterwards
+ */
+export const requireAuth = ({ location }: GuardContext) => {
+  if (!useAuthStore.getState().token) {
+    throw redirect({
+      ...PATHNAMES.signIn(),
+      search: { redirect: location.href },
+    });
+  }
+};
+
+/**
+ * `beforeLoad` guard factory: like requireAuth, and sends users without one
+ * of the roles to the not-authorized page
+ */
+export const requireRole =
+  (...roles: string[]) =>
+  (context: GuardContext) => {
+    requireAuth(context);
+
+    const role = useAuthStore.getState().user?.role;
+    if (!role || !roles.includes(role)) {
+      throw redirect(PATHNAMES.notAuthorized());
+    }
+  };
+
+/**
+ * Accepts only same-origin paths as post-sign-in targets (no open redirects)
+ */
+export const safeRedirect = (target: string | undefined) =>
+  target?.startsWith('/') && !target.startsWith('//') ? target : undefined;
@@ -0,0 +1,3 @@
+export * from './guards';
+export * from './session';
+export * from './token-refresh';
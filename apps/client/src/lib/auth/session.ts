@@ -0,0 +1,56 @@
+import { authUserSchema } from '@repo/shared';
+import { apiClient, unwrapResponse } from '@/lib/api/client';
+import type { ApiResult } from '@/lib/api/client';
+import { useAuthStore } from '@/stores/auth';
+import type { AuthUser } from '@/stores/auth';
+import { refreshAccessToken } from './token-refresh';
+
+/** User as returned by sign-in and `/auth/me` */
+export type SessionUser = ApiResult<typeof apiClient.auth.me.$get>;
+
+export const toAuthUser = (user: SessionUser): AuthUser => ({
+  id: user.id,
+  email: user.email,
+  name: [user.firstName, user.lastName].filter(Boolean).join(' '),
+  role: user.role,
+});
+
+let hydration: Promise<void> | null = null;
+
+const loadCurrentUser = async () => {
+  const { token, setUser } = useAuthStore.getState();
+  if (!token) return;
+
+  try {
+    // An expired access token is refreshed; a rejected refresh signs out
+    setUser(
+      toAuthUser(await unwrapResponse(apiClient.auth.me.$get(), authUserSchema))
+    );
+  } catch {
+    // Signed out, offline or API down: keep what the store has
+  }
+};
+
+/**
+ * Refreshes the persisted user from `/auth/me` once per page load, and
+ * signs out when the stored session can no longer be refreshed
+ */
+export const hydrateAuth = () => {
+  hydration ??= loadCurrentUser();
+  return hydration;
+};
+
+/**
+ * Replaces the stored access token, whose claims (e.g. `email_verified`)
+ * are only updated when it is refreshed
+ */
+export const refreshSessionClaims = async () => {
+  const { token } = useAuthStore.getState();
+  if (!token) return;
+
+  try {
+    await refreshAccessToken(token);
+  } catch {
+    // Signed out or offline: the next refresh picks the claims up
+  }
+};
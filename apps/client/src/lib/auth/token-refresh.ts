@@ -0,0 +1,174 @@
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import {
+  buildApiUrl,
+  parseApiResponse,
+  SESSION_EXPIRED_MESSAGE,
+  toApiError,
+  unwrapApiResponse,
+} from '@/lib/api/fetch-utils';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/utils';
+
+interface RefreshedSession {
+  accessToken: string;
+  refreshToken: string;
+}
+
+type TokenListener = (token: string) => void;
+
+export class SessionExpiredError extends Error {
+  constructor() {
+    super(SESSION_EXPIRED_MESSAGE);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/** Statuses of a refresh token the server refused (invalid, expired, reused) */
+const REJECTED_STATUSES = new Set([400, 401]);
+
+/** Web Lock shared by the tabs of this origin */
+const REFRESH_LOCK = 'auth-refresh';
+
+const listeners = new Set<TokenListener>();
+let pending: Promise<string | null> | null = null;
+
+/**
+ * Subscribes to new access tokens, e.g. to reconnect sockets that
+ * authenticated with the old one
+ *
+ * @returns unsubscribe function
+ */
+export const onTokenRefreshed = (listener: TokenListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Whatever replaced the token: a refresh in this or another tab, a sign-in
+useAuthStore.subscribe(({ token }, previous) => {
+  if (token && token !== previous.token) {
+    listeners.forEach(listener => listener(token));
+  }
+});
+
+/**
+ * Runs `refresh` while holding the refresh lock, so tabs sharing the
+ * stored refresh token take turns; without Web Locks only this tab's
+ * refreshes are serialized
+ */
+const withRefreshLock = async (
+  refresh: () => Promise<string | null>
+): Promise<string | null> =>
+  'locks' in navigator
+    ? navigator.locks.request(REFRESH_LOCK, refresh)
+    : refresh();
+
+/** Signs out once and tells the user, however many requests failed */
+const expireSession = () => {
+  const { token, signout } = useAuthStore.getState();
+  if (!token) return;
+
+  signout();
+  toast({ title: SESSION_EXPIRED_MESSAGE, variant: 'warning' });
+};
+
+/**
+ * Rotates the refresh token
+ *
+ * @returns the new access token, or null when the server rejected the
+ * refresh token (400/401); network errors and other failures (5xx, 429)
+ * are thrown so an outage does not sign out
+ */
+const requestRefresh = async (): Promise<string | null> => {
+  const { refreshToken, setTokens } = useAuthStore.getState();
+  if (!refreshToken) return null;
+
+  const response = await fetch(buildApiUrl(ENDPOINTS.refresh()), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken }),
+  });
+  if (REJECTED_STATUSES.has(response.status)) return null;
+  if (!response.ok) {
+    throw toApiError(response, await parseApiResponse(response));
+  }
+
+  const session = unwrapApiResponse<RefreshedSession>(
+    await parseApiResponse<RefreshedSession>(response)
+  );
+  setTokens({ token: session.accessToken, refreshToken: session.refreshToken });
+
+  return session.accessToken;
+};
+
+/** Resolves once an in-flight refresh has settled */
+export const waitForTokenRefresh = async () => {
+  await pending?.catch(() => null);
+};
+
+/**
+ * Returns a new access token after `rejectedToken` got a 401
+ *
+ * Refresh tokens are single-use, so concurrent callers share one refresh
+ * and callers whose token was already replaced get the current one. Other
+ * tabs may have rotated the stored tokens while this one waited for the
+ * lock, so they are read from storage again before refreshing.
+ *
+ * @throws SessionExpiredError after signing out when the refresh is rejected
+ * @throws ApiError when the refresh failed otherwise; the session is kept
+ */
+export const refreshAccessToken = async (
+  rejectedToken: string | null
+): Promise<string> => {
+  const { token } = useAuthStore.getState();
+  if (token && token !== rejectedToken) return token;
+
+  pending ??= withRefreshLock(async () => {
+    await useAuthStore.persist.rehydrate();
+    const { token: stored } = useAuthStore.getState();
+    return stored && stored !== rejectedToken ? stored : requestRefresh();
+  }).finally(() => {
+    pending = null;
+  });
+
+  const fresh = await pending;
+  if (!fresh) {
+    expireSession();
+    throw new SessionExpiredError();
+  }
+  return fresh;
+};
+
+/**
+ * `fetch` with the stored bearer token that refreshes on a 401 and replays
+ * the request once; requests started during a refresh wait for it
+ */
+export const fetchWithAuth = async (
+  url: string,
+  init: RequestInit = {},
+  skipAuth: boolean = false
+): Promise<Response> => {
+  if (skipAuth) return fetch(url, init);
+
+  await waitForTokenRefresh();
+
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token && !headers.has('Authorization')) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(url, { ...init, headers });
+  };
+
+  const { token } = useAuthStore.getState();
+  const response = await send(token);
+  if (response.status !== 401 || !token) return response;
+
+  const replayed = await send(await refreshAccessToken(token));
+  if (replayed.status === 401) {
+    expireSession();
+    throw new SessionExpiredError();
+  }
+  return replayed;
+};
@@ -0,0 +1,45 @@
+import type { FieldPath, FieldValues, UseFormReturn } from 'react-hook-form';
+import { ApiValidationError } from '@/lib/api/fetch-utils';
+import type { ValidationError } from '@/types/api';
+
+/** `#/items/0/name` (RFC 6901 fragment) -> `items.0.name` */
+const pointerToPath = (pointer: string) =>
+  pointer
+    .replace(/^#?\//, '')
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.');
+
+const fieldPath = ({ field, pointer }: ValidationError) =>
+  pointer ? pointerToPath(pointer) : field;
+
+/**
+ * Puts the field errors of a 422 response on the matching form fields
+ *
+ * @returns false when `error` has no field errors for this form, so the
+ * caller can fall back to a toast
+ */
+export const applyServerErrors = <TValues extends FieldValues>(
+  form: UseFormReturn<TValues>,
+  error: unknown
+): boolean => {
+  if (!(error instanceof ApiValidationError)) return false;
+
+  const values = form.getValues();
+  let applied = false;
+
+  for (const fieldError of error.errors) {
+    const path = fieldPath(fieldError);
+    const root = path?.split('.')[0];
+    if (!path || !root || !(root in values)) continue;
+
+    form.setError(
+      path as FieldPath<TValues>,
+      { type: 'server', message: fieldError.message },
+      { shouldFocus: !applied }
+    );
+    applied = true;
+  }
+
+  return applied;
+};
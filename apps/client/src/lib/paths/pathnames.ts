@@ -9,6 +9,11 @@ export const PATHNAMES = {
     to: '/auth/reset-password/$token',
     params: { token } as const,
   }),
+  verifyEmail: (token: string) => ({
+    to: '/auth/verify-email/$token',
+    params: { token } as const,
+  }),
+  ssoCallback: () => ({ to: '/auth/sso/callback', params: {} as const }),
   notAuthorized: () => ({ to: '/not-authorized', params: {} as const }),
 } as const;
 
@@ -1,6 +1,9 @@
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Link } from '@tanstack/react-router';
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
 import { useTranslation } from 'react-i18next';
-import { Button, Input, Label } from '@/components/atoms';
+import { Button, Input } from '@/components/atoms';
 import {
   Card,
   CardContent,
@@ -9,11 +12,50 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useApi } from '@/hooks';
+import { publicApiClient } from '@/lib/api/client';
+import { applyServerErrors } from '@/lib/form-errors';
 import { PATHNAMES } from '@/lib/paths/pathnames';
 import { AuthPageLayout } from '@/templates';
+import { toast } from '@/utils';
+import { forgotPasswordSchema } from '../schemas';
+import type { ForgotPasswordValues } from '../schemas';
 
 export const ForgotPasswordPage = () => {
   const { t } = useTranslation(['translation', 'common']);
+  const api = useApi();
+  const [isSent, setIsSent] = useState(false);
+
+  const schema = useMemo(() => forgotPasswordSchema(), [t]);
+  const form = useForm<ForgotPasswordValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { email: '' },
+  });
+
+  const handleSubmit = form.handleSubmit(async values => {
+    try {
+      await api.call(
+        publicApiClient.auth['forgot-password'].$post({ json: values })
+      );
+      setIsSent(true);
+    } catch (error) {
+      if (applyServerErrors(form, error)) return;
+
+      toast({
+        title: t('Pages.Auth.ForgotPassword.Error'),
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'error',
+      });
+    }
+  });
 
   return (
     <AuthPageLayout t={t}>
@@ -27,38 +69,59 @@ export const ForgotPasswordPage = () => {
           </CardDescription>
         </CardHeader>
 
-        <form
-          onSubmit={event => {
-            event.preventDefault();
-          }}
-        >
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">
-                {t('Pages.Auth.ForgotPassword.EmailLabel')}
-              </Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder={t('Pages.Auth.ForgotPassword.EmailPlaceholder')}
-                autoComplete="email"
-              />
-            </div>
-          </CardContent>
+        <Form {...form}>
+          <form onSubmit={handleSubmit} noValidate>
+            <CardContent className="space-y-4">
+              {isSent ? (
+                <p className="text-sm text-muted-foreground" role="status">
+                  {t('Pages.Auth.ForgotPassword.Sent')}
+                </p>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {t('Pages.Auth.ForgotPassword.EmailLabel')}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="email"
+                          placeholder={t(
+                            'Pages.Auth.ForgotPassword.EmailPlaceholder'
+                          )}
+                          autoComplete="email"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </CardContent>
 
-          <CardFooter className="flex flex-col gap-3">
-            <Button type="submit" className="w-full">
-              {t('Pages.Auth.ForgotPassword.Submit')}
-            </Button>
+            <CardFooter className="flex flex-col gap-3">
+              {!isSent && (
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={form.formState.isSubmitting}
+                >
+                  {t('Pages.Auth.ForgotPassword.Submit')}
+                </Button>
+              )}
 
-            <Link
-              {...PATHNAMES.signIn()}
-              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
-            >
-              {t('Pages.Auth.ForgotPassword.BackToSignIn')}
-            </Link>
-          </CardFooter>
-        </form>
+              <Link
+                {...PATHNAMES.signIn()}
+                className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {t('Pages.Auth.ForgotPassword.BackToSignIn')}
+              </Link>
+            </CardFooter>
+          </form>
+        </Form>
       </Card>
     </AuthPageLayout>
   );
@@ -1,6 +1,10 @@
-import { Link, useParams } from '@tanstack/react-router';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Link, useNavigate, useParams } from '@tanstack/react-router';
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
 import { useTranslation } from 'react-i18next';
-import { Button, Input, Label } from '@/components/atoms';
+import { Button, Input } from '@/components/atoms';
+import { PasswordStrengthIndicator } from '@/components/molecules';
 import {
   Card,
   CardContent,
@@ -9,12 +13,60 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useApi } from '@/hooks';
+import { publicApiClient } from '@/lib/api/client';
+import { applyServerErrors } from '@/lib/form-errors';
 import { PATHNAMES } from '@/lib/paths/pathnames';
 import { AuthPageLayout } from '@/templates';
+import { toast } from '@/utils';
+import { resetPasswordSchema } from '../schemas';
+import type { ResetPasswordValues } from '../schemas';
 
 export const ResetPasswordPage = () => {
   const { t } = useTranslation(['translation', 'common']);
   const { token } = useParams({ from: '/auth/reset-password/$token' });
+  const navigate = useNavigate();
+  const api = useApi();
+
+  const schema = useMemo(() => resetPasswordSchema(), [t]);
+  const form = useForm<ResetPasswordValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { password: '', confirmPassword: '' },
+  });
+
+  const handleSubmit = form.handleSubmit(async ({ password }) => {
+    try {
+      await api.call(
+        publicApiClient.auth['reset-password'].$post({
+          json: { token, password },
+        })
+      );
+      toast({
+        title: t('Pages.Auth.ResetPassword.Success'),
+        variant: 'success',
+      });
+      await navigate(PATHNAMES.signIn());
+    } catch (err) {
+      if (applyServerErrors(form, err)) return;
+
+      form.setError('root.server', {
+        message:
+          err instanceof Error
+            ? err.message
+            : t('Pages.Auth.ResetPassword.Error'),
+      });
+    }
+  });
+
+  const rootError = form.formState.errors.root?.server?.message;
 
   return (
     <AuthPageLayout t={t}>
@@ -28,54 +80,94 @@ export const ResetPasswordPage = () => {
           </CardDescription>
         </CardHeader>
 
-        <form
-          onSubmit={event => {
-            event.preventDefault();
-          }}
-        >
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="password">
-                {t('Pages.Auth.ResetPassword.PasswordLabel')}
-              </Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder={t('Pages.Auth.ResetPassword.PasswordPlaceholder')}
-                autoComplete="new-password"
+        <Form {...form}>
+          <form onSubmit={handleSubmit} noValidate>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t('Pages.Auth.ResetPassword.PasswordLabel')}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        placeholder={t(
+                          'Pages.Auth.ResetPassword.PasswordPlaceholder'
+                        )}
+                        autoComplete="new-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <PasswordStrengthIndicator
+                      password={field.value}
+                      labels={{
+                        title: t('Components.Molecules.PasswordStrength.Label'),
+                        levels: [
+                          t('Components.Molecules.PasswordStrength.VeryWeak'),
+                          t('Components.Molecules.PasswordStrength.Weak'),
+                          t('Components.Molecules.PasswordStrength.Fair'),
+                          t('Components.Molecules.PasswordStrength.Good'),
+                          t('Components.Molecules.PasswordStrength.Strong'),
+                          t('Components.Molecules.PasswordStrength.VeryStrong'),
+                        ],
+                      }}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
               />
-            </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="confirmPassword">
-                {t('Pages.Auth.ResetPassword.ConfirmPasswordLabel')}
-              </Label>
-              <Input
-                id="confirmPassword"
-                type="password"
-                placeholder={t('Pages.Auth.ResetPassword.ConfirmPasswordPlaceholder')}
-                autoComplete="new-password"
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t('Pages.Auth.ResetPassword.ConfirmPasswordLabel')}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        placeholder={t(
+                          'Pages.Auth.ResetPassword.ConfirmPasswordPlaceholder'
+                        )}
+                        autoComplete="new-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
               />
-            </div>
 
-            <div className="text-xs text-muted-foreground">
-              {t('Pages.Auth.ResetPassword.TokenHint', { token })}
-            </div>
-          </CardContent>
+              {rootError && (
+                <p className="text-sm text-destructive" role="alert">
+                  {rootError}
+                </p>
+              )}
+            </CardContent>
 
-          <CardFooter className="flex flex-col gap-3">
-            <Button type="submit" className="w-full">
-              {t('Pages.Auth.ResetPassword.Submit')}
-            </Button>
+            <CardFooter className="flex flex-col gap-3">
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={form.formState.isSubmitting}
+              >
+                {t('Pages.Auth.ResetPassword.Submit')}
+              </Button>
 
-            <Link
-              {...PATHNAMES.signIn()}
-              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
-            >
-              {t('Pages.Auth.ResetPassword.BackToSignIn')}
-            </Link>
-          </CardFooter>
-        </form>
+              <Link
+                {...PATHNAMES.signIn()}
+                className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {t('Pages.Auth.ResetPassword.BackToSignIn')}
+              </Link>
+            </CardFooter>
+          </form>
+        </Form>
       </Card>
     </AuthPageLayout>
   );
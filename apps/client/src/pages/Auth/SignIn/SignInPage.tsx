@@ -1,6 +1,14 @@
-import { Link } from '@tanstack/react-router';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  AUTH_CODES,
+  oidcAuthorizationSchema,
+  signInResultSchema,
+} from '@repo/shared';
+import { Link, useSearch } from '@tanstack/react-router';
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
 import { useTranslation } from 'react-i18next';
-import { Button, Input, Label } from '@/components/atoms';
+import { Button, Input } from '@/components/atoms';
 import {
   Card,
   CardContent,
@@ -9,11 +17,100 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { config } from '@/config';
+import { useApi } from '@/hooks';
+import { publicApiClient } from '@/lib/api/client';
+import { isProblem } from '@/lib/api/fetch-utils';
+import { applyServerErrors } from '@/lib/form-errors';
 import { PATHNAMES } from '@/lib/paths/pathnames';
 import { AuthPageLayout } from '@/templates';
+import { toast } from '@/utils';
+import { signInSchema } from '../schemas';
+import type { SignInValues } from '../schemas';
+import { rememberSsoSignIn } from './sso';
+import { TwoFactorForm } from './TwoFactorForm';
+import { useCompleteSignIn } from './useCompleteSignIn';
 
 export const SignInPage = () => {
   const { t } = useTranslation(['translation', 'common']);
+  const { redirect } = useSearch({ from: '/auth/signin' });
+  const api = useApi();
+  const completeSignIn = useCompleteSignIn();
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [isStartingSso, setIsStartingSso] = useState(false);
+
+  const schema = useMemo(() => signInSchema(), [t]);
+  const form = useForm<SignInValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { email: '', password: '' },
+  });
+  const isSubmitting = form.formState.isSubmitting || isStartingSso;
+
+  const showError = (err: unknown) => {
+    if (isProblem(err, AUTH_CODES.EMAIL_NOT_VERIFIED)) {
+      toast({
+        title: t('Pages.Auth.SignIn.EmailNotVerified'),
+        description: t('Pages.Auth.SignIn.EmailNotVerifiedDescription'),
+        variant: 'warning',
+      });
+      return;
+    }
+
+    toast({
+      title: t('Pages.Auth.SignIn.Error'),
+      description: err instanceof Error ? err.message : undefined,
+      variant: 'error',
+    });
+  };
+
+  const handleSignIn = form.handleSubmit(async values => {
+    try {
+      const result = await api.call(
+        publicApiClient.auth.signin.$post({ json: values }),
+        signInResultSchema
+      );
+
+      if ('twoFactorRequired' in result) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
+      await completeSignIn(result, redirect);
+    } catch (err) {
+      if (!applyServerErrors(form, err)) showError(err);
+    }
+  });
+
+  const handleSso = async () => {
+    setIsStartingSso(true);
+
+    try {
+      const { authorizationUrl, state } = await api.call(
+        publicApiClient.auth.oidc.authorize.$get(),
+        oidcAuthorizationSchema
+      );
+      rememberSsoSignIn({ state, redirect });
+      window.location.assign(authorizationUrl);
+    } catch (err) {
+      showError(err);
+      setIsStartingSso(false);
+    }
+  };
+
+  if (challengeToken) {
+    return (
+      <AuthPageLayout t={t}>
+        <TwoFactorForm challengeToken={challengeToken} redirect={redirect} />
+      </AuthPageLayout>
+    );
+  }
 
   return (
     <AuthPageLayout t={t}>
@@ -27,61 +124,87 @@ export const SignInPage = () => {
           </CardDescription>
         </CardHeader>
 
-        <form
-          onSubmit={event => {
-            event.preventDefault();
-          }}
-        >
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">
-                {t('Pages.Auth.SignIn.EmailLabel')}
-              </Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder={t('Pages.Auth.SignIn.EmailPlaceholder')}
-                autoComplete="email"
+        <Form {...form}>
+          <form onSubmit={handleSignIn} noValidate>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('Pages.Auth.SignIn.EmailLabel')}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="email"
+                        placeholder={t('Pages.Auth.SignIn.EmailPlaceholder')}
+                        autoComplete="email"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>
+                        {t('Pages.Auth.SignIn.PasswordLabel')}
+                      </FormLabel>
+                      <Link
+                        {...PATHNAMES.forgotPassword()}
+                        className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                      >
+                        {t('Pages.Auth.SignIn.ForgotLink')}
+                      </Link>
+                    </div>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        placeholder={t('Pages.Auth.SignIn.PasswordPlaceholder')}
+                        autoComplete="current-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
               />
-            </div>
+            </CardContent>
 
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="password">
-                  {t('Pages.Auth.SignIn.PasswordLabel')}
-                </Label>
+            <CardFooter className="flex flex-col gap-3">
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {t('Pages.Auth.SignIn.Submit')}
+              </Button>
+
+              {config.SSO_ENABLED && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  disabled={isSubmitting}
+                  onClick={() => void handleSso()}
+                >
+                  {t('Pages.Auth.SignIn.SsoSubmit')}
+                </Button>
+              )}
+
+              <div className="text-sm text-muted-foreground">
+                {t('Pages.Auth.SignIn.NoAccount')}{' '}
                 <Link
-                  {...PATHNAMES.forgotPassword()}
-                  className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                  {...PATHNAMES.signUp()}
+                  className="text-foreground hover:underline"
                 >
-                  {t('Pages.Auth.SignIn.ForgotLink')}
+                  {t('Pages.Auth.SignIn.SignUpLink')}
                 </Link>
               </div>
-              <Input
-                id="password"
-                type="password"
-                placeholder={t('Pages.Auth.SignIn.PasswordPlaceholder')}
-                autoComplete="current-password"
-              />
-            </div>
-          </CardContent>
-
-          <CardFooter className="flex flex-col gap-3">
-            <Button type="submit" className="w-full">
-              {t('Pages.Auth.SignIn.Submit')}
-            </Button>
-
-            <div className="text-sm text-muted-foreground">
-              {t('Pages.Auth.SignIn.NoAccount')}{' '}
-              <Link
-                {...PATHNAMES.signUp()}
-                className="text-foreground hover:underline"
-              >
-                {t('Pages.Auth.SignIn.SignUpLink')}
-              </Link>
-            </div>
-          </CardFooter>
-        </form>
+            </CardFooter>
+          </form>
+        </Form>
       </Card>
     </AuthPageLayout>
   );
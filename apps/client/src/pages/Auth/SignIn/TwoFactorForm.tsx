@@ -0,0 +1,141 @@
+import { authSessionSchema } from '@repo/shared';
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, Input } from '@/components/atoms';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from '@/components/ui/input-otp';
+import { useApi } from '@/hooks';
+import { publicApiClient } from '@/lib/api/client';
+import { toast } from '@/utils';
+import { useCompleteSignIn } from './useCompleteSignIn';
+
+const OTP_LENGTH = 6;
+
+interface TwoFactorFormProps {
+  challengeToken: string;
+  /** Page to return to after signing in */
+  redirect?: string | undefined;
+}
+
+/**
+ * Second sign-in step for users with two-factor authentication, shared by
+ * password and SSO sign-in
+ */
+export const TwoFactorForm = ({
+  challengeToken,
+  redirect,
+}: TwoFactorFormProps) => {
+  const { t } = useTranslation();
+  const api = useApi();
+  const completeSignIn = useCompleteSignIn();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleVerify = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const session = await api.call(
+        publicApiClient.auth['2fa'].verify.$post({
+          json: { challengeToken, code },
+        }),
+        authSessionSchema
+      );
+      await completeSignIn(session, redirect);
+    } catch (err) {
+      toast({
+        title: t('Pages.Auth.SignIn.Error'),
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'error',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(value => !value);
+    setCode('');
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1 text-center">
+        <CardTitle className="text-2xl font-bold">
+          {t('Pages.Auth.SignIn.TwoFactorTitle')}
+        </CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? t('Pages.Auth.SignIn.RecoveryCodeDescription')
+            : t('Pages.Auth.SignIn.TwoFactorDescription')}
+        </CardDescription>
+      </CardHeader>
+
+      <form onSubmit={handleVerify}>
+        <CardContent className="flex justify-center">
+          {useRecoveryCode ? (
+            <Input
+              id="recovery-code"
+              placeholder={t('Pages.Auth.SignIn.RecoveryCodePlaceholder')}
+              autoComplete="off"
+              required
+              value={code}
+              onChange={event => setCode(event.target.value)}
+            />
+          ) : (
+            <InputOTP
+              maxLength={OTP_LENGTH}
+              autoComplete="one-time-code"
+              autoFocus
+              value={code}
+              onChange={setCode}
+            >
+              <InputOTPGroup>
+                {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          )}
+        </CardContent>
+
+        <CardFooter className="flex flex-col gap-3">
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={
+              isSubmitting || (!useRecoveryCode && code.length < OTP_LENGTH)
+            }
+          >
+            {t('Pages.Auth.SignIn.Verify')}
+          </Button>
+
+          <Button
+            type="button"
+            variant="link"
+            className="text-muted-foreground"
+            onClick={toggleRecoveryCode}
+          >
+            {useRecoveryCode
+              ? t('Pages.Auth.SignIn.UseAuthenticator')
+              : t('Pages.Auth.SignIn.UseRecoveryCode')}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+};
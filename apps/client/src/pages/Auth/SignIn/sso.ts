@@ -0,0 +1,32 @@
+/**
+ * The state of a started SSO sign-in is kept for the tab, so the callback
+ * page only accepts authorization responses this browser asked for.
+ */
+const SSO_STATE_KEY = 'auth.sso';
+
+export interface OidcAuthorization {
+  authorizationUrl: string;
+  state: string;
+}
+
+interface PendingSsoSignIn {
+  state: string;
+  /** Page to return to after signing in */
+  redirect?: string | undefined;
+}
+
+export const rememberSsoSignIn = (pending: PendingSsoSignIn) => {
+  sessionStorage.setItem(SSO_STATE_KEY, JSON.stringify(pending));
+};
+
+/** Returns the remembered sign-in once */
+export const consumeSsoSignIn = (): PendingSsoSignIn | null => {
+  const stored = sessionStorage.getItem(SSO_STATE_KEY);
+  sessionStorage.removeItem(SSO_STATE_KEY);
+
+  try {
+    return stored ? (JSON.parse(stored) as PendingSsoSignIn) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,34 @@
+import { useNavigate } from '@tanstack/react-router';
+import { useCallback } from 'react';
+import { useAuth } from '@/hooks';
+import type { ApiResult, publicApiClient } from '@/lib/api/client';
+import { safeRedirect, toAuthUser } from '@/lib/auth';
+import { PATHNAMES } from '@/lib/paths/pathnames';
+
+/** Session issued by password, two-factor and SSO sign-in and by sign-up */
+export type AuthSession = Extract<
+  ApiResult<typeof publicApiClient.auth.signin.$post>,
+  { accessToken: string }
+>;
+
+/**
+ * Stores the session and continues to the page that required sign-in
+ * (or home)
+ */
+export const useCompleteSignIn = () => {
+  const navigate = useNavigate();
+  const { signin } = useAuth();
+
+  return useCallback(
+    async (
+      { accessToken, refreshToken, user }: AuthSession,
+      redirect?: string
+    ) => {
+      signin({ token: accessToken, refreshToken, user: toAuthUser(user) });
+
+      const target = safeRedirect(redirect);
+      await (target ? navigate({ href: target }) : navigate(PATHNAMES.home()));
+    },
+    [navigate, signin]
+  );
+};
@@ -1,7 +1,10 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { signUpResultSchema } from '@repo/shared';
 import { Link } from '@tanstack/react-router';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
 import { useTranslation } from 'react-i18next';
-import { Button, Input, Label } from '@/components/atoms';
+import { Button, Input } from '@/components/atoms';
 import { PasswordStrengthIndicator } from '@/components/molecules';
 import {
   Card,
@@ -11,12 +14,73 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useApi } from '@/hooks';
+import { publicApiClient } from '@/lib/api/client';
+import { applyServerErrors } from '@/lib/form-errors';
 import { PATHNAMES } from '@/lib/paths/pathnames';
 import { AuthPageLayout } from '@/templates';
+import { toast } from '@/utils';
+import { signUpSchema } from '../schemas';
+import type { SignUpValues } from '../schemas';
+import { useCompleteSignIn } from '../SignIn/useCompleteSignIn';
 
 export const SignUpPage = () => {
   const { t } = useTranslation(['translation', 'common']);
-  const [password, setPassword] = useState('');
+  const api = useApi();
+  const completeSignIn = useCompleteSignIn();
+  const [isPendingVerification, setIsPendingVerification] = useState(false);
+
+  const schema = useMemo(() => signUpSchema(), [t]);
+  const form = useForm<SignUpValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      firstName: '',
+      lastName: '',
+      email: '',
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  const handleSubmit = form.handleSubmit(
+    async ({ firstName, lastName, email, password }) => {
+      try {
+        const result = await api.call(
+          publicApiClient.auth.signup.$post({
+            json: {
+              email,
+              password,
+              firstName: firstName.trim() || undefined,
+              lastName: lastName.trim() || undefined,
+            },
+          }),
+          signUpResultSchema
+        );
+
+        if ('verificationRequired' in result) {
+          setIsPendingVerification(true);
+          return;
+        }
+        await completeSignIn(result);
+      } catch (err) {
+        if (applyServerErrors(form, err)) return;
+
+        toast({
+          title: t('Pages.Auth.SignUp.Error'),
+          description: err instanceof Error ? err.message : undefined,
+          variant: 'error',
+        });
+      }
+    }
+  );
 
   return (
     <AuthPageLayout t={t}>
@@ -30,104 +94,175 @@ export const SignUpPage = () => {
           </CardDescription>
         </CardHeader>
 
-        <form
-          onSubmit={event => {
-            event.preventDefault();
-          }}
-        >
-          <CardContent className="space-y-4">
-            <div className="grid gap-4 md:grid-cols-2">
-              <div className="space-y-2">
-                <Label htmlFor="firstName">
-                  {t('Pages.Auth.SignUp.FirstNameLabel')}
-                </Label>
-                <Input
-                  id="firstName"
-                  placeholder={t('Pages.Auth.SignUp.FirstNamePlaceholder')}
-                  autoComplete="given-name"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="lastName">
-                  {t('Pages.Auth.SignUp.LastNameLabel')}
-                </Label>
-                <Input
-                  id="lastName"
-                  placeholder={t('Pages.Auth.SignUp.LastNamePlaceholder')}
-                  autoComplete="family-name"
-                />
-              </div>
-            </div>
+        <Form {...form}>
+          <form onSubmit={handleSubmit} noValidate>
+            <CardContent className="space-y-4">
+              {isPendingVerification ? (
+                <p className="text-sm text-muted-foreground" role="status">
+                  {t('Pages.Auth.SignUp.VerificationSent')}
+                </p>
+              ) : (
+                <>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="firstName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            {t('Pages.Auth.SignUp.FirstNameLabel')}
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder={t(
+                                'Pages.Auth.SignUp.FirstNamePlaceholder'
+                              )}
+                              autoComplete="given-name"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="lastName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            {t('Pages.Auth.SignUp.LastNameLabel')}
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder={t(
+                                'Pages.Auth.SignUp.LastNamePlaceholder'
+                              )}
+                              autoComplete="family-name"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="email">
-                {t('Pages.Auth.SignUp.EmailLabel')}
-              </Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder={t('Pages.Auth.SignUp.EmailPlaceholder')}
-                autoComplete="email"
-              />
-            </div>
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {t('Pages.Auth.SignUp.EmailLabel')}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="email"
+                            placeholder={t(
+                              'Pages.Auth.SignUp.EmailPlaceholder'
+                            )}
+                            autoComplete="email"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-            <div className="space-y-2">
-              <Label htmlFor="password">
-                {t('Pages.Auth.SignUp.PasswordLabel')}
-              </Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder={t('Pages.Auth.SignUp.PasswordPlaceholder')}
-                autoComplete="new-password"
-                value={password}
-                onChange={event => setPassword(event.target.value)}
-              />
-              <PasswordStrengthIndicator
-                password={password}
-                labels={{
-                  title: t('Components.Molecules.PasswordStrength.Label'),
-                  levels: [
-                    t('Components.Molecules.PasswordStrength.VeryWeak'),
-                    t('Components.Molecules.PasswordStrength.Weak'),
-                    t('Components.Molecules.PasswordStrength.Fair'),
-                    t('Components.Molecules.PasswordStrength.Good'),
-                    t('Components.Molecules.PasswordStrength.Strong'),
-                    t('Components.Molecules.PasswordStrength.VeryStrong'),
-                  ],
-                }}
-              />
-            </div>
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {t('Pages.Auth.SignUp.PasswordLabel')}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder={t(
+                              'Pages.Auth.SignUp.PasswordPlaceholder'
+                            )}
+                            autoComplete="new-password"
+                            {...field}
+                          />
+                        </FormControl>
+                        <PasswordStrengthIndicator
+                          password={field.value}
+                          labels={{
+                            title: t(
+                              'Components.Molecules.PasswordStrength.Label'
+                            ),
+                            levels: [
+                              t(
+                                'Components.Molecules.PasswordStrength.VeryWeak'
+                              ),
+                              t('Components.Molecules.PasswordStrength.Weak'),
+                              t('Components.Molecules.PasswordStrength.Fair'),
+                              t('Components.Molecules.PasswordStrength.Good'),
+                              t('Components.Molecules.PasswordStrength.Strong'),
+                              t(
+                                'Components.Molecules.PasswordStrength.VeryStrong'
+                              ),
+                            ],
+                          }}
+                        />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-            <div className="space-y-2">
-              <Label htmlFor="confirmPassword">
-                {t('Pages.Auth.SignUp.ConfirmPasswordLabel')}
-              </Label>
-              <Input
-                id="confirmPassword"
-                type="password"
-                placeholder={t('Pages.Auth.SignUp.ConfirmPasswordPlaceholder')}
-                autoComplete="new-password"
-              />
-            </div>
-          </CardContent>
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {t('Pages.Auth.SignUp.ConfirmPasswordLabel')}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder={t(
+                              'Pages.Auth.SignUp.ConfirmPasswordPlaceholder'
+                            )}
+                            autoComplete="new-password"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+            </CardContent>
 
-          <CardFooter className="flex flex-col gap-3">
-            <Button type="submit" className="w-full">
-              {t('Pages.Auth.SignUp.Submit')}
-            </Button>
+            <CardFooter className="flex flex-col gap-3">
+              {!isPendingVerification && (
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={form.formState.isSubmitting}
+                >
+                  {t('Pages.Auth.SignUp.Submit')}
+                </Button>
+              )}
 
-            <div className="text-sm text-muted-foreground">
-              {t('Pages.Auth.SignUp.HaveAccount')}{' '}
-              <Link
-                {...PATHNAMES.signIn()}
-                className="text-foreground hover:underline"
-              >
-                {t('Pages.Auth.SignUp.SignInLink')}
-              </Link>
-            </div>
-          </CardFooter>
-        </form>
+              <div className="text-sm text-muted-foreground">
+                {t('Pages.Auth.SignUp.HaveAccount')}{' '}
+                <Link
+                  {...PATHNAMES.signIn()}
+                  className="text-foreground hover:underline"
+                >
+                  {t('Pages.Auth.SignUp.SignInLink')}
+                </Link>
+              </div>
+            </CardFooter>
+          </form>
+        </Form>
       </Card>
     </AuthPageLayout>
   );
@@ -0,0 +1,94 @@
+import { signInResultSchema } from '@repo/shared';
+import { Link, useSearch } from '@tanstack/react-router';
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useApi } from '@/hooks';
+import { publicApiClient } from '@/lib/api/client';
+import { PATHNAMES } from '@/lib/paths/pathnames';
+import { AuthPageLayout } from '@/templates';
+import { consumeSsoSignIn } from '../SignIn/sso';
+import { TwoFactorForm } from '../SignIn/TwoFactorForm';
+import { useCompleteSignIn } from '../SignIn/useCompleteSignIn';
+
+export const SsoCallbackPage = () => {
+  const { t } = useTranslation();
+  const { code, state, error } = useSearch({ from: '/auth/sso/callback' });
+  const api = useApi();
+  const completeSignIn = useCompleteSignIn();
+  const [failure, setFailure] = useState<string | null>(null);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [redirect, setRedirect] = useState<string | undefined>();
+  // Codes and states are single-use, so the request must not repeat on re-render
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const pending = consumeSsoSignIn();
+    if (error || !code || !state || state !== pending?.state) {
+      setFailure(error ?? t('Pages.Auth.SsoCallback.InvalidResponse'));
+      return;
+    }
+
+    api
+      .call(
+        publicApiClient.auth.oidc.callback.$post({ json: { code, state } }),
+        signInResultSchema
+      )
+      .then(result => {
+        if ('twoFactorRequired' in result) {
+          setRedirect(pending.redirect);
+          setChallengeToken(result.challengeToken);
+          return;
+        }
+        return completeSignIn(result, pending.redirect);
+      })
+      .catch((err: unknown) =>
+        setFailure(err instanceof Error ? err.message : '')
+      );
+  }, [api, code, state, error, completeSignIn, t]);
+
+  if (challengeToken) {
+    return (
+      <AuthPageLayout t={t}>
+        <TwoFactorForm challengeToken={challengeToken} redirect={redirect} />
+      </AuthPageLayout>
+    );
+  }
+
+  return (
+    <AuthPageLayout t={t}>
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold">
+            {failure === null
+              ? t('Pages.Auth.SsoCallback.Title')
+              : t('Pages.Auth.SsoCallback.Failed')}
+          </CardTitle>
+          <CardDescription>
+            {failure ?? t('Pages.Auth.SsoCallback.SigningIn')}
+          </CardDescription>
+        </CardHeader>
+
+        {failure !== null && (
+          <CardFooter className="justify-center">
+            <Link
+              {...PATHNAMES.signIn()}
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {t('Pages.Auth.SsoCallback.BackToSignIn')}
+            </Link>
+          </CardFooter>
+        )}
+      </Card>
+    </AuthPageLayout>
+  );
+};
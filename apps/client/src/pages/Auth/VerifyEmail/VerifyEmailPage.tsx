@@ -0,0 +1,124 @@
+import { Link, useParams } from '@tanstack/react-router';
+import { useEffect, useRef, useState } from 'react';
+import type { FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, Input, Label } from '@/components/atoms';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { useApi } from '@/hooks';
+import { publicApiClient } from '@/lib/api/client';
+import { refreshSessionClaims } from '@/lib/auth';
+import { PATHNAMES } from '@/lib/paths/pathnames';
+import { AuthPageLayout } from '@/templates';
+import { toast } from '@/utils';
+
+type VerificationStatus = 'verifying' | 'verified' | 'failed';
+
+export const VerifyEmailPage = () => {
+  const { t } = useTranslation();
+  const { token } = useParams({ from: '/auth/verify-email/$token' });
+  const api = useApi();
+  const [status, setStatus] = useState<VerificationStatus>('verifying');
+  const [email, setEmail] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Tokens are single-use, so the request must not repeat on re-render
+  const requestedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (requestedToken.current === token) return;
+    requestedToken.current = token;
+
+    api
+      .call(
+        publicApiClient.auth['verify-email'][':token'].$post({
+          param: { token },
+        })
+      )
+      .then(() => {
+        setStatus('verified');
+        // A signed-in tab still holds a token with email_verified false
+        return refreshSessionClaims();
+      })
+      .catch(() => setStatus('failed'));
+  }, [api, token]);
+
+  const handleResend = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await api.call(
+        publicApiClient.auth['resend-verification'].$post({ json: { email } })
+      );
+      toast({
+        title: t('Pages.Auth.VerifyEmail.ResendSuccess'),
+        variant: 'success',
+      });
+    } catch (err) {
+      toast({
+        title: t('Pages.Auth.VerifyEmail.ResendError'),
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'error',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthPageLayout t={t}>
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold">
+            {t('Pages.Auth.VerifyEmail.Title')}
+          </CardTitle>
+          <CardDescription>
+            {status === 'verifying' && t('Pages.Auth.VerifyEmail.Verifying')}
+            {status === 'verified' && t('Pages.Auth.VerifyEmail.Verified')}
+            {status === 'failed' && t('Pages.Auth.VerifyEmail.Failed')}
+          </CardDescription>
+        </CardHeader>
+
+        {status === 'failed' && (
+          <form onSubmit={handleResend}>
+            <CardContent className="space-y-2">
+              <Label htmlFor="email">
+                {t('Pages.Auth.VerifyEmail.EmailLabel')}
+              </Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder={t('Pages.Auth.VerifyEmail.EmailPlaceholder')}
+                autoComplete="email"
+                required
+                value={email}
+                onChange={event => setEmail(event.target.value)}
+              />
+            </CardContent>
+
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {t('Pages.Auth.VerifyEmail.Resend')}
+              </Button>
+            </CardFooter>
+          </form>
+        )}
+
+        <CardFooter className="justify-center">
+          <Link
+            {...PATHNAMES.signIn()}
+            className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {t('Pages.Auth.VerifyEmail.BackToSignIn')}
+          </Link>
+        </CardFooter>
+      </Card>
+    </AuthPageLayout>
+  );
+};
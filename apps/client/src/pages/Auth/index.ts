@@ -2,3 +2,5 @@ export * from './SignIn/SignInPage';
 export * from './SignUp/SignUpPage';
 export * from './ForgotPassword/ForgotPasswordPage';
 export * from './ResetPassword/ResetPasswordPage';
+export * from './VerifyEmail/VerifyEmailPage';
+export * from './SsoCallback/SsoCallbackPage';
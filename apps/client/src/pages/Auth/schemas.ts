@@ -0,0 +1,57 @@
+import { PASSWORD_MIN_LENGTH } from '@repo/shared';
+import { z } from 'zod';
+import {
+  matchPasswords,
+  passwordsDontMatch,
+  requiredEmail,
+  requiredMinLength,
+  requiredString,
+  string,
+} from '@/lib/validation';
+
+// Factories, because the messages are translated when the schema is built
+
+export const signInSchema = () =>
+  z.object({
+    email: requiredEmail(),
+    password: requiredString(),
+  });
+
+export const signUpSchema = () =>
+  z
+    .object({
+      firstName: string(),
+      lastName: string(),
+      email: requiredEmail(),
+      password: requiredMinLength(PASSWORD_MIN_LENGTH),
+      confirmPassword: requiredString(),
+    })
+    .refine(matchPasswords('password', 'confirmPassword').check, {
+      message: passwordsDontMatch(),
+      path: ['confirmPassword'],
+    });
+
+export const forgotPasswordSchema = () =>
+  z.object({
+    email: requiredEmail(),
+  });
+
+export const resetPasswordSchema = () =>
+  z
+    .object({
+      password: requiredMinLength(PASSWORD_MIN_LENGTH),
+      confirmPassword: requiredString(),
+    })
+    .refine(matchPasswords('password', 'confirmPassword').check, {
+      message: passwordsDontMatch(),
+      path: ['confirmPassword'],
+    });
+
+export type SignInValues = z.infer<ReturnType<typeof signInSchema>>;
+export type SignUpValues = z.infer<ReturnType<typeof signUpSchema>>;
+export type ForgotPasswordValues = z.infer<
+  ReturnType<typeof forgotPasswordSchema>
+>;
+export type ResetPasswordValues = z.infer<
+  ReturnType<typeof resetPasswordSchema>
+>;
@@ -107,6 +107,7 @@ import Button from '@/components/atoms/Button';`,
       'Centralize API endpoints in lib/api/endpoints.ts.',
       'Use PATHNAMES in Link/router to avoid hardcoded strings.',
       'Use endpoints helpers for REST calls to keep URL changes in one place.',
+      'Prefer the typed apiClient (lib/api/client.ts) inferred from the server AppType.',
     ],
     code: `// routes
 import { PATHNAMES } from '@/lib/paths/pathnames';
@@ -114,7 +115,11 @@ import { PATHNAMES } from '@/lib/paths/pathnames';
 
 // API
 import { API_ENDPOINTS } from '@/lib/api/endpoints';
-fetch(API_ENDPOINTS.signIn())`,
+fetch(API_ENDPOINTS.signIn())
+
+// typed API (types from pnpm --filter server-template build:types)
+import { apiClient, unwrapResponse } from '@/lib/api/client';
+const me = await unwrapResponse(apiClient.auth.me.$get());`,
   },
   {
     title: 'Linting & Formatting',
@@ -3,15 +3,27 @@ import {
   ApolloLink,
   HttpLink,
   InMemoryCache,
+  Observable,
   split,
 } from '@apollo/client';
 import { setContext } from '@apollo/client/link/context';
 import { onError } from '@apollo/client/link/error';
+import { PersistedQueryLink } from '@apollo/client/link/persisted-queries';
 import { GraphQLWsLink } from '@apollo/client/link/subscriptions';
 import { getMainDefinition } from '@apollo/client/utilities';
-import { CombinedGraphQLErrors } from '@apollo/client/errors';
+import { CombinedGraphQLErrors, ServerError } from '@apollo/client/errors';
 import { createClient } from 'graphql-ws';
-import { getGraphQLUrls, getToken } from '@/lib/api/apollo-client-helper';
+import {
+  getGraphQLUrls,
+  getToken,
+  sha256,
+} from '@/lib/api/apollo-client-helper';
+import { fromGraphQLError, getGraphQLProblems } from '@/lib/api/graphql-errors';
+import {
+  onTokenRefreshed,
+  refreshAccessToken,
+  waitForTokenRefresh,
+} from '@/lib/auth/token-refresh';
 
 export type ApolloUrls = {
   httpUrl: string;
@@ -19,6 +31,13 @@ export type ApolloUrls = {
 };
 
 export type GetTokenFn = () => string | null;
+
+interface AuthContext {
+  /** Token the operation was sent with */
+  authToken?: string | null;
+  /** Set on the replay, so a second 401 is not refreshed again */
+  tokenRefreshed?: boolean;
+}
 const toWsUrl = (httpUrl: string): string => {
   try {
     const url = new URL(httpUrl);
@@ -33,12 +52,18 @@ const createApolloLink = (
   urls: ApolloUrls,
   getTokenFn: GetTokenFn
 ): ApolloLink => {
-  const httpLink = new HttpLink({
-    uri: urls.httpUrl,
-    credentials: 'include',
-  });
+  // Sends the operation hash first; the document follows only when the
+  // server does not know it yet (never in strict mode, see the manifest)
+  const httpLink = new PersistedQueryLink({ sha256 }).concat(
+    new HttpLink({
+      uri: urls.httpUrl,
+      credentials: 'include',
+    })
+  );
+
+  const authLink = setContext(async (_, previousContext) => {
+    await waitForTokenRefresh();
 
-  const authLink = setContext((_, previousContext) => {
     const token = getTokenFn();
     const headers = (previousContext.headers ?? {}) as Record<string, string>;
 
@@ -47,19 +72,54 @@ const createApolloLink = (
         ...headers,
         ...(token ? { Authorization: `Bearer ${token}` } : {}),
       },
+      authToken: token,
     };
   });
 
-  const errorLink = onError(({ error, operation }) => {
+  const errorLink = onError(({ error, operation, forward }) => {
+    const { authToken, tokenRefreshed } = operation.getContext() as AuthContext;
+    const problems = getGraphQLProblems(error);
+
+    // Expired access token: refresh once, then replay through authLink
+    const unauthorized =
+      (ServerError.is(error) && error.statusCode === 401) ||
+      problems.some(problem => problem.status === 401);
+
+    if (unauthorized && authToken && !tokenRefreshed) {
+      return new Observable(observer => {
+        let subscription: { unsubscribe: () => void } | undefined;
+
+        refreshAccessToken(authToken).then(
+          () => {
+            operation.setContext({ tokenRefreshed: true });
+            subscription = forward(operation).subscribe(observer);
+          },
+          (refreshError: unknown) => observer.error(refreshError)
+        );
+
+        return () => subscription?.unsubscribe();
+      });
+    }
+
     if (CombinedGraphQLErrors.is(error)) {
       console.warn(
         `[GQL errors] ${operation.operationName ?? 'unknown'}`,
-        error.errors
+        error.errors.map(item => {
+          const problem = fromGraphQLError(item);
+          return problem
+            ? {
+                code: problem.code,
+                message: problem.message,
+                requestId: problem.requestId,
+              }
+            : item;
+        })
       );
       return;
     }
 
     console.error('[Network error]', error);
+    return;
   });
 
   let wsLink: ApolloLink | null = null;
@@ -82,6 +142,11 @@ const createApolloLink = (
       },
     });
 
+    // Subscriptions reconnect with the new token in connectionParams. The
+    // server answers operations with an expired token with a 401 problem,
+    // which errorLink refreshes and replays like on HTTP.
+    onTokenRefreshed(() => wsClient.terminate());
+
     wsLink = new GraphQLWsLink(wsClient);
   }
 
@@ -16,6 +16,8 @@ import { Route as IndexRouteImport } from './routes/index'
 import { Route as AuthSignupRouteImport } from './routes/auth/signup'
 import { Route as AuthSigninRouteImport } from './routes/auth/signin'
 import { Route as AuthForgotPasswordRouteImport } from './routes/auth/forgot-password'
+import { Route as AuthVerifyEmailTokenRouteImport } from './routes/auth/verify-email/$token'
+import { Route as AuthSsoCallbackRouteImport } from './routes/auth/sso/callback'
 import { Route as AuthResetPasswordTokenRouteImport } from './routes/auth/reset-password/$token'
 
 const NotAuthorizedRoute = NotAuthorizedRouteImport.update({
@@ -53,6 +55,16 @@ const AuthForgotPasswordRoute = AuthForgotPasswordRouteImport.update({
   path: '/auth/forgot-password',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AuthVerifyEmailTokenRoute = AuthVerifyEmailTokenRouteImport.update({
+  id: '/auth/verify-email/$token',
+  path: '/auth/verify-email/$token',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AuthSsoCallbackRoute = AuthSsoCallbackRouteImport.update({
+  id: '/auth/sso/callback',
+  path: '/auth/sso/callback',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AuthResetPasswordTokenRoute = AuthResetPasswordTokenRouteImport.update({
   id: '/auth/reset-password/$token',
   path: '/auth/reset-password/$token',
@@ -68,6 +80,8 @@ export interface FileRoutesByFullPath {
   '/auth/signin': typeof AuthSigninRoute
   '/auth/signup': typeof AuthSignupRoute
   '/auth/reset-password/$token': typeof AuthResetPasswordTokenRoute
+  '/auth/sso/callback': typeof AuthSsoCallbackRoute
+  '/auth/verify-email/$token': typeof AuthVerifyEmailTokenRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -78,6 +92,8 @@ export interface FileRoutesByTo {
   '/auth/signin': typeof AuthSigninRoute
   '/auth/signup': typeof AuthSignupRoute
   '/auth/reset-password/$token': typeof AuthResetPasswordTokenRoute
+  '/auth/sso/callback': typeof AuthSsoCallbackRoute
+  '/auth/verify-email/$token': typeof AuthVerifyEmailTokenRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -89,6 +105,8 @@ export interface FileRoutesById {
   '/auth/signin': typeof AuthSigninRoute
   '/auth/signup': typeof AuthSignupRoute
   '/auth/reset-password/$token': typeof AuthResetPasswordTokenRoute
+  '/auth/sso/callback': typeof AuthSsoCallbackRoute
+  '/auth/verify-email/$token': typeof AuthVerifyEmailTokenRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -101,6 +119,8 @@ export interface FileRouteTypes {
     | '/auth/signin'
     | '/auth/signup'
     | '/auth/reset-password/$token'
+    | '/auth/sso/callback'
+    | '/auth/verify-email/$token'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -111,6 +131,8 @@ export interface FileRouteTypes {
     | '/auth/signin'
     | '/auth/signup'
     | '/auth/reset-password/$token'
+    | '/auth/sso/callback'
+    | '/auth/verify-email/$token'
   id:
     | '__root__'
     | '/'
@@ -121,6 +143,8 @@ export interface FileRouteTypes {
     | '/auth/signin'
     | '/auth/signup'
     | '/auth/reset-password/$token'
+    | '/auth/sso/callback'
+    | '/auth/verify-email/$token'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -132,6 +156,8 @@ export interface RootRouteChildren {
   AuthSigninRoute: typeof AuthSigninRoute
   AuthSignupRoute: typeof AuthSignupRoute
   AuthResetPasswordTokenRoute: typeof AuthResetPasswordTokenRoute
+  AuthSsoCallbackRoute: typeof AuthSsoCallbackRoute
+  AuthVerifyEmailTokenRoute: typeof AuthVerifyEmailTokenRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -185,6 +211,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthForgotPasswordRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/auth/verify-email/$token': {
+      id: '/auth/verify-email/$token'
+      path: '/auth/verify-email/$token'
+      fullPath: '/auth/verify-email/$token'
+      preLoaderRoute: typeof AuthVerifyEmailTokenRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/auth/sso/callback': {
+      id: '/auth/sso/callback'
+      path: '/auth/sso/callback'
+      fullPath: '/auth/sso/callback'
+      preLoaderRoute: typeof AuthSsoCallbackRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/auth/reset-password/$token': {
       id: '/auth/reset-password/$token'
       path: '/auth/reset-password/$token'
@@ -204,6 +244,8 @@ const rootRouteChildren: RootRouteChildren = {
   AuthSigninRoute: AuthSigninRoute,
   AuthSignupRoute: AuthSignupRoute,
   AuthResetPasswordTokenRoute: AuthResetPasswordTokenRoute,
+  AuthSsoCallbackRoute: AuthSsoCallbackRoute,
+  AuthVerifyEmailTokenRoute: AuthVerifyEmailTokenRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -1,5 +1,6 @@
 import * as React from 'react';
 import { Outlet, createRootRoute } from '@tanstack/react-router';
+import { hydrateAuth } from '@/lib/auth';
 import { NotFoundPage } from '@/pages';
 
 const RootComponent = () => {
@@ -11,6 +12,7 @@ const RootComponent = () => {
 };
 
 export const Route = createRootRoute({
+  beforeLoad: () => hydrateAuth(),
   component: RootComponent,
   notFoundComponent: NotFoundPage,
 });
@@ -1,10 +1,18 @@
 import { createFileRoute } from '@tanstack/react-router';
 import { SignInPage } from '@/pages';
 
+interface SignInSearch {
+  /** Page to return to after signing in */
+  redirect?: string | undefined;
+}
+
 const RouteComponent = () => {
   return <SignInPage />;
 };
 
 export const Route = createFileRoute('/auth/signin')({
+  validateSearch: (search: Record<string, unknown>): SignInSearch => ({
+    redirect: typeof search.redirect === 'string' ? search.redirect : undefined,
+  }),
   component: RouteComponent,
 });
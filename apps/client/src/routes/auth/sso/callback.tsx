@@ -0,0 +1,21 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { SsoCallbackPage } from '@/pages';
+
+interface SsoCallbackSearch {
+  code?: string | undefined;
+  state?: string | undefined;
+  error?: string | undefined;
+}
+
+const RouteComponent = () => {
+  return <SsoCallbackPage />;
+};
+
+export const Route = createFileRoute('/auth/sso/callback')({
+  validateSearch: (search: Record<string, unknown>): SsoCallbackSearch => ({
+    code: typeof search.code === 'string' ? search.code : undefined,
+    state: typeof search.state === 'string' ? search.state : undefined,
+    error: typeof search.error === 'string' ? search.error : undefined,
+  }),
+  component: RouteComponent,
+});
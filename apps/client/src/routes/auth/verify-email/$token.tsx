@@ -0,0 +1,10 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { VerifyEmailPage } from '@/pages';
+
+const RouteComponent = () => {
+  return <VerifyEmailPage />;
+};
+
+export const Route = createFileRoute('/auth/verify-email/$token')({
+  component: RouteComponent,
+});
@@ -1,4 +1,5 @@
 import { createFileRoute } from '@tanstack/react-router';
+import { requireAuth } from '@/lib/auth';
 import { HomePage } from '@/pages';
 
 const RouteComponent = () => {
@@ -6,5 +7,6 @@ const RouteComponent = () => {
 };
 
 export const Route = createFileRoute('/')({
+  beforeLoad: requireAuth,
   component: RouteComponent,
 });
@@ -1,22 +1,85 @@
 import { create } from 'zustand';
-import { AuthCredentials, AuthUser } from './types';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { StateStorage } from 'zustand/middleware';
+import { config } from '@/config';
+import { AuthCredentials, AuthTokens, AuthUser } from './types';
 
 interface AuthState {
   token: string | null;
+  refreshToken: string | null;
   user: AuthUser | null;
   signin: (credentials: AuthCredentials) => void;
+  setTokens: (tokens: AuthTokens) => void;
+  setUser: (user: AuthUser) => void;
   signout: () => void;
 }
 
-export const useAuthStore = create<AuthState>(set => ({
-  token: null,
-  user: null,
-  signin: ({ token, user }) => set({ token, user }),
-  signout: () => set({ token: null, user: null }),
-}));
+const AUTH_STORAGE_KEY = 'auth';
+
+const createMemoryStorage = (): StateStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: name => items.get(name) ?? null,
+    setItem: (name, value) => {
+      items.set(name, value);
+    },
+    removeItem: name => {
+      items.delete(name);
+    },
+  };
+};
+
+/**
+ * Storage selected by VITE_AUTH_STORAGE; memory keeps the session for the
+ * lifetime of the page only
+ */
+const authStorage = (): StateStorage => {
+  switch (config.AUTH_STORAGE) {
+    case 'session':
+      return sessionStorage;
+    case 'memory':
+      return createMemoryStorage();
+    default:
+      return localStorage;
+  }
+};
+
+export const useAuthStore = create<AuthState>()(
+  persist(
+    set => ({
+      token: null,
+      refreshToken: null,
+      user: null,
+      signin: ({ token, refreshToken = null, user }) =>
+        set({ token, refreshToken, user }),
+      setTokens: ({ token, refreshToken }) => set({ token, refreshToken }),
+      setUser: user => set({ user }),
+      signout: () => set({ token: null, refreshToken: null, user: null }),
+    }),
+    {
+      name: AUTH_STORAGE_KEY,
+      storage: createJSONStorage(authStorage),
+      partialize: ({ token, refreshToken, user }) => ({
+        token,
+        refreshToken,
+        user,
+      }),
+    }
+  )
+);
 
 export const useToken = () => useAuthStore(state => state.token);
 export const useUser = () => useAuthStore(state => state.user);
 export const useIsAuthenticated = () => useAuthStore(state => !!state.token);
 export const useSignin = () => useAuthStore(state => state.signin);
 export const useSignout = () => useAuthStore(state => state.signout);
+
+// Sign-in, refresh and sign-out in other tabs; only localStorage fires
+// storage events across tabs
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', event => {
+    if (event.key === AUTH_STORAGE_KEY) {
+      void useAuthStore.persist.rehydrate();
+    }
+  });
+}
@@ -7,5 +7,11 @@ export interface AuthUser {
 
 export interface AuthCredentials {
   token: string | null;
+  refreshToken?: string | null | undefined;
   user: AuthUser | null;
 }
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
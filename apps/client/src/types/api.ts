@@ -8,6 +8,7 @@ import type {
   ProblemFieldError,
   SuccessEnvelope,
 } from '@repo/shared';
+import type { z } from 'zod';
 
 export type SuccessApiResponse<T = unknown> = SuccessEnvelope<T>;
 export type ErrorApiResponse = ErrorEnvelope;
@@ -34,22 +35,25 @@ export const isValidationResponse = (
 export interface RequestState<T = unknown> {
   data: T | null;
   isLoading: boolean;
-  error: string | null;
+  /** `ApiError` with the problem details when the server answered */
+  error: Error | null;
 }
 
-export interface RequestOptions extends RequestInit {
+export interface RequestOptions<T = unknown> extends RequestInit {
   onSuccess?: (data: unknown) => void;
-  onError?: (error: string) => void;
+  onError?: (error: Error) => void;
   skipAuth?: boolean;
+  /** Expected `data`, checked when response validation is on */
+  schema?: z.ZodType<T>;
 }
 
 export interface UseRequestReturn<T = unknown> extends RequestState<T> {
-  request: (url: string, options?: RequestOptions) => Promise<void>;
+  request: (url: string, options?: RequestOptions<T>) => Promise<void>;
   clearError: () => void;
   clearData: () => void;
 }
 
 export interface UseFetchRequestReturn<T = unknown>
   extends UseRequestReturn<T> {
-  refetch: (optionsUpdate?: RequestOptions) => void;
+  refetch: (optionsUpdate?: RequestOptions<T>) => void;
 }
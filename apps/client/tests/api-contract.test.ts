@@ -0,0 +1,59 @@
+import { authUserSchema } from '@repo/shared';
+import { ApiContractError, validateApiResponse } from '@/lib/api/fetch-utils';
+
+const meta = { requestId: 'req-42', timestamp: '2025-01-15T10:30:00.000Z' };
+
+const user = {
+  id: 'user-1',
+  email: 'jane.doe@example.com',
+  active: true,
+  role: 'user',
+  emailVerified: true,
+};
+
+describe('validateApiResponse', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('passes responses that match the contract', () => {
+    const response = { success: true, data: user, error: null, meta };
+
+    expect(validateApiResponse('/auth/me', response, authUserSchema)).toEqual(
+      response
+    );
+  });
+
+  it('raises ApiContractError with the request ID on drift', () => {
+    const response = {
+      success: true,
+      data: { ...user, role: 'owner' },
+      error: null,
+      meta,
+    } as const;
+
+    let thrown: unknown;
+    try {
+      validateApiResponse('/auth/me', response, authUserSchema);
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(ApiContractError);
+    expect(thrown).toMatchObject({
+      requestId: 'req-42',
+      issues: [expect.objectContaining({ path: ['data', 'role'] })],
+    });
+    expect(console.error).toHaveBeenCalledOnce();
+  });
+
+  it('only checks calls that pass a schema', () => {
+    const response = { success: true, data: 'anything', error: null, meta };
+
+    expect(validateApiResponse('/health', response)).toBe(response);
+  });
+});
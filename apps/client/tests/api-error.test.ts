@@ -0,0 +1,73 @@
+import { AUTH_CODES } from '@repo/shared';
+import {
+  ApiError,
+  ApiValidationError,
+  isProblem,
+  toApiError,
+} from '@/lib/api/fetch-utils';
+import type { ApiResponse } from '@/types/api';
+
+const meta = { requestId: 'req-42', timestamp: '2025-01-15T10:30:00.000Z' };
+
+const problemResponse = (
+  status: number,
+  code: string,
+  errors: { field: string; message: string }[] = []
+): ApiResponse<unknown> => ({
+  success: false,
+  data: null,
+  error: {
+    type: '/problems/test',
+    title: 'Problem',
+    status,
+    detail: 'Something went wrong',
+    instance: '/auth/signin',
+    code,
+    errors,
+  },
+  meta,
+});
+
+describe('toApiError', () => {
+  it('keeps the problem details and response meta', () => {
+    const error = toApiError(
+      new Response(null, { status: 403 }),
+      problemResponse(403, AUTH_CODES.EMAIL_NOT_VERIFIED)
+    );
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      message: 'Something went wrong',
+      status: 403,
+      code: AUTH_CODES.EMAIL_NOT_VERIFIED,
+      requestId: 'req-42',
+    });
+    expect(isProblem(error, AUTH_CODES.EMAIL_NOT_VERIFIED)).toBe(true);
+    expect(isProblem(error, AUTH_CODES.TOKEN_EXPIRED)).toBe(false);
+  });
+
+  it('returns ApiValidationError for 422 field errors', () => {
+    const error = toApiError(
+      new Response(null, { status: 422 }),
+      problemResponse(422, 'E1001', [{ field: 'email', message: 'Invalid' }])
+    );
+
+    expect(error).toBeInstanceOf(ApiValidationError);
+    expect(error.message).toBe('email: Invalid');
+    expect(isProblem(error)).toBe(true);
+  });
+
+  it('derives a problem from the status without an envelope', () => {
+    const error = toApiError(
+      new Response('Bad gateway', { status: 502 }),
+      null
+    );
+
+    expect(error).toMatchObject({
+      status: 502,
+      code: '',
+      requestId: undefined,
+    });
+    expect(isProblem(new Error('offline'))).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { act, renderHook } from '@testing-library/react';
+import { useForm } from 'react-hook-form';
+import { ApiValidationError } from '@/lib/api/fetch-utils';
+import { applyServerErrors } from '@/lib/form-errors';
+import type { ValidationError } from '@/types/api';
+
+const validationError = (errors: ValidationError[]) =>
+  new ApiValidationError({
+    type: '/problems/validation-error',
+    title: 'Validation failed',
+    status: 422,
+    detail: 'invalid',
+    instance: '/users',
+    code: 'E1001',
+    errors,
+  });
+
+const renderForm = () =>
+  renderHook(() =>
+    useForm({ defaultValues: { email: '', profile: { firstName: '' } } })
+  ).result;
+
+describe('applyServerErrors', () => {
+  it('maps pointers and fields of a 422 onto form fields', () => {
+    const form = renderForm();
+    const error = validationError([
+      { pointer: '#/profile/firstName', message: 'Too long' },
+      { field: 'email', message: 'Invalid email' },
+      { field: 'token', message: 'Not a form field' },
+    ]);
+
+    let applied = false;
+    act(() => {
+      applied = applyServerErrors(form.current, error);
+    });
+
+    expect(applied).toBe(true);
+    expect(form.current.getFieldState('email').error?.message).toBe(
+      'Invalid email'
+    );
+    expect(
+      form.current.getFieldState('profile.firstName').error?.message
+    ).toBe('Too long');
+  });
+
+  it('leaves other errors to the caller', () => {
+    const form = renderForm();
+
+    expect(applyServerErrors(form.current, new Error('offline'))).toBe(false);
+    expect(
+      applyServerErrors(
+        form.current,
+        validationError([{ field: 'token', message: 'x' }])
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { CombinedGraphQLErrors } from '@apollo/client/errors';
+import { AUTH_CODES } from '@repo/shared';
+import { ApiValidationError, isProblem } from '@/lib/api/fetch-utils';
+import { fromGraphQLError, getGraphQLProblems } from '@/lib/api/graphql-errors';
+
+const forbidden = {
+  message: 'You do not have permission to perform this action',
+  path: ['users'],
+  extensions: {
+    code: AUTH_CODES.INSUFFICIENT_PERMISSIONS,
+    problemType: 'https://api.template.local/problems/forbidden',
+    status: 403,
+    errors: [],
+    requestId: 'req-42',
+  },
+};
+
+describe('fromGraphQLError', () => {
+  it('reads the problem from the error extensions', () => {
+    const problem = fromGraphQLError(forbidden);
+
+    expect(isProblem(problem, AUTH_CODES.INSUFFICIENT_PERMISSIONS)).toBe(true);
+    expect(problem).toMatchObject({
+      message: forbidden.message,
+      status: 403,
+      requestId: 'req-42',
+    });
+  });
+
+  it('keeps field errors of validation problems', () => {
+    const problem = fromGraphQLError({
+      message: 'The request contains invalid data',
+      extensions: {
+        code: 'E1001',
+        problemType: 'https://api.template.local/problems/validation-error',
+        status: 422,
+        errors: [{ field: 'firstName', message: 'Too long', code: 'E1001' }],
+      },
+    });
+
+    expect(problem).toBeInstanceOf(ApiValidationError);
+    expect((problem as ApiValidationError).errors).toEqual([
+      { field: 'firstName', message: 'Too long', code: 'E1001' },
+    ]);
+  });
+
+  it('ignores errors without problem extensions', () => {
+    expect(
+      fromGraphQLError({
+        message: 'Cannot query field "nope" on type "Query".',
+        extensions: { code: 'GRAPHQL_VALIDATION_FAILED' },
+      })
+    ).toBeNull();
+  });
+});
+
+describe('getGraphQLProblems', () => {
+  it('collects the problems of an Apollo error', () => {
+    const error = new CombinedGraphQLErrors({
+      data: null,
+      errors: [forbidden, { message: 'Unexpected error.' }],
+    });
+
+    expect(getGraphQLProblems(error).map(problem => problem.code)).toEqual([
+      AUTH_CODES.INSUFFICIENT_PERMISSIONS,
+    ]);
+    expect(getGraphQLProblems(new Error('offline'))).toEqual([]);
+  });
+});
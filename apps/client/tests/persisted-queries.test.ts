@@ -0,0 +1,29 @@
+import { sha256 } from '@/lib/api/apollo-client-helper';
+
+describe('sha256', () => {
+  it('hashes operations as hex, like the persisted query manifest ids', async () => {
+    await expect(sha256('abc')).resolves.toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('hashes in JS where crypto.subtle is missing (non-secure origins)', async () => {
+    const operations = [
+      '',
+      'abc',
+      'query Me { me { id email } }',
+      `query Long { ${'field '.repeat(40)}}`,
+      'query Ünïcode { greeting(text: "héllo ✓") }',
+    ];
+    const expected = await Promise.all(operations.map(sha256));
+    vi.stubGlobal('crypto', { ...crypto, subtle: undefined });
+
+    try {
+      await expect(Promise.all(operations.map(sha256))).resolves.toEqual(
+        expected
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import { ApiError } from '@/lib/api/fetch-utils';
+import { refreshSessionClaims } from '@/lib/auth/session';
+import {
+  fetchWithAuth,
+  onTokenRefreshed,
+  SessionExpiredError,
+} from '@/lib/auth/token-refresh';
+import { useAuthStore } from '@/stores/auth';
+import { toast } from '@/utils';
+
+vi.mock('@/utils', () => ({ toast: vi.fn() }));
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const authorization = (init?: RequestInit) =>
+  new Headers(init?.headers).get('Authorization');
+
+describe('token refresh', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    useAuthStore.getState().signin({
+      token: 'expired',
+      refreshToken: 'refresh-1',
+      user: { id: 'user-1' },
+    });
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  /** Stores the tokens like another tab signed in to the same storage */
+  const storeFromOtherTab = (token: string, refreshToken: string) => {
+    localStorage.setItem(
+      'auth',
+      JSON.stringify({
+        state: { token, refreshToken, user: { id: 'user-1' } },
+        version: 0,
+      })
+    );
+  };
+
+  it('refreshes once for concurrent 401s and replays each request', async () => {
+    fetchMock.mockImplementation(async (input, init) => {
+      if (String(input).endsWith('/auth/refresh')) {
+        return json(200, {
+          success: true,
+          data: { accessToken: 'fresh', refreshToken: 'refresh-2' },
+        });
+      }
+      return authorization(init) === 'Bearer fresh'
+        ? json(200, { success: true, data: {} })
+        : json(401, {});
+    });
+    const refreshed = vi.fn();
+    const unsubscribe = onTokenRefreshed(refreshed);
+
+    const responses = await Promise.all([
+      fetchWithAuth('/a'),
+      fetchWithAuth('/b'),
+      fetchWithAuth('/c'),
+    ]);
+    unsubscribe();
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    const refreshCalls = fetchMock.mock.calls.filter(([input]) =>
+      String(input).endsWith('/auth/refresh')
+    );
+    expect(refreshCalls).toHaveLength(1);
+    expect(refreshed).toHaveBeenCalledExactlyOnceWith('fresh');
+    expect(useAuthStore.getState()).toMatchObject({
+      token: 'fresh',
+      refreshToken: 'refresh-2',
+    });
+  });
+
+  it('signs out with one toast when the refresh is rejected', async () => {
+    fetchMock.mockResolvedValue(json(401, {}));
+
+    const results = await Promise.allSettled([
+      fetchWithAuth('/a'),
+      fetchWithAuth('/b'),
+    ]);
+
+    for (const result of results) {
+      expect(result.status).toBe('rejected');
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(
+        SessionExpiredError
+      );
+    }
+    expect(useAuthStore.getState().token).toBeNull();
+    expect(toast).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the session when the refresh fails for other reasons', async () => {
+    fetchMock.mockImplementation(async input =>
+      String(input).endsWith('/auth/refresh')
+        ? new Response('Service Unavailable', { status: 503 })
+        : json(401, {})
+    );
+
+    await expect(fetchWithAuth('/a')).rejects.toBeInstanceOf(ApiError);
+
+    expect(useAuthStore.getState()).toMatchObject({
+      token: 'expired',
+      refreshToken: 'refresh-1',
+    });
+    expect(toast).not.toHaveBeenCalled();
+  });
+
+  it('does not refresh requests sent without auth', async () => {
+    fetchMock.mockResolvedValue(json(401, {}));
+
+    const response = await fetchWithAuth('/auth/signin', {}, true);
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(useAuthStore.getState().token).toBe('expired');
+  });
+
+  it('replaces a still valid token to pick up new claims', async () => {
+    fetchMock.mockResolvedValue(
+      json(200, {
+        success: true,
+        data: { accessToken: 'verified', refreshToken: 'refresh-2' },
+      })
+    );
+
+    await refreshSessionClaims();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(useAuthStore.getState().token).toBe('verified');
+  });
+
+  it('uses the token another tab refreshed instead of refreshing again', async () => {
+    storeFromOtherTab('from-other-tab', 'refresh-2');
+    fetchMock.mockImplementation(async (_input, init) =>
+      authorization(init) === 'Bearer from-other-tab'
+        ? json(200, { success: true, data: {} })
+        : json(401, {})
+    );
+
+    const response = await fetchWithAuth('/a');
+
+    expect(response.status).toBe(200);
+    expect(
+      fetchMock.mock.calls.some(([input]) =>
+        String(input).endsWith('/auth/refresh')
+      )
+    ).toBe(false);
+    expect(useAuthStore.getState().refreshToken).toBe('refresh-2');
+  });
+
+  it('refreshes under a Web Lock shared with other tabs', async () => {
+    const request = vi.fn(
+      async (_name: string, callback: () => Promise<unknown>) => callback()
+    );
+    vi.stubGlobal('navigator', { ...navigator, locks: { request } });
+    fetchMock.mockResolvedValue(
+      json(200, {
+        success: true,
+        data: { accessToken: 'fresh', refreshToken: 'refresh-2' },
+      })
+    );
+
+    await refreshSessionClaims();
+
+    expect(request).toHaveBeenCalledExactlyOnceWith(
+      'auth-refresh',
+      expect.any(Function)
+    );
+    expect(useAuthStore.getState().token).toBe('fresh');
+  });
+
+  it('picks up tokens changed in other tabs and reconnects', async () => {
+    const refreshed = vi.fn();
+    const unsubscribe = onTokenRefreshed(refreshed);
+
+    storeFromOtherTab('from-other-tab', 'refresh-2');
+    window.dispatchEvent(new StorageEvent('storage', { key: 'auth' }));
+
+    await vi.waitFor(() =>
+      expect(useAuthStore.getState().token).toBe('from-other-tab')
+    );
+    unsubscribe();
+    expect(refreshed).toHaveBeenCalledExactlyOnceWith('from-other-tab');
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Rewrites `@/` imports in the emitted declarations to relative paths, so
+ * other workspaces (the web client) can resolve `AppType` with their own
+ * path aliases.
+ *
+ * Run after `tsc -p tsconfig.types.json` (see the `build:types` script).
+ */
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, relative } from "node:path";
+
+const typesDir = new URL("../dist/types/", import.meta.url).pathname;
+const aliasPattern = /(from\s+|import\()(["'])@\/([^"']+)\2/g;
+
+const entries = await readdir(typesDir, { recursive: true, withFileTypes: true });
+
+for (const entry of entries) {
+  if (!entry.isFile() || !entry.name.endsWith(".d.ts")) {
+    continue;
+  }
+
+  const file = join(entry.parentPath, entry.name);
+  const source = await readFile(file, "utf8");
+  const resolved = source.replace(aliasPattern, (_match, prefix, quote, target) => {
+    const path = relative(dirname(file), join(typesDir, target));
+    return `${prefix}${quote}${path.startsWith(".") ? path : `./${path}`}${quote}`;
+  });
+
+  if (resolved !== source) {
+    await writeFile(file, resolved);
+  }
+}
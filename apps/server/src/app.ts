@@ -1,9 +1,15 @@
-import { configureOpenAPI } from "@/config";
-import createApp from "@/lib/create-app";
+import { API_PREFIX, configureOpenAPI } from "@/config";
+import createApp, { createRouter } from "@/lib/create-app";
 import { metricsMiddleware } from "@/middlewares/metrics.middleware";
+import apiClients from "@/modules/api-clients";
+import apiKeys from "@/modules/api-keys";
+import auth from "@/modules/auth";
 import graphql from "@/modules/graphql";
 import health from "@/modules/health";
+import jwks from "@/modules/jwks";
 import metrics from "@/modules/metrics";
+import oauth from "@/modules/oauth";
+import users from "@/modules/users";
 import index from "@/routes/index.route";
 
 const app = createApp();
@@ -22,10 +28,32 @@ app.route("/", health);
 // Metrics endpoint (public, no auth required)
 app.route("/", metrics);
 
+// Access token public keys (public, for token consumers)
+app.route("/", jwks);
+
+// REST API under the API prefix, chained so its type carries every route:
+// - auth endpoints (public sign-in/sign-up, rate limited)
+// - user administration (protected, permission-guarded)
+// - OAuth2 client administration (protected, permission-guarded)
+// - personal API keys (protected, own keys only)
+const api = createRouter()
+  .route("/", auth)
+  .route("/", users)
+  .route("/", apiClients)
+  .route("/", apiKeys);
+
+app.route(API_PREFIX, api);
+
+// OAuth2 token endpoint (public, client_credentials grant, rate limited)
+app.route("/", oauth);
+
 // GraphQL endpoint (protected by auth middleware in create-app)
 app.route("/", graphql);
 
-// Type export for RPC and client generation
-export type AppType = typeof app;
+/**
+ * REST API routes relative to API_PREFIX, for RPC and client generation,
+ * e.g. `hc<AppType>("https://api.example.com/rest/v1")`
+ */
+export type AppType = typeof api;
 
 export default app;
@@ -8,6 +8,7 @@
  */
 import { config } from "dotenv";
 import { expand } from "dotenv-expand";
+import { Buffer } from "node:buffer";
 import path from "node:path";
 import { z } from "zod";
 
@@ -27,6 +28,28 @@ if (isTestEnv && !process.env.DATABASE_URL) {
 if (isTestEnv && !process.env.JWT_SECRET) {
   process.env.JWT_SECRET = "test-jwt-secret-minimum-32-characters-long";
 }
+if (isTestEnv && !process.env.JWT_ALGORITHM) {
+  process.env.JWT_ALGORITHM = "HS256";
+}
+if (isTestEnv && !process.env.TWO_FACTOR_ENCRYPTION_KEY) {
+  process.env.TWO_FACTOR_ENCRYPTION_KEY = "dGVzdC10d28tZmFjdG9yLWtleS0zMi1ieXRlcy0hISE=";
+}
+
+/**
+ * Signing key entry of JWT_KEYS (PEM strings, `\n` escaped in JSON)
+ *
+ * Keys with a private key can sign; public-only keys are kept during
+ * rotation so tokens signed with a retired key verify until they expire.
+ * Keys past `expiresAt` are neither accepted nor published.
+ */
+const JwtKeySchema = z.object({
+  kid: z.string().min(1),
+  privateKey: z.string().optional(),
+  publicKey: z.string().optional(),
+  expiresAt: z.iso.datetime({ offset: true }).optional(),
+}).refine(key => key.privateKey || key.publicKey, "Each JWT key needs a privateKey or publicKey");
+
+export type JwtKeyEnv = z.infer<typeof JwtKeySchema>;
 
 // Environment schema with validation
 const EnvSchema = z.object({
@@ -38,7 +61,63 @@ const EnvSchema = z.object({
   LOG_LEVEL: z.enum(["fatal", "error", "warn", "info", "debug", "trace", "silent"]).default("info"),
   BASE_PATH: z.string().default("/rest/v1"),
   API_BASE_URL: z.string().optional(),
-  JWT_SECRET: z.string().min(32, "JWT_SECRET must have at least 32 characters"),
+  // RS256/ES256 sign with JWT_KEYS (published at /.well-known/jwks.json); HS256 uses JWT_SECRET (local dev).
+  // Unset: RS256 when JWT_KEYS has a private key, else HS256 when JWT_SECRET is set (deployments predating JWT_KEYS)
+  JWT_ALGORITHM: z.enum(["RS256", "ES256", "HS256"]).optional(),
+  JWT_SECRET: z.string().min(32, "JWT_SECRET must have at least 32 characters").optional(),
+  JWT_KEYS: z.string()
+    .transform((value, ctx) => {
+      if (!value.trim()) {
+        return [];
+      }
+      try {
+        return JSON.parse(value) as unknown;
+      }
+      catch {
+        ctx.addIssue({ code: "custom", message: "JWT_KEYS must be a JSON array" });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(JwtKeySchema))
+    .default([]),
+  // Key that signs new tokens (default: first key of JWT_KEYS with a private key)
+  JWT_ACTIVE_KID: z.string().optional(),
+  JWT_ACCESS_TOKEN_TTL_SECONDS: z.coerce.number().int().min(60).default(900), // 15 minutes
+  JWT_REFRESH_TOKEN_TTL_SECONDS: z.coerce.number().int().min(60).default(2_592_000), // 30 days
+  OAUTH_ACCESS_TOKEN_TTL_SECONDS: z.coerce.number().int().min(60).default(3600), // 1 hour
+  PASSWORD_RESET_TOKEN_TTL_SECONDS: z.coerce.number().int().min(60).default(3600), // 1 hour
+  EMAIL_VERIFICATION_TOKEN_TTL_SECONDS: z.coerce.number().int().min(60).default(86_400), // 24 hours
+  // off = not enforced, allow-restricted = unverified users sign in without role permissions,
+  // block = sign-in refused (E2013). Backfill existing accounts before leaving off (docs/ENV_REFERENCE.md).
+  EMAIL_VERIFICATION_POLICY: z.enum(["off", "allow-restricted", "block"]).default("off"),
+  EMAIL_VERIFICATION_RESEND_MAX: z.coerce.number().int().min(1).default(3),
+  EMAIL_VERIFICATION_RESEND_WINDOW_MS: z.coerce.number().int().min(1000).default(3_600_000), // 1 hour
+  // Per-account lockout: after THRESHOLD failed sign-ins the account is locked for BASE seconds,
+  // doubling with each further failure up to MAX. Failures older than WINDOW are forgotten.
+  ACCOUNT_LOCKOUT_THRESHOLD: z.coerce.number().int().min(1).default(5),
+  ACCOUNT_LOCKOUT_BASE_SECONDS: z.coerce.number().int().min(1).default(60),
+  ACCOUNT_LOCKOUT_MAX_SECONDS: z.coerce.number().int().min(1).default(3600), // 1 hour
+  ACCOUNT_LOCKOUT_WINDOW_SECONDS: z.coerce.number().int().min(60).default(86_400), // 24 hours
+  // Two-factor authentication (TOTP)
+  TWO_FACTOR_ISSUER: z.string().min(1).default("API Template"),
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS: z.coerce.number().int().min(30).default(300), // 5 minutes
+  // AES-256 key encrypting TOTP secrets at rest: 32 random bytes, base64 (`openssl rand -base64 32`).
+  // Enrollment answers 503 without it; secrets stored in plaintext before it existed keep working
+  TWO_FACTOR_ENCRYPTION_KEY: z.string().refine(
+    value => Buffer.from(value, "base64").length === 32,
+    "TWO_FACTOR_ENCRYPTION_KEY must be 32 bytes, base64-encoded",
+  ).optional(),
+  // Public URL of the web client (used for links in emails)
+  CLIENT_URL: z.url().default("http://localhost:3000"),
+  // External OIDC sign-in (authorization code + PKCE); disabled while OIDC_ISSUER is unset
+  OIDC_ISSUER: z.url().optional(),
+  OIDC_CLIENT_ID: z.string().min(1).optional(),
+  // Omit for public clients (PKCE only)
+  OIDC_CLIENT_SECRET: z.string().min(1).optional(),
+  // Client page receiving the authorization response (default: CLIENT_URL + /auth/sso/callback)
+  OIDC_REDIRECT_URI: z.url().optional(),
+  OIDC_SCOPES: z.string().default("openid email profile"),
+  OIDC_STATE_TTL_SECONDS: z.coerce.number().int().min(60).default(600), // 10 minutes
 
   // =================================================================
   // LOGGING CONFIGURATION
@@ -70,6 +149,19 @@ const EnvSchema = z.object({
   // Log compression behavior
   LOG_COMPRESS_ON_ROTATION: z.coerce.boolean().default(true), // Compress only during rotation, not all at once
 
+  // =================================================================
+  // MAIL CONFIGURATION
+  // =================================================================
+  // smtp = deliver via SMTP_*, file = write JSON files to MAIL_OUTBOX_DIR, console = log only
+  MAIL_TRANSPORT: z.enum(["smtp", "file", "console"]).default("console"),
+  MAIL_FROM: z.string().default("Boilerplate <no-reply@localhost>"),
+  MAIL_OUTBOX_DIR: z.string().default("mail-outbox"),
+  SMTP_HOST: z.string().default("localhost"),
+  SMTP_PORT: z.coerce.number().int().default(587),
+  SMTP_SECURE: z.stringbool().default(false),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+
   // =================================================================
   // DATABASE CONFIGURATION
   // =================================================================
@@ -83,6 +175,28 @@ const EnvSchema = z.object({
       "DATABASE_URL must not contain whitespace/control characters",
     ),
 
+  // =================================================================
+  // EVENT BUS (GraphQL subscriptions)
+  // =================================================================
+  // memory = this process only, postgres = LISTEN/NOTIFY on DATABASE_URL (reaches every replica)
+  EVENT_BUS: z.enum(["memory", "postgres"]).default("memory"),
+  EVENT_BUS_CHANNEL: z
+    .string()
+    .regex(/^[a-z_][a-z0-9_]{0,62}$/, "EVENT_BUS_CHANNEL must be a lowercase Postgres identifier")
+    .default("app_events"),
+
+  // =================================================================
+  // GRAPHQL OPERATION LIMITS (HTTP and WebSocket)
+  // =================================================================
+  GRAPHQL_MAX_DEPTH: z.coerce.number().int().min(1).default(10),
+  GRAPHQL_MAX_ALIASES: z.coerce.number().int().min(0).default(15),
+  GRAPHQL_MAX_TOKENS: z.coerce.number().int().min(1).default(2000),
+  // Every field costs 1, list fields multiply their selection by `first`
+  GRAPHQL_MAX_COST: z.coerce.number().int().min(1).default(5000),
+  // apq = automatic persisted queries, any document allowed; strict = only GRAPHQL_OPERATION_MANIFEST operations
+  GRAPHQL_PERSISTED_OPERATIONS: z.enum(["apq", "strict"]).default("apq"),
+  GRAPHQL_OPERATION_MANIFEST: z.string().min(1).optional(),
+
   // =================================================================
   // PERFORMANCE SETTINGS
   // =================================================================
@@ -99,8 +213,8 @@ const EnvSchema = z.object({
   // CORS CONFIGURATION
   // =================================================================
   CORS_ORIGIN: z.string().default("http://localhost:3000"),
-  CORS_METHODS: z.string().default("GET,POST,PUT,DELETE,OPTIONS"),
-  CORS_HEADERS: z.string().default("Content-Type,Authorization"),
+  CORS_METHODS: z.string().default("GET,POST,PUT,PATCH,DELETE,OPTIONS"),
+  CORS_HEADERS: z.string().default("Content-Type,Authorization,X-API-Key"),
 
   // =================================================================
   // RATE LIMITING
@@ -128,6 +242,33 @@ const EnvSchema = z.object({
     .min(1024, "Minimum body size is 1KB")
     .max(10 * 1024 * 1024, "Maximum default body size is 10MB")
     .default(1 * 1024 * 1024),
+}).transform(value => ({
+  ...value,
+  JWT_ALGORITHM: value.JWT_ALGORITHM
+    ?? (value.JWT_SECRET && !value.JWT_KEYS.some(key => key.privateKey) ? "HS256" : "RS256"),
+})).superRefine((value, ctx) => {
+  if (value.JWT_ALGORITHM === "HS256" && !value.JWT_SECRET) {
+    ctx.addIssue({ code: "custom", path: ["JWT_SECRET"], message: "JWT_SECRET is required for HS256" });
+  }
+  if (value.JWT_ALGORITHM !== "HS256" && !value.JWT_KEYS.some(key => key.privateKey)) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["JWT_KEYS"],
+      message: value.JWT_SECRET
+        ? `JWT_KEYS needs a private key for ${value.JWT_ALGORITHM}`
+        : "Set JWT_KEYS with a private key (RS256/ES256) or JWT_SECRET (HS256); see README \"Signing keys\"",
+    });
+  }
+  if (value.OIDC_ISSUER && !value.OIDC_CLIENT_ID) {
+    ctx.addIssue({ code: "custom", path: ["OIDC_CLIENT_ID"], message: "OIDC_CLIENT_ID is required with OIDC_ISSUER" });
+  }
+  if (value.GRAPHQL_PERSISTED_OPERATIONS === "strict" && !value.GRAPHQL_OPERATION_MANIFEST) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["GRAPHQL_OPERATION_MANIFEST"],
+      message: "GRAPHQL_OPERATION_MANIFEST is required with GRAPHQL_PERSISTED_OPERATIONS=strict",
+    });
+  }
 });
 
 export type Env = z.infer<typeof EnvSchema>;
@@ -15,7 +15,7 @@ export { API_CONFIG, API_PREFIX, getRateLimitConfig } from "./api";
 export { DB_CONFIG, getPoolConfig, getTimeoutConfig } from "./database";
 
 // Environment configuration (ONLY default export)
-export { default as env, type Env } from "./env";
+export { default as env, type Env, type JwtKeyEnv } from "./env";
 
 // Logging configuration
 export {
@@ -10,6 +10,7 @@
  * - E3xxx: Document Signing
  * - E4xxx: Company & Environment
  * - E5xxx: SOAP Integration
+ * - E6xxx: GraphQL operations
  */
 
 import { describe, expect, it } from "vitest";
@@ -17,6 +18,7 @@ import { describe, expect, it } from "vitest";
 import {
   AUTH_CODES,
   COMPANY_CODES,
+  GRAPHQL_CODES,
   SIGNING_CODES,
   SOAP_CODES,
 } from "../domain-codes";
@@ -29,6 +31,7 @@ describe("error Code Collisions", () => {
   const signingCodes = Object.values(SIGNING_CODES);
   const companyCodes = Object.values(COMPANY_CODES);
   const soapCodes = Object.values(SOAP_CODES);
+  const graphQLCodes = Object.values(GRAPHQL_CODES);
 
   const allCodes = [
     ...problemRegistryCodes,
@@ -36,6 +39,7 @@ describe("error Code Collisions", () => {
     ...signingCodes,
     ...companyCodes,
     ...soapCodes,
+    ...graphQLCodes,
   ];
 
   it("should have no duplicate codes across all domains", () => {
@@ -82,6 +86,12 @@ describe("error Code Collisions", () => {
     }
   });
 
+  it("should have GRAPHQL_CODES in E6xxx range", () => {
+    for (const code of graphQLCodes) {
+      expect(code).toMatch(/^E6\d{3}$/);
+    }
+  });
+
   it("should have valid E#### format for all codes", () => {
     for (const code of allCodes) {
       expect(code).toMatch(/^E\d{4}$/);
@@ -99,6 +109,7 @@ describe("error Code Collisions", () => {
         signing: signingCodes.length,
         company: companyCodes.length,
         soap: soapCodes.length,
+        graphql: graphQLCodes.length,
       },
     };
 
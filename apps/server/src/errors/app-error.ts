@@ -8,8 +8,11 @@
  * @module errors/app-error
  */
 
+import type { GraphQLCode } from "./domain-codes";
 import type { ProblemKey } from "./problem-registry";
 
+import { AUTH_CODES, GRAPHQL_CODES } from "./domain-codes";
+
 // =================================================================
 // TYPE DEFINITIONS
 // =================================================================
@@ -237,6 +240,181 @@ export class AppError extends Error {
     });
   }
 
+  /**
+   * Creates an invalid refresh token error (401) with custom code
+   */
+  static invalidRefreshToken(): AppError {
+    return new AppError("unauthorized", "Invalid refresh token", {
+      detail: "The refresh token is invalid, expired or has been revoked",
+      codeOverride: AUTH_CODES.INVALID_REFRESH_TOKEN,
+    });
+  }
+
+  /**
+   * Creates an OAuth2 invalid client error (401) with custom code
+   */
+  static invalidClient(): AppError {
+    return new AppError("unauthorized", "Invalid client", {
+      detail: "Client authentication failed",
+      codeOverride: AUTH_CODES.INVALID_CLIENT,
+    });
+  }
+
+  /**
+   * Creates an OAuth2 invalid scope error (400) with custom code
+   */
+  static invalidScope(detail = "The requested scope is invalid or exceeds the scope granted to the client"): AppError {
+    return new AppError("bad_request", "Invalid scope", {
+      detail,
+      codeOverride: AUTH_CODES.INVALID_SCOPE,
+    });
+  }
+
+  /**
+   * Creates an OAuth2 unsupported grant type error (400) with custom code
+   */
+  static unsupportedGrantType(grantType: string): AppError {
+    return new AppError("bad_request", "Unsupported grant type", {
+      detail: `The grant type "${grantType}" is not supported`,
+      codeOverride: AUTH_CODES.UNSUPPORTED_GRANT,
+    });
+  }
+
+  /**
+   * Creates an invalid password reset token error (400) with custom code
+   */
+  static invalidResetToken(): AppError {
+    return new AppError("bad_request", "Invalid reset token", {
+      detail: "The password reset link is invalid, expired or has already been used",
+      codeOverride: AUTH_CODES.INVALID_RESET_TOKEN,
+    });
+  }
+
+  /**
+   * Creates an invalid email verification token error (400) with custom code
+   */
+  static invalidVerificationToken(): AppError {
+    return new AppError("bad_request", "Invalid verification token", {
+      detail: "The verification link is invalid, expired or has already been used",
+      codeOverride: AUTH_CODES.INVALID_VERIFICATION_TOKEN,
+    });
+  }
+
+  /**
+   * Creates an invalid two-factor code error (400) with custom code
+   */
+  static invalidTwoFactorCode(): AppError {
+    return new AppError("bad_request", "Invalid two-factor code", {
+      detail: "The authentication or recovery code is invalid",
+      codeOverride: AUTH_CODES.INVALID_TWO_FACTOR_CODE,
+    });
+  }
+
+  /**
+   * Creates an invalid two-factor challenge error (400) with custom code
+   */
+  static invalidTwoFactorChallenge(): AppError {
+    return new AppError("bad_request", "Invalid two-factor challenge", {
+      detail: "The sign-in challenge is invalid, expired or has already been used. Sign in again",
+      codeOverride: AUTH_CODES.INVALID_TWO_FACTOR_CHALLENGE,
+    });
+  }
+
+  /**
+   * Creates an invalid SSO state error (400) with custom code
+   */
+  static invalidSsoState(): AppError {
+    return new AppError("bad_request", "Invalid SSO state", {
+      detail: "The single sign-on request is invalid, expired or has already been used. Start again",
+      codeOverride: AUTH_CODES.INVALID_SSO_STATE,
+    });
+  }
+
+  /**
+   * Creates an SSO failure error (401) with custom code
+   *
+   * @param detail - Reason shown to the client (no provider internals)
+   */
+  static ssoFailed(detail = "The identity provider response could not be verified"): AppError {
+    return new AppError("unauthorized", "Single sign-on failed", {
+      detail,
+      codeOverride: AUTH_CODES.SSO_FAILED,
+    });
+  }
+
+  /**
+   * Creates an email not verified error (403) with custom code
+   */
+  static emailNotVerified(): AppError {
+    return new AppError("forbidden", "Email not verified", {
+      detail: "Verify your email address before signing in",
+      codeOverride: AUTH_CODES.EMAIL_NOT_VERIFIED,
+    });
+  }
+
+  /**
+   * Creates an account inactive error (403) with custom code
+   */
+  static accountInactive(): AppError {
+    return new AppError("forbidden", "Account inactive", {
+      detail: "The user account is inactive",
+      codeOverride: AUTH_CODES.ACCOUNT_INACTIVE,
+    });
+  }
+
+  /**
+   * Creates an account locked error (403) with custom code
+   *
+   * @param retryAfterSeconds - Seconds until the lockout expires
+   */
+  static accountLocked(retryAfterSeconds: number): AppError {
+    return new AppError("forbidden", "Account locked", {
+      detail: `Too many failed sign-in attempts. Try again in ${retryAfterSeconds} seconds`,
+      codeOverride: AUTH_CODES.ACCOUNT_LOCKED,
+    });
+  }
+
+  /**
+   * Creates an insufficient permissions error (403) with custom code
+   */
+  static insufficientPermissions(detail = "You do not have permission to perform this action"): AppError {
+    return new AppError("forbidden", "Insufficient permissions", {
+      detail,
+      codeOverride: AUTH_CODES.INSUFFICIENT_PERMISSIONS,
+    });
+  }
+
+  /**
+   * Creates an auth context missing error (401) with custom code
+   */
+  static authContextMissing(): AppError {
+    return new AppError("unauthorized", "Authentication required", {
+      detail: "No authenticated principal in request context",
+      codeOverride: AUTH_CODES.AUTH_CONTEXT_MISSING,
+    });
+  }
+
+  /**
+   * Creates an error (400) for a GraphQL operation rejected by a limit
+   */
+  static operationLimitExceeded(code: GraphQLCode, detail: string): AppError {
+    return new AppError("bad_request", "Operation limit exceeded", {
+      detail,
+      codeOverride: code,
+    });
+  }
+
+  /**
+   * Creates an error (400) for a GraphQL document that is not an allowed
+   * persisted operation
+   */
+  static operationNotAllowed(): AppError {
+    return new AppError("bad_request", "Operation not allowed", {
+      detail: "Only persisted operations may be executed",
+      codeOverride: GRAPHQL_CODES.OPERATION_NOT_ALLOWED,
+    });
+  }
+
   /**
    * Creates a company not found error (404) with custom code
    */
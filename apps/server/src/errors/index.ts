@@ -14,8 +14,10 @@ export type { AppErrorOptions, FieldError } from "./app-error";
 export {
   AUTH_CODES,
   COMPANY_CODES,
+  GRAPHQL_CODES,
   isAuthCode,
   isCompanyCode,
+  isGraphQLCode,
   isSigningCode,
   isSoapCode,
   SIGNING_CODES,
@@ -25,6 +27,7 @@ export type {
   AuthCode,
   CompanyCode,
   DomainCode,
+  GraphQLCode,
   SigningCode,
   SoapCode,
 } from "./domain-codes";
@@ -0,0 +1,58 @@
+import type { GraphQLResolveInfo } from "graphql";
+
+import { GraphQLError } from "graphql";
+import { describe, expect, it } from "vitest";
+
+import { AUTH_CODES } from "@/errors";
+import { PERMISSIONS } from "@/lib/authorization";
+
+import type { GraphQLContext } from "../context";
+
+import { withAuth, withPermission, withRole } from "../authorization";
+
+const info = {} as GraphQLResolveInfo;
+
+function context(user: GraphQLContext["user"]): GraphQLContext {
+  return { requestId: "test-request-id", user } as GraphQLContext;
+}
+
+function captureError(fn: () => unknown) {
+  try {
+    fn();
+  }
+  catch (error) {
+    return error as GraphQLError;
+  }
+  throw new Error("Expected resolver to throw");
+}
+
+describe("graphql resolver guards", () => {
+  const resolver = (_: unknown, __: unknown, ctx: GraphQLContext) => ctx.user?.userId;
+
+  it("withAuth rejects anonymous callers with E2011", () => {
+    const error = captureError(() => withAuth(resolver)({}, {}, context(null), info));
+
+    expect(error).toBeInstanceOf(GraphQLError);
+    expect(error.extensions.code).toBe(AUTH_CODES.AUTH_CONTEXT_MISSING);
+  });
+
+  it("withRole passes through for matching roles", () => {
+    const guarded = withRole(["admin"], resolver);
+
+    expect(guarded({}, {}, context({ userId: "u1", role: "admin", emailVerified: true }), info)).toBe("u1");
+  });
+
+  it("withRole rejects other roles with E2010", () => {
+    const guarded = withRole(["admin"], resolver);
+    const error = captureError(() => guarded({}, {}, context({ userId: "u1", role: "user", emailVerified: true }), info));
+
+    expect(error.extensions.code).toBe(AUTH_CODES.INSUFFICIENT_PERMISSIONS);
+  });
+
+  it("withPermission checks role permissions", () => {
+    const guarded = withPermission([PERMISSIONS.USERS_READ], resolver);
+
+    expect(guarded({}, {}, context({ userId: "u1", role: "admin", emailVerified: true }), info)).toBe("u1");
+    expect(() => guarded({}, {}, context({ userId: "u2", role: "user", emailVerified: true }), info)).toThrow(GraphQLError);
+  });
+});
@@ -0,0 +1,118 @@
+import { createSchema, createYoga } from "graphql-yoga";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { env } from "@/config";
+import { AppError, AUTH_CODES } from "@/errors";
+import { logger } from "@/lib/logging";
+
+import type { GraphQLContext } from "../context";
+
+import { requireUser } from "../authorization";
+import { useProblemDetails } from "../errors";
+
+const schema = createSchema<GraphQLContext>({
+  typeDefs: /* GraphQL */ `
+    type Query {
+      conflict: String
+      invalid: String
+      crash: String
+      me: String
+    }
+  `,
+  resolvers: {
+    Query: {
+      conflict: () => {
+        throw AppError.conflict("An account with this email already exists");
+      },
+      invalid: () => {
+        throw AppError.validation("The request contains invalid data", [
+          { field: "email", pointer: "#/email", message: "Invalid email address", code: "E1001" },
+        ]);
+      },
+      crash: () => {
+        throw new Error("connect ECONNREFUSED 10.0.0.5:5432");
+      },
+      me: (_: unknown, __: unknown, context: GraphQLContext) => requireUser(context).userId,
+    },
+  },
+});
+
+const yoga = createYoga<object, GraphQLContext>({
+  schema,
+  plugins: [useProblemDetails()],
+  context: () => ({ requestId: "test-request-id", user: null }) as GraphQLContext,
+});
+
+interface ErrorResult {
+  errors: { message: string; path: string[]; extensions: Record<string, unknown> }[];
+}
+
+async function execute(query: string) {
+  const response = await yoga.fetch("http://localhost/graphql", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ query }),
+  });
+  return await response.json() as ErrorResult;
+}
+
+describe("graphql problem errors", () => {
+  const nodeEnv = env.NODE_ENV;
+
+  afterEach(() => {
+    env.NODE_ENV = nodeEnv;
+    vi.restoreAllMocks();
+  });
+
+  it("maps AppError onto problem extensions", async () => {
+    const { errors } = await execute("{ conflict }");
+
+    expect(errors[0]).toMatchObject({
+      message: "An account with this email already exists",
+      path: ["conflict"],
+      extensions: {
+        code: "E1409",
+        problemType: expect.stringMatching(/\/problems\/conflict$/),
+        status: 409,
+        errors: [],
+        requestId: "test-request-id",
+      },
+    });
+  });
+
+  it("keeps field errors of validation problems", async () => {
+    const { errors } = await execute("{ invalid }");
+
+    expect(errors[0]?.extensions).toMatchObject({
+      code: "E1001",
+      status: 422,
+      errors: [{ field: "email", pointer: "#/email", message: "Invalid email address", code: "E1001" }],
+    });
+  });
+
+  it("masks unexpected errors in production and logs them", async () => {
+    env.NODE_ENV = "production";
+    const logError = vi.spyOn(logger, "error").mockImplementation(() => {});
+
+    const { errors } = await execute("{ crash }");
+
+    expect(errors[0]).toMatchObject({
+      message: "An unexpected error occurred",
+      extensions: { code: "E1500", status: 500, requestId: "test-request-id" },
+    });
+    expect(JSON.stringify(errors)).not.toContain("ECONNREFUSED");
+    expect(logError).toHaveBeenCalledWith("connect ECONNREFUSED 10.0.0.5:5432", expect.objectContaining({
+      requestId: "test-request-id",
+    }));
+  });
+
+  it("gives guard errors the same structure", async () => {
+    const { errors } = await execute("{ me }");
+
+    expect(errors[0]?.extensions).toMatchObject({
+      code: AUTH_CODES.AUTH_CONTEXT_MISSING,
+      status: 401,
+      requestId: "test-request-id",
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { getIntrospectionQuery } from "graphql";
+import { createYoga } from "graphql-yoga";
+import { describe, expect, it, vi } from "vitest";
+
+import { GRAPHQL_CODES } from "@/errors";
+
+import type { GraphQLContext } from "../context";
+import type { OperationLimits } from "../limits";
+
+import { createExecutableSchema } from "../executable-schema";
+import { useOperationLimits } from "../limits";
+
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+const schema = createExecutableSchema();
+
+const limits: OperationLimits = { maxDepth: 3, maxAliases: 2, maxTokens: 40, maxCost: 100 };
+
+function createServer(operationLimits: OperationLimits) {
+  return createYoga({
+    schema,
+    plugins: [useOperationLimits(operationLimits)],
+    context: () => ({ requestId: "test-request-id", user: null }) as GraphQLContext,
+  });
+}
+
+const yoga = createServer(limits);
+
+interface ErrorResult {
+  errors?: { message: string; extensions: Record<string, unknown> }[];
+}
+
+async function execute(query: string, operationLimits?: OperationLimits) {
+  const server = operationLimits ? createServer(operationLimits) : yoga;
+  const response = await server.fetch("http://localhost/graphql", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ query }),
+  });
+  return await response.json() as ErrorResult;
+}
+
+describe("graphql operation limits", () => {
+  it("accepts operations within the limits", async () => {
+    const { errors } = await execute("{ ping a: serverTime }");
+
+    expect(errors).toBeUndefined();
+  });
+
+  it("rejects operations nested too deeply, counting fragments", async () => {
+    const { errors } = await execute("{ users { edges { ...Edge } } } fragment Edge on UserEdge { node { id } }");
+
+    expect(errors?.[0]).toMatchObject({
+      message: "Query depth 4 exceeds the maximum of 3",
+      extensions: { code: GRAPHQL_CODES.DEPTH_LIMIT_EXCEEDED, status: 400 },
+    });
+  });
+
+  it("rejects too many aliases", async () => {
+    const { errors } = await execute("{ a: ping b: ping c: ping }");
+
+    expect(errors?.[0]?.extensions.code).toBe(GRAPHQL_CODES.ALIAS_LIMIT_EXCEEDED);
+  });
+
+  it("rejects documents with too many tokens before parsing", async () => {
+    const { errors } = await execute(`{ ${"ping ".repeat(50)} }`);
+
+    expect(errors?.[0]).toMatchObject({
+      message: "The document exceeds the maximum of 40 tokens",
+      extensions: { code: GRAPHQL_CODES.TOKEN_LIMIT_EXCEEDED, status: 400 },
+    });
+  });
+
+  it("multiplies the cost of list selections by `first`", async () => {
+    const withinBudget = await execute("{ users(first: 10) { totalCount } }");
+    const overBudget = await execute("{ users(first: 100) { totalCount } }");
+    const variable = await execute("query ($first: Int) { users(first: $first) { totalCount } }");
+    const omitted = await execute("{ users { totalCount } }", { ...limits, maxCost: 10 });
+
+    expect(withinBudget.errors?.[0]?.extensions.code).not.toBe(GRAPHQL_CODES.COST_LIMIT_EXCEEDED);
+    expect(overBudget.errors?.[0]).toMatchObject({
+      message: "Query cost 101 exceeds the budget of 100",
+      extensions: { code: GRAPHQL_CODES.COST_LIMIT_EXCEEDED, status: 400 },
+    });
+    expect(variable.errors?.[0]?.extensions.code).toBe(GRAPHQL_CODES.COST_LIMIT_EXCEEDED);
+    expect(omitted.errors?.[0]?.message).toBe("Query cost 11 exceeds the budget of 10");
+  });
+});
+
+describe("graphql operation limits rule", () => {
+  it("lets introspection through the default-sized limits", async () => {
+    const { errors } = await execute(getIntrospectionQuery(), {
+      maxDepth: 10,
+      maxAliases: 15,
+      maxTokens: 2000,
+      maxCost: 5000,
+    });
+
+    expect(errors).toBeUndefined();
+  });
+
+  it("terminates on cyclic fragments", async () => {
+    const { errors } = await execute(
+      "{ me { ...A } } fragment A on User { id ...B } fragment B on User { email ...A }",
+      { ...limits, maxTokens: 100 },
+    );
+
+    expect(errors?.[0]?.message).toMatch(/Cannot spread fragment "A" within itself/);
+  });
+});
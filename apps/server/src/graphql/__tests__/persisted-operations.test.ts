@@ -0,0 +1,122 @@
+import { createYoga } from "graphql-yoga";
+import { describe, expect, it, vi } from "vitest";
+
+import { GRAPHQL_CODES } from "@/errors";
+
+import type { GraphQLContext } from "../context";
+import type { OperationManifest } from "../persisted-operations";
+
+import { createExecutableSchema } from "../executable-schema";
+import {
+  hashOperation,
+  isAllowedOperation,
+  parseOperationManifest,
+  usePersistedQueries,
+} from "../persisted-operations";
+
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+const schema = createExecutableSchema();
+
+const PING = "query Ping { ping }";
+
+function createServer(manifest: OperationManifest | null) {
+  return createYoga({
+    schema,
+    plugins: [usePersistedQueries(manifest)],
+    context: () => ({ requestId: "test-request-id", user: null }) as GraphQLContext,
+  });
+}
+
+interface Result {
+  data?: Record<string, unknown>;
+  errors?: { message: string; extensions: Record<string, unknown> }[];
+}
+
+async function execute(yoga: ReturnType<typeof createServer>, params: { query?: string; hash?: string }) {
+  const response = await yoga.fetch("http://localhost/graphql", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      query: params.query,
+      extensions: params.hash ? { persistedQuery: { version: 1, sha256Hash: params.hash } } : undefined,
+    }),
+  });
+  return await response.json() as Result;
+}
+
+function manifestOf(...bodies: string[]) {
+  return parseOperationManifest({
+    format: "apollo-persisted-query-manifest",
+    version: 1,
+    operations: bodies.map((body, index) => ({
+      id: hashOperation(body),
+      name: `Operation${index}`,
+      type: "query",
+      body,
+    })),
+  });
+}
+
+describe("automatic persisted queries", () => {
+  it("registers a document by hash and then runs it from the hash alone", async () => {
+    const yoga = createServer(null);
+    const hash = hashOperation(PING);
+
+    const unknown = await execute(yoga, { hash });
+    const registered = await execute(yoga, { query: PING, hash });
+    const persisted = await execute(yoga, { hash });
+
+    expect(unknown.errors?.[0]?.message).toBe("PersistedQueryNotFound");
+    expect(registered.data).toEqual({ ping: "pong" });
+    expect(persisted.data).toEqual({ ping: "pong" });
+  });
+
+  it("still accepts arbitrary documents", async () => {
+    const { data } = await execute(createServer(null), { query: "{ ping }" });
+
+    expect(data).toEqual({ ping: "pong" });
+  });
+});
+
+describe("strict persisted operations", () => {
+  const yoga = createServer(manifestOf(PING));
+
+  it("runs operations of the manifest by hash", async () => {
+    const { data } = await execute(yoga, { hash: hashOperation(PING) });
+
+    expect(data).toEqual({ ping: "pong" });
+  });
+
+  it.each([
+    ["documents", { query: PING }],
+    ["documents with their hash", { query: PING, hash: hashOperation(PING) }],
+    ["unknown hashes", { hash: hashOperation("{ ping }") }],
+  ])("rejects %s", async (_name, params) => {
+    const { data, errors } = await execute(yoga, params);
+
+    expect(data).toBeUndefined();
+    expect(errors?.[0]).toMatchObject({
+      message: "Only persisted operations may be executed",
+      extensions: { code: GRAPHQL_CODES.OPERATION_NOT_ALLOWED, status: 400 },
+    });
+  });
+});
+
+describe("operation manifest", () => {
+  it("rejects operations whose id is not the hash of their body", () => {
+    expect(() => parseOperationManifest({
+      format: "apollo-persisted-query-manifest",
+      version: 1,
+      operations: [{ id: hashOperation("{ ping }"), name: "Ping", type: "query", body: PING }],
+    })).toThrow("Persisted operation Ping does not match its id");
+  });
+
+  it("checks WebSocket documents against the allow-list", () => {
+    const manifest = manifestOf(PING);
+
+    expect(isAllowedOperation(PING, manifest)).toBe(true);
+    expect(isAllowedOperation("{ ping }", manifest)).toBe(false);
+    expect(isAllowedOperation("{ ping }", null)).toBe(true);
+  });
+});
@@ -0,0 +1,225 @@
+import type { ExecutionResult as SubscriptionResult } from "graphql";
+
+import { parse, subscribe } from "graphql";
+import { createYoga } from "graphql-yoga";
+import { describe, expect, it, vi } from "vitest";
+
+import type { PrismaClient } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+
+import { AUTH_CODES } from "@/errors";
+import { createMemoryEventBus } from "@/lib/events";
+
+import type { GraphQLUser } from "../context";
+
+import { createGraphQLContext } from "../context";
+import { useProblemDetails } from "../errors";
+import { createExecutableSchema } from "../executable-schema";
+
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+const ADMIN: GraphQLUser = { userId: "00000000-0000-4000-8000-000000000001", role: "admin", emailVerified: true };
+const MEMBER: GraphQLUser = { userId: "00000000-0000-4000-8000-000000000002", role: "user", emailVerified: true };
+
+function createUserRow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    email: `${id.slice(-1)}@example.com`,
+    password: "$argon2id$hash",
+    active: true,
+    firstName: "Jane",
+    lastName: null,
+    role: "user",
+    twoFactorEnabledAt: null,
+    lockedUntil: null,
+    createdAt: new Date("2025-01-15T10:30:00.000Z"),
+    updatedAt: new Date("2025-01-15T10:30:00.000Z"),
+    ...overrides,
+  };
+}
+
+function createPrismaMock() {
+  const rows = new Map([ADMIN, MEMBER].map(({ userId, role }) => [userId, createUserRow(userId, { role })]));
+
+  const prisma = {
+    $transaction: vi.fn(async (fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma)),
+    user: {
+      findMany: vi.fn(async ({ where, skip = 0, take }: { where: { id?: { in: string[] } }; skip?: number; take?: number }) => {
+        const matching = where.id ? [...rows.values()].filter(row => where.id!.in.includes(row.id)) : [...rows.values()];
+        return matching.slice(skip, take === undefined ? undefined : skip + take);
+      }),
+      count: vi.fn(async () => rows.size),
+      findUnique: vi.fn(async ({ where }: { where: { id?: string; email?: string } }) =>
+        [...rows.values()].find(row => row.id === where.id || row.email === where.email) ?? null),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        const defined = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+        const row = { ...rows.get(where.id)!, ...defined };
+        rows.set(where.id, row);
+        return row;
+      }),
+    },
+  };
+
+  return prisma;
+}
+
+const schema = createExecutableSchema();
+
+interface ExecutionResult {
+  data?: Record<string, unknown> | null;
+  errors?: { message: string; extensions: Record<string, unknown> }[];
+}
+
+function createContext(user: GraphQLUser | null, events: EventBus = createMemoryEventBus()) {
+  const prisma = createPrismaMock();
+  return createGraphQLContext({ prisma: prisma as unknown as PrismaClient, events }, "test-request-id", user);
+}
+
+function execute(query: string, user: GraphQLUser | null, variables?: Record<string, unknown>) {
+  const context = createContext(user);
+  const prisma = context.prisma as unknown as ReturnType<typeof createPrismaMock>;
+  const yoga = createYoga({
+    schema,
+    plugins: [useProblemDetails()],
+    context: () => context,
+  });
+
+  const result = Promise.resolve(yoga.fetch("http://localhost/graphql", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ query, variables }),
+  })).then(async response => await response.json() as ExecutionResult);
+
+  return { prisma, result };
+}
+
+describe("users graphql module", () => {
+  it("resolves me for the signed-in user", async () => {
+    const { result } = execute("{ me { id email role twoFactorEnabled } }", MEMBER);
+
+    expect((await result).data).toEqual({
+      me: { id: MEMBER.userId, email: "2@example.com", role: "USER", twoFactorEnabled: false },
+    });
+  });
+
+  it("batches user lookups into one query", async () => {
+    const { prisma, result } = execute(
+      "query ($a: ID!, $b: ID!) { a: user(id: $a) { id } b: user(id: $b) { id } again: user(id: $a) { id } }",
+      ADMIN,
+      { a: ADMIN.userId, b: MEMBER.userId },
+    );
+
+    expect((await result).data).toEqual({
+      a: { id: ADMIN.userId },
+      b: { id: MEMBER.userId },
+      again: { id: ADMIN.userId },
+    });
+    expect(prisma.user.findMany).toHaveBeenCalledOnce();
+  });
+
+  it("requires users:read for other users", async () => {
+    const { result } = execute("{ users { totalCount } }", MEMBER);
+
+    expect((await result).errors?.[0]?.extensions.code).toBe(AUTH_CODES.INSUFFICIENT_PERMISSIONS);
+  });
+
+  it("paginates users with opaque cursors", async () => {
+    const query = "query ($after: String) { users(first: 1, after: $after, orderBy: { field: FIRST_NAME, direction: DESC }) { edges { cursor node { id } } pageInfo { hasNextPage endCursor } totalCount } }";
+
+    const { prisma, result } = execute(query, ADMIN);
+    const first = (await result).data?.users as { pageInfo: { hasNextPage: boolean; endCursor: string } };
+
+    expect(first).toMatchObject({ edges: [{ node: { id: ADMIN.userId } }], pageInfo: { hasNextPage: true }, totalCount: 2 });
+    expect(prisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      orderBy: [{ firstName: "desc" }, { id: "asc" }],
+    }));
+
+    const { result: next } = execute(query, ADMIN, { after: first.pageInfo.endCursor });
+
+    expect((await next).data?.users).toMatchObject({
+      edges: [{ node: { id: MEMBER.userId } }],
+      pageInfo: { hasNextPage: false },
+    });
+  });
+
+  it("updates the own profile through the users service", async () => {
+    const { prisma, result } = execute(
+      "mutation { updateProfile(input: { lastName: \"Doe\" }) { id lastName } }",
+      MEMBER,
+    );
+
+    expect((await result).data).toEqual({ updateProfile: { id: MEMBER.userId, lastName: "Doe" } });
+    expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: MEMBER.userId },
+    }));
+  });
+
+  it("refuses changes of the acting admin's own role", async () => {
+    const { prisma, result } = execute(
+      "mutation ($id: ID!) { updateUser(id: $id, input: { role: USER }) { id } }",
+      ADMIN,
+      { id: ADMIN.userId },
+    );
+
+    expect((await result).errors?.[0]).toMatchObject({
+      message: "You cannot change the role of your own account",
+      extensions: { status: 403 },
+    });
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("userEvents subscription", () => {
+  const document = parse("subscription { userEvents { kind userId user { id lastName } } }");
+
+  async function subscribeUserEvents(user: GraphQLUser, events: EventBus) {
+    const result = await subscribe({ schema, document, contextValue: createContext(user, events) });
+    return result as AsyncGenerator<SubscriptionResult>;
+  }
+
+  it("streams every user change to callers with users:read", async () => {
+    const events = createMemoryEventBus();
+    const stream = await subscribeUserEvents(ADMIN, events);
+
+    const next = stream.next();
+    await events.publish("users.changed", {
+      kind: "updated",
+      userId: MEMBER.userId,
+      user: {
+        id: MEMBER.userId,
+        email: "2@example.com",
+        active: true,
+        lastName: "Doe",
+        role: "user",
+        twoFactorEnabled: false,
+        createdAt: "2025-01-15T10:30:00.000Z",
+        updatedAt: "2025-01-15T10:30:00.000Z",
+      },
+    });
+
+    expect((await next).value).toEqual({
+      data: { userEvents: { kind: "UPDATED", userId: MEMBER.userId, user: { id: MEMBER.userId, lastName: "Doe" } } },
+    });
+    await stream.return(undefined);
+  });
+
+  it("streams only the caller's own changes without users:read", async () => {
+    const events = createMemoryEventBus();
+    const stream = await subscribeUserEvents(MEMBER, events);
+
+    const next = stream.next();
+    await events.publish("users.changed", { kind: "deleted", userId: ADMIN.userId, user: null });
+    await events.publish("users.changed", { kind: "deleted", userId: MEMBER.userId, user: null });
+
+    expect((await next).value).toEqual({
+      data: { userEvents: { kind: "DELETED", userId: MEMBER.userId, user: null } },
+    });
+    await stream.return(undefined);
+  });
+
+  it("rejects anonymous subscribers", async () => {
+    const result = await subscribe({ schema, document, contextValue: createContext(null) });
+
+    expect((result as SubscriptionResult).errors?.[0]?.extensions.code).toBe(AUTH_CODES.AUTH_CONTEXT_MISSING);
+  });
+});
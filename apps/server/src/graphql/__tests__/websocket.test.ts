@@ -0,0 +1,385 @@
+import type { User } from "@repo/shared";
+import type { ExecutionResult } from "graphql-ws";
+import type { AddressInfo } from "node:net";
+
+import { createClient } from "graphql-ws";
+import { createServer } from "node:http";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+
+import type { PrismaClient } from "@/generated/prisma/client";
+
+import { env } from "@/config";
+import { AUTH_CODES, GRAPHQL_CODES } from "@/errors";
+import { generateApiKey } from "@/lib/api-key";
+import { createMemoryEventBus } from "@/lib/events";
+import { signAccessToken, signClientAccessToken } from "@/lib/jwt";
+import { logger } from "@/lib/logging";
+import { revokeApiClient } from "@/modules/api-clients/api-clients.service";
+import { revokeApiKey } from "@/modules/api-keys/api-keys.service";
+import { revokeSession } from "@/modules/auth/session.service";
+
+import { operationLimits } from "../limits";
+import { attachGraphQLWebSocketServer } from "../server";
+
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+const prisma = {
+  $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(prisma)),
+  apiKey: {
+    findUnique: vi.fn(async (): Promise<unknown> => null),
+    update: vi.fn(async () => ({})),
+    updateMany: vi.fn(async () => ({ count: 1 })),
+  },
+  apiClient: {
+    updateMany: vi.fn(async () => ({ count: 1 })),
+  },
+  refreshToken: {
+    updateMany: vi.fn(async () => ({ count: 1 })),
+  },
+  session: {
+    findUnique: vi.fn(async (): Promise<unknown> => ({
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+      lastSeenAt: new Date(),
+    })),
+    update: vi.fn(async () => ({})),
+    updateMany: vi.fn(async () => ({ count: 1 })),
+  },
+  user: {
+    findMany: vi.fn(async () => {
+      throw new Error("connect ECONNREFUSED 10.0.0.5:5432");
+    }),
+  },
+};
+
+const USER_ID = "00000000-0000-4000-8000-000000000002";
+
+const events = createMemoryEventBus();
+const server = createServer();
+const detach = attachGraphQLWebSocketServer(server, {
+  prisma: prisma as unknown as PrismaClient,
+  events,
+});
+let url: string;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  url = `ws://localhost:${(server.address() as AddressInfo).port}/graphql`;
+});
+
+afterAll(async () => {
+  detach();
+  await new Promise(resolve => server.close(resolve));
+});
+
+interface ErrorResult {
+  data?: ExecutionResult["data"];
+  errors?: { message: string; extensions: Record<string, unknown> }[];
+}
+
+async function userBearer(sessionId?: string) {
+  const { token } = await signAccessToken({
+    sub: USER_ID,
+    role: "user",
+    emailVerified: true,
+    sessionId,
+  });
+  return `Bearer ${token}`;
+}
+
+function publicUser(overrides: Partial<User> = {}): User {
+  return {
+    id: USER_ID,
+    email: "jane@example.com",
+    active: true,
+    role: "user",
+    twoFactorEnabled: false,
+    createdAt: "2025-01-15T10:30:00.000Z",
+    updatedAt: "2025-01-15T10:30:00.000Z",
+    ...overrides,
+  };
+}
+
+async function clientBearer(scopes: string[]) {
+  const { token } = await signClientAccessToken({ sub: "client-1", clientId: "billing-sync", scopes });
+  return `Bearer ${token}`;
+}
+
+function connect(authorization: string) {
+  return createClient({
+    url,
+    webSocketImpl: WebSocket,
+    connectionParams: { Authorization: authorization },
+    retryAttempts: 0,
+  });
+}
+
+/**
+ * Runs one operation over graphql-ws; errors of rejected operations are
+ * returned like execution errors
+ */
+async function execute(query: string, authorization?: string) {
+  const client = connect(authorization ?? await userBearer());
+
+  try {
+    return await new Promise<ErrorResult>((resolve, reject) => {
+      client.subscribe({ query }, {
+        next: result => resolve(result as ErrorResult),
+        error: error => Array.isArray(error) ? resolve({ errors: error }) : reject(error),
+        complete: () => {},
+      });
+    });
+  }
+  finally {
+    await client.dispose();
+  }
+}
+
+describe("graphql over WebSocket", () => {
+  const nodeEnv = env.NODE_ENV;
+
+  afterEach(() => {
+    env.NODE_ENV = nodeEnv;
+    vi.restoreAllMocks();
+  });
+
+  it("gives resolver errors problem extensions and the request ID", async () => {
+    const { errors } = await execute("{ users { totalCount } }");
+
+    expect(errors?.[0]).toMatchObject({
+      extensions: {
+        code: AUTH_CODES.INSUFFICIENT_PERMISSIONS,
+        status: 403,
+        requestId: expect.any(String),
+      },
+    });
+  });
+
+  it("masks unexpected errors in production and logs them", async () => {
+    env.NODE_ENV = "production";
+    const logError = vi.spyOn(logger, "error").mockImplementation(() => {});
+
+    const { errors } = await execute("{ me { id } }");
+
+    expect(errors?.[0]).toMatchObject({
+      message: "An unexpected error occurred",
+      extensions: { code: "E1500", status: 500 },
+    });
+    expect(JSON.stringify(errors)).not.toContain("ECONNREFUSED");
+    expect(logError).toHaveBeenCalledWith("connect ECONNREFUSED 10.0.0.5:5432", expect.anything());
+  });
+
+  it("applies the operation limits", async () => {
+    const aliases = Array.from({ length: operationLimits.maxAliases + 1 }, (_, index) => `a${index}: ping`);
+
+    const { errors } = await execute(`{ ${aliases.join(" ")} }`);
+
+    expect(errors?.[0]?.extensions.code).toBe(GRAPHQL_CODES.ALIAS_LIMIT_EXCEEDED);
+  });
+
+  it("runs valid operations", async () => {
+    const { data } = await execute("{ ping }");
+
+    expect(data).toEqual({ ping: "pong" });
+  });
+
+  it("answers operations with an invalid token with a 401 problem", async () => {
+    const { errors } = await execute("{ ping }", "Bearer expired");
+
+    expect(errors?.[0]).toMatchObject({
+      message: "Invalid or expired token",
+      extensions: { status: 401 },
+    });
+  });
+
+  it("accepts API keys with the graphql scope", async () => {
+    const { key, keyHash } = generateApiKey();
+    prisma.apiKey.findUnique.mockResolvedValueOnce({
+      id: "key-1",
+      userId: "00000000-0000-4000-8000-000000000002",
+      keyHash,
+      scopes: ["graphql"],
+      expiresAt: new Date(Date.now() + 60_000),
+      lastUsedAt: new Date(),
+      revokedAt: null,
+      user: { role: "user", active: true, emailVerifiedAt: new Date() },
+    });
+
+    const { data } = await execute("{ ping }", `ApiKey ${key}`);
+
+    expect(data).toEqual({ ping: "pong" });
+  });
+
+  it("requires the graphql scope of client tokens like HTTP", async () => {
+    const denied = await execute("{ ping }", await clientBearer(["users:read"]));
+    const allowed = await execute("{ ping }", await clientBearer(["graphql"]));
+
+    expect(denied.errors?.[0]).toMatchObject({
+      message: "The token scope does not include graphql",
+      extensions: { code: AUTH_CODES.INSUFFICIENT_PERMISSIONS, status: 403 },
+    });
+    expect(allowed.data).toEqual({ ping: "pong" });
+  });
+});
+
+describe("graphql subscriptions of users who lose access", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Subscribes to userEvents and resolves once the server ends the subscription
+   */
+  async function subscribeUntilEnded(authorization: string) {
+    const subscribeEvents = vi.spyOn(events, "subscribe");
+    const client = connect(authorization);
+    const ended = new Promise<void>((resolve, reject) => {
+      client.subscribe(
+        { query: "subscription { userEvents { kind } }" },
+        { next: () => {}, error: reject, complete: resolve },
+      );
+    });
+    // The userEvents stream and the revocation watches (credentials, then the account)
+    await vi.waitFor(() => expect(subscribeEvents).toHaveBeenCalledTimes(3));
+    return { client, ended };
+  }
+
+  it.each([
+    ["deactivated", { kind: "updated", user: publicUser({ active: false }) }],
+    ["demoted or promoted", { kind: "updated", user: publicUser({ role: "admin" }) }],
+    ["deleted", { kind: "deleted", user: null }],
+  ] as const)("ends them once the account is %s", async (_name, change) => {
+    const { client, ended } = await subscribeUntilEnded(await userBearer());
+
+    await events.publish("users.changed", { ...change, userId: USER_ID });
+
+    await expect(ended).resolves.toBeUndefined();
+    await client.dispose();
+  });
+
+  it("ends them once the session is revoked", async () => {
+    const { client, ended } = await subscribeUntilEnded(await userBearer("session-1"));
+
+    await revokeSession(prisma as unknown as PrismaClient, events, USER_ID, "session-1");
+
+    await expect(ended).resolves.toBeUndefined();
+    await client.dispose();
+  });
+
+  it("ends them once the API key is revoked", async () => {
+    const { key, keyHash } = generateApiKey();
+    prisma.apiKey.findUnique.mockResolvedValueOnce({
+      id: "key-1",
+      userId: USER_ID,
+      keyHash,
+      scopes: ["graphql"],
+      expiresAt: new Date(Date.now() + 60_000),
+      lastUsedAt: new Date(),
+      revokedAt: null,
+      user: { role: "user", active: true, emailVerifiedAt: new Date() },
+    });
+    const { client, ended } = await subscribeUntilEnded(`ApiKey ${key}`);
+
+    await revokeApiKey(prisma as unknown as PrismaClient, events, USER_ID, "key-1");
+
+    await expect(ended).resolves.toBeUndefined();
+    await client.dispose();
+  });
+
+  it("ends them when the access token expires", async () => {
+    const ttl = env.JWT_ACCESS_TOKEN_TTL_SECONDS;
+    env.JWT_ACCESS_TOKEN_TTL_SECONDS = 2;
+    const authorization = await userBearer().finally(() => (env.JWT_ACCESS_TOKEN_TTL_SECONDS = ttl));
+    const { client, ended } = await subscribeUntilEnded(authorization);
+
+    await expect(ended).resolves.toBeUndefined();
+    await client.dispose();
+  });
+
+  it("keeps them for other changes", async () => {
+    const received: unknown[] = [];
+    const subscribeEvents = vi.spyOn(events, "subscribe");
+    const client = connect(await userBearer("session-1"));
+    let completed = false;
+    client.subscribe(
+      { query: "subscription { userEvents { kind } }" },
+      { next: result => received.push(result), error: () => {}, complete: () => (completed = true) },
+    );
+    await vi.waitFor(() => expect(subscribeEvents).toHaveBeenCalledTimes(3));
+
+    await events.publish("users.changed", { kind: "updated", userId: USER_ID, user: publicUser({ lastName: "Doe" }) });
+    await events.publish("users.changed", { kind: "deleted", userId: "someone-else", user: null });
+
+    await vi.waitFor(() => expect(received).toEqual([{ data: { userEvents: { kind: "UPDATED" } } }]));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(completed).toBe(false);
+    await client.dispose();
+  });
+});
+
+describe("graphql over WebSocket with client tokens", () => {
+  it("resolves me to null", async () => {
+    const { data } = await execute("{ me { id } }", await clientBearer(["graphql"]));
+
+    expect(data).toEqual({ me: null });
+  });
+
+  it("refuses updateProfile", async () => {
+    const { errors } = await execute(
+      "mutation { updateProfile(input: { firstName: \"Jane\" }) { id } }",
+      await clientBearer(["graphql"]),
+    );
+
+    expect(errors?.[0]).toMatchObject({
+      message: "OAuth2 client tokens have no user profile",
+      extensions: { status: 403 },
+    });
+  });
+
+  it("streams user events only with users:read", async () => {
+    const subscribeEvents = vi.spyOn(events, "subscribe");
+    const reader = connect(await clientBearer(["graphql", "users:read"]));
+    const other = connect(await clientBearer(["graphql"]));
+    const received = { reader: [] as unknown[], other: [] as unknown[] };
+    const subscribe = (client: typeof reader, results: unknown[]) => client.subscribe(
+      { query: "subscription { userEvents { kind userId } }" },
+      { next: result => results.push(result), error: () => {}, complete: () => {} },
+    );
+
+    subscribe(reader, received.reader);
+    subscribe(other, received.other);
+    // Each userEvents stream with its revocation watch
+    await vi.waitFor(() => expect(subscribeEvents).toHaveBeenCalledTimes(4));
+
+    // The client's own ID is not a user, so it does not see changes to it either
+    await events.publish("users.changed", { kind: "updated", userId: "client-1", user: null });
+
+    await vi.waitFor(() => expect(received.reader).toEqual([
+      { data: { userEvents: { kind: "UPDATED", userId: "client-1" } } },
+    ]));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(received.other).toEqual([]);
+
+    await Promise.all([reader.dispose(), other.dispose()]);
+    subscribeEvents.mockRestore();
+  });
+
+  it("ends subscriptions once the client is revoked", async () => {
+    const subscribeEvents = vi.spyOn(events, "subscribe");
+    const client = connect(await clientBearer(["graphql", "users:read"]));
+    const ended = new Promise<void>((resolve, reject) => {
+      client.subscribe(
+        { query: "subscription { userEvents { kind } }" },
+        { next: () => {}, error: reject, complete: resolve },
+      );
+    });
+    await vi.waitFor(() => expect(subscribeEvents).toHaveBeenCalledTimes(2));
+
+    await revokeApiClient(prisma as unknown as PrismaClient, events, "client-1");
+
+    await expect(ended).resolves.toBeUndefined();
+    await client.dispose();
+    subscribeEvents.mockRestore();
+  });
+});
@@ -0,0 +1,74 @@
+import type { GraphQLResolveInfo } from "graphql";
+
+import type { Role } from "@/generated/prisma/enums";
+import type { Permission } from "@/lib/authorization";
+
+import { AppError } from "@/errors";
+import { hasPermission, hasRole } from "@/lib/authorization";
+
+import type { GraphQLContext, GraphQLUser } from "./context";
+
+import { toGraphQLError } from "./errors";
+
+type Resolver<TParent, TArgs, TResult> = (
+  parent: TParent,
+  args: TArgs,
+  context: GraphQLContext,
+  info: GraphQLResolveInfo,
+) => TResult;
+
+/**
+ * Resolver wrapper equivalent of authMiddleware: rejects anonymous callers
+ */
+export function withAuth<TParent, TArgs, TResult>(
+  resolver: Resolver<TParent, TArgs, TResult>,
+): Resolver<TParent, TArgs, TResult> {
+  return (parent, args, context, info) => {
+    requireUser(context);
+    return resolver(parent, args, context, info);
+  };
+}
+
+/**
+ * Resolver wrapper equivalent of requireRole()
+ *
+ * @example
+ * Query: { users: withRole(["admin"], (_, args, ctx) => ...) }
+ */
+export function withRole<TParent, TArgs, TResult>(
+  roles: readonly Role[],
+  resolver: Resolver<TParent, TArgs, TResult>,
+): Resolver<TParent, TArgs, TResult> {
+  return (parent, args, context, info) => {
+    if (!hasRole(requireUser(context), roles)) {
+      throw insufficientPermissions();
+    }
+    return resolver(parent, args, context, info);
+  };
+}
+
+/**
+ * Resolver wrapper equivalent of requirePermission()
+ */
+export function withPermission<TParent, TArgs, TResult>(
+  permissions: readonly Permission[],
+  resolver: Resolver<TParent, TArgs, TResult>,
+): Resolver<TParent, TArgs, TResult> {
+  return (parent, args, context, info) => {
+    if (!hasPermission(requireUser(context), permissions)) {
+      throw insufficientPermissions();
+    }
+    return resolver(parent, args, context, info);
+  };
+}
+
+export function requireUser(context: GraphQLContext): GraphQLUser {
+  if (!context.user) {
+    throw toGraphQLError(AppError.authContextMissing(), { http: { status: 401 } });
+  }
+  return context.user;
+}
+
+function insufficientPermissions() {
+  return toGraphQLError(AppError.insufficientPermissions(), { http: { status: 403 } });
+}
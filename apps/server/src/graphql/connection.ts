@@ -0,0 +1,97 @@
+import { Buffer } from "node:buffer";
+
+import { API_CONFIG } from "@/config";
+import { AppError } from "@/errors";
+
+/**
+ * Relay-style connections with forward pagination (`first`/`after`)
+ *
+ * Cursors are opaque base64url offsets, so any list that supports skip/take
+ * can back a connection.
+ */
+export const connectionTypeDefs = /* GraphQL */ `
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+`;
+
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+}
+
+export interface Edge<T> {
+  cursor: string;
+  node: T;
+}
+
+export interface Connection<T> {
+  edges: Edge<T>[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+  totalCount: number;
+}
+
+const CURSOR_PREFIX = "offset:";
+
+export function encodeCursor(offset: number) {
+  return Buffer.from(`${CURSOR_PREFIX}${offset}`).toString("base64url");
+}
+
+/**
+ * @throws AppError.badRequest for cursors not issued by encodeCursor
+ */
+export function decodeCursor(cursor: string) {
+  const decoded = Buffer.from(cursor, "base64url").toString();
+  const offset = Number(decoded.slice(CURSOR_PREFIX.length));
+
+  if (!decoded.startsWith(CURSOR_PREFIX) || !Number.isSafeInteger(offset) || offset < 0) {
+    throw AppError.badRequest("Invalid pagination cursor");
+  }
+
+  return offset;
+}
+
+/**
+ * Resolves `first`/`after` into a skip/take window; `first` defaults to and
+ * is capped like the REST `limit`
+ *
+ * @throws AppError.badRequest for a negative `first` or an invalid cursor
+ */
+export function resolveConnectionWindow(args: ConnectionArgs) {
+  const { DEFAULT_LIMIT, MAX_LIMIT } = API_CONFIG.PAGINATION;
+
+  if (args.first != null && args.first < 0) {
+    throw AppError.badRequest("`first` must not be negative");
+  }
+
+  return {
+    skip: args.after ? decodeCursor(args.after) + 1 : 0,
+    take: Math.min(args.first ?? DEFAULT_LIMIT, MAX_LIMIT),
+  };
+}
+
+/**
+ * Builds a connection from a window of items starting at `skip`
+ */
+export function toConnection<T>(items: T[], skip: number, totalCount: number): Connection<T> {
+  const edges = items.map((node, index) => ({ cursor: encodeCursor(skip + index), node }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: skip + items.length < totalCount,
+      hasPreviousPage: skip > 0,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges.at(-1)?.cursor ?? null,
+    },
+    totalCount,
+  };
+}
@@ -1,17 +1,46 @@
-import type { JwtTokenPayload } from "hono/utils/jwt/types";
+import type { PrismaClient } from "@/generated/prisma/client";
+import type { ApiKeyClient } from "@/lib/api-key";
+import type { AuthPrincipal } from "@/lib/authorization";
+import type { EventBus } from "@/lib/events";
+import type { SessionClient } from "@/lib/session";
 
-import { verify } from "hono/jwt";
+import { authenticateApiKey, readApiKey } from "@/lib/api-key";
+import { verifyAccessToken } from "@/lib/jwt";
+import { hasActiveSession } from "@/lib/session";
 
-import { env } from "@/config";
+import type { GraphQLLoaders } from "./loaders";
 
-export interface GraphQLUser {
-  sub?: string;
-  payload: JwtTokenPayload;
-}
+import { createLoaders } from "./loaders";
+
+export type GraphQLUser = AuthPrincipal;
 
 export interface GraphQLContext {
   requestId: string;
   user: GraphQLUser | null;
+  prisma: PrismaClient;
+  events: EventBus;
+  loaders: GraphQLLoaders;
+}
+
+/**
+ * Process-wide services shared by every operation
+ */
+export type GraphQLServices = Pick<GraphQLContext, "prisma" | "events">;
+
+/**
+ * Builds the context of one operation with fresh DataLoaders
+ */
+export function createGraphQLContext(
+  services: GraphQLServices,
+  requestId: string,
+  user: GraphQLUser | null,
+): GraphQLContext {
+  return {
+    requestId,
+    user,
+    ...services,
+    loaders: createLoaders(services.prisma),
+  };
 }
 
 function extractBearerToken(authorization?: string) {
@@ -44,20 +73,26 @@ export function getAuthorizationFromConnectionParams(params: unknown) {
   return typeof nestedHeader === "string" ? nestedHeader : undefined;
 }
 
-export async function resolveUserFromAuthorization(authorization?: string) {
+/**
+ * Resolves the principal from a bearer token or `ApiKey` authorization,
+ * like authMiddleware; null when the credential is missing, invalid or
+ * revoked
+ */
+export async function resolveUserFromAuthorization(prisma: SessionClient & ApiKeyClient, authorization?: string) {
+  const apiKey = readApiKey({ authorization });
+  if (apiKey !== undefined) {
+    return authenticateApiKey(prisma, apiKey);
+  }
+
   const token = extractBearerToken(authorization);
   if (!token) {
     return null;
   }
 
-  try {
-    const payload = await verify(token, env.JWT_SECRET, "HS256");
-    return {
-      sub: typeof payload.sub === "string" ? payload.sub : undefined,
-      payload,
-    } satisfies GraphQLUser;
-  }
-  catch {
+  const principal = await verifyAccessToken(token);
+  if (!principal || !(await hasActiveSession(prisma, principal))) {
     return null;
   }
+
+  return principal;
 }
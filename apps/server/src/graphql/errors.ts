@@ -0,0 +1,116 @@
+import type { GraphQLProblemExtensions } from "@repo/shared";
+import type { ExecutionResult, GraphQLErrorExtensions } from "graphql";
+import type { Plugin } from "graphql-yoga";
+
+import { GraphQLError } from "graphql";
+import { handleStreamOrSingleExecutionResult } from "graphql-yoga";
+
+import type { ProblemDetails } from "@/lib/problem";
+
+import { logger } from "@/lib/logging";
+import { toProblemResult } from "@/lib/problem";
+
+import type { GraphQLContext } from "./context";
+
+/** Problem `instance` of GraphQL errors */
+const GRAPHQL_INSTANCE = "/graphql";
+
+/**
+ * Problem members of a GraphQL error (contract in @repo/shared); the error
+ * message is the problem detail
+ */
+function toProblemExtensions(problem: ProblemDetails): GraphQLProblemExtensions {
+  return {
+    code: problem.code,
+    problemType: problem.type,
+    status: problem.status,
+    errors: problem.errors,
+  };
+}
+
+/**
+ * Converts any error into a GraphQLError with problem extensions
+ *
+ * AppError maps through the ProblemRegistry like in REST; any other error
+ * becomes internal_error, whose detail is masked in production.
+ */
+export function toGraphQLError(error: unknown, extensions: GraphQLErrorExtensions = {}) {
+  const { problem } = toProblemResult(error, GRAPHQL_INSTANCE);
+
+  return new GraphQLError(problem.detail, {
+    extensions: { ...toProblemExtensions(problem), ...extensions },
+  });
+}
+
+/**
+ * Replaces an execution error: errors thrown by resolvers become problem
+ * errors (logged at their registry level), GraphQL errors are kept; both
+ * get the request ID
+ */
+function toOperationError(error: GraphQLError, requestId: string) {
+  const { originalError } = error;
+  const location = {
+    nodes: error.nodes,
+    source: error.source,
+    positions: error.positions,
+    path: error.path,
+  };
+
+  if (!originalError || originalError instanceof GraphQLError) {
+    return new GraphQLError(error.message, {
+      ...location,
+      extensions: { ...error.extensions, requestId },
+    });
+  }
+
+  const { problem, logLevel, errorType } = toProblemResult(originalError, GRAPHQL_INSTANCE);
+  logger[logLevel](originalError.message, {
+    requestId,
+    error: { code: problem.code, name: errorType, message: problem.detail },
+    graphql: { path: error.path?.join(".") },
+  });
+
+  return new GraphQLError(problem.detail, {
+    ...location,
+    extensions: { ...toProblemExtensions(problem), requestId },
+  });
+}
+
+function withProblemErrors(result: ExecutionResult, requestId: string): ExecutionResult {
+  if (!result.errors?.length) {
+    return result;
+  }
+  return { ...result, errors: result.errors.map(error => toOperationError(error, requestId)) };
+}
+
+/**
+ * Yoga plugin mapping resolver errors onto RFC 9457 problem extensions
+ *
+ * Runs before Yoga's error masking, which then passes the converted errors
+ * through unchanged; unexpected errors are masked by the registry's
+ * exposeDetail policy instead.
+ */
+export function useProblemDetails(): Plugin<GraphQLContext> {
+  return {
+    onExecute() {
+      return {
+        onExecuteDone(payload) {
+          const { requestId } = payload.args.contextValue as GraphQLContext;
+          return handleStreamOrSingleExecutionResult(payload, ({ result, setResult }) => {
+            setResult(withProblemErrors(result, requestId));
+          });
+        },
+      };
+    },
+    onSubscribe() {
+      return {
+        onSubscribeResult(payload) {
+          const { requestId } = payload.args.contextValue as GraphQLContext;
+          return handleStreamOrSingleExecutionResult(payload, ({ result, setResult }) => {
+            setResult(withProblemErrors(result, requestId));
+          });
+        },
+      };
+    },
+  };
+}
@@ -1,6 +1,8 @@
 import { createSchema } from "graphql-yoga";
 
+import { connectionTypeDefs } from "./connection";
 import { systemGraphQL } from "./system";
+import { usersGraphQL } from "./users";
 
 const baseTypeDefs = /* GraphQL */ `
   type Query {
@@ -18,7 +20,7 @@ const baseTypeDefs = /* GraphQL */ `
 
 export function createExecutableSchema() {
   return createSchema({
-    typeDefs: [baseTypeDefs, systemGraphQL.typeDefs],
-    resolvers: [systemGraphQL.resolvers],
+    typeDefs: [baseTypeDefs, connectionTypeDefs, systemGraphQL.typeDefs, usersGraphQL.typeDefs],
+    resolvers: [systemGraphQL.resolvers, usersGraphQL.resolvers],
   });
 }
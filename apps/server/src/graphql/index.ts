@@ -1 +1,5 @@
+export { requireUser, withAuth, withPermission, withRole } from "./authorization";
+export type { GraphQLContext, GraphQLServices, GraphQLUser } from "./context";
+export { toGraphQLError, useProblemDetails } from "./errors";
+export type { GraphQLLoaders } from "./loaders";
 export { attachGraphQLWebSocketServer, yoga } from "./server";
@@ -0,0 +1,246 @@
+import type {
+  FieldNode,
+  GraphQLField,
+  GraphQLNamedType,
+  OperationDefinitionNode,
+  ParseOptions,
+  SelectionSetNode,
+  ValidationContext,
+  ValidationRule,
+} from "graphql";
+import type { Plugin } from "graphql-yoga";
+
+import {
+  getNamedType,
+  isInterfaceType,
+  isObjectType,
+  Kind,
+  Lexer,
+  parse,
+  Source,
+  TokenKind,
+} from "graphql";
+
+import type { GraphQLCode } from "@/errors";
+
+import { API_CONFIG, env } from "@/config";
+import { AppError, GRAPHQL_CODES } from "@/errors";
+
+import type { GraphQLContext } from "./context";
+
+import { toGraphQLError } from "./errors";
+
+/**
+ * Per-operation limits that keep a single document from being expensive;
+ * the rate limiter only counts requests
+ */
+export interface OperationLimits {
+  /** Deepest nesting of field selections */
+  maxDepth: number;
+  /** Aliased fields per operation */
+  maxAliases: number;
+  /** Lexical tokens per document (checked before parsing) */
+  maxTokens: number;
+  /** Estimated cost per operation (see measureOperation) */
+  maxCost: number;
+}
+
+export const operationLimits: OperationLimits = {
+  maxDepth: env.GRAPHQL_MAX_DEPTH,
+  maxAliases: env.GRAPHQL_MAX_ALIASES,
+  maxTokens: env.GRAPHQL_MAX_TOKENS,
+  maxCost: env.GRAPHQL_MAX_COST,
+};
+
+interface Measure {
+  depth: number;
+  aliases: number;
+  cost: number;
+}
+
+const EMPTY: Measure = { depth: 0, aliases: 0, cost: 0 };
+
+function limitExceeded(code: GraphQLCode, detail: string) {
+  return toGraphQLError(AppError.operationLimitExceeded(code, detail));
+}
+
+/**
+ * Number of items a field returns per parent: its `first` argument, capped
+ * like resolveConnectionWindow; a variable counts as the maximum and a
+ * connection without `first` as the default page
+ */
+function listSize(field: FieldNode, definition?: GraphQLField<unknown, unknown>) {
+  const { DEFAULT_LIMIT, MAX_LIMIT } = API_CONFIG.PAGINATION;
+  const first = field.arguments?.find(argument => argument.name.value === "first");
+
+  if (!first) {
+    return definition?.args.some(argument => argument.name === "first") ? DEFAULT_LIMIT : 1;
+  }
+  if (first.value.kind === Kind.INT) {
+    return Math.min(Number(first.value.value), MAX_LIMIT);
+  }
+  return first.value.kind === Kind.NULL ? DEFAULT_LIMIT : MAX_LIMIT;
+}
+
+/**
+ * Depth, aliases and cost of an operation
+ *
+ * Every field costs 1 and a connection field multiplies the cost of its
+ * selection by the page size. Fragments are measured once (cycles count as
+ * empty; NoFragmentCyclesRule reports them). Introspection fields are free
+ * and do not count towards the depth, so GraphiQL keeps working.
+ */
+function measureOperation(operation: OperationDefinitionNode, context: ValidationContext): Measure {
+  const schema = context.getSchema();
+  const fragments = new Map<string, Measure>();
+
+  /** Field definition, to tell connections; undefined for unknown fields (reported by validation) */
+  function fieldDefinition(parentType: GraphQLNamedType | undefined, name: string) {
+    return isObjectType(parentType) || isInterfaceType(parentType) ? parentType.getFields()[name] : undefined;
+  }
+
+  function typeCondition(name: string | undefined, parentType: GraphQLNamedType | undefined) {
+    return name ? schema.getType(name) ?? undefined : parentType;
+  }
+
+  function measureSelectionSet(selectionSet: SelectionSetNode, parentType: GraphQLNamedType | undefined): Measure {
+    const total = { ...EMPTY };
+    const add = (measure: Measure) => {
+      total.depth = Math.max(total.depth, measure.depth);
+      total.aliases += measure.aliases;
+      total.cost += measure.cost;
+    };
+
+    for (const selection of selectionSet.selections) {
+      switch (selection.kind) {
+        case Kind.FIELD: {
+          const alias = selection.alias ? 1 : 0;
+          if (selection.name.value.startsWith("__")) {
+            add({ ...EMPTY, aliases: alias });
+            break;
+          }
+          const definition = fieldDefinition(parentType, selection.name.value);
+          const child = selection.selectionSet
+            ? measureSelectionSet(selection.selectionSet, definition && getNamedType(definition.type))
+            : EMPTY;
+          add({
+            depth: child.depth + 1,
+            aliases: child.aliases + alias,
+            cost: 1 + listSize(selection, definition) * child.cost,
+          });
+          break;
+        }
+        case Kind.INLINE_FRAGMENT:
+          add(measureSelectionSet(
+            selection.selectionSet,
+            typeCondition(selection.typeCondition?.name.value, parentType),
+          ));
+          break;
+        case Kind.FRAGMENT_SPREAD:
+          add(measureFragment(selection.name.value));
+          break;
+      }
+    }
+
+    return total;
+  }
+
+  function measureFragment(name: string): Measure {
+    const known = fragments.get(name);
+    if (known) {
+      return known;
+    }
+    const fragment = context.getFragment(name);
+    if (!fragment) {
+      return EMPTY;
+    }
+    // Placeholder while measuring, so cyclic spreads terminate
+    fragments.set(name, EMPTY);
+    const measure = measureSelectionSet(fragment.selectionSet, typeCondition(fragment.typeCondition.name.value, undefined));
+    fragments.set(name, measure);
+    return measure;
+  }
+
+  return measureSelectionSet(operation.selectionSet, schema.getRootType(operation.operation) ?? undefined);
+}
+
+/**
+ * Validation rule rejecting operations above the depth, alias or cost limit
+ */
+export function createOperationLimitsRule(limits: OperationLimits): ValidationRule {
+  return context => ({
+    OperationDefinition(operation) {
+      const { depth, aliases, cost } = measureOperation(operation, context);
+
+      if (depth > limits.maxDepth) {
+        context.reportError(limitExceeded(
+          GRAPHQL_CODES.DEPTH_LIMIT_EXCEEDED,
+          `Query depth ${depth} exceeds the maximum of ${limits.maxDepth}`,
+        ));
+      }
+      if (aliases > limits.maxAliases) {
+        context.reportError(limitExceeded(
+          GRAPHQL_CODES.ALIAS_LIMIT_EXCEEDED,
+          `Query uses ${aliases} aliases, more than the maximum of ${limits.maxAliases}`,
+        ));
+      }
+      if (cost > limits.maxCost) {
+        context.reportError(limitExceeded(
+          GRAPHQL_CODES.COST_LIMIT_EXCEEDED,
+          `Query cost ${cost} exceeds the budget of ${limits.maxCost}`,
+        ));
+      }
+      return false;
+    },
+  });
+}
+
+/**
+ * Counts tokens up to the limit; syntax errors stop counting and are left
+ * to the parser
+ */
+function exceedsTokenLimit(source: string | Source, maxTokens: number) {
+  const lexer = new Lexer(typeof source === "string" ? new Source(source) : source);
+  let tokens = 0;
+
+  try {
+    while (lexer.advance().kind !== TokenKind.EOF) {
+      if (++tokens > maxTokens) {
+        return true;
+      }
+    }
+  }
+  catch {
+    return false;
+  }
+  return false;
+}
+
+/**
+ * Parses a document, rejecting it before parsing when it has too many tokens
+ */
+export function parseWithLimits(source: string | Source, limits: OperationLimits, options?: ParseOptions) {
+  if (exceedsTokenLimit(source, limits.maxTokens)) {
+    throw limitExceeded(
+      GRAPHQL_CODES.TOKEN_LIMIT_EXCEEDED,
+      `The document exceeds the maximum of ${limits.maxTokens} tokens`,
+    );
+  }
+  return parse(source, options);
+}
+
+/**
+ * Yoga plugin enforcing the operation limits on parse and validation
+ */
+export function useOperationLimits(limits: OperationLimits = operationLimits): Plugin<GraphQLContext> {
+  const rule = createOperationLimitsRule(limits);
+
+  return {
+    onParse({ setParseFn }) {
+      setParseFn((source, options) => parseWithLimits(source, limits, options));
+    },
+    onValidate({ addValidationRule }) {
+      addValidationRule(rule);
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import DataLoader from "dataloader";
+
+import type { PrismaClient } from "@/generated/prisma/client";
+import type { UserResponse } from "@/modules/users";
+
+import { getUsersByIds } from "@/modules/users";
+
+/**
+ * Per-request DataLoaders: they batch and cache lookups within one
+ * operation, so they must never be shared between requests
+ */
+export interface GraphQLLoaders {
+  /** Users by ID; resolves null for unknown IDs */
+  user: DataLoader<string, UserResponse | null>;
+}
+
+export function createLoaders(prisma: PrismaClient): GraphQLLoaders {
+  return {
+    user: new DataLoader(ids => getUsersByIds(prisma, ids)),
+  };
+}
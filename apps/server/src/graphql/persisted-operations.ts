@@ -0,0 +1,97 @@
+import type { Plugin } from "graphql-yoga";
+
+import { useAPQ } from "@graphql-yoga/plugin-apq";
+import { usePersistedOperations } from "@graphql-yoga/plugin-persisted-operations";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+
+import { toGraphQLError } from "./errors";
+
+/**
+ * Operation allow-list: sha256 hash of each document to its body
+ */
+export type OperationManifest = ReadonlyMap<string, string>;
+
+/** Output of `generate-persisted-query-manifest` (apps/client) */
+const ManifestSchema = z.object({
+  format: z.literal("apollo-persisted-query-manifest"),
+  version: z.literal(1),
+  operations: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    type: z.enum(["query", "mutation", "subscription"]),
+    body: z.string(),
+  })),
+});
+
+export function hashOperation(query: string) {
+  return createHash("sha256").update(query).digest("hex");
+}
+
+/**
+ * Validates a manifest; every id must be the hash of its body, the key
+ * automatic persisted queries use
+ */
+export function parseOperationManifest(json: unknown): OperationManifest {
+  const { operations } = ManifestSchema.parse(json);
+  const manifest = new Map<string, string>();
+
+  for (const { id, name, body } of operations) {
+    if (hashOperation(body) !== id) {
+      throw new Error(`Persisted operation ${name} does not match its id ${id}`);
+    }
+    manifest.set(id, body);
+  }
+  return manifest;
+}
+
+export function loadOperationManifest(file: string): OperationManifest {
+  return parseOperationManifest(JSON.parse(readFileSync(path.resolve(process.cwd(), file), "utf-8")));
+}
+
+/**
+ * Allow-list of strict mode; null with automatic persisted queries. Loaded
+ * at startup, so a missing or invalid manifest fails fast.
+ */
+export const operationManifest = env.GRAPHQL_PERSISTED_OPERATIONS === "strict"
+  ? loadOperationManifest(env.GRAPHQL_OPERATION_MANIFEST!)
+  : null;
+
+/**
+ * Whether a document may run; for graphql-ws, whose operations skip Yoga's
+ * HTTP parameter handling where the plugin checks them
+ */
+export function isAllowedOperation(query: string, manifest: OperationManifest | null = operationManifest) {
+  return !manifest || manifest.has(hashOperation(query));
+}
+
+/**
+ * Yoga plugin for persisted operations
+ *
+ * Without a manifest, clients may send a sha256 hash instead of the document
+ * once the server has seen it (automatic persisted queries). With one, only
+ * hashes from the manifest are accepted; documents and unknown hashes are
+ * rejected with OPERATION_NOT_ALLOWED, which the client does not retry.
+ */
+export function usePersistedQueries(manifest: OperationManifest | null = operationManifest): Plugin {
+  if (!manifest) {
+    return useAPQ();
+  }
+
+  const notAllowed = () => toGraphQLError(AppError.operationNotAllowed());
+
+  return usePersistedOperations({
+    getPersistedOperation: id => manifest.get(id) ?? null,
+    allowArbitraryOperations: false,
+    customErrors: {
+      notFound: notAllowed,
+      persistedQueryOnly: notAllowed,
+      keyNotFound: notAllowed,
+    },
+  });
+}
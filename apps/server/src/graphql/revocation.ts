@@ -0,0 +1,126 @@
+import type { Plugin } from "graphql-yoga";
+
+import { isAsyncIterable, Repeater } from "graphql-yoga";
+
+import type { CredentialRevokedEvent, UserChangedEvent } from "@/lib/events";
+
+import { hasActiveSession } from "@/lib/session";
+
+import type { GraphQLContext, GraphQLUser } from "./context";
+
+/**
+ * Longest delay setTimeout accepts; longer waits are chained
+ */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Whether a change of the subscriber's account ends their access: the
+ * account was deleted, deactivated or changed role (permissions are fixed
+ * when subscribing), or their session was revoked
+ */
+async function hasLostAccess(context: GraphQLContext, user: GraphQLUser, event: UserChangedEvent) {
+  if (!event.user || !event.user.active || event.user.role !== user.role) {
+    return true;
+  }
+  return !(await hasActiveSession(context.prisma, user));
+}
+
+/**
+ * Whether the revoked credential is the one the subscriber authenticated with
+ */
+function isOwnCredential(user: GraphQLUser, event: CredentialRevokedEvent) {
+  switch (event.kind) {
+    case "session":
+      return user.sessionId === event.id;
+    case "api-key":
+      return user.apiKeyId === event.id;
+    case "client":
+      return user.clientId !== undefined && user.userId === event.id;
+  }
+}
+
+/**
+ * Resolves once `expiresAt` has passed
+ */
+function expiry(expiresAt: Date, stopped: Promise<unknown>) {
+  return new Promise<void>((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const wait = () => {
+      const remaining = expiresAt.getTime() - Date.now();
+      if (remaining <= 0) {
+        resolve();
+        return;
+      }
+      timer = setTimeout(wait, Math.min(remaining, MAX_TIMER_MS));
+    };
+    wait();
+    void stopped.then(() => clearTimeout(timer));
+  });
+}
+
+/**
+ * Ends once the subscriber loses access: their credential was revoked or
+ * expired, or (for users) their own account changed
+ */
+function revocationOf(context: GraphQLContext, user: GraphQLUser) {
+  return new Repeater<never>(async (_push, stop) => {
+    const revocations = context.events.subscribe("credentials.revoked");
+    void stop.then(() => revocations.return?.());
+
+    const watches = [
+      (async () => {
+        for await (const event of revocations) {
+          if (event.userId === user.userId && isOwnCredential(user, event)) {
+            return;
+          }
+        }
+      })(),
+    ];
+
+    // Client tokens act for no user, so no account change concerns them
+    if (!user.clientId) {
+      const changes = context.events.subscribe("users.changed");
+      void stop.then(() => changes.return?.());
+      watches.push((async () => {
+        for await (const event of changes) {
+          if (event.userId === user.userId && await hasLostAccess(context, user, event)) {
+            return;
+          }
+        }
+      })());
+    }
+
+    if (user.expiresAt) {
+      watches.push(expiry(user.expiresAt, stop));
+    }
+
+    await Promise.race(watches);
+    stop();
+  });
+}
+
+/**
+ * Yoga plugin ending subscriptions whose subscriber lost access
+ *
+ * Credentials are checked when an operation starts; without this an open
+ * subscription would keep streaming after its token expired, after its
+ * session, API key or OAuth2 client was revoked ("credentials.revoked"),
+ * or after its account was deactivated, demoted or deleted
+ * ("users.changed").
+ */
+export function useSubscriptionRevocation(): Plugin<GraphQLContext> {
+  return {
+    onSubscribe() {
+      return {
+        onSubscribeResult({ args, result, setResult }) {
+          const context = args.contextValue as GraphQLContext;
+          const { user } = context;
+          if (!user || !isAsyncIterable(result)) {
+            return;
+          }
+          setResult(Repeater.race([result, revocationOf(context, user)]));
+        },
+      };
+    },
+  };
+}
@@ -1,36 +1,47 @@
-import { randomUUID } from "node:crypto";
 import type { Server as HTTPServer } from "node:http";
 
-import { createYoga } from "graphql-yoga";
+import { GraphQLError } from "graphql";
 import { useServer } from "graphql-ws/use/ws";
+import { createYoga } from "graphql-yoga";
+import { randomUUID } from "node:crypto";
 import { WebSocketServer } from "ws";
 
-import type { GraphQLContext } from "./context";
+import { AppError } from "@/errors";
+import { ACCESS_SCOPES, hasScope } from "@/lib/authorization";
+
+import type { GraphQLContext, GraphQLServices, GraphQLUser } from "./context";
 
 import {
+  createGraphQLContext,
   getAuthorizationFromConnectionParams,
   resolveUserFromAuthorization,
 } from "./context";
+import { toGraphQLError, useProblemDetails } from "./errors";
 import { createExecutableSchema } from "./executable-schema";
+import { useOperationLimits } from "./limits";
+import { isAllowedOperation, usePersistedQueries } from "./persisted-operations";
+import { useSubscriptionRevocation } from "./revocation";
 
 const schema = createExecutableSchema();
 
-export const yoga = createYoga<{ requestId?: string }>({
+/**
+ * Passed by each transport: the /graphql route (modules/graphql) and the
+ * WebSocket server, which authenticate the caller themselves
+ */
+type GraphQLServerContext = { requestId?: string; principal?: GraphQLUser | null } & Partial<GraphQLServices>;
+
+export const yoga = createYoga<GraphQLServerContext>({
   schema,
   graphqlEndpoint: "/graphql",
-  context: async ({ request, extra }): Promise<GraphQLContext> => {
-    const user = await resolveUserFromAuthorization(
-      request.headers.get("authorization") ?? undefined
-    );
-
-    return {
-      requestId: extra?.requestId ?? randomUUID(),
-      user,
-    };
-  },
+  plugins: [usePersistedQueries(), useOperationLimits(), useProblemDetails(), useSubscriptionRevocation()],
+  context: ({ requestId, principal, prisma, events }): GraphQLContext =>
+    createGraphQLContext({ prisma: prisma!, events: events! }, requestId ?? randomUUID(), principal ?? null),
 });
 
-export function attachGraphQLWebSocketServer(server: HTTPServer) {
+/** Yoga's execute and subscribe for one WebSocket operation */
+type EnvelopedRoot = Pick<ReturnType<typeof yoga.getEnveloped>, "execute" | "subscribe">;
+
+export function attachGraphQLWebSocketServer(server: HTTPServer, services: GraphQLServices) {
   const wsServer = new WebSocketServer({
     server,
     path: "/graphql",
@@ -38,24 +49,64 @@ export function attachGraphQLWebSocketServer(server: HTTPServer) {
 
   const cleanup = useServer(
     {
-      schema,
-      context: async (ctx): Promise<GraphQLContext> => {
-        const authorization = getAuthorizationFromConnectionParams(
-          ctx.connectionParams
-        );
-        const user = await resolveUserFromAuthorization(authorization);
-
-        if (!user) {
-          throw new Error("Unauthorized");
+      // Operations run through Yoga's plugins (limits, problem details,
+      // masking), which are set up per operation in onSubscribe
+      execute: args => (args.rootValue as EnvelopedRoot).execute(args),
+      subscribe: args => (args.rootValue as EnvelopedRoot).subscribe(args),
+      onSubscribe: async (ctx, _id, payload) => {
+        // Yoga checks the allow-list while reading HTTP params, so it is done here
+        if (!isAllowedOperation(payload.query)) {
+          return [toGraphQLError(AppError.operationNotAllowed())];
         }
 
-        return {
+        const authorization = getAuthorizationFromConnectionParams(ctx.connectionParams);
+        // Checked per operation, so a revoked session cannot start new subscriptions
+        const principal = await resolveUserFromAuthorization(services.prisma, authorization);
+        // A 401 problem like on HTTP, so clients refresh the token and resubscribe
+        if (!principal) {
+          return [toGraphQLError(AppError.unauthorized("Invalid or expired token"))];
+        }
+        // Same rule as requireScope on the HTTP route (modules/graphql)
+        if (!hasScope(principal, [ACCESS_SCOPES.GRAPHQL])) {
+          return [toGraphQLError(AppError.insufficientPermissions(
+            `The token scope does not include ${ACCESS_SCOPES.GRAPHQL}`,
+          ))];
+        }
+
+        const { schema, execute, subscribe, contextFactory, parse, validate } = yoga.getEnveloped({
+          ...services,
           requestId: randomUUID(),
-          user,
+          principal,
+          params: payload,
+        });
+
+        let document;
+        try {
+          document = parse(payload.query);
+        }
+        catch (error) {
+          if (error instanceof GraphQLError) {
+            return [error];
+          }
+          throw error;
+        }
+
+        const errors = validate(schema, document);
+        if (errors.length > 0) {
+          return errors;
+        }
+
+        return {
+          schema,
+          document,
+          operationName: payload.operationName,
+          variableValues: payload.variables,
+          contextValue: await contextFactory(),
+          rootValue: { execute, subscribe } satisfies EnvelopedRoot,
         };
       },
     },
-    wsServer
+    wsServer,
   );
 
   return () => {
@@ -0,0 +1,24 @@
+import { USER_SORT_FIELDS } from "@/modules/users";
+
+import { usersMutationResolvers } from "./mutation";
+import { usersQueryResolvers } from "./query";
+import { usersTypeDefs } from "./schema";
+import { usersSubscriptionResolvers } from "./subscription";
+
+/** GraphQL enum value (FIRST_NAME) to the REST sort field (firstName) */
+const userSortFieldValues = Object.fromEntries(
+  USER_SORT_FIELDS.map(field => [field.replace(/[A-Z]/g, "_$&").toUpperCase(), field]),
+);
+
+export const usersGraphQL = {
+  typeDefs: usersTypeDefs,
+  resolvers: {
+    UserRole: { ADMIN: "admin", USER: "user" },
+    UserSortField: userSortFieldValues,
+    SortDirection: { ASC: "asc", DESC: "desc" },
+    UserEventKind: { CREATED: "created", UPDATED: "updated", DELETED: "deleted" },
+    Query: usersQueryResolvers,
+    Mutation: usersMutationResolvers,
+    Subscription: usersSubscriptionResolvers,
+  },
+};
@@ -0,0 +1,43 @@
+import type { UserResponse } from "@/modules/users";
+
+import { AppError } from "@/errors";
+import { PERMISSIONS } from "@/lib/authorization";
+import { assertNotOwnAccount, updateUser, updateUserBodySchema } from "@/modules/users";
+
+import type { GraphQLContext } from "../context";
+
+import { requireUser, withPermission } from "../authorization";
+import { parseInput } from "../validation";
+
+const updateProfileInputSchema = updateUserBodySchema.pick({ firstName: true, lastName: true });
+
+const updateUserInputSchema = updateUserBodySchema.omit({ password: true });
+
+/**
+ * Replaces the cached user so later fields of the operation see the update
+ */
+function refreshLoader(context: GraphQLContext, user: UserResponse) {
+  context.loaders.user.clear(user.id).prime(user.id, user);
+  return user;
+}
+
+export const usersMutationResolvers = {
+  updateProfile: async (_: unknown, args: { input: unknown }, context: GraphQLContext) => {
+    const principal = requireUser(context);
+    if (principal.clientId) {
+      throw AppError.forbidden("OAuth2 client tokens have no user profile");
+    }
+
+    const input = parseInput(updateProfileInputSchema, args.input);
+    return refreshLoader(context, await updateUser(context.prisma, context.events, principal.userId, input));
+  },
+
+  updateUser: withPermission(
+    [PERMISSIONS.USERS_WRITE],
+    async (_: unknown, args: { id: string; input: unknown }, context: GraphQLContext) => {
+      const input = parseInput(updateUserInputSchema, args.input);
+      assertNotOwnAccount(requireUser(context).userId, args.id, input);
+      return refreshLoader(context, await updateUser(context.prisma, context.events, args.id, input));
+    },
+  ),
+};
@@ -0,0 +1,73 @@
+import type { UserFilter, UserResponse } from "@/modules/users";
+
+import { PERMISSIONS } from "@/lib/authorization";
+import { findUsers, listUsersQuerySchema } from "@/modules/users";
+
+import type { ConnectionArgs } from "../connection";
+import type { GraphQLContext } from "../context";
+
+import { requireUser, withPermission } from "../authorization";
+import { resolveConnectionWindow, toConnection } from "../connection";
+import { parseInput } from "../validation";
+
+/**
+ * Arguments of the `users` connection field
+ */
+export interface UsersArgs extends ConnectionArgs {
+  filter?: {
+    query?: string | null;
+    role?: UserResponse["role"] | null;
+    active?: boolean | null;
+  } | null;
+  orderBy?: {
+    field: string;
+    direction: "asc" | "desc";
+  } | null;
+}
+
+const userFilterSchema = listUsersQuerySchema.omit({ page: true, limit: true });
+
+/**
+ * Translates GraphQL arguments into the REST list query, so both share its
+ * validation, search and sorting
+ */
+function toUserFilter({ filter, orderBy }: UsersArgs): UserFilter {
+  return parseInput(userFilterSchema, {
+    q: filter?.query ?? undefined,
+    role: filter?.role ?? undefined,
+    active: filter?.active == null ? undefined : String(filter.active),
+    sort: orderBy ? `${orderBy.direction === "desc" ? "-" : ""}${orderBy.field}` : undefined,
+  });
+}
+
+export const usersQueryResolvers = {
+  me: (_: unknown, __: unknown, context: GraphQLContext) => {
+    const principal = requireUser(context);
+    // OAuth2 client tokens carry the ApiClient ID, not a user ID
+    if (principal.clientId) {
+      return null;
+    }
+    return context.loaders.user.load(principal.userId);
+  },
+
+  user: withPermission(
+    [PERMISSIONS.USERS_READ],
+    (_: unknown, args: { id: string }, context: GraphQLContext) =>
+      context.loaders.user.load(args.id),
+  ),
+
+  users: withPermission(
+    [PERMISSIONS.USERS_READ],
+    async (_: unknown, args: UsersArgs, context: GraphQLContext) => {
+      const filter = toUserFilter(args);
+      const window = resolveConnectionWindow(args);
+
+      const { items, totalItems } = await findUsers(context.prisma, filter, window);
+      for (const user of items) {
+        context.loaders.user.prime(user.id, user);
+      }
+
+      return toConnection(items, window.skip, totalItems);
+    },
+  ),
+};
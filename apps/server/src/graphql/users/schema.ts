@@ -0,0 +1,102 @@
+export const usersTypeDefs = /* GraphQL */ `
+  enum UserRole {
+    ADMIN
+    USER
+  }
+
+  enum UserSortField {
+    EMAIL
+    FIRST_NAME
+    LAST_NAME
+    ROLE
+    CREATED_AT
+    UPDATED_AT
+  }
+
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  type User {
+    id: ID!
+    email: String!
+    active: Boolean!
+    firstName: String
+    lastName: String
+    role: UserRole!
+    twoFactorEnabled: Boolean!
+    "Sign-in is locked after repeated failures until this time (ISO 8601)"
+    lockedUntil: String
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type UserEdge {
+    cursor: String!
+    node: User!
+  }
+
+  enum UserEventKind {
+    CREATED
+    UPDATED
+    DELETED
+  }
+
+  type UserEvent {
+    kind: UserEventKind!
+    userId: ID!
+    "The user after the change; null once deleted"
+    user: User
+  }
+
+  type UserConnection {
+    edges: [UserEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  input UserFilter {
+    "Case-insensitive search in email, first name and last name"
+    query: String
+    role: UserRole
+    active: Boolean
+  }
+
+  input UserOrder {
+    field: UserSortField!
+    direction: SortDirection! = ASC
+  }
+
+  "Own profile changes; null clears a name"
+  input UpdateProfileInput {
+    firstName: String
+    lastName: String
+  }
+
+  "Administrative changes; null clears a name"
+  input UpdateUserInput {
+    email: String
+    firstName: String
+    lastName: String
+    role: UserRole
+    active: Boolean
+  }
+
+  extend type Query {
+    "The signed-in user; null for OAuth2 client tokens, which act for no user"
+    me: User
+    user(id: ID!): User
+    users(first: Int, after: String, filter: UserFilter, orderBy: UserOrder): UserConnection!
+  }
+
+  extend type Mutation {
+    updateProfile(input: UpdateProfileInput!): User!
+    updateUser(id: ID!, input: UpdateUserInput!): User!
+  }
+
+  extend type Subscription {
+    "Changes of all accounts with users:read, otherwise of the caller's own account only"
+    userEvents: UserEvent!
+  }
+`;
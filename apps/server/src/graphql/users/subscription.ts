@@ -0,0 +1,30 @@
+import { filter, pipe } from "graphql-yoga";
+
+import type { UserChangedEvent } from "@/lib/events";
+
+import { hasPermission, PERMISSIONS } from "@/lib/authorization";
+
+import type { GraphQLContext } from "../context";
+
+import { requireUser } from "../authorization";
+
+export const usersSubscriptionResolvers = {
+  userEvents: {
+    /**
+     * Streams user changes from the event bus, so changes made through any
+     * replica reach this connection; the filter is fixed when subscribing
+     */
+    subscribe: (_: unknown, __: unknown, context: GraphQLContext) => {
+      const principal = requireUser(context);
+      const canReadAll = hasPermission(principal, [PERMISSIONS.USERS_READ]);
+      // OAuth2 client tokens act for no user, so they only see changes with users:read
+      const ownUserId = principal.clientId ? null : principal.userId;
+
+      return pipe(
+        context.events.subscribe("users.changed"),
+        filter((event: UserChangedEvent) => canReadAll || event.userId === ownUserId),
+      );
+    },
+    resolve: (event: UserChangedEvent) => event,
+  },
+};
@@ -0,0 +1,18 @@
+import type { z } from "zod";
+
+import { AppError } from "@/errors";
+import { zodToFieldErrors } from "@/lib/problem";
+
+/**
+ * Validates resolver input against a (shared) zod schema, like the REST
+ * validation hook does for request bodies
+ *
+ * @throws AppError.validation with field errors when the input is invalid
+ */
+export function parseInput<T extends z.ZodType>(schema: T, input: unknown): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw AppError.validation("The request contains invalid data", zodToFieldErrors(result.error));
+  }
+  return result.data;
+}
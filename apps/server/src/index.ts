@@ -1,7 +1,9 @@
 import { serve } from "@hono/node-server";
 
 import { env } from "@/config";
+import { prisma } from "@/db/prisma";
 import { attachGraphQLWebSocketServer } from "@/graphql";
+import { eventBus } from "@/lib/events";
 
 import app from "./app";
 
@@ -14,11 +16,12 @@ const server = serve({
   console.log(`Server is running on port http://localhost:${info.port}`);
 });
 
-const disposeGraphQLWebSocket = attachGraphQLWebSocketServer(server);
+const disposeGraphQLWebSocket = attachGraphQLWebSocketServer(server, { prisma, events: eventBus });
 
-const shutdown = () => {
+function shutdown() {
   disposeGraphQLWebSocket();
-};
+  void eventBus.close();
+}
 
 process.on("SIGINT", shutdown);
 process.on("SIGTERM", shutdown);
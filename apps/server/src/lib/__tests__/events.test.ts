@@ -0,0 +1,114 @@
+/**
+ * Event Bus Tests
+ *
+ * Tests the in-memory backend and the Postgres LISTEN/NOTIFY backend
+ * against a fake pg client.
+ *
+ * @module lib/__tests__/events.test
+ */
+
+import type { EventEmitter } from "node:events";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { UserChangedEvent } from "@/lib/events";
+
+import { createMemoryEventBus, createPostgresEventBus } from "@/lib/events";
+
+const pg = vi.hoisted(() => ({ clients: [] as any[] }));
+
+vi.mock("pg", async () => {
+  const { EventEmitter } = await import("node:events");
+
+  class Client extends EventEmitter {
+    connect = vi.fn(async () => {});
+    end = vi.fn(async () => {
+      this.emit("end");
+    });
+
+    query = vi.fn(async (text: string, values?: string[]) => {
+      // Postgres delivers notifications to every listener, including the sender
+      if (text.startsWith("SELECT pg_notify")) {
+        for (const client of pg.clients) {
+          client.emit("notification", { channel: values![0], payload: values![1] });
+        }
+      }
+      return { rows: [] };
+    });
+
+    escapeIdentifier = (name: string) => `"${name}"`;
+
+    constructor() {
+      super();
+      pg.clients.push(this);
+    }
+  }
+
+  return { Client };
+});
+
+const deleted: UserChangedEvent = { kind: "deleted", userId: "user-1", user: null };
+
+describe("memory event bus", () => {
+  it("delivers published events to every subscriber", async () => {
+    const bus = createMemoryEventBus();
+    const first = bus.subscribe("users.changed");
+    const second = bus.subscribe("users.changed");
+
+    await bus.publish("users.changed", deleted);
+
+    expect(await first.next()).toEqual({ done: false, value: deleted });
+    expect(await second.next()).toEqual({ done: false, value: deleted });
+  });
+
+  it("ends subscriptions when returned or closed", async () => {
+    const bus = createMemoryEventBus();
+    const returned = bus.subscribe("users.changed");
+    const open = bus.subscribe("users.changed");
+    const pending = open.next();
+
+    await returned.return!();
+    await bus.close();
+
+    expect(await returned.next()).toEqual({ done: true, value: undefined });
+    expect(await pending).toEqual({ done: true, value: undefined });
+  });
+});
+
+describe("postgres event bus", () => {
+  afterEach(() => {
+    pg.clients.length = 0;
+  });
+
+  it("reaches subscribers of every replica through NOTIFY", async () => {
+    const replicaA = createPostgresEventBus("postgres://localhost/test", "app_events");
+    const replicaB = createPostgresEventBus("postgres://localhost/test", "app_events");
+    const onA = replicaA.subscribe("users.changed");
+    const onB = replicaB.subscribe("users.changed");
+    // Wait until both replicas listen
+    await vi.waitFor(() => expect(pg.clients.every(client => client.query.mock.calls.length > 0)).toBe(true));
+
+    await replicaA.publish("users.changed", deleted);
+
+    expect(pg.clients[0].query).toHaveBeenCalledWith("LISTEN \"app_events\"");
+    expect(await onA.next()).toEqual({ done: false, value: deleted });
+    expect(await onB.next()).toEqual({ done: false, value: deleted });
+
+    await replicaA.close();
+    await replicaB.close();
+    expect(pg.clients.every(client => client.end.mock.calls.length === 1)).toBe(true);
+  });
+
+  it("ignores notifications of other channels", async () => {
+    const bus = createPostgresEventBus("postgres://localhost/test", "app_events");
+    const stream = bus.subscribe("users.changed");
+    await vi.waitFor(() => expect(pg.clients[0]?.query).toHaveBeenCalled());
+
+    const listener = pg.clients[0] as EventEmitter;
+    listener.emit("notification", { channel: "other", payload: JSON.stringify({ topic: "users.changed", payload: {} }) });
+    listener.emit("notification", { channel: "app_events", payload: JSON.stringify({ topic: "users.changed", payload: deleted }) });
+
+    expect(await stream.next()).toEqual({ done: false, value: deleted });
+    await bus.close();
+  });
+});
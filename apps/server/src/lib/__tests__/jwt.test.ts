@@ -0,0 +1,167 @@
+/**
+ * JWT Tests
+ *
+ * Tests RS256/ES256 signing with `kid` headers, key rotation (retired
+ * keys verify until they expire), JWKS contents and the HS256 fallback.
+ *
+ * @module lib/__tests__/jwt.test
+ */
+
+import type { KeyObject } from "node:crypto";
+
+import { decode, sign } from "hono/jwt";
+import { generateKeyPairSync } from "node:crypto";
+import { describe, expect, it } from "vitest";
+
+import type { JwtKeySetConfig } from "../jwt";
+
+import { createJwtKeySet, getJwks, signAccessToken, verifyAccessToken } from "../jwt";
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+function pem(key: KeyObject) {
+  return key.export({ format: "pem", type: key.type === "private" ? "pkcs8" : "spki" }).toString();
+}
+
+function rsaKeyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return { privateKey: pem(privateKey), publicKey: pem(publicKey) };
+}
+
+function ecKeyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  return { privateKey: pem(privateKey), publicKey: pem(publicKey) };
+}
+
+const rsaOld = rsaKeyPair();
+const rsaNew = rsaKeyPair();
+const ec = ecKeyPair();
+
+const claims = { sub: "user-1", role: "user", emailVerified: true, sessionId: "session-1" };
+
+// =================================================================
+// KEY SET
+// =================================================================
+
+describe("createJwtKeySet", () => {
+  it("signs with the first private key by default", () => {
+    const keySet = createJwtKeySet({
+      algorithm: "RS256",
+      keys: [{ kid: "old", publicKey: rsaOld.publicKey }, { kid: "new", privateKey: rsaNew.privateKey }],
+    });
+
+    expect(keySet.signingKey?.kid).toBe("new");
+    expect(keySet.verificationKeys.map(key => key.jwk.kid)).toEqual(["old", "new"]);
+  });
+
+  it("rejects keys that do not match the algorithm", () => {
+    expect(() => createJwtKeySet({ algorithm: "ES256", keys: [{ kid: "rsa", privateKey: rsaOld.privateKey }] }))
+      .toThrow("cannot be used with ES256");
+  });
+
+  it("rejects duplicate kids and an active kid without private key", () => {
+    expect(() => createJwtKeySet({
+      algorithm: "RS256",
+      keys: [{ kid: "a", privateKey: rsaOld.privateKey }, { kid: "a", privateKey: rsaNew.privateKey }],
+    })).toThrow("Duplicate");
+
+    expect(() => createJwtKeySet({
+      algorithm: "RS256",
+      keys: [{ kid: "a", privateKey: rsaOld.privateKey }, { kid: "b", publicKey: rsaNew.publicKey }],
+      activeKid: "b",
+    })).toThrow("has no private key");
+  });
+
+  it("requires a secret for HS256", () => {
+    expect(() => createJwtKeySet({ algorithm: "HS256" })).toThrow("JWT_SECRET");
+  });
+});
+
+// =================================================================
+// SIGNING AND VERIFICATION
+// =================================================================
+
+describe.each([
+  ["RS256", rsaOld.privateKey],
+  ["ES256", ec.privateKey],
+] as const)("%s access tokens", (algorithm, privateKey) => {
+  const keySet = createJwtKeySet({ algorithm, keys: [{ kid: "key-1", privateKey }] });
+
+  it("puts alg and kid in the header and verifies", async () => {
+    const { token } = await signAccessToken(claims, keySet);
+
+    expect(decode(token).header).toMatchObject({ alg: algorithm, kid: "key-1" });
+    await expect(verifyAccessToken(token, keySet)).resolves.toMatchObject({
+      userId: "user-1",
+      role: "user",
+      sessionId: "session-1",
+    });
+  });
+
+  it("rejects HS256 tokens", async () => {
+    const token = await sign({ sub: "user-1", role: "admin" }, "test-jwt-secret-minimum-32-characters-long", "HS256");
+
+    await expect(verifyAccessToken(token, keySet)).resolves.toBeNull();
+  });
+});
+
+describe("key rotation", () => {
+  const before: JwtKeySetConfig = { algorithm: "RS256", keys: [{ kid: "2026-01", privateKey: rsaOld.privateKey }] };
+
+  it("keeps verifying tokens of the retired key after switching the active key", async () => {
+    const { token } = await signAccessToken(claims, createJwtKeySet(before));
+
+    const after = createJwtKeySet({
+      algorithm: "RS256",
+      keys: [{ kid: "2026-01", publicKey: rsaOld.publicKey }, { kid: "2026-02", privateKey: rsaNew.privateKey }],
+      activeKid: "2026-02",
+    });
+
+    await expect(verifyAccessToken(token, after)).resolves.not.toBeNull();
+    expect(decode((await signAccessToken(claims, after)).token).header.kid).toBe("2026-02");
+  });
+
+  it("rejects tokens of expired and unknown keys", async () => {
+    const { token } = await signAccessToken(claims, createJwtKeySet(before));
+
+    const expired = createJwtKeySet({
+      algorithm: "RS256",
+      keys: [
+        { kid: "2026-01", publicKey: rsaOld.publicKey, expiresAt: "2000-01-01T00:00:00Z" },
+        { kid: "2026-02", privateKey: rsaNew.privateKey },
+      ],
+    });
+    const unknown = createJwtKeySet({ algorithm: "RS256", keys: [{ kid: "2026-02", privateKey: rsaNew.privateKey }] });
+
+    await expect(verifyAccessToken(token, expired)).resolves.toBeNull();
+    await expect(verifyAccessToken(token, unknown)).resolves.toBeNull();
+  });
+});
+
+// =================================================================
+// JWKS
+// =================================================================
+
+describe("getJwks", () => {
+  it("publishes public keys that have not expired", () => {
+    const keySet = createJwtKeySet({
+      algorithm: "RS256",
+      keys: [
+        { kid: "expired", publicKey: rsaOld.publicKey, expiresAt: "2000-01-01T00:00:00Z" },
+        { kid: "active", privateKey: rsaNew.privateKey },
+      ],
+    });
+
+    const { keys } = getJwks(keySet);
+
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatchObject({ kid: "active", kty: "RSA", alg: "RS256", use: "sig" });
+    expect(keys[0]).not.toHaveProperty("d");
+  });
+
+  it("is empty for HS256", () => {
+    expect(getJwks(createJwtKeySet({ algorithm: "HS256", secret: "x".repeat(32) })).keys).toEqual([]);
+  });
+});
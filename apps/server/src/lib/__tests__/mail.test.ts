@@ -0,0 +1,43 @@
+/**
+ * Mail Transport Tests
+ *
+ * Tests the file transport used for offline development.
+ *
+ * @module lib/__tests__/mail.test
+ */
+
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createFileMailer } from "@/lib/mail";
+
+describe("file mail transport", () => {
+  let outboxDir: string;
+
+  beforeEach(async () => {
+    outboxDir = await mkdtemp(path.join(tmpdir(), "mail-outbox-"));
+  });
+
+  afterEach(async () => {
+    await rm(outboxDir, { recursive: true, force: true });
+  });
+
+  it("writes each message as a JSON file", async () => {
+    const mailer = createFileMailer("App <no-reply@example.com>", path.join(outboxDir, "nested"));
+
+    await mailer.send({ to: "jane@example.com", subject: "Hello", text: "Hi Jane" });
+    await mailer.send({ to: "john@example.com", subject: "Hello", text: "Hi John" });
+
+    const files = await readdir(path.join(outboxDir, "nested"));
+    expect(files).toHaveLength(2);
+
+    const messages = await Promise.all(
+      files.map(async file => JSON.parse(await readFile(path.join(outboxDir, "nested", file), "utf8"))),
+    );
+    expect(messages.map(m => m.to).sort()).toEqual(["jane@example.com", "john@example.com"]);
+    expect(messages[0]).toMatchObject({ from: "App <no-reply@example.com>", subject: "Hello" });
+    expect(messages[0].sentAt).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Secret Box Tests
+ *
+ * Tests AES-256-GCM round-trips, tamper detection and legacy plaintext.
+ *
+ * @module lib/__tests__/secret-box.test
+ */
+
+import { randomBytes } from "node:crypto";
+import { describe, expect, it } from "vitest";
+
+import { decryptSecret, encryptSecret, isEncryptedSecret } from "../secret-box";
+
+const SECRET = "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP";
+
+describe("secret box", () => {
+  it("round-trips a secret under the configured key", () => {
+    const stored = encryptSecret(SECRET);
+
+    expect(isEncryptedSecret(stored)).toBe(true);
+    expect(stored).not.toContain(SECRET);
+    expect(decryptSecret(stored)).toBe(SECRET);
+  });
+
+  it("uses a fresh IV for every encryption", () => {
+    expect(encryptSecret(SECRET)).not.toBe(encryptSecret(SECRET));
+  });
+
+  it("rejects altered values and other keys", () => {
+    const stored = encryptSecret(SECRET);
+    const [version, iv, tag, ciphertext] = stored.split(".");
+    const flipped = ciphertext[0] === "A" ? "B" : "A";
+
+    expect(() => decryptSecret([version, iv, tag, `${flipped}${ciphertext.slice(1)}`].join("."))).toThrow();
+    expect(() => decryptSecret(stored, randomBytes(32))).toThrow();
+  });
+
+  it("returns legacy plaintext unchanged", () => {
+    expect(isEncryptedSecret(SECRET)).toBe(false);
+    expect(decryptSecret(SECRET)).toBe(SECRET);
+  });
+});
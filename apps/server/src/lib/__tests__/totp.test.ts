@@ -0,0 +1,92 @@
+/**
+ * TOTP Tests (RFC 6238)
+ *
+ * Tests base32 round-trips and code generation against the RFC 6238
+ * SHA-1 test vectors.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6238.html#appendix-B
+ * @module lib/__tests__/totp.test
+ */
+
+import { Buffer } from "node:buffer";
+import { describe, expect, it } from "vitest";
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  totpStep,
+  verifyTotp,
+} from "../totp";
+
+// RFC 6238 SHA-1 seed "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  // RFC 4648 Section 10 test vectors (without padding)
+  it("encodes RFC 4648 vectors", () => {
+    expect(base32Encode(Buffer.from("f"))).toBe("MY");
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+  });
+
+  it("decodes case-insensitively and ignores padding", () => {
+    expect(base32Decode("mzxw6ytboi======").toString()).toBe("foobar");
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZ1W")).toThrow();
+  });
+});
+
+describe("generateTotp", () => {
+  // RFC 6238 Appendix B, truncated to 6 digits
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+  ])("matches the RFC vector at T=%i", (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+  });
+
+  it("supports 8 digit codes", () => {
+    expect(generateTotp(RFC_SECRET, totpStep(59_000), 8)).toBe("94287082");
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1111111109 * 1000;
+
+  it("returns the matched step", () => {
+    expect(verifyTotp(RFC_SECRET, "081804", { now })).toBe(totpStep(now));
+  });
+
+  it("accepts one step of clock drift", () => {
+    const previous = generateTotp(RFC_SECRET, totpStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(totpStep(now) - 1);
+  });
+
+  it("rejects codes outside the window and malformed input", () => {
+    const stale = generateTotp(RFC_SECRET, totpStep(now) - 2);
+    expect(verifyTotp(RFC_SECRET, stale, { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "81804", { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", { now })).toBeNull();
+  });
+});
+
+describe("enrollment helpers", () => {
+  it("generates 160-bit base32 secrets", () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+
+  it("builds an otpauth URI with issuer label and parameters", () => {
+    const uri = buildOtpauthUri({ issuer: "API Template", account: "jane@example.com", secret: "JBSWY3DPEHPK3PXP" });
+
+    expect(uri).toBe(
+      "otpauth://totp/API%20Template%3Ajane%40example.com"
+      + "?secret=JBSWY3DPEHPK3PXP&issuer=API+Template&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+});
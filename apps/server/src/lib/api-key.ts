@@ -0,0 +1,99 @@
+/**
+ * API Keys - Personal Keys for Scripts and CI
+ *
+ * Keys look like `ak_<8 hex>_<secret>`. The `ak_<8 hex>` prefix is stored
+ * in clear text to identify a key in lists and logs (sanitizeLogString
+ * masks everything after it); the full key is stored as SHA-256 hash only.
+ * authMiddleware accepts keys from the `X-API-Key` header or
+ * `Authorization: ApiKey <key>` and limits them to their scopes.
+ *
+ * @module lib/api-key
+ */
+
+import { randomBytes } from "node:crypto";
+
+import type { PrismaClient } from "@/generated/prisma/client";
+import type { AuthPrincipal } from "@/lib/authorization";
+
+import { isScope } from "@/lib/authorization";
+import { generateOpaqueToken, hashToken } from "@/lib/token";
+
+/**
+ * How often `lastUsedAt` is written while a key is in use
+ */
+export const API_KEY_TOUCH_INTERVAL_MS = 60_000;
+
+const API_KEY_PATTERN = /^ak_[0-9a-f]{8}_[\w-]{43}$/;
+
+export type ApiKeyClient = Pick<PrismaClient, "apiKey">;
+
+/**
+ * Newly generated key; only `prefix` and `keyHash` are stored
+ */
+export interface GeneratedApiKey {
+  key: string;
+  prefix: string;
+  keyHash: string;
+}
+
+/**
+ * Generates a key with a random prefix and a 256-bit secret
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const prefix = `ak_${randomBytes(4).toString("hex")}`;
+  const key = `${prefix}_${generateOpaqueToken()}`;
+  return { key, prefix, keyHash: hashToken(key) };
+}
+
+/**
+ * Reads the key from `X-API-Key` or `Authorization: ApiKey <key>`
+ *
+ * @returns undefined when the request carries no API key
+ */
+export function readApiKey(headers: { apiKey?: string; authorization?: string }) {
+  if (headers.apiKey !== undefined) {
+    return headers.apiKey.trim();
+  }
+  if (headers.authorization?.startsWith("ApiKey ")) {
+    return headers.authorization.slice(7).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Resolves a key to the principal of its owner, limited to the key scopes
+ *
+ * @returns null for malformed, unknown, revoked or expired keys and
+ * inactive owners
+ */
+export async function authenticateApiKey(
+  prisma: ApiKeyClient,
+  key: string,
+  now = new Date(),
+): Promise<AuthPrincipal | null> {
+  if (!API_KEY_PATTERN.test(key)) {
+    return null;
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(key) },
+    include: { user: { select: { role: true, active: true, emailVerifiedAt: true } } },
+  });
+
+  if (!apiKey || apiKey.revokedAt || apiKey.expiresAt.getTime() <= now.getTime() || !apiKey.user.active) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= API_KEY_TOUCH_INTERVAL_MS) {
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  return {
+    userId: apiKey.userId,
+    role: apiKey.user.role,
+    emailVerified: apiKey.user.emailVerifiedAt !== null,
+    apiKeyId: apiKey.id,
+    scopes: apiKey.scopes.filter(isScope),
+    expiresAt: apiKey.expiresAt,
+  };
+}
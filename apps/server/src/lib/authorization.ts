@@ -0,0 +1,173 @@
+/**
+ * Authorization - Principal and Role Permissions
+ *
+ * The principal is the verified identity behind a request. It is derived
+ * from access token claims by authMiddleware (REST) and the GraphQL
+ * context, and checked by requireRole/requirePermission guards.
+ *
+ * Tokens of OAuth2 clients (client_credentials grant) act for no user:
+ * the permission names among their scopes are their permissions.
+ * Personal API keys act for their owner, limited to their scopes. Access
+ * scopes (`graphql`, `account`) open a surface to scoped tokens and keys.
+ *
+ * @module lib/authorization
+ */
+
+import type { Role } from "@/generated/prisma/enums";
+
+import { env } from "@/config";
+
+// =================================================================
+// PERMISSIONS
+// =================================================================
+
+/**
+ * Fine-grained permissions granted through roles
+ */
+export const PERMISSIONS = {
+  USERS_READ: "users:read",
+  USERS_WRITE: "users:write",
+  API_CLIENTS_READ: "api-clients:read",
+  API_CLIENTS_WRITE: "api-clients:write",
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+const PERMISSION_VALUES: readonly string[] = Object.values(PERMISSIONS);
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && PERMISSION_VALUES.includes(value);
+}
+
+/**
+ * Scopes that open a surface rather than grant a permission; scoped tokens
+ * and API keys need them in addition to the permissions checked inside
+ */
+export const ACCESS_SCOPES = {
+  GRAPHQL: "graphql",
+  /** The owner's own account (`/auth/me`, `/auth/sessions`); API keys only */
+  ACCOUNT: "account",
+} as const;
+
+export type AccessScope = (typeof ACCESS_SCOPES)[keyof typeof ACCESS_SCOPES];
+
+/**
+ * What a token or API key can be limited to
+ */
+export type Scope = Permission | AccessScope;
+
+export const SCOPES: readonly Scope[] = [...Object.values(PERMISSIONS), ...Object.values(ACCESS_SCOPES)];
+
+export function isScope(value: unknown): value is Scope {
+  return typeof value === "string" && SCOPES.includes(value as Scope);
+}
+
+export function isAccessScope(value: Scope): value is AccessScope {
+  return !isPermission(value);
+}
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: Object.values(PERMISSIONS),
+  user: [],
+};
+
+const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+// =================================================================
+// PRINCIPAL
+// =================================================================
+
+/**
+ * Verified identity of the caller
+ */
+export interface AuthPrincipal {
+  /** User ID (`sub` claim) */
+  userId: string;
+  /** User role (`role` claim) */
+  role: Role;
+  /** Whether the email address is verified (`email_verified` claim) */
+  emailVerified: boolean;
+  /** Session the token was issued for (`sid` claim) */
+  sessionId?: string;
+  /** OAuth2 client the token was issued to (`client_id` claim); `userId` is then the ApiClient ID */
+  clientId?: string;
+  /** Personal API key the request was authenticated with */
+  apiKeyId?: string;
+  /** Scopes the token or API key is limited to (space-separated `scope` claim) */
+  scopes?: Scope[];
+  /** When the token or API key expires (`exp` claim) */
+  expiresAt?: Date;
+}
+
+function isRole(value: unknown): value is Role {
+  return typeof value === "string" && ROLES.includes(value as Role);
+}
+
+/**
+ * Builds the principal from verified token claims
+ *
+ * @returns null when `sub` or `role` is missing or malformed
+ */
+export function toPrincipal(claims: Record<string, unknown>): AuthPrincipal | null {
+  if (typeof claims.sub !== "string" || !claims.sub || !isRole(claims.role)) {
+    return null;
+  }
+  return {
+    userId: claims.sub,
+    role: claims.role,
+    emailVerified: claims.email_verified === true,
+    ...(typeof claims.sid === "string" && claims.sid ? { sessionId: claims.sid } : {}),
+    ...(typeof claims.client_id === "string" && claims.client_id ? { clientId: claims.client_id } : {}),
+    ...(typeof claims.scope === "string" ? { scopes: claims.scope.split(" ").filter(isScope) } : {}),
+    ...(typeof claims.exp === "number" ? { expiresAt: new Date(claims.exp * 1000) } : {}),
+  };
+}
+
+// =================================================================
+// CHECKS
+// =================================================================
+
+/**
+ * Returns true when the principal has one of the roles
+ */
+export function hasRole(principal: AuthPrincipal, roles: readonly Role[]) {
+  return roles.includes(principal.role);
+}
+
+/**
+ * Returns true when the principal may use every access scope; principals
+ * without scopes (session tokens) may use all of them
+ */
+export function hasScope(principal: AuthPrincipal, scopes: readonly AccessScope[]) {
+  return !principal.scopes || scopes.every(scope => principal.scopes!.includes(scope));
+}
+
+/**
+ * Returns true when the principal's role grants every permission
+ *
+ * Unverified principals (EMAIL_VERIFICATION_POLICY=allow-restricted)
+ * are signed in but hold no permissions until they verify their email;
+ * with the policy off the claim is ignored.
+ * OAuth2 clients hold exactly their permission scopes; API keys hold the
+ * owner's permissions within their scopes.
+ */
+export function hasPermission(principal: AuthPrincipal, permissions: readonly Permission[]) {
+  return permissions.every(permission => grantedPermissions(principal).includes(permission));
+}
+
+/**
+ * Returns the permissions the principal holds
+ */
+export function grantedPermissions(principal: AuthPrincipal): readonly Permission[] {
+  if (principal.clientId) {
+    return principal.scopes?.filter(isPermission) ?? [];
+  }
+
+  const verified = principal.emailVerified || env.EMAIL_VERIFICATION_POLICY === "off";
+  const granted = verified ? ROLE_PERMISSIONS[principal.role] : [];
+  const { scopes } = principal;
+  return scopes ? granted.filter(permission => scopes.includes(permission)) : granted;
+}
@@ -20,18 +20,27 @@ import { bodyLimit } from "hono/body-limit";
 import { compress } from "hono/compress";
 import { contextStorage } from "hono/context-storage";
 import { cors } from "hono/cors";
-import { randomBytes } from "node:crypto";
 import { requestId } from "hono/request-id";
 import { secureHeaders } from "hono/secure-headers";
 import { timing } from "hono/timing";
+import { randomBytes } from "node:crypto";
 
 import type { AppBindings, AppOpenAPI, RateLimitOptions } from "@/types";
 
 import { buildCSPHeaderValue, env, isCSPEnabled } from "@/config";
 import { prisma } from "@/db/prisma";
+import { eventBus } from "@/lib/events";
 import { HTTP_STATUS } from "@/lib/http-status";
+import { mailer } from "@/lib/mail";
+import { oidcClient } from "@/lib/oidc";
 import { accessLoggerMiddleware } from "@/middlewares/access-logger";
-import { authMiddleware, isPublicPath } from "@/middlewares/auth.middleware";
+import {
+  authMiddleware,
+  isAuthPath,
+  isPublicPath,
+  OAUTH_TOKEN_PATH,
+  RESEND_VERIFICATION_PATH,
+} from "@/middlewares/auth.middleware";
 import { structuredLogger } from "@/middlewares/pino-logger";
 
 // Custom error handling (replaces stoker)
@@ -162,15 +171,24 @@ function createApp() {
   // 4. CORS (pre cross-origin requests)
   app.use("*", cors({
     origin: env.CORS_ORIGIN?.split(",") || ["*"],
-    allowMethods: env.CORS_METHODS?.split(",") || ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    allowHeaders: env.CORS_HEADERS?.split(",") || ["Content-Type", "Authorization"],
+    allowMethods: env.CORS_METHODS?.split(",") || ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+    allowHeaders: env.CORS_HEADERS?.split(",") || ["Content-Type", "Authorization", "X-API-Key"],
     credentials: true,
   }));
 
-  // 5. Authentication (protect non-public endpoints)
+  // 5. Prisma, mailer, event bus and OIDC client injection (available on all routes and to authMiddleware)
+  app.use("*", async (c, next) => {
+    c.set("prisma", prisma);
+    c.set("mailer", mailer);
+    c.set("events", eventBus);
+    c.set("oidc", oidcClient);
+    await next();
+  });
+
+  // 6. Authentication (protect non-public endpoints)
   app.use("*", authMiddleware);
 
-  // 6. Per-route rate limiting
+  // 7. Per-route rate limiting
   const rateLimiterKeyGenerator = (c: {
     req: { header: (key: string) => string | undefined };
     env?: { ip?: string };
@@ -191,6 +209,14 @@ function createApp() {
     keyGenerator: rateLimiterKeyGenerator,
   } as RateLimitOptions);
 
+  // Caps verification emails sent on behalf of one client.
+  const resendVerificationRateLimiter = rateLimiter({
+    windowMs: env.EMAIL_VERIFICATION_RESEND_WINDOW_MS,
+    limit: env.EMAIL_VERIFICATION_RESEND_MAX,
+    standardHeaders: "draft-6",
+    keyGenerator: rateLimiterKeyGenerator,
+  } as RateLimitOptions);
+
   // Dedicated limit for GraphQL endpoint.
   const graphQLRateLimiter = rateLimiter({
     windowMs: 60_000,
@@ -202,15 +228,20 @@ function createApp() {
   app.use("*", async (c, next) => {
     const path = c.req.path;
 
-    if (isPublicPath(path)) {
-      await next();
-      return;
+    if (path === RESEND_VERIFICATION_PATH) {
+      return resendVerificationRateLimiter(c, next);
     }
 
-    if (path.startsWith("/auth")) {
+    // Auth endpoints are public but must stay rate limited.
+    if (isAuthPath(path) || path === OAUTH_TOKEN_PATH) {
       return authRateLimiter(c, next);
     }
 
+    if (isPublicPath(path)) {
+      await next();
+      return;
+    }
+
     if (path === "/graphql") {
       return graphQLRateLimiter(c, next);
     }
@@ -218,12 +249,6 @@ function createApp() {
     return defaultRateLimiter(c, next);
   });
 
-  // 7. Prisma injection (available on all routes)
-  app.use("*", async (c, next) => {
-    c.set("prisma", prisma);
-    await next();
-  });
-
   // =================================================================
   // CENTRALIZED ERROR HANDLING (RFC 9457)
   // =================================================================
@@ -15,6 +15,12 @@
 import type { Context } from "hono";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
 
+import { AUTH_CODES } from "@/errors";
+import { OAUTH_TOKEN_PATH } from "@/middlewares/auth.middleware";
+
+import type { ProblemResult } from "./problem";
+
+import { HTTP_STATUS } from "./http-status";
 import { toProblemDetails } from "./problem";
 import { fail } from "./response";
 
@@ -26,7 +32,8 @@ import { fail } from "./response";
  * Centralized Error Handler
  *
  * Handles all uncaught errors and transforms them into RFC 9457 Problem Details
- * envelope responses.
+ * envelope responses. Errors of the OAuth2 token endpoint use the RFC 6749
+ * error response instead.
  *
  * Also performs structured logging based on error severity.
  *
@@ -35,16 +42,16 @@ import { fail } from "./response";
  * app.onError(errorHandler);
  */
 export function errorHandler(err: unknown, c: Context) {
+  if (c.req.path === OAUTH_TOKEN_PATH) {
+    return handleOAuthError(err, c);
+  }
   return handleStandardError(err, c);
 }
 
 /**
- * Handles standard API errors with envelope format
+ * Logs an error at the severity level from the registry
  */
-function handleStandardError(err: unknown, c: Context) {
-  const { problem, httpStatus, logLevel, errorType } = toProblemDetails(c, err);
-
-  // Structured logging
+function logProblem(err: unknown, c: Context, { problem, httpStatus, logLevel, errorType }: ProblemResult) {
   // Logger API: logger.level(message, context)
   const logger = c.get("logger");
   const requestId = c.get("requestId");
@@ -75,6 +82,60 @@ function handleStandardError(err: unknown, c: Context) {
     // Fallback to console if logger not available
     console.error(message, logContext, err);
   }
+}
+
+/**
+ * Handles standard API errors with envelope format
+ */
+function handleStandardError(err: unknown, c: Context) {
+  const result = toProblemDetails(c, err);
+
+  // Structured logging
+  logProblem(err, c, result);
+
+  return fail(c, result.problem, result.httpStatus as ContentfulStatusCode);
+}
 
-  return fail(c, problem, httpStatus as ContentfulStatusCode);
+// =================================================================
+// OAUTH2 ERRORS (RFC 6749)
+// =================================================================
+
+/**
+ * RFC 6749 error codes by domain code
+ */
+const OAUTH_ERROR_CODES: Record<string, string> = {
+  [AUTH_CODES.INVALID_CLIENT]: "invalid_client",
+  [AUTH_CODES.INVALID_SCOPE]: "invalid_scope",
+  [AUTH_CODES.INVALID_GRANT]: "invalid_grant",
+  [AUTH_CODES.UNSUPPORTED_GRANT]: "unsupported_grant_type",
+};
+
+/**
+ * Renders token endpoint errors as `{ error, error_description }`
+ * (RFC 6749 Section 5.2); server errors and rate limits keep the
+ * standard envelope.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6749.html#section-5.2
+ */
+function handleOAuthError(err: unknown, c: Context) {
+  const result = toProblemDetails(c, err);
+  const { problem, httpStatus } = result;
+
+  const error = OAUTH_ERROR_CODES[problem.code]
+    ?? (httpStatus === HTTP_STATUS.BAD_REQUEST || httpStatus === HTTP_STATUS.UNPROCESSABLE_CONTENT ? "invalid_request" : null);
+
+  if (!error) {
+    return handleStandardError(err, c);
+  }
+
+  logProblem(err, c, result);
+
+  c.header("Cache-Control", "no-store");
+  c.header("Pragma", "no-cache");
+
+  if (error === "invalid_client") {
+    c.header("WWW-Authenticate", "Basic realm=\"oauth\"");
+    return c.json({ error, error_description: problem.detail }, HTTP_STATUS.UNAUTHORIZED);
+  }
+  return c.json({ error, error_description: problem.detail }, HTTP_STATUS.BAD_REQUEST);
 }
@@ -0,0 +1,53 @@
+import { EventEmitter, on } from "node:events";
+
+import type { AppEvents, EventTopic } from "./types";
+
+/**
+ * In-process fan-out shared by all backends: a backend decides where
+ * events come from, the dispatcher hands them to this process's subscribers
+ */
+export interface LocalDispatcher {
+  emit: <T extends EventTopic>(topic: T, payload: AppEvents[T]) => void;
+  subscribe: <T extends EventTopic>(topic: T) => AsyncIterableIterator<AppEvents[T]>;
+  /** Ends every open subscription */
+  close: () => Promise<void>;
+}
+
+export function createLocalDispatcher(): LocalDispatcher {
+  const emitter = new EventEmitter();
+  // One listener per open subscription
+  emitter.setMaxListeners(0);
+  const subscriptions = new Set<AsyncIterableIterator<unknown>>();
+
+  function subscribe<T extends EventTopic>(topic: T): AsyncIterableIterator<AppEvents[T]> {
+    const source = on(emitter, topic);
+
+    const iterator: AsyncIterableIterator<AppEvents[T]> = {
+      async next() {
+        const result = await source.next();
+        return result.done ? { done: true, value: undefined } : { done: false, value: result.value[0] };
+      },
+      async return() {
+        subscriptions.delete(iterator);
+        await source.return?.();
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+    };
+
+    subscriptions.add(iterator);
+    return iterator;
+  }
+
+  return {
+    emit(topic, payload) {
+      emitter.emit(topic, payload);
+    },
+    subscribe,
+    async close() {
+      await Promise.all([...subscriptions].map(iterator => iterator.return?.()));
+    },
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Events - Typed Publish/Subscribe
+ *
+ * Domain services publish events (see AppEvents); GraphQL subscriptions
+ * stream them to clients. The backend is selected by EVENT_BUS:
+ * - postgres: LISTEN/NOTIFY on EVENT_BUS_CHANNEL, reaching every replica
+ * - memory: this process only (default)
+ *
+ * The bus instance is exposed to handlers as `c.get("events")`.
+ * Services that write a user row publish "users.changed" through
+ * publishUserChanged; revoking a session, API key or OAuth2 client
+ * publishes "credentials.revoked" so open subscriptions end with it.
+ *
+ * @module lib/events
+ */
+
+import { env } from "@/config";
+
+import type { EventBus } from "./types";
+
+import { createMemoryEventBus } from "./memory-bus";
+import { createPostgresEventBus } from "./postgres-bus";
+
+export type { AppEvents, CredentialRevokedEvent, EventBus, EventTopic, UserChangedEvent } from "./types";
+
+export { publishUserChanged, toPublicUser } from "./user-events";
+
+export { createMemoryEventBus, createPostgresEventBus };
+
+/**
+ * Creates the event bus configured by environment
+ */
+export function createEventBus(): EventBus {
+  switch (env.EVENT_BUS) {
+    case "postgres":
+      return createPostgresEventBus(env.DATABASE_URL, env.EVENT_BUS_CHANNEL);
+    case "memory":
+      return createMemoryEventBus();
+  }
+}
+
+/**
+ * Application event bus (singleton)
+ */
+export const eventBus = createEventBus();
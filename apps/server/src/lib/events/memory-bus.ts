@@ -0,0 +1,19 @@
+import type { EventBus } from "./types";
+
+import { createLocalDispatcher } from "./dispatcher";
+
+/**
+ * Delivers events within this process only (development, single replica)
+ */
+export function createMemoryEventBus(): EventBus {
+  const dispatcher = createLocalDispatcher();
+
+  return {
+    backend: "memory",
+    async publish(topic, payload) {
+      dispatcher.emit(topic, payload);
+    },
+    subscribe: dispatcher.subscribe,
+    close: dispatcher.close,
+  };
+}
@@ -0,0 +1,141 @@
+import { Buffer } from "node:buffer";
+import { Client } from "pg";
+
+import { logger } from "@/lib/logging";
+
+import type { AppEvents, EventBus, EventTopic } from "./types";
+
+import { createLocalDispatcher } from "./dispatcher";
+
+/** Postgres rejects NOTIFY payloads of 8000 bytes or more */
+const MAX_PAYLOAD_BYTES = 7999;
+
+const RECONNECT_DELAY_MS = 5000;
+
+interface Notification<T extends EventTopic = EventTopic> {
+  topic: T;
+  payload: AppEvents[T];
+}
+
+/**
+ * Delivers events to every replica through Postgres LISTEN/NOTIFY
+ *
+ * One dedicated connection listens on the channel and also sends the
+ * notifications; Postgres echoes them back to the publishing replica too,
+ * so events are dispatched locally only when they arrive from the channel.
+ * The connection is opened on first use and re-established after errors;
+ * events published while it is down are lost.
+ */
+export function createPostgresEventBus(connectionString: string, channel: string): EventBus {
+  const dispatcher = createLocalDispatcher();
+  let connection: Promise<Client> | null = null;
+  let listener: Client | null = null;
+  let reconnectTimer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  function onNotification(message: { channel: string; payload?: string }) {
+    if (message.channel !== channel || !message.payload) {
+      return;
+    }
+    try {
+      const { topic, payload } = JSON.parse(message.payload) as Notification;
+      dispatcher.emit(topic, payload);
+    }
+    catch (error) {
+      logger.warn("Ignoring malformed event notification", {
+        action: "events.receive",
+        error: { message: (error as Error).message },
+      });
+    }
+  }
+
+  async function open() {
+    const client = new Client({ connectionString });
+    client.on("notification", onNotification);
+    client.on("error", (error) => {
+      logger.error("Event bus connection failed", {
+        action: "events.connection",
+        error: { message: error.message },
+      });
+      void client.end().catch(() => {});
+    });
+    client.on("end", () => {
+      if (listener !== client) {
+        return;
+      }
+      listener = null;
+      connection = null;
+      scheduleReconnect();
+    });
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+      listener = client;
+      return client;
+    }
+    catch (error) {
+      await client.end().catch(() => {});
+      throw error;
+    }
+  }
+
+  function connect() {
+    connection ??= open().catch((error: Error) => {
+      logger.error("Event bus could not listen", {
+        action: "events.listen",
+        channel,
+        error: { message: error.message },
+      });
+      connection = null;
+      scheduleReconnect();
+      throw error;
+    });
+    return connection;
+  }
+
+  function scheduleReconnect() {
+    if (closed || reconnectTimer) {
+      return;
+    }
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      connect().catch(() => {});
+    }, RECONNECT_DELAY_MS);
+    reconnectTimer.unref();
+  }
+
+  return {
+    backend: "postgres",
+    async publish(topic, payload) {
+      const message = JSON.stringify({ topic, payload } satisfies Notification<typeof topic>);
+      if (Buffer.byteLength(message) > MAX_PAYLOAD_BYTES) {
+        logger.error("Event payload exceeds the NOTIFY limit", { action: "events.publish", topic });
+        return;
+      }
+
+      try {
+        const client = await connect();
+        await client.query("SELECT pg_notify($1, $2)", [channel, message]);
+      }
+      catch (error) {
+        logger.error("Event could not be published", {
+          action: "events.publish",
+          topic,
+          error: { message: (error as Error).message },
+        });
+      }
+    },
+    subscribe(topic) {
+      connect().catch(() => {});
+      return dispatcher.subscribe(topic);
+    },
+    async close() {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      await dispatcher.close();
+      const client = await connection?.catch(() => null);
+      await client?.end();
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Event Bus Types
+ *
+ * @module lib/events/types
+ */
+
+import type { User } from "@repo/shared";
+
+/**
+ * A user account was created, changed or deleted
+ */
+export interface UserChangedEvent {
+  kind: "created" | "updated" | "deleted";
+  userId: string;
+  /** Public representation after the change (null once deleted) */
+  user: User | null;
+}
+
+/**
+ * A credential was revoked before it expired: a session (with its
+ * refresh and access tokens), a personal API key or an OAuth2 client
+ */
+export interface CredentialRevokedEvent {
+  kind: "session" | "api-key" | "client";
+  /** Session, API key or ApiClient ID */
+  id: string;
+  /** Owner of the session or key; the ApiClient ID for clients */
+  userId: string;
+}
+
+/**
+ * Payload type of every topic; add new domain events here
+ */
+export interface AppEvents {
+  "users.changed": UserChangedEvent;
+  "credentials.revoked": CredentialRevokedEvent;
+}
+
+export type EventTopic = keyof AppEvents;
+
+/**
+ * Typed publish/subscribe transport (in-memory, Postgres LISTEN/NOTIFY)
+ *
+ * Delivery is at-most-once: events published while a subscriber is
+ * disconnected are not replayed.
+ */
+export interface EventBus {
+  /** Backend name for logging */
+  readonly backend: string;
+  /** Publishes an event to all subscribers; never rejects, failures are logged */
+  publish: <T extends EventTopic>(topic: T, payload: AppEvents[T]) => Promise<void>;
+  /** Streams the events of a topic until the iterator is returned */
+  subscribe: <T extends EventTopic>(topic: T) => AsyncIterableIterator<AppEvents[T]>;
+  /** Ends all subscriptions and releases connections */
+  close: () => Promise<void>;
+}
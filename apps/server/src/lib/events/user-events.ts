@@ -0,0 +1,50 @@
+/**
+ * User Events - "users.changed" Payloads
+ *
+ * @module lib/events/user-events
+ */
+
+import type { User } from "@repo/shared";
+
+import type { User as UserRow } from "@/generated/prisma/client";
+
+import type { EventBus, UserChangedEvent } from "./types";
+
+/**
+ * Maps a User row to its public representation (drops the password hash)
+ */
+export function toPublicUser(user: UserRow): User {
+  return {
+    id: user.id,
+    email: user.email,
+    active: user.active,
+    firstName: user.firstName ?? undefined,
+    lastName: user.lastName ?? undefined,
+    role: user.role,
+    twoFactorEnabled: user.twoFactorEnabledAt !== null,
+    lockedUntil: user.lockedUntil && user.lockedUntil.getTime() > Date.now()
+      ? user.lockedUntil.toISOString()
+      : undefined,
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Publishes a change of the given user and passes the user through
+ *
+ * Used by every service that writes a user row (users and auth modules),
+ * so subscribers see sign-ups and sign-in state as well as admin changes.
+ */
+export async function publishUserChanged(
+  events: EventBus,
+  kind: UserChangedEvent["kind"],
+  user: User,
+): Promise<User> {
+  await events.publish("users.changed", {
+    kind,
+    userId: user.id,
+    user: kind === "deleted" ? null : user,
+  });
+  return user;
+}
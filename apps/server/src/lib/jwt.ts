@@ -0,0 +1,294 @@
+/**
+ * JWT Helpers - Access Token Issuing and Verification
+ *
+ * Signs short-lived access tokens with the claims expected by
+ * authMiddleware and the GraphQL context (`sub`, `role`, `email_verified`, `sid`), and verifies
+ * them back into an AuthPrincipal.
+ *
+ * RS256/ES256 tokens are signed with the active key of JWT_KEYS and carry
+ * its `kid` header; verification picks the key by `kid`, so retired keys
+ * kept as public-only entries still verify until they expire. The public
+ * keys are published at `/.well-known/jwks.json` for other consumers.
+ * HS256 with the shared JWT_SECRET remains available for local development.
+ *
+ * @module lib/jwt
+ */
+
+import { sign, verify, verifyWithJwks } from "hono/jwt";
+import { createPrivateKey, createPublicKey } from "node:crypto";
+
+import type { Env, JwtKeyEnv } from "@/config";
+import type { AuthPrincipal } from "@/lib/authorization";
+
+import { env } from "@/config";
+import { toPrincipal } from "@/lib/authorization";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+/**
+ * Claims embedded in every access token
+ */
+export interface AccessTokenClaims {
+  /** User ID */
+  sub: string;
+  /** User role (admin | user) */
+  role: string;
+  /** Whether the email address is verified */
+  emailVerified: boolean;
+  /** Session ID (checked for revocation on every request) */
+  sessionId?: string;
+}
+
+/**
+ * Claims of access tokens issued to OAuth2 clients (client_credentials grant)
+ */
+export interface ClientAccessTokenClaims {
+  /** ApiClient ID */
+  sub: string;
+  /** Public client identifier */
+  clientId: string;
+  /** Granted scopes */
+  scopes: readonly string[];
+}
+
+/**
+ * Signed access token with its lifetime
+ */
+export interface SignedAccessToken {
+  /** Compact JWT */
+  token: string;
+  /** Lifetime in seconds */
+  expiresIn: number;
+}
+
+export type JwtAlgorithm = Env["JWT_ALGORITHM"];
+
+/**
+ * JSON Web Key with the fields used for signature keys
+ */
+export type SignatureJwk = JsonWebKey & { kid: string; kty: string; alg: string; use?: string };
+
+/**
+ * Public key accepted for verification
+ */
+interface VerificationKey {
+  jwk: SignatureJwk;
+  expiresAt?: Date;
+}
+
+/**
+ * Keys for signing and verifying access tokens (see createJwtKeySet)
+ */
+export interface JwtKeySet {
+  algorithm: JwtAlgorithm;
+  /** Shared secret (HS256 only) */
+  secret?: string;
+  /** Private key of the active `kid` (RS256/ES256 only) */
+  signingKey?: SignatureJwk;
+  /** Public keys by `kid` (RS256/ES256 only) */
+  verificationKeys: VerificationKey[];
+}
+
+/**
+ * Key configuration, shaped like the JWT_* environment variables
+ */
+export interface JwtKeySetConfig {
+  algorithm: JwtAlgorithm;
+  secret?: string;
+  keys?: JwtKeyEnv[];
+  /** Signing key (default: first key with a private key) */
+  activeKid?: string;
+}
+
+/**
+ * JSON Web Key Set as published at `/.well-known/jwks.json`
+ */
+export interface Jwks {
+  keys: SignatureJwk[];
+}
+
+// =================================================================
+// KEY SET
+// =================================================================
+
+/**
+ * Checks that a key matches the configured algorithm (RSA for RS256,
+ * P-256 for ES256)
+ */
+function assertKeyType(kid: string, algorithm: JwtAlgorithm, key: ReturnType<typeof createPublicKey>) {
+  const valid = algorithm === "RS256"
+    ? key.asymmetricKeyType === "rsa"
+    : key.asymmetricKeyType === "ec" && key.asymmetricKeyDetails?.namedCurve === "prime256v1";
+
+  if (!valid) {
+    throw new Error(`JWT key "${kid}" cannot be used with ${algorithm}`);
+  }
+}
+
+/**
+ * Builds the key set from PEM keys
+ *
+ * The public key of an entry is derived from its private key when not
+ * given. Expired keys are kept but skipped by verification and JWKS.
+ *
+ * @throws Error for duplicate `kid`s, unusable keys or a missing active key
+ */
+export function createJwtKeySet(config: JwtKeySetConfig): JwtKeySet {
+  const { algorithm } = config;
+
+  if (algorithm === "HS256") {
+    if (!config.secret) {
+      throw new Error("JWT_SECRET is required for HS256");
+    }
+    return { algorithm, secret: config.secret, verificationKeys: [] };
+  }
+
+  const keys = config.keys ?? [];
+  const verificationKeys: VerificationKey[] = [];
+  let signingKey: SignatureJwk | undefined;
+
+  for (const entry of keys) {
+    if (verificationKeys.some(key => key.jwk.kid === entry.kid)) {
+      throw new Error(`Duplicate JWT key id "${entry.kid}"`);
+    }
+
+    const privateKey = entry.privateKey ? createPrivateKey(entry.privateKey) : undefined;
+    const publicKey = createPublicKey(privateKey ?? entry.publicKey!);
+    assertKeyType(entry.kid, algorithm, publicKey);
+
+    verificationKeys.push({
+      jwk: { ...publicKey.export({ format: "jwk" }), kid: entry.kid, alg: algorithm, use: "sig" } as SignatureJwk,
+      expiresAt: entry.expiresAt ? new Date(entry.expiresAt) : undefined,
+    });
+
+    const isActive = config.activeKid ? entry.kid === config.activeKid : !signingKey;
+    if (privateKey && isActive) {
+      signingKey = { ...privateKey.export({ format: "jwk" }), kid: entry.kid, alg: algorithm } as SignatureJwk;
+    }
+  }
+
+  if (!signingKey) {
+    throw new Error(config.activeKid
+      ? `JWT_ACTIVE_KID "${config.activeKid}" has no private key in JWT_KEYS`
+      : `JWT_KEYS needs a private key for ${algorithm}`);
+  }
+
+  return { algorithm, signingKey, verificationKeys };
+}
+
+/**
+ * Key set of the running server, built from the environment at startup
+ */
+const defaultKeySet = createJwtKeySet({
+  algorithm: env.JWT_ALGORITHM,
+  secret: env.JWT_SECRET,
+  keys: env.JWT_KEYS,
+  activeKid: env.JWT_ACTIVE_KID,
+});
+
+function activeVerificationKeys(keySet: JwtKeySet, now: Date) {
+  return keySet.verificationKeys
+    .filter(key => !key.expiresAt || key.expiresAt.getTime() > now.getTime())
+    .map(key => key.jwk);
+}
+
+/**
+ * Returns the public keys that currently verify tokens (empty for HS256)
+ */
+export function getJwks(keySet = defaultKeySet, now = new Date()): Jwks {
+  return { keys: activeVerificationKeys(keySet, now) };
+}
+
+// =================================================================
+// TOKEN SIGNING
+// =================================================================
+
+async function signToken(
+  claims: Record<string, unknown>,
+  expiresIn: number,
+  keySet: JwtKeySet,
+): Promise<SignedAccessToken> {
+  const now = Math.floor(Date.now() / 1000);
+
+  // hono/jwt takes `alg` and the `kid` header from the JWK
+  const token = await sign(
+    { ...claims, iat: now, exp: now + expiresIn },
+    keySet.secret ?? keySet.signingKey!,
+    keySet.algorithm,
+  );
+
+  return { token, expiresIn };
+}
+
+/**
+ * Signs an access token for the given principal
+ *
+ * @example
+ * const { token, expiresIn } = await signAccessToken({ sub: user.id, role: user.role });
+ */
+export async function signAccessToken(
+  claims: AccessTokenClaims,
+  keySet = defaultKeySet,
+): Promise<SignedAccessToken> {
+  return signToken(
+    {
+      sub: claims.sub,
+      role: claims.role,
+      email_verified: claims.emailVerified,
+      sid: claims.sessionId,
+    },
+    env.JWT_ACCESS_TOKEN_TTL_SECONDS,
+    keySet,
+  );
+}
+
+/**
+ * Signs a scoped access token for an OAuth2 client
+ *
+ * Clients carry the `user` role, which grants no permissions by itself;
+ * the `scope` claim lists what they may do (see hasPermission).
+ */
+export async function signClientAccessToken(
+  claims: ClientAccessTokenClaims,
+  keySet = defaultKeySet,
+): Promise<SignedAccessToken> {
+  return signToken(
+    {
+      sub: claims.sub,
+      role: "user",
+      client_id: claims.clientId,
+      scope: claims.scopes.join(" "),
+    },
+    env.OAUTH_ACCESS_TOKEN_TTL_SECONDS,
+    keySet,
+  );
+}
+
+// =================================================================
+// TOKEN VERIFICATION
+// =================================================================
+
+/**
+ * Verifies an access token and extracts the principal
+ *
+ * Only the configured algorithm is accepted; asymmetric tokens must name
+ * a known, unexpired `kid`.
+ *
+ * @returns null when the token is invalid, expired or lacks `sub`/`role`
+ */
+export async function verifyAccessToken(token: string, keySet = defaultKeySet): Promise<AuthPrincipal | null> {
+  try {
+    const payload = keySet.algorithm === "HS256"
+      ? await verify(token, keySet.secret!, "HS256")
+      : await verifyWithJwks(token, {
+          keys: activeVerificationKeys(keySet, new Date()),
+          allowedAlgorithms: [keySet.algorithm],
+        });
+    return toPrincipal(payload);
+  }
+  catch {
+    return null;
+  }
+}
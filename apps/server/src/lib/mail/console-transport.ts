@@ -0,0 +1,18 @@
+import { logger } from "@/lib/logging";
+
+import type { Mailer } from "./types";
+
+/**
+ * Logs messages instead of delivering them (development default)
+ */
+export function createConsoleMailer(from: string): Mailer {
+  return {
+    transport: "console",
+    async send(message) {
+      logger.info("Mail captured by console transport", {
+        action: "mail.send",
+        mail: { from, to: message.to, subject: message.subject, text: message.text },
+      });
+    },
+  };
+}
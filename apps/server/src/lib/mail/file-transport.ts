@@ -0,0 +1,28 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { Mailer } from "./types";
+
+/**
+ * Writes each message as a JSON file into a local outbox directory
+ *
+ * Useful for offline development and end-to-end tests that need to read
+ * links (password reset, verification) out of sent mail.
+ */
+export function createFileMailer(from: string, outboxDir: string): Mailer {
+  return {
+    transport: "file",
+    async send(message) {
+      await mkdir(outboxDir, { recursive: true });
+
+      const sentAt = new Date().toISOString();
+      const fileName = `${sentAt.replace(/[:.]/g, "-")}-${randomUUID()}.json`;
+
+      await writeFile(
+        path.join(outboxDir, fileName),
+        JSON.stringify({ from, sentAt, ...message }, null, 2),
+      );
+    },
+  };
+}
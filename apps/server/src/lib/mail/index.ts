@@ -0,0 +1,49 @@
+/**
+ * Mail - Pluggable Outgoing Mail
+ *
+ * The transport is selected by MAIL_TRANSPORT:
+ * - smtp: deliver through SMTP_HOST/SMTP_PORT
+ * - file: write JSON files into MAIL_OUTBOX_DIR (offline testing)
+ * - console: log messages only (default)
+ *
+ * The mailer instance is exposed to handlers as `c.get("mailer")`.
+ *
+ * @module lib/mail
+ */
+
+import { env } from "@/config";
+
+import type { Mailer } from "./types";
+
+import { createConsoleMailer } from "./console-transport";
+import { createFileMailer } from "./file-transport";
+import { createSmtpMailer } from "./smtp-transport";
+
+export type { Mailer, MailMessage } from "./types";
+
+export { createConsoleMailer, createFileMailer, createSmtpMailer };
+
+/**
+ * Creates the mailer configured by environment
+ */
+export function createMailer(): Mailer {
+  switch (env.MAIL_TRANSPORT) {
+    case "smtp":
+      return createSmtpMailer(env.MAIL_FROM, {
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      });
+    case "file":
+      return createFileMailer(env.MAIL_FROM, env.MAIL_OUTBOX_DIR);
+    case "console":
+      return createConsoleMailer(env.MAIL_FROM);
+  }
+}
+
+/**
+ * Application mailer (singleton)
+ */
+export const mailer = createMailer();
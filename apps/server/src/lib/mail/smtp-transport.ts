@@ -0,0 +1,30 @@
+import nodemailer from "nodemailer";
+
+import type { Mailer } from "./types";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Delivers messages through an SMTP server
+ */
+export function createSmtpMailer(from: string, options: SmtpOptions): Mailer {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    transport: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
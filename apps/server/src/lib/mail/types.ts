@@ -0,0 +1,29 @@
+/**
+ * Mail Types
+ *
+ * @module lib/mail/types
+ */
+
+/**
+ * Outgoing email
+ */
+export interface MailMessage {
+  /** Recipient address */
+  to: string;
+  /** Subject line */
+  subject: string;
+  /** Plain-text body */
+  text: string;
+  /** Optional HTML body */
+  html?: string;
+}
+
+/**
+ * Pluggable mail transport (SMTP, file outbox, console)
+ */
+export interface Mailer {
+  /** Transport name for logging */
+  readonly transport: string;
+  /** Delivers the message; rejects when delivery fails */
+  send: (message: MailMessage) => Promise<void>;
+}
@@ -0,0 +1,295 @@
+/**
+ * OIDC Relying Party - Discovery, Authorization Code + PKCE and ID Tokens
+ *
+ * Provider-agnostic client for OpenID Connect sign-in:
+ * - reads the provider metadata from `<issuer>/.well-known/openid-configuration`
+ * - builds authorization URLs with `state`, `nonce` and an S256 PKCE challenge
+ * - exchanges the authorization code at the token endpoint
+ * - validates the ID token signature against the provider JWKS (refetched
+ *   once for unknown `kid`s, so provider key rotation needs no restart)
+ *   and its `iss`, `aud`, `azp`, `exp`, `iat` and `nonce` claims
+ *
+ * Provider failures are thrown as AppError (E2018, or 503 when the
+ * provider cannot be reached). The client configured by OIDC_* is exposed
+ * to handlers as `c.get("oidc")` (null while OIDC_ISSUER is unset).
+ *
+ * @see https://openid.net/specs/openid-connect-core-1_0.html
+ * @see https://www.rfc-editor.org/rfc/rfc7636 (PKCE)
+ * @module lib/oidc
+ */
+
+import { decode, verifyWithJwks } from "hono/jwt";
+import { Buffer } from "node:buffer";
+import { createHash, randomBytes } from "node:crypto";
+import * as z from "zod";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+/**
+ * Relying party registration at the provider
+ */
+export interface OidcClientConfig {
+  /** Issuer identifier, compared exactly with metadata and ID token `iss` */
+  issuer: string;
+  clientId: string;
+  /** Client secret (client_secret_basic/post); omit for public clients */
+  clientSecret?: string;
+  /** Registered redirect URI receiving the authorization response */
+  redirectUri: string;
+  scopes: readonly string[];
+}
+
+/**
+ * Authorization request parameters created for one sign-in
+ */
+export interface OidcAuthorizationParams {
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+/**
+ * Relying party bound to one provider
+ */
+export interface OidcClient {
+  readonly issuer: string;
+  /** Fetches (and caches) the provider metadata */
+  discover: () => Promise<OidcProviderMetadata>;
+  /** Builds the provider URL the browser is sent to */
+  authorizationUrl: (params: OidcAuthorizationParams) => Promise<string>;
+  /** Exchanges an authorization code and returns the validated ID token claims */
+  exchangeCode: (code: string, codeVerifier: string, nonce: string) => Promise<IdTokenClaims>;
+}
+
+const providerMetadataSchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.url(),
+  token_endpoint: z.url(),
+  jwks_uri: z.url(),
+  token_endpoint_auth_methods_supported: z.array(z.string()).optional(),
+  code_challenge_methods_supported: z.array(z.string()).optional(),
+});
+
+export type OidcProviderMetadata = z.infer<typeof providerMetadataSchema>;
+
+const tokenResponseSchema = z.object({
+  id_token: z.string(),
+  token_type: z.string(),
+});
+
+const idTokenClaimsSchema = z.object({
+  iss: z.string(),
+  sub: z.string().min(1),
+  aud: z.union([z.string(), z.array(z.string())]),
+  azp: z.string().optional(),
+  nonce: z.string().optional(),
+  email: z.string().optional(),
+  email_verified: z.union([z.boolean(), z.enum(["true", "false"])]).optional(),
+  given_name: z.string().optional(),
+  family_name: z.string().optional(),
+});
+
+export type IdTokenClaims = z.infer<typeof idTokenClaimsSchema>;
+
+type ProviderJwk = Parameters<typeof verifyWithJwks>[1]["keys"] & object;
+
+const jwksSchema = z.object({ keys: z.array(z.looseObject({ kid: z.string().optional() })) });
+
+/**
+ * Asymmetric algorithms accepted for ID token signatures
+ */
+const ID_TOKEN_ALGORITHMS = ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512", "EdDSA"] as const;
+
+// =================================================================
+// PKCE
+// =================================================================
+
+/**
+ * Creates a PKCE code verifier and its S256 challenge
+ */
+export function generatePkcePair() {
+  const codeVerifier = randomBytes(32).toString("base64url");
+  const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Whether an `email_verified` claim confirms the address (some providers
+ * send the string "true")
+ */
+export function isEmailVerified(claims: IdTokenClaims) {
+  return claims.email_verified === true || claims.email_verified === "true";
+}
+
+// =================================================================
+// CLIENT
+// =================================================================
+
+async function fetchJson(url: string, init?: RequestInit): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(10_000) });
+  }
+  catch (error) {
+    throw new AppError("service_unavailable", "Service unavailable", {
+      detail: "The identity provider could not be reached",
+      cause: error,
+    });
+  }
+  if (!response.ok) {
+    throw AppError.ssoFailed(`The identity provider answered with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Creates a relying party for one provider
+ *
+ * Metadata and keys are fetched lazily and cached; a failed discovery is
+ * retried on the next call.
+ */
+export function createOidcClient(config: OidcClientConfig): OidcClient {
+  let metadataPromise: Promise<OidcProviderMetadata> | undefined;
+  let keys: ProviderJwk | undefined;
+
+  const discover = () => {
+    metadataPromise ??= (async () => {
+      const url = `${config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+      const parsed = providerMetadataSchema.safeParse(await fetchJson(url));
+      if (!parsed.success) {
+        throw AppError.ssoFailed("The identity provider metadata is invalid");
+      }
+      if (parsed.data.issuer !== config.issuer) {
+        throw AppError.ssoFailed("The identity provider metadata names a different issuer");
+      }
+      return parsed.data;
+    })().catch((error) => {
+      metadataPromise = undefined;
+      throw error;
+    });
+    return metadataPromise;
+  };
+
+  const loadKeys = async (refresh: boolean) => {
+    if (!keys || refresh) {
+      const parsed = jwksSchema.safeParse(await fetchJson((await discover()).jwks_uri));
+      if (!parsed.success) {
+        throw AppError.ssoFailed("The identity provider key set is invalid");
+      }
+      keys = parsed.data.keys as ProviderJwk;
+    }
+    return keys;
+  };
+
+  const verifyIdToken = async (idToken: string, nonce: string) => {
+    let kid: string | undefined;
+    try {
+      kid = decode(idToken).header.kid;
+    }
+    catch {
+      throw AppError.ssoFailed("The ID token is malformed");
+    }
+
+    let available = await loadKeys(false);
+    if (!available.some(key => key.kid === kid)) {
+      available = await loadKeys(true);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await verifyWithJwks(idToken, {
+        keys: available,
+        verification: { iss: config.issuer, aud: config.clientId },
+        allowedAlgorithms: ID_TOKEN_ALGORITHMS,
+      });
+    }
+    catch {
+      throw AppError.ssoFailed("The ID token signature or claims are invalid");
+    }
+
+    const parsed = idTokenClaimsSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw AppError.ssoFailed("The ID token is missing required claims");
+    }
+    const claims = parsed.data;
+
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== config.clientId) {
+      throw AppError.ssoFailed("The ID token was issued to another client");
+    }
+    if (claims.nonce !== nonce) {
+      throw AppError.ssoFailed("The ID token does not belong to this sign-in");
+    }
+    return claims;
+  };
+
+  return {
+    issuer: config.issuer,
+    discover,
+
+    async authorizationUrl({ state, nonce, codeChallenge }) {
+      const url = new URL((await discover()).authorization_endpoint);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", config.clientId);
+      url.searchParams.set("redirect_uri", config.redirectUri);
+      url.searchParams.set("scope", config.scopes.join(" "));
+      url.searchParams.set("state", state);
+      url.searchParams.set("nonce", nonce);
+      url.searchParams.set("code_challenge", codeChallenge);
+      url.searchParams.set("code_challenge_method", "S256");
+      return url.toString();
+    },
+
+    async exchangeCode(code, codeVerifier, nonce) {
+      const metadata = await discover();
+      const body = new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: config.redirectUri,
+        code_verifier: codeVerifier,
+        client_id: config.clientId,
+      });
+      const headers: Record<string, string> = {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "Accept": "application/json",
+      };
+
+      if (config.clientSecret) {
+        const methods = metadata.token_endpoint_auth_methods_supported ?? ["client_secret_basic"];
+        if (methods.includes("client_secret_basic")) {
+          // RFC 6749 Section 2.3.1: form-encode the credentials before Base64
+          const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+          headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+        }
+        else {
+          body.set("client_secret", config.clientSecret);
+        }
+      }
+
+      const parsed = tokenResponseSchema.safeParse(
+        await fetchJson(metadata.token_endpoint, { method: "POST", headers, body }),
+      );
+      if (!parsed.success) {
+        throw AppError.ssoFailed("The identity provider did not return an ID token");
+      }
+      return verifyIdToken(parsed.data.id_token, nonce);
+    },
+  };
+}
+
+/**
+ * Relying party configured by OIDC_* (null while OIDC_ISSUER is unset)
+ */
+export const oidcClient: OidcClient | null = env.OIDC_ISSUER && env.OIDC_CLIENT_ID
+  ? createOidcClient({
+      issuer: env.OIDC_ISSUER,
+      clientId: env.OIDC_CLIENT_ID,
+      clientSecret: env.OIDC_CLIENT_SECRET,
+      redirectUri: env.OIDC_REDIRECT_URI ?? new URL("/auth/sso/callback", env.CLIENT_URL).toString(),
+      scopes: env.OIDC_SCOPES.split(/\s+/).filter(Boolean),
+    })
+  : null;
@@ -0,0 +1,57 @@
+/**
+ * Pagination Helpers
+ *
+ * Resolves `page`/`limit` query strings (see paginationQuerySchema) into
+ * offsets and builds PaginationMeta for the paginated() response helper.
+ *
+ * @module lib/pagination
+ */
+
+import type { PaginationMeta } from "@/lib/response";
+
+import { API_CONFIG } from "@/config";
+
+/**
+ * Resolved pagination window
+ */
+export interface PageRequest {
+  page: number;
+  limit: number;
+  skip: number;
+}
+
+function toPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Parses page/limit with defaults; limit is capped at PAGINATION.MAX_LIMIT
+ *
+ * @example
+ * resolvePagination({ page: "3", limit: "500" }); // { page: 3, limit: 100, skip: 200 }
+ */
+export function resolvePagination(query: { page?: string; limit?: string }): PageRequest {
+  const { DEFAULT_LIMIT, DEFAULT_PAGE, MAX_LIMIT } = API_CONFIG.PAGINATION;
+
+  const page = toPositiveInt(query.page, DEFAULT_PAGE);
+  const limit = Math.min(toPositiveInt(query.limit, DEFAULT_LIMIT), MAX_LIMIT);
+
+  return { page, limit, skip: (page - 1) * limit };
+}
+
+/**
+ * Builds pagination metadata for a page of results
+ */
+export function createPaginationMeta(page: number, pageSize: number, totalItems: number): PaginationMeta {
+  const totalPages = Math.ceil(totalItems / pageSize);
+
+  return {
+    page,
+    pageSize,
+    totalItems,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPreviousPage: page > 1,
+  };
+}
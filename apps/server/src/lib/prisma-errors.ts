@@ -0,0 +1,18 @@
+/**
+ * Prisma Errors
+ *
+ * Recognizes Prisma errors that services map to AppErrors. A read-then-write
+ * check (such as "is this email taken?") can race with a concurrent request;
+ * the database constraint then decides and Prisma throws P2002.
+ *
+ * @module lib/prisma-errors
+ */
+
+import { Prisma } from "@/generated/prisma/client";
+
+/**
+ * Whether an error is a unique constraint violation (P2002)
+ */
+export function isUniqueConstraintError(error: unknown): error is Prisma.PrismaClientKnownRequestError {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
@@ -150,8 +150,22 @@ export function toProblemDetails(
   c: Context,
   err: unknown,
 ): ProblemResult {
-  const instance = c.req.path;
+  return toProblemResult(err, c.req.path);
+}
 
+/**
+ * Converts any error to RFC 9457 Problem Details for the given instance
+ *
+ * Transport-independent core of toProblemDetails, also used for GraphQL
+ * errors.
+ *
+ * @param err - Error to convert
+ * @param instance - URI reference of the occurrence (request path)
+ */
+export function toProblemResult(
+  err: unknown,
+  instance: string,
+): ProblemResult {
   // =================================================================
   // 1. AppError - Canonical path (preferred)
   // =================================================================
@@ -12,14 +12,16 @@
  * @module lib/response
  */
 
-import type { Context } from "hono";
-import type { ContentfulStatusCode } from "hono/utils/http-status";
 import type {
   ApiResponseEnvelope as SharedApiResponseEnvelope,
   ErrorEnvelope as SharedErrorEnvelope,
+  PaginatedData as SharedPaginatedData,
+  PaginationMeta as SharedPaginationMeta,
   ResponseMeta as SharedResponseMeta,
   SuccessEnvelope as SharedSuccessEnvelope,
 } from "@repo/shared";
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
 
 import type { ProblemDetails } from "./problem";
 
@@ -297,22 +299,12 @@ export function accepted<T>(
 /**
  * Pagination metadata for list responses
  */
-export interface PaginationMeta {
-  page: number;
-  pageSize: number;
-  totalItems: number;
-  totalPages: number;
-  hasNextPage: boolean;
-  hasPreviousPage: boolean;
-}
+export type PaginationMeta = SharedPaginationMeta;
 
 /**
  * Paginated list response data
  */
-export interface PaginatedData<T> {
-  items: T[];
-  pagination: PaginationMeta;
-}
+export type PaginatedData<T> = SharedPaginatedData<T>;
 
 /**
  * Paginated list response helper
@@ -0,0 +1,73 @@
+/**
+ * Secret Box - Encryption of Secrets at Rest
+ *
+ * Encrypts short secrets that must be read back, such as TOTP secrets,
+ * with AES-256-GCM under TWO_FACTOR_ENCRYPTION_KEY. Stored values have
+ * the form `v1.<iv>.<tag>.<ciphertext>` (base64url); the version prefix
+ * leaves room for key rotation. Values without it are legacy plaintext
+ * and are returned unchanged. The key is optional at startup; encrypting,
+ * or decrypting a `v1.` value, without it throws.
+ *
+ * @module lib/secret-box
+ */
+
+import { Buffer } from "node:buffer";
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+import { env } from "@/config";
+
+const VERSION = "v1";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+
+function defaultKey() {
+  if (!env.TWO_FACTOR_ENCRYPTION_KEY) {
+    throw new Error("TWO_FACTOR_ENCRYPTION_KEY is not set");
+  }
+  return Buffer.from(env.TWO_FACTOR_ENCRYPTION_KEY, "base64");
+}
+
+/**
+ * Whether TWO_FACTOR_ENCRYPTION_KEY is configured
+ */
+export function hasSecretKey() {
+  return env.TWO_FACTOR_ENCRYPTION_KEY !== undefined;
+}
+
+/**
+ * Whether a stored value was written by encryptSecret
+ */
+export function isEncryptedSecret(stored: string) {
+  return stored.startsWith(`${VERSION}.`);
+}
+
+/**
+ * Encrypts a secret for storage
+ */
+export function encryptSecret(plaintext: string, key: Buffer = defaultKey()) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => typeof part === "string" ? part : part.toString("base64url"))
+    .join(".");
+}
+
+/**
+ * Decrypts a stored secret; legacy plaintext is returned as it is
+ *
+ * @throws Error when the value was altered, encrypted with another key or
+ * the key is not set
+ */
+export function decryptSecret(stored: string, key?: Buffer) {
+  if (!isEncryptedSecret(stored)) {
+    return stored;
+  }
+
+  const [, iv, tag, ciphertext] = stored.split(".").map(part => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv(ALGORITHM, key ?? defaultKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
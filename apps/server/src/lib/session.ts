@@ -0,0 +1,49 @@
+/**
+ * Sessions - Revocation Checks for Access Tokens
+ *
+ * Access tokens carry the ID of their session in the `sid` claim.
+ * authMiddleware (REST) and the GraphQL context look the session up on
+ * every request, so revoking it signs the device out immediately instead
+ * of when its access token expires.
+ *
+ * @module lib/session
+ */
+
+import type { PrismaClient } from "@/generated/prisma/client";
+import type { AuthPrincipal } from "@/lib/authorization";
+
+/**
+ * How often `lastSeenAt` is written while a session is in use
+ */
+export const SESSION_TOUCH_INTERVAL_MS = 60_000;
+
+export type SessionClient = Pick<PrismaClient, "session">;
+
+/**
+ * Returns true when the session exists, is not revoked and has not
+ * expired, and records the activity as last seen
+ */
+export async function isSessionActive(prisma: SessionClient, sessionId: string, now = new Date()) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true, lastSeenAt: true },
+  });
+
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= now.getTime()) {
+    return false;
+  }
+
+  if (now.getTime() - session.lastSeenAt.getTime() >= SESSION_TOUCH_INTERVAL_MS) {
+    await prisma.session.update({ where: { id: sessionId }, data: { lastSeenAt: now } });
+  }
+
+  return true;
+}
+
+/**
+ * Checks the principal's session; principals without one (tokens issued
+ * before sessions existed) are accepted until their token expires
+ */
+export async function hasActiveSession(prisma: SessionClient, principal: AuthPrincipal) {
+  return principal.sessionId === undefined || isSessionActive(prisma, principal.sessionId);
+}
@@ -0,0 +1,18 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/**
+ * Generates a URL-safe random token (256 bits by default)
+ */
+export function generateOpaqueToken(bytes = 32) {
+  return randomBytes(bytes).toString("base64url");
+}
+
+/**
+ * Hashes an opaque token for storage and lookup
+ *
+ * Tokens carry full entropy, so a fast unsalted SHA-256 is sufficient
+ * and keeps the hash usable as a unique lookup key.
+ */
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,236 @@
+/**
+ * Authorization Middleware Tests
+ *
+ * Tests for principal extraction, session revocation and scope
+ * enforcement in authMiddleware and the requireRole/requirePermission
+ * route guards.
+ *
+ * @module middlewares/__tests__/authorization.middleware.test
+ */
+
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import { sign } from "hono/jwt";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { AppBindings } from "@/types";
+
+import { env } from "@/config";
+import { AUTH_CODES } from "@/errors";
+import { PERMISSIONS } from "@/lib/authorization";
+import { errorHandler } from "@/lib/error-handler";
+import { signAccessToken, signClientAccessToken } from "@/lib/jwt";
+import { jsonContent } from "@/lib/openapi/helpers";
+import { authMiddleware } from "@/middlewares/auth.middleware";
+import { getPrincipal, requirePermission, requireRole } from "@/middlewares/authorization.middleware";
+
+// =================================================================
+// TEST APP FACTORY
+// =================================================================
+
+const adminOnly = createRoute({
+  path: "/admin-only",
+  method: "get",
+  middleware: [requireRole("admin")] as const,
+  responses: {
+    200: jsonContent(z.object({ userId: z.string() }), "OK"),
+  },
+});
+
+/**
+ * Session lookup stand-in: `session-active` is active, `session-revoked` revoked
+ */
+const sessionStore = {
+  session: {
+    findUnique: vi.fn(async ({ where }: { where: { id: string } }) => {
+      if (where.id === "session-active") {
+        return { revokedAt: null, expiresAt: new Date(Date.now() + 60_000), lastSeenAt: new Date() };
+      }
+      if (where.id === "session-revoked") {
+        return { revokedAt: new Date(), expiresAt: new Date(Date.now() + 60_000), lastSeenAt: new Date() };
+      }
+      return null;
+    }),
+    update: vi.fn(),
+  },
+};
+
+function createAuthorizationTestApp() {
+  const app = new OpenAPIHono<AppBindings>();
+
+  app.use("*", async (c, next) => {
+    c.set("requestId", "test-request-id-authz");
+    c.set("logger", {
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+      debug: () => {},
+      security: () => {},
+    } as any);
+    c.set("logContext", {});
+    c.set("prisma", sessionStore as any);
+    await next();
+  });
+
+  app.use("*", authMiddleware);
+
+  app.openapi(adminOnly, c => c.json({ userId: getPrincipal(c).userId }, 200));
+  app.get("/users-write", requirePermission(PERMISSIONS.USERS_WRITE), c => c.json({ ok: true }));
+  app.get("/me", c => c.json(getPrincipal(c)));
+
+  app.onError(errorHandler);
+
+  return app;
+}
+
+async function bearer(role: "admin" | "user", sub = "user-1", emailVerified = true, sessionId?: string) {
+  const { token } = await signAccessToken({ sub, role, emailVerified, sessionId });
+  return { Authorization: `Bearer ${token}` };
+}
+
+// =================================================================
+// TEST: PRINCIPAL
+// =================================================================
+
+describe("authMiddleware principal", () => {
+  it("stores the verified principal in the context", async () => {
+    const app = createAuthorizationTestApp();
+
+    const res = await app.request("/me", { headers: await bearer("user", "user-42") });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      userId: "user-42",
+      role: "user",
+      emailVerified: true,
+      expiresAt: expect.any(String),
+    });
+  });
+
+  it("accepts tokens of an active session", async () => {
+    const app = createAuthorizationTestApp();
+
+    const res = await app.request("/me", { headers: await bearer("user", "user-1", true, "session-active") });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ sessionId: "session-active" });
+  });
+
+  it("rejects tokens of revoked or unknown sessions", async () => {
+    const app = createAuthorizationTestApp();
+
+    const revoked = await app.request("/me", { headers: await bearer("user", "user-1", true, "session-revoked") });
+    const unknown = await app.request("/me", { headers: await bearer("user", "user-1", true, "session-unknown") });
+
+    expect(revoked.status).toBe(401);
+    expect(unknown.status).toBe(401);
+  });
+
+  it("rejects tokens without a role claim", async () => {
+    const app = createAuthorizationTestApp();
+    const token = await sign({ sub: "user-1" }, env.JWT_SECRET!, "HS256");
+
+    const res = await app.request("/me", { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(res.status).toBe(401);
+  });
+});
+
+// =================================================================
+// TEST: GUARDS
+// =================================================================
+
+describe("requireRole", () => {
+  it("allows a matching role on a createRoute definition", async () => {
+    const app = createAuthorizationTestApp();
+
+    const res = await app.request("/admin-only", { headers: await bearer("admin") });
+
+    expect(res.status).toBe(200);
+  });
+
+  it("returns 403 with E2010 for other roles", async () => {
+    const app = createAuthorizationTestApp();
+
+    const res = await app.request("/admin-only", { headers: await bearer("user") });
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.error.code).toBe(AUTH_CODES.INSUFFICIENT_PERMISSIONS);
+  });
+});
+
+describe("requirePermission", () => {
+  it("allows roles granting the permission", async () => {
+    const app = createAuthorizationTestApp();
+
+    const res = await app.request("/users-write", { headers: await bearer("admin") });
+
+    expect(res.status).toBe(200);
+  });
+
+  it("returns 403 with E2010 when the role lacks the permission", async () => {
+    const app = createAuthorizationTestApp();
+
+    const res = await app.request("/users-write", { headers: await bearer("user") });
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.error.code).toBe(AUTH_CODES.INSUFFICIENT_PERMISSIONS);
+  });
+
+  describe("with unverified emails", () => {
+    const policy = env.EMAIL_VERIFICATION_POLICY;
+
+    afterEach(() => {
+      env.EMAIL_VERIFICATION_POLICY = policy;
+    });
+
+    it("grants no permissions under allow-restricted", async () => {
+      env.EMAIL_VERIFICATION_POLICY = "allow-restricted";
+      const app = createAuthorizationTestApp();
+
+      const res = await app.request("/users-write", { headers: await bearer("admin", "user-1", false) });
+
+      expect(res.status).toBe(403);
+    });
+
+    it("keeps the permissions of accounts that predate verification while the policy is off", async () => {
+      env.EMAIL_VERIFICATION_POLICY = "off";
+      const app = createAuthorizationTestApp();
+
+      const res = await app.request("/users-write", { headers: await bearer("admin", "user-1", false) });
+
+      expect(res.status).toBe(200);
+    });
+  });
+});
+
+describe("scoped client tokens", () => {
+  async function clientBearer(scopes: string[]) {
+    const { token } = await signClientAccessToken({ sub: "client-1", clientId: "billing-sync", scopes });
+    return { Authorization: `Bearer ${token}` };
+  }
+
+  it("hold exactly their scopes as permissions", async () => {
+    const app = createAuthorizationTestApp();
+
+    const allowed = await app.request("/users-write", { headers: await clientBearer(["users:write"]) });
+    const denied = await app.request("/users-write", { headers: await clientBearer(["users:read"]) });
+
+    expect(allowed.status).toBe(200);
+    expect(denied.status).toBe(403);
+    expect(denied.headers.get("www-authenticate")).toContain("insufficient_scope");
+  });
+
+  it("cannot call routes without permission guards", async () => {
+    const app = createAuthorizationTestApp();
+    const headers = await clientBearer(["users:read", "users:write"]);
+
+    const me = await app.request("/me", { headers });
+    const adminOnly = await app.request("/admin-only", { headers });
+
+    expect(me.status).toBe(403);
+    expect(adminOnly.status).toBe(403);
+    expect((await me.json()).error.code).toBe(AUTH_CODES.INSUFFICIENT_PERMISSIONS);
+  });
+});
@@ -1,9 +1,37 @@
 import type { Context, Next } from "hono";
 
 import { HTTPException } from "hono/http-exception";
-import { verify } from "hono/jwt";
 
-import { env } from "@/config";
+import type { Scope } from "@/lib/authorization";
+import type { AppBindings } from "@/types";
+
+import { API_PREFIX } from "@/config";
+import { AppError } from "@/errors";
+import { authenticateApiKey, readApiKey } from "@/lib/api-key";
+import { verifyAccessToken } from "@/lib/jwt";
+import { hasActiveSession } from "@/lib/session";
+import { getRouteScopes } from "@/middlewares/authorization.middleware";
+import { buildApiPath, pathStartsWith } from "@/utils/path";
+
+/**
+ * Prefix of the auth module routes (sign-in, sign-up, ...)
+ */
+export const AUTH_PATH_PREFIX = buildApiPath(API_PREFIX, "/auth");
+
+/**
+ * Resend-verification route (rate limited separately to cap outgoing mail)
+ */
+export const RESEND_VERIFICATION_PATH = buildApiPath(AUTH_PATH_PREFIX, "/resend-verification");
+
+/**
+ * OAuth2 token endpoint (client_credentials grant, rate limited like auth routes)
+ */
+export const OAUTH_TOKEN_PATH = "/oauth/token";
+
+/**
+ * Verify-email route prefix (the token is a path segment)
+ */
+const VERIFY_EMAIL_PATH = buildApiPath(AUTH_PATH_PREFIX, "/verify-email");
 
 export const PUBLIC_PATHS = new Set([
   "/",
@@ -11,26 +39,66 @@ export const PUBLIC_PATHS = new Set([
   "/health/live",
   "/health/ready",
   "/metrics",
+  "/.well-known/jwks.json",
+  OAUTH_TOKEN_PATH,
   "/doc",
   "/reference",
+  buildApiPath(AUTH_PATH_PREFIX, "/signin"),
+  buildApiPath(AUTH_PATH_PREFIX, "/signup"),
+  buildApiPath(AUTH_PATH_PREFIX, "/refresh"),
+  buildApiPath(AUTH_PATH_PREFIX, "/forgot-password"),
+  buildApiPath(AUTH_PATH_PREFIX, "/reset-password"),
+  RESEND_VERIFICATION_PATH,
+  buildApiPath(AUTH_PATH_PREFIX, "/2fa/verify"),
+  buildApiPath(AUTH_PATH_PREFIX, "/oidc/authorize"),
+  buildApiPath(AUTH_PATH_PREFIX, "/oidc/callback"),
 ]);
 
+export function isAuthPath(path: string) {
+  return pathStartsWith(path, AUTH_PATH_PREFIX);
+}
+
 export function isPublicPath(path: string) {
   if (PUBLIC_PATHS.has(path)) {
     return true;
   }
 
   // Keep docs assets publicly available.
-  return path.startsWith("/reference/");
+  return path.startsWith("/reference/") || path.startsWith(`${VERIFY_EMAIL_PATH}/`);
 }
 
-export async function authMiddleware(c: Context, next: Next) {
+export async function authMiddleware(c: Context<AppBindings>, next: Next) {
   if (c.req.method === "OPTIONS" || isPublicPath(c.req.path)) {
     await next();
     return;
   }
 
   const authorization = c.req.header("authorization");
+  const apiKey = readApiKey({ apiKey: c.req.header("x-api-key"), authorization });
+
+  const principal = apiKey !== undefined
+    ? await authenticateWithApiKey(c, apiKey)
+    : await authenticateWithBearer(c, authorization);
+
+  if (principal.scopes) {
+    assertRouteInScope(c, principal.scopes);
+  }
+
+  c.set("principal", principal);
+  await next();
+}
+
+async function authenticateWithApiKey(c: Context<AppBindings>, apiKey: string) {
+  const principal = await authenticateApiKey(c.get("prisma"), apiKey);
+  if (!principal) {
+    throw new HTTPException(401, {
+      message: "Invalid, expired or revoked API key",
+    });
+  }
+  return principal;
+}
+
+async function authenticateWithBearer(c: Context<AppBindings>, authorization?: string) {
   if (!authorization || !authorization.startsWith("Bearer ")) {
     throw new HTTPException(401, {
       message: "Missing or invalid Authorization header",
@@ -44,14 +112,40 @@ export async function authMiddleware(c: Context, next: Next) {
     });
   }
 
-  try {
-    await verify(token, env.JWT_SECRET, "HS256");
-  }
-  catch {
+  const principal = await verifyAccessToken(token);
+  if (!principal) {
     throw new HTTPException(401, {
       message: "Invalid or expired token",
     });
   }
 
-  await next();
+  if (!(await hasActiveSession(c.get("prisma"), principal))) {
+    throw new HTTPException(401, {
+      message: "Session has been revoked",
+    });
+  }
+
+  return principal;
+}
+
+/**
+ * Scoped tokens and API keys may only call routes guarded by requirePermission or
+ * requireScope whose scopes are all within their own
+ *
+ * @throws AppError.insufficientPermissions (E2010) with an RFC 6750
+ * `insufficient_scope` challenge otherwise
+ */
+function assertRouteInScope(c: Context<AppBindings>, scopes: readonly Scope[]) {
+  const required = getRouteScopes(c);
+
+  if (required.length > 0 && required.every(scope => scopes.includes(scope))) {
+    return;
+  }
+
+  c.header("WWW-Authenticate", `Bearer error="insufficient_scope", scope="${required.join(" ")}"`);
+  throw AppError.insufficientPermissions(
+    required.length > 0
+      ? `The token scope does not include ${required.join(", ")}`
+      : "This route is not available to scoped tokens",
+  );
 }
@@ -0,0 +1,61 @@
+/**
+ * API Clients Module Handlers
+ *
+ * Route handlers for OAuth2 client administration.
+ * Failures are thrown as AppError and rendered by the central error handler.
+ *
+ * @module modules/api-clients/api-clients.handlers
+ */
+
+import type { AppRouteHandler } from "@/types";
+
+import { created, noContent, ok } from "@/lib/response";
+import { getPrincipal } from "@/middlewares/authorization.middleware";
+
+import type { CreateApiClientRoute, ListApiClientsRoute, RevokeApiClientRoute } from "./api-clients.routes";
+
+import * as apiClientsService from "./api-clients.service";
+
+/**
+ * List handler - all clients, newest first
+ */
+export const listApiClientsHandler: AppRouteHandler<ListApiClientsRoute> = async (c) => {
+  return ok(c, await apiClientsService.listApiClients(c.get("prisma")), 200);
+};
+
+/**
+ * Create handler - returns the client secret once
+ */
+export const createApiClientHandler: AppRouteHandler<CreateApiClientRoute> = async (c) => {
+  const body = c.req.valid("json");
+
+  const client = await apiClientsService.createApiClient(c.get("prisma"), body);
+
+  c.get("logger").security("API client created", {
+    ...c.get("logContext"),
+    userId: getPrincipal(c).userId,
+    apiClientId: client.id,
+    scopes: client.scopes,
+    action: "api_clients.create",
+  });
+
+  return created(c, client);
+};
+
+/**
+ * Revoke handler - the client can no longer obtain tokens
+ */
+export const revokeApiClientHandler: AppRouteHandler<RevokeApiClientRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+
+  await apiClientsService.revokeApiClient(c.get("prisma"), c.get("events"), id);
+
+  c.get("logger").security("API client revoked", {
+    ...c.get("logContext"),
+    userId: getPrincipal(c).userId,
+    apiClientId: id,
+    action: "api_clients.revoke",
+  });
+
+  return noContent(c);
+};
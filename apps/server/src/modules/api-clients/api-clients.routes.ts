@@ -0,0 +1,95 @@
+/**
+ * API Clients Module Routes
+ *
+ * OpenAPI route definitions for OAuth2 client administration:
+ * - GET    /api-clients: List clients
+ * - POST   /api-clients: Create a client (the secret is returned once)
+ * - DELETE /api-clients/{id}: Revoke a client
+ *
+ * Reads require `api-clients:read`, mutations require `api-clients:write`.
+ *
+ * @module modules/api-clients/api-clients.routes
+ */
+
+import { createRoute } from "@hono/zod-openapi";
+
+import { PERMISSIONS } from "@/lib/authorization";
+import { HTTP_STATUS } from "@/lib/http-status";
+import { jsonContent, jsonContentRequired } from "@/lib/openapi/helpers";
+import { requirePermission } from "@/middlewares/authorization.middleware";
+import {
+  forbiddenEnvelopeSchema,
+  notFoundEnvelopeSchema,
+  unauthorizedEnvelopeSchema,
+  validationErrorEnvelopeSchema,
+} from "@/schemas/envelope.schema";
+
+import {
+  apiClientEnvelopeSchema,
+  apiClientIdParamSchema,
+  apiClientListEnvelopeSchema,
+  createApiClientBodySchema,
+} from "./api-clients.schema";
+
+const tags = ["API Clients"];
+
+const authErrorResponses = {
+  [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Authentication required"),
+  [HTTP_STATUS.FORBIDDEN]: jsonContent(forbiddenEnvelopeSchema, "Insufficient permissions (E2010)"),
+};
+
+export const listApiClients = createRoute({
+  path: "/api-clients",
+  method: "get",
+  tags,
+  summary: "List API clients",
+  middleware: [requirePermission(PERMISSIONS.API_CLIENTS_READ)] as const,
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(apiClientListEnvelopeSchema, "API clients"),
+    ...authErrorResponses,
+  },
+});
+
+export const createApiClient = createRoute({
+  path: "/api-clients",
+  method: "post",
+  tags,
+  summary: "Create an API client",
+  description: "Registers an OAuth2 client for the client_credentials grant at `/oauth/token`. "
+    + "The response contains the client secret, which is not shown again.",
+  middleware: [requirePermission(PERMISSIONS.API_CLIENTS_WRITE)] as const,
+  request: {
+    body: jsonContentRequired(createApiClientBodySchema, "Client name and scopes"),
+  },
+  responses: {
+    [HTTP_STATUS.CREATED]: jsonContent(apiClientEnvelopeSchema, "API client created"),
+    ...authErrorResponses,
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const revokeApiClient = createRoute({
+  path: "/api-clients/{id}",
+  method: "delete",
+  tags,
+  summary: "Revoke an API client",
+  description: "The client can no longer obtain tokens; tokens already issued stay valid until they expire.",
+  middleware: [requirePermission(PERMISSIONS.API_CLIENTS_WRITE)] as const,
+  request: {
+    params: apiClientIdParamSchema,
+  },
+  responses: {
+    [HTTP_STATUS.NO_CONTENT]: { description: "API client revoked" },
+    ...authErrorResponses,
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "API client not found or already revoked"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// TYPE EXPORTS
+// =================================================================
+
+export type ListApiClientsRoute = typeof listApiClients;
+export type CreateApiClientRoute = typeof createApiClient;
+export type RevokeApiClientRoute = typeof revokeApiClient;
@@ -0,0 +1,95 @@
+/**
+ * API Clients Module Schemas
+ *
+ * Zod schemas for managing OAuth2 clients. The client secret is only
+ * part of the create response; afterwards just its hash is stored.
+ *
+ * @module modules/api-clients/api-clients.schema
+ */
+
+import { z } from "@hono/zod-openapi";
+
+import { ACCESS_SCOPES, PERMISSIONS } from "@/lib/authorization";
+import { createSuccessEnvelopeSchema } from "@/schemas/envelope.schema";
+
+// =================================================================
+// SHARED FIELDS
+// =================================================================
+
+// Clients act for no user, so they have no account
+const scopesSchema = z.array(z.enum([...Object.values(PERMISSIONS), ACCESS_SCOPES.GRAPHQL])).openapi({
+  description: "Scopes the client may request: permission names and `graphql` for the GraphQL endpoint",
+  example: ["users:read"],
+});
+
+// =================================================================
+// REQUEST SCHEMAS
+// =================================================================
+
+/**
+ * API client ID path parameter
+ */
+export const apiClientIdParamSchema = z.object({
+  id: z.uuid().openapi({
+    description: "API client ID",
+    example: "550e8400-e29b-41d4-a716-446655440000",
+    param: {
+      name: "id",
+      in: "path",
+    },
+  }),
+}).openapi("ApiClientIdParam");
+
+/**
+ * Create API client body
+ */
+export const createApiClientBodySchema = z.object({
+  name: z.string().trim().min(1).max(100).openapi({
+    description: "Display name, e.g. the integration using the client",
+    example: "Billing sync",
+  }),
+  scopes: scopesSchema.min(1),
+}).openapi("CreateApiClientBody");
+
+export type CreateApiClientBody = z.infer<typeof createApiClientBodySchema>;
+
+// =================================================================
+// RESPONSE SCHEMAS
+// =================================================================
+
+/**
+ * API client representation (without secret)
+ */
+export const apiClientSchema = z.object({
+  id: z.string().openapi({ description: "API client ID", example: "550e8400-e29b-41d4-a716-446655440000" }),
+  clientId: z.string().openapi({ description: "Public `client_id`", example: "Xk3v9QmR2pLw7sTnYb4c" }),
+  name: z.string().openapi({ description: "Display name", example: "Billing sync" }),
+  scopes: scopesSchema,
+  lastUsedAt: z.string().optional().openapi({
+    description: "Last token issued (ISO 8601)",
+    example: "2025-01-15T10:30:00.000Z",
+  }),
+  revokedAt: z.string().optional().openapi({
+    description: "Revocation time (ISO 8601); revoked clients cannot obtain tokens",
+    example: "2025-01-15T10:30:00.000Z",
+  }),
+  createdAt: z.string().openapi({ description: "Creation timestamp (ISO 8601)", example: "2025-01-15T10:30:00.000Z" }),
+}).openapi("ApiClient");
+
+export type ApiClientResponse = z.infer<typeof apiClientSchema>;
+
+/**
+ * Created API client with its secret (shown once)
+ */
+export const createdApiClientSchema = apiClientSchema.extend({
+  clientSecret: z.string().openapi({
+    description: "Client secret; store it now, it cannot be retrieved again",
+    example: "Jq0q6cW8nYz2m5v1kR4sT7uX9aB3dE6gH8jK1lM4nP0",
+  }),
+}).openapi("CreatedApiClient");
+
+export type CreatedApiClientResponse = z.infer<typeof createdApiClientSchema>;
+
+export const apiClientEnvelopeSchema = createSuccessEnvelopeSchema(createdApiClientSchema, "CreatedApiClientEnvelope");
+
+export const apiClientListEnvelopeSchema = createSuccessEnvelopeSchema(z.array(apiClientSchema), "ApiClientListEnvelope");
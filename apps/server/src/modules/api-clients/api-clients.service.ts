@@ -0,0 +1,118 @@
+/**
+ * API Clients Service - OAuth2 Client Registry
+ *
+ * Creates, lists and revokes the clients that may use the
+ * client_credentials grant, and authenticates their credentials.
+ * Secrets are random tokens stored as SHA-256 hashes and returned
+ * only once, at creation.
+ *
+ * @module modules/api-clients/api-clients.service
+ */
+
+import { Buffer } from "node:buffer";
+import { timingSafeEqual } from "node:crypto";
+
+import type { ApiClient, PrismaClient } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+
+import { AppError } from "@/errors";
+import { generateOpaqueToken, hashToken } from "@/lib/token";
+
+import type { ApiClientResponse, CreateApiClientBody, CreatedApiClientResponse } from "./api-clients.schema";
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+function toApiClientResponse(client: ApiClient): ApiClientResponse {
+  return {
+    id: client.id,
+    clientId: client.clientId,
+    name: client.name,
+    scopes: client.scopes as ApiClientResponse["scopes"],
+    lastUsedAt: client.lastUsedAt?.toISOString(),
+    revokedAt: client.revokedAt?.toISOString(),
+    createdAt: client.createdAt.toISOString(),
+  };
+}
+
+function secretMatches(secret: string, secretHash: string) {
+  const expected = Buffer.from(secretHash, "hex");
+  const actual = Buffer.from(hashToken(secret), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// =================================================================
+// REGISTRY
+// =================================================================
+
+/**
+ * Lists all clients, newest first (revoked clients included)
+ */
+export async function listApiClients(prisma: PrismaClient): Promise<ApiClientResponse[]> {
+  const clients = await prisma.apiClient.findMany({ orderBy: { createdAt: "desc" } });
+  return clients.map(toApiClientResponse);
+}
+
+/**
+ * Creates a client with a random `client_id` and secret
+ *
+ * @returns the client including the plain secret (only its hash is stored)
+ */
+export async function createApiClient(
+  prisma: PrismaClient,
+  input: CreateApiClientBody,
+): Promise<CreatedApiClientResponse> {
+  const clientSecret = generateOpaqueToken();
+
+  const client = await prisma.apiClient.create({
+    data: {
+      clientId: generateOpaqueToken(15),
+      name: input.name,
+      secretHash: hashToken(clientSecret),
+      scopes: [...new Set(input.scopes)],
+    },
+  });
+
+  return { ...toApiClientResponse(client), clientSecret };
+}
+
+/**
+ * Revokes a client; tokens it already holds stay valid until they expire,
+ * but the published event ends the client's open subscriptions
+ *
+ * @throws AppError.notFound when the client does not exist or is already revoked
+ */
+export async function revokeApiClient(prisma: PrismaClient, events: EventBus, id: string) {
+  const revoked = await prisma.apiClient.updateMany({
+    where: { id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (revoked.count === 0) {
+    throw AppError.notFound("API client", id);
+  }
+
+  await events.publish("credentials.revoked", { kind: "client", id, userId: id });
+}
+
+// =================================================================
+// AUTHENTICATION
+// =================================================================
+
+/**
+ * Returns the active client for the credentials
+ *
+ * @returns null for unknown or revoked clients and wrong secrets
+ */
+export async function authenticateApiClient(
+  prisma: PrismaClient,
+  clientId: string,
+  clientSecret: string,
+): Promise<ApiClient | null> {
+  const client = await prisma.apiClient.findUnique({ where: { clientId } });
+
+  if (!client || client.revokedAt || !secretMatches(clientSecret, client.secretHash)) {
+    return null;
+  }
+  return client;
+}
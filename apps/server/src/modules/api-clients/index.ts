@@ -0,0 +1,39 @@
+/**
+ * API Clients Module - OAuth2 Client Administration
+ *
+ * Admin REST endpoints for the clients of the client_credentials grant
+ * (`/oauth/token`, see modules/oauth):
+ * - GET    /api-clients: List
+ * - POST   /api-clients: Create (returns the secret once)
+ * - DELETE /api-clients/{id}: Revoke
+ *
+ * Mounted under the API prefix (BASE_PATH, default /rest/v1).
+ *
+ * @module modules/api-clients
+ */
+
+import { createRouter } from "@/lib/create-app";
+
+import {
+  createApiClientHandler,
+  listApiClientsHandler,
+  revokeApiClientHandler,
+} from "./api-clients.handlers";
+import { createApiClient, listApiClients, revokeApiClient } from "./api-clients.routes";
+
+// =================================================================
+// ROUTER CONFIGURATION
+// =================================================================
+
+const router = createRouter()
+  .openapi(listApiClients, listApiClientsHandler)
+  .openapi(createApiClient, createApiClientHandler)
+  .openapi(revokeApiClient, revokeApiClientHandler);
+
+export default router;
+
+// =================================================================
+// PUBLIC API EXPORTS
+// =================================================================
+
+export { authenticateApiClient } from "./api-clients.service";
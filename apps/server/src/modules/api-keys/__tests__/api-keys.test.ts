@@ -0,0 +1,352 @@
+/**
+ * API Keys Module Integration Tests
+ *
+ * Tests for personal API keys:
+ * - Creation within the owner's permissions (key shown once, hash stored)
+ * - Authentication through X-API-Key and `Authorization: ApiKey`
+ * - Scope limits, revocation, expiry and last-used tracking
+ * - Keys of regular users for their account and GraphQL
+ * - Masking of keys in log strings
+ *
+ * @module modules/api-keys/__tests__/api-keys.test
+ */
+
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { randomUUID } from "node:crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AppBindings } from "@/types";
+
+import { API_PREFIX } from "@/config";
+import { AUTH_CODES } from "@/errors";
+import { Prisma } from "@/generated/prisma/client";
+import { PERMISSIONS } from "@/lib/authorization";
+import { errorHandler } from "@/lib/error-handler";
+import { createMemoryEventBus } from "@/lib/events";
+import { signAccessToken } from "@/lib/jwt";
+import { hashToken } from "@/lib/token";
+import { authMiddleware } from "@/middlewares/auth.middleware";
+import { getPrincipal, requirePermission } from "@/middlewares/authorization.middleware";
+import auth from "@/modules/auth";
+import graphql from "@/modules/graphql";
+import { sanitizeLogString, sanitizePath } from "@/utils/sanitize";
+
+import apiKeys from "../index";
+
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+// =================================================================
+// TEST APP FACTORY
+// =================================================================
+
+interface StoredApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+const ADMIN_ID: string = randomUUID();
+const MEMBER_ID: string = randomUUID();
+
+function createStore() {
+  const keys = new Map<string, StoredApiKey>();
+  const users = new Map([
+    [ADMIN_ID, { role: "admin", active: true, emailVerifiedAt: new Date() }],
+    [MEMBER_ID, { role: "user", active: true, emailVerifiedAt: new Date() }],
+  ]);
+
+  const toUserRow = (id: string) => ({
+    id,
+    email: `${id}@example.com`,
+    password: "$argon2id$hash",
+    firstName: null,
+    lastName: null,
+    twoFactorEnabledAt: null,
+    lockedUntil: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...users.get(id)!,
+  });
+
+  const prisma = {
+    user: {
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => users.has(where.id) ? toUserRow(where.id) : null),
+      findMany: vi.fn(async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.filter(id => users.has(id)).map(toUserRow)),
+    },
+    session: {
+      findMany: vi.fn(async () => []),
+    },
+    apiKey: {
+      findUnique: vi.fn(async ({ where }: { where: { keyHash: string } }) => {
+        const apiKey = [...keys.values()].find(key => key.keyHash === where.keyHash);
+        return apiKey ? { ...apiKey, user: users.get(apiKey.userId)! } : null;
+      }),
+      findMany: vi.fn(async ({ where }: { where: { userId: string } }) =>
+        [...keys.values()].filter(key => key.userId === where.userId && !key.revokedAt)),
+      create: vi.fn(async ({ data }: { data: Omit<StoredApiKey, "id" | "lastUsedAt" | "revokedAt" | "createdAt"> }) => {
+        const apiKey = { ...data, id: randomUUID(), lastUsedAt: null, revokedAt: null, createdAt: new Date() };
+        keys.set(apiKey.id, apiKey);
+        return apiKey;
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<StoredApiKey> }) =>
+        Object.assign(keys.get(where.id)!, data)),
+      updateMany: vi.fn(async ({ where, data }: { where: { id: string; userId: string }; data: Partial<StoredApiKey> }) => {
+        const apiKey = keys.get(where.id);
+        if (!apiKey || apiKey.userId !== where.userId || apiKey.revokedAt) {
+          return { count: 0 };
+        }
+        Object.assign(apiKey, data);
+        return { count: 1 };
+      }),
+    },
+  };
+
+  return { keys, users, prisma };
+}
+
+function createApiKeysTestApp(store: ReturnType<typeof createStore>, events = createMemoryEventBus()) {
+  const app = new OpenAPIHono<AppBindings>();
+
+  app.use("*", async (c, next) => {
+    c.set("requestId", "test-request-id-api-keys");
+    c.set("logger", {
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+      debug: () => {},
+      security: () => {},
+    } as any);
+    c.set("logContext", {});
+    c.set("prisma", store.prisma as any);
+    c.set("events", events);
+    await next();
+  });
+
+  app.use("*", authMiddleware);
+  app.route(API_PREFIX, apiKeys);
+  app.route(API_PREFIX, auth);
+  app.route("/", graphql);
+  app.get("/users-read", requirePermission(PERMISSIONS.USERS_READ), c => c.json(getPrincipal(c)));
+  app.get("/users-write", requirePermission(PERMISSIONS.USERS_WRITE), c => c.json({ ok: true }));
+  app.onError(errorHandler);
+
+  return app;
+}
+
+async function bearer(sub: string, role: "admin" | "user") {
+  const { token } = await signAccessToken({ sub, role, emailVerified: true });
+  return { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" };
+}
+
+async function createKey(app: OpenAPIHono<AppBindings>, body: Record<string, unknown>, sub = ADMIN_ID) {
+  return app.request(`${API_PREFIX}/api-keys`, {
+    method: "POST",
+    headers: await bearer(sub, sub === ADMIN_ID ? "admin" : "user"),
+    body: JSON.stringify(body),
+  });
+}
+
+// =================================================================
+// TEST: KEY MANAGEMENT
+// =================================================================
+
+describe("aPI key management", () => {
+  let store: ReturnType<typeof createStore>;
+  let app: OpenAPIHono<AppBindings>;
+
+  beforeEach(() => {
+    store = createStore();
+    app = createApiKeysTestApp(store);
+  });
+
+  it("returns the key once with an identifying prefix and stores its hash", async () => {
+    const res = await createKey(app, { name: "CI deploy", scopes: ["users:read"], expiresInDays: 30 });
+    const { data } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(data.key).toMatch(/^ak_[0-9a-f]{8}_[\w-]{43}$/);
+    expect(data.key.startsWith(`${data.prefix}_`)).toBe(true);
+    expect(store.keys.get(data.id)!.keyHash).toBe(hashToken(data.key));
+
+    const list = await app.request(`${API_PREFIX}/api-keys`, { headers: await bearer(ADMIN_ID, "admin") });
+    const [listed] = (await list.json()).data;
+    expect(listed).toMatchObject({ id: data.id, prefix: data.prefix, scopes: ["users:read"] });
+    expect(listed).not.toHaveProperty("key");
+  });
+
+  it("retries with a fresh key when the prefix is taken", async () => {
+    store.prisma.apiKey.create.mockRejectedValueOnce(new Prisma.PrismaClientKnownRequestError(
+      "Unique constraint failed on the fields: (`prefix`)",
+      { code: "P2002", clientVersion: "test", meta: { target: ["prefix"] } },
+    ));
+
+    const res = await createKey(app, { name: "CI deploy", scopes: ["users:read"] });
+    const { data } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(store.prisma.apiKey.create).toHaveBeenCalledTimes(2);
+    expect(store.keys.get(data.id)!.keyHash).toBe(hashToken(data.key));
+  });
+
+  it("rejects scopes beyond the owner's permissions", async () => {
+    const res = await createKey(app, { name: "Escalation", scopes: ["users:write"] }, MEMBER_ID);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe(AUTH_CODES.INVALID_SCOPE);
+  });
+
+  it("revokes only the caller's own keys", async () => {
+    const { data } = await (await createKey(app, { name: "CI", scopes: ["users:read"] })).json();
+
+    const foreign = await app.request(`${API_PREFIX}/api-keys/${data.id}`, {
+      method: "DELETE",
+      headers: await bearer(MEMBER_ID, "user"),
+    });
+    const own = await app.request(`${API_PREFIX}/api-keys/${data.id}`, {
+      method: "DELETE",
+      headers: await bearer(ADMIN_ID, "admin"),
+    });
+
+    expect(foreign.status).toBe(404);
+    expect(own.status).toBe(204);
+    expect(store.keys.get(data.id)!.revokedAt).toBeInstanceOf(Date);
+  });
+
+  it("publishes the revocation so subscriptions of the key end", async () => {
+    const events = createMemoryEventBus();
+    const publish = vi.spyOn(events, "publish");
+    const eventsApp = createApiKeysTestApp(store, events);
+    const { data } = await (await createKey(eventsApp, { name: "CI", scopes: ["graphql"] })).json();
+
+    await eventsApp.request(`${API_PREFIX}/api-keys/${data.id}`, {
+      method: "DELETE",
+      headers: await bearer(ADMIN_ID, "admin"),
+    });
+
+    expect(publish).toHaveBeenCalledWith("credentials.revoked", { kind: "api-key", id: data.id, userId: ADMIN_ID });
+  });
+});
+
+// =================================================================
+// TEST: AUTHENTICATION
+// =================================================================
+
+describe("aPI key authentication", () => {
+  let store: ReturnType<typeof createStore>;
+  let app: OpenAPIHono<AppBindings>;
+  let key: string;
+  let id: string;
+
+  beforeEach(async () => {
+    store = createStore();
+    app = createApiKeysTestApp(store);
+    ({ key, id } = (await (await createKey(app, { name: "CI", scopes: ["users:read"] })).json()).data);
+  });
+
+  it("accepts X-API-Key and Authorization: ApiKey and tracks the last use", async () => {
+    const header = await app.request("/users-read", { headers: { "X-API-Key": key } });
+    const authorization = await app.request("/users-read", { headers: { Authorization: `ApiKey ${key}` } });
+
+    expect(header.status).toBe(200);
+    expect(await header.json()).toMatchObject({ userId: ADMIN_ID, role: "admin", apiKeyId: id, scopes: ["users:read"] });
+    expect(authorization.status).toBe(200);
+    expect(store.keys.get(id)!.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it("limits the owner's permissions to the key scopes", async () => {
+    const outOfScope = await app.request("/users-write", { headers: { "X-API-Key": key } });
+    const keyManagement = await app.request(`${API_PREFIX}/api-keys`, { headers: { "X-API-Key": key } });
+
+    expect(outOfScope.status).toBe(403);
+    expect(keyManagement.status).toBe(403);
+  });
+
+  it("rejects revoked, expired and unknown keys", async () => {
+    store.keys.get(id)!.expiresAt = new Date(Date.now() - 1000);
+    const expired = await app.request("/users-read", { headers: { "X-API-Key": key } });
+
+    store.keys.get(id)!.expiresAt = new Date(Date.now() + 60_000);
+    store.keys.get(id)!.revokedAt = new Date();
+    const revoked = await app.request("/users-read", { headers: { "X-API-Key": key } });
+
+    const unknown = await app.request("/users-read", { headers: { "X-API-Key": `${key.slice(0, -4)}AAAA` } });
+
+    expect(expired.status).toBe(401);
+    expect(revoked.status).toBe(401);
+    expect(unknown.status).toBe(401);
+  });
+
+  it("masks keys in log strings down to their prefix", () => {
+    const prefix = key.slice(0, 11);
+
+    expect(sanitizeLogString(`GET /export/${key}`)).toBe(`GET /export/${prefix}_[REDACTED]`);
+    expect(sanitizePath(`/export?x-api-key=${key}`)).not.toContain(key.slice(12));
+  });
+});
+
+// =================================================================
+// TEST: KEYS OF REGULAR USERS
+// =================================================================
+
+describe("aPI keys of regular users", () => {
+  let store: ReturnType<typeof createStore>;
+  let app: OpenAPIHono<AppBindings>;
+
+  beforeEach(() => {
+    store = createStore();
+    app = createApiKeysTestApp(store);
+  });
+
+  async function createMemberKey(scopes: string[]) {
+    const res = await createKey(app, { name: "CLI", scopes }, MEMBER_ID);
+    expect(res.status).toBe(201);
+    return (await res.json()).data.key as string;
+  }
+
+  function queryGraphQL(key: string, query: string) {
+    return app.request("/graphql", {
+      method: "POST",
+      headers: { "X-API-Key": key, "Content-Type": "application/json" },
+      body: JSON.stringify({ query }),
+    });
+  }
+
+  it("reach the owner's account and sessions with the account scope", async () => {
+    const key = await createMemberKey(["account"]);
+
+    const me = await app.request(`${API_PREFIX}/auth/me`, { headers: { "X-API-Key": key } });
+    const sessions = await app.request(`${API_PREFIX}/auth/sessions`, { headers: { "X-API-Key": key } });
+    const graphQL = await queryGraphQL(key, "{ me { id } }");
+
+    expect(me.status).toBe(200);
+    expect((await me.json()).data).toMatchObject({ id: MEMBER_ID, role: "user" });
+    expect(sessions.status).toBe(200);
+    expect(graphQL.status).toBe(403);
+  });
+
+  it("reach GraphQL with the graphql scope", async () => {
+    const key = await createMemberKey(["graphql"]);
+
+    const graphQL = await queryGraphQL(key, "{ me { id } }");
+    const me = await app.request(`${API_PREFIX}/auth/me`, { headers: { "X-API-Key": key } });
+
+    expect(await graphQL.json()).toEqual({ data: { me: { id: MEMBER_ID } } });
+    expect(me.status).toBe(403);
+  });
+
+  it("stay out of key management", async () => {
+    const key = await createMemberKey(["account", "graphql"]);
+
+    const keyManagement = await app.request(`${API_PREFIX}/api-keys`, { headers: { "X-API-Key": key } });
+
+    expect(keyManagement.status).toBe(403);
+  });
+});
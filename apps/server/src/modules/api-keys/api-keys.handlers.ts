@@ -0,0 +1,66 @@
+/**
+ * API Keys Module Handlers
+ *
+ * Route handlers for the caller's personal API keys.
+ * Failures are thrown as AppError and rendered by the central error handler.
+ *
+ * @module modules/api-keys/api-keys.handlers
+ */
+
+import type { AppRouteHandler } from "@/types";
+
+import { created, noContent, ok } from "@/lib/response";
+import { getPrincipal } from "@/middlewares/authorization.middleware";
+
+import type { CreateApiKeyRoute, ListApiKeysRoute, RevokeApiKeyRoute } from "./api-keys.routes";
+
+import * as apiKeysService from "./api-keys.service";
+
+/**
+ * List handler - the caller's keys, newest first
+ */
+export const listApiKeysHandler: AppRouteHandler<ListApiKeysRoute> = async (c) => {
+  const { userId } = getPrincipal(c);
+
+  return ok(c, await apiKeysService.listApiKeys(c.get("prisma"), userId), 200);
+};
+
+/**
+ * Create handler - returns the key once
+ */
+export const createApiKeyHandler: AppRouteHandler<CreateApiKeyRoute> = async (c) => {
+  const body = c.req.valid("json");
+  const principal = getPrincipal(c);
+
+  const apiKey = await apiKeysService.createApiKey(c.get("prisma"), principal, body);
+
+  c.get("logger").security("API key created", {
+    ...c.get("logContext"),
+    userId: principal.userId,
+    apiKeyId: apiKey.id,
+    apiKeyPrefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    action: "api_keys.create",
+  });
+
+  return created(c, apiKey);
+};
+
+/**
+ * Revoke handler - the key stops working immediately
+ */
+export const revokeApiKeyHandler: AppRouteHandler<RevokeApiKeyRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getPrincipal(c);
+
+  await apiKeysService.revokeApiKey(c.get("prisma"), c.get("events"), userId, id);
+
+  c.get("logger").security("API key revoked", {
+    ...c.get("logContext"),
+    userId,
+    apiKeyId: id,
+    action: "api_keys.revoke",
+  });
+
+  return noContent(c);
+};
@@ -0,0 +1,91 @@
+/**
+ * API Keys Module Routes
+ *
+ * OpenAPI route definitions for the caller's personal API keys:
+ * - GET    /api-keys: List keys
+ * - POST   /api-keys: Create a key (the key is returned once)
+ * - DELETE /api-keys/{id}: Revoke a key
+ *
+ * Require a signed-in user; API keys and client tokens cannot manage keys.
+ *
+ * @module modules/api-keys/api-keys.routes
+ */
+
+import { createRoute } from "@hono/zod-openapi";
+
+import { HTTP_STATUS } from "@/lib/http-status";
+import { jsonContent, jsonContentRequired } from "@/lib/openapi/helpers";
+import {
+  badRequestEnvelopeSchema,
+  forbiddenEnvelopeSchema,
+  notFoundEnvelopeSchema,
+  unauthorizedEnvelopeSchema,
+  validationErrorEnvelopeSchema,
+} from "@/schemas/envelope.schema";
+
+import {
+  apiKeyEnvelopeSchema,
+  apiKeyIdParamSchema,
+  apiKeyListEnvelopeSchema,
+  createApiKeyBodySchema,
+} from "./api-keys.schema";
+
+const tags = ["API Keys"];
+
+const authErrorResponses = {
+  [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Authentication required"),
+  [HTTP_STATUS.FORBIDDEN]: jsonContent(forbiddenEnvelopeSchema, "Not available to API keys and client tokens"),
+};
+
+export const listApiKeys = createRoute({
+  path: "/api-keys",
+  method: "get",
+  tags,
+  summary: "List your API keys",
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(apiKeyListEnvelopeSchema, "API keys that are not revoked"),
+    ...authErrorResponses,
+  },
+});
+
+export const createApiKey = createRoute({
+  path: "/api-keys",
+  method: "post",
+  tags,
+  summary: "Create an API key",
+  description: "Creates a named, expiring key limited to the given scopes. Send it as `X-API-Key: <key>` or "
+    + "`Authorization: ApiKey <key>`. The response contains the key, which is not shown again.",
+  request: {
+    body: jsonContentRequired(createApiKeyBodySchema, "Key name, scopes and lifetime"),
+  },
+  responses: {
+    [HTTP_STATUS.CREATED]: jsonContent(apiKeyEnvelopeSchema, "API key created"),
+    [HTTP_STATUS.BAD_REQUEST]: jsonContent(badRequestEnvelopeSchema, "Scope beyond your permissions (E2004)"),
+    ...authErrorResponses,
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const revokeApiKey = createRoute({
+  path: "/api-keys/{id}",
+  method: "delete",
+  tags,
+  summary: "Revoke an API key",
+  request: {
+    params: apiKeyIdParamSchema,
+  },
+  responses: {
+    [HTTP_STATUS.NO_CONTENT]: { description: "API key revoked" },
+    ...authErrorResponses,
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "API key not found or already revoked"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// TYPE EXPORTS
+// =================================================================
+
+export type ListApiKeysRoute = typeof listApiKeys;
+export type CreateApiKeyRoute = typeof createApiKey;
+export type RevokeApiKeyRoute = typeof revokeApiKey;
@@ -0,0 +1,102 @@
+/**
+ * API Keys Module Schemas
+ *
+ * Zod schemas for managing personal API keys. The key itself is only
+ * part of the create response; afterwards just its prefix is shown.
+ *
+ * @module modules/api-keys/api-keys.schema
+ */
+
+import { z } from "@hono/zod-openapi";
+
+import { SCOPES } from "@/lib/authorization";
+import { createSuccessEnvelopeSchema } from "@/schemas/envelope.schema";
+
+// =================================================================
+// SHARED FIELDS
+// =================================================================
+
+/**
+ * Lifetime bounds of a key in days
+ */
+export const API_KEY_DEFAULT_TTL_DAYS = 90;
+export const API_KEY_MAX_TTL_DAYS = 365;
+
+const scopesSchema = z.array(z.enum(SCOPES)).openapi({
+  description: "Scopes the key is limited to: permission names within your own permissions, `account` for "
+    + "`/auth/me` and `/auth/sessions` and `graphql` for `/graphql`",
+  example: ["account", "graphql"],
+});
+
+// =================================================================
+// REQUEST SCHEMAS
+// =================================================================
+
+/**
+ * API key ID path parameter
+ */
+export const apiKeyIdParamSchema = z.object({
+  id: z.uuid().openapi({
+    description: "API key ID",
+    example: "550e8400-e29b-41d4-a716-446655440000",
+    param: {
+      name: "id",
+      in: "path",
+    },
+  }),
+}).openapi("ApiKeyIdParam");
+
+/**
+ * Create API key body
+ */
+export const createApiKeyBodySchema = z.object({
+  name: z.string().trim().min(1).max(100).openapi({
+    description: "Name describing where the key is used",
+    example: "CI deploy",
+  }),
+  scopes: scopesSchema.min(1),
+  expiresInDays: z.number().int().min(1).max(API_KEY_MAX_TTL_DAYS).default(API_KEY_DEFAULT_TTL_DAYS).openapi({
+    description: `Lifetime in days (default ${API_KEY_DEFAULT_TTL_DAYS}, at most ${API_KEY_MAX_TTL_DAYS})`,
+    example: 30,
+  }),
+}).openapi("CreateApiKeyBody");
+
+export type CreateApiKeyBody = z.infer<typeof createApiKeyBodySchema>;
+
+// =================================================================
+// RESPONSE SCHEMAS
+// =================================================================
+
+/**
+ * API key representation (without the key)
+ */
+export const apiKeySchema = z.object({
+  id: z.string().openapi({ description: "API key ID", example: "550e8400-e29b-41d4-a716-446655440000" }),
+  name: z.string().openapi({ description: "Name", example: "CI deploy" }),
+  prefix: z.string().openapi({ description: "Public prefix identifying the key in logs", example: "ak_3f9a1c2e" }),
+  scopes: scopesSchema,
+  expiresAt: z.string().openapi({ description: "Expiry (ISO 8601)", example: "2025-04-15T10:30:00.000Z" }),
+  lastUsedAt: z.string().optional().openapi({
+    description: "Last use, updated at most once a minute (ISO 8601)",
+    example: "2025-01-15T10:30:00.000Z",
+  }),
+  createdAt: z.string().openapi({ description: "Creation timestamp (ISO 8601)", example: "2025-01-15T10:30:00.000Z" }),
+}).openapi("ApiKey");
+
+export type ApiKeyResponse = z.infer<typeof apiKeySchema>;
+
+/**
+ * Created API key with the key itself (shown once)
+ */
+export const createdApiKeySchema = apiKeySchema.extend({
+  key: z.string().openapi({
+    description: "The API key; store it now, it cannot be retrieved again",
+    example: "ak_3f9a1c2e_Jq0q6cW8nYz2m5v1kR4sT7uX9aB3dE6gH8jK1lM4nP0",
+  }),
+}).openapi("CreatedApiKey");
+
+export type CreatedApiKeyResponse = z.infer<typeof createdApiKeySchema>;
+
+export const apiKeyEnvelopeSchema = createSuccessEnvelopeSchema(createdApiKeySchema, "CreatedApiKeyEnvelope");
+
+export const apiKeyListEnvelopeSchema = createSuccessEnvelopeSchema(z.array(apiKeySchema), "ApiKeyListEnvelope");
@@ -0,0 +1,113 @@
+/**
+ * API Keys Service - Personal API Keys
+ *
+ * Creates, lists and revokes the caller's API keys. Keys are limited to
+ * scopes within the owner's permissions and access scopes, which every
+ * user holds; the key is returned once and stored as hash (see lib/api-key).
+ *
+ * @module modules/api-keys/api-keys.service
+ */
+
+import type { ApiKey, PrismaClient } from "@/generated/prisma/client";
+import type { AuthPrincipal, Scope } from "@/lib/authorization";
+import type { EventBus } from "@/lib/events";
+
+import { AppError } from "@/errors";
+import { generateApiKey } from "@/lib/api-key";
+import { grantedPermissions, isAccessScope } from "@/lib/authorization";
+import { isUniqueConstraintError } from "@/lib/prisma-errors";
+
+import type { ApiKeyResponse, CreateApiKeyBody, CreatedApiKeyResponse } from "./api-keys.schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Keys generated before giving up when their prefix (32 random bits) is
+ * already taken
+ */
+const CREATE_ATTEMPTS = 3;
+
+function toApiKeyResponse(apiKey: ApiKey): ApiKeyResponse {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes as Scope[],
+    expiresAt: apiKey.expiresAt.toISOString(),
+    lastUsedAt: apiKey.lastUsedAt?.toISOString(),
+    createdAt: apiKey.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Lists the user's keys that are not revoked (expired keys included),
+ * newest first
+ */
+export async function listApiKeys(prisma: PrismaClient, userId: string): Promise<ApiKeyResponse[]> {
+  const apiKeys = await prisma.apiKey.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+  return apiKeys.map(toApiKeyResponse);
+}
+
+/**
+ * Creates a key for the principal's user
+ *
+ * @returns the key record including the plain key (only its hash is stored)
+ * @throws AppError.invalidScope for scopes beyond the principal's permissions
+ */
+export async function createApiKey(
+  prisma: PrismaClient,
+  principal: AuthPrincipal,
+  input: CreateApiKeyBody,
+): Promise<CreatedApiKeyResponse> {
+  const granted = grantedPermissions(principal);
+  const denied = input.scopes.filter(scope => !isAccessScope(scope) && !granted.includes(scope));
+  if (denied.length > 0) {
+    throw AppError.invalidScope(`You do not hold the permission ${denied.join(", ")}`);
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const { key, prefix, keyHash } = generateApiKey();
+    try {
+      const apiKey = await prisma.apiKey.create({
+        data: {
+          userId: principal.userId,
+          name: input.name,
+          prefix,
+          keyHash,
+          scopes: [...new Set(input.scopes)],
+          expiresAt: new Date(Date.now() + input.expiresInDays * DAY_MS),
+        },
+      });
+
+      return { ...toApiKeyResponse(apiKey), key };
+    }
+    catch (error) {
+      // Another key has the prefix; a fresh key almost certainly does not
+      if (!isUniqueConstraintError(error) || attempt === CREATE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Revokes one of the user's keys; the published event ends subscriptions
+ * opened with the key
+ *
+ * @throws AppError.notFound when the key does not exist, belongs to
+ * another user or is already revoked
+ */
+export async function revokeApiKey(prisma: PrismaClient, events: EventBus, userId: string, id: string) {
+  const revoked = await prisma.apiKey.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (revoked.count === 0) {
+    throw AppError.notFound("API key", id);
+  }
+
+  await events.publish("credentials.revoked", { kind: "api-key", id, userId });
+}
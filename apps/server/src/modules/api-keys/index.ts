@@ -0,0 +1,32 @@
+/**
+ * API Keys Module - Personal API Keys for Scripts and CI
+ *
+ * REST endpoints for the signed-in user's keys (see lib/api-key):
+ * - GET    /api-keys: List
+ * - POST   /api-keys: Create (returns the key once)
+ * - DELETE /api-keys/{id}: Revoke
+ *
+ * Mounted under the API prefix (BASE_PATH, default /rest/v1).
+ *
+ * @module modules/api-keys
+ */
+
+import { createRouter } from "@/lib/create-app";
+
+import {
+  createApiKeyHandler,
+  listApiKeysHandler,
+  revokeApiKeyHandler,
+} from "./api-keys.handlers";
+import { createApiKey, listApiKeys, revokeApiKey } from "./api-keys.routes";
+
+// =================================================================
+// ROUTER CONFIGURATION
+// =================================================================
+
+const router = createRouter()
+  .openapi(listApiKeys, listApiKeysHandler)
+  .openapi(createApiKey, createApiKeyHandler)
+  .openapi(revokeApiKey, revokeApiKeyHandler);
+
+export default router;
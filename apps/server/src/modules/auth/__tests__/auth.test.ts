@@ -0,0 +1,1417 @@
+/**
+ * Auth Module Integration Tests
+ *
+ * Tests for credential-based authentication endpoints:
+ * - POST /auth/signup: Registration
+ * - POST /auth/signin: Sign-in with JWT issuing and account lockout
+ * - POST /auth/refresh: Refresh token rotation and reuse detection
+ * - POST /auth/forgot-password, /auth/reset-password: Password reset
+ * - POST /auth/verify-email/{token}, /auth/resend-verification: Email verification
+ * - POST /auth/2fa/setup, /auth/2fa/enable, /auth/2fa/verify: Two-factor authentication
+ * - GET /auth/sessions, DELETE /auth/sessions/{id}: Session registry
+ * - GET /auth/me: Current user
+ * - Publishing "users.changed" events
+ *
+ * @module modules/auth/__tests__/auth.test
+ */
+
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { verify } from "hono/jwt";
+import { randomUUID } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AuthPrincipal } from "@/lib/authorization";
+import type { EventBus } from "@/lib/events";
+import type { Mailer, MailMessage } from "@/lib/mail";
+import type { AppBindings } from "@/types";
+
+import { env } from "@/config";
+import { AUTH_CODES } from "@/errors";
+import { Prisma } from "@/generated/prisma/client";
+import { toPrincipal } from "@/lib/authorization";
+import { errorHandler } from "@/lib/error-handler";
+import { createMemoryEventBus } from "@/lib/events";
+import { hashPassword } from "@/lib/password";
+import { decryptSecret } from "@/lib/secret-box";
+import { isSessionActive } from "@/lib/session";
+import { generateTotp, totpStep } from "@/lib/totp";
+
+import auth from "../index";
+import { describeDevice } from "../session.service";
+
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+// =================================================================
+// TEST APP FACTORY
+// =================================================================
+
+interface StoredUser {
+  id: string;
+  email: string;
+  password: string;
+  active: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  role: "admin" | "user";
+  emailVerifiedAt: Date | null;
+  failedSignInCount: number;
+  lastFailedSignInAt: Date | null;
+  lockedUntil: Date | null;
+  twoFactorSecret: string | null;
+  twoFactorEnabledAt: Date | null;
+  twoFactorLastStep: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type SeedUser = Omit<
+  StoredUser,
+  "failedSignInCount" | "lastFailedSignInAt" | "lockedUntil" | "twoFactorSecret" | "twoFactorEnabledAt" | "twoFactorLastStep"
+>;
+
+interface StoredSession {
+  id: string;
+  userId: string;
+  device: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+interface StoredRefreshToken {
+  id: string;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  replacedById: string | null;
+  createdAt: Date;
+}
+
+/** Password reset, email verification and 2FA challenge tokens share one shape */
+interface StoredResetToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+}
+
+interface StoredRecoveryCode {
+  id: string;
+  userId: string;
+  codeHash: string;
+  usedAt: Date | null;
+}
+
+/**
+ * Evaluates a Prisma where clause, including `OR`, `{ lt }` and `{ gt }` filters
+ */
+function matches<T extends object>(row: T, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([key, value]) => {
+    if (key === "OR") {
+      return (value as Record<string, unknown>[]).some(clause => matches(row, clause));
+    }
+    const current = row[key as keyof T];
+    if (typeof value === "object" && value !== null && "lt" in value) {
+      return current !== null && (current as number) < (value.lt as number);
+    }
+    if (typeof value === "object" && value !== null && "gt" in value) {
+      return current !== null && (current as number) > (value.gt as number);
+    }
+    return current === value;
+  });
+}
+
+/**
+ * Applies Prisma update data, including `{ increment }` operations
+ */
+function applyUpdate<T extends object>(row: T, data: Record<string, unknown>) {
+  for (const [key, value] of Object.entries(data)) {
+    const current = row[key as keyof T];
+    (row as Record<string, unknown>)[key] = typeof value === "object" && value !== null && "increment" in value
+      ? (current as number) + (value.increment as number)
+      : value;
+  }
+  return row;
+}
+
+/**
+ * Creates an in-memory stand-in for prisma.user and prisma.refreshToken
+ */
+function createUserStore(initial: SeedUser[] = []) {
+  const users = new Map<string, StoredUser>(initial.map(user => [user.email, {
+    failedSignInCount: 0,
+    lastFailedSignInAt: null,
+    lockedUntil: null,
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorLastStep: null,
+    ...user,
+  }]));
+  const sessions: StoredSession[] = [];
+  const refreshTokens: StoredRefreshToken[] = [];
+  const resetTokens: StoredResetToken[] = [];
+  const verificationTokens: StoredResetToken[] = [];
+  const challenges: StoredResetToken[] = [];
+  const recoveryCodes: StoredRecoveryCode[] = [];
+
+  function findUserById(id: string) {
+    return [...users.values()].find(u => u.id === id);
+  }
+
+  function createSingleUseTokenDelegate(tokens: StoredResetToken[], prefix: string) {
+    return {
+      create: vi.fn(async ({ data }: { data: Pick<StoredResetToken, "userId" | "tokenHash" | "expiresAt"> }) => {
+        const token: StoredResetToken = {
+          id: `${prefix}-${tokens.length + 1}`,
+          usedAt: null,
+          createdAt: new Date(),
+          ...data,
+        };
+        tokens.push(token);
+        return token;
+      }),
+      findUnique: vi.fn(async ({ where, include }: { where: { tokenHash: string }; include?: { user: true } }) => {
+        const token = tokens.find(t => t.tokenHash === where.tokenHash);
+        if (!token) {
+          return null;
+        }
+        return include?.user ? { ...token, user: findUserById(token.userId) } : token;
+      }),
+      updateMany: vi.fn(async ({ where, data }: { where: Partial<StoredResetToken>; data: Partial<StoredResetToken> }) => {
+        const targets = tokens.filter(t => matches(t, where));
+        targets.forEach(t => Object.assign(t, data));
+        return { count: targets.length };
+      }),
+      deleteMany: vi.fn(async ({ where }: { where: Partial<StoredResetToken> }) => {
+        const remaining = tokens.filter(t => !matches(t, where));
+        const count = tokens.length - remaining.length;
+        tokens.splice(0, tokens.length, ...remaining);
+        return { count };
+      }),
+    };
+  }
+
+  const store = {
+    users,
+    sessions,
+    refreshTokens,
+    resetTokens,
+    verificationTokens,
+    challenges,
+    recoveryCodes,
+    $transaction: vi.fn(async (arg: unknown) =>
+      typeof arg === "function" ? arg(store) : Promise.all(arg as Promise<unknown>[])),
+    passwordResetToken: createSingleUseTokenDelegate(resetTokens, "prt"),
+    emailVerificationToken: createSingleUseTokenDelegate(verificationTokens, "evt"),
+    twoFactorChallenge: createSingleUseTokenDelegate(challenges, "tfc"),
+    recoveryCode: {
+      createMany: vi.fn(async ({ data }: { data: Pick<StoredRecoveryCode, "userId" | "codeHash">[] }) => {
+        data.forEach(code => recoveryCodes.push({ id: `rc-${recoveryCodes.length + 1}`, usedAt: null, ...code }));
+        return { count: data.length };
+      }),
+      updateMany: vi.fn(async ({ where, data }: { where: Partial<StoredRecoveryCode>; data: Partial<StoredRecoveryCode> }) => {
+        const targets = recoveryCodes.filter(code => matches(code, where));
+        targets.forEach(code => Object.assign(code, data));
+        return { count: targets.length };
+      }),
+      deleteMany: vi.fn(async ({ where }: { where: Partial<StoredRecoveryCode> }) => {
+        const remaining = recoveryCodes.filter(code => !matches(code, where));
+        const count = recoveryCodes.length - remaining.length;
+        recoveryCodes.splice(0, recoveryCodes.length, ...remaining);
+        return { count };
+      }),
+    },
+    session: {
+      create: vi.fn(async ({ data }: { data: Pick<StoredSession, "userId" | "device" | "userAgent" | "ipAddress" | "expiresAt"> }) => {
+        const session: StoredSession = {
+          id: randomUUID(),
+          lastSeenAt: new Date(),
+          revokedAt: null,
+          createdAt: new Date(),
+          ...data,
+        };
+        sessions.push(session);
+        return session;
+      }),
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) =>
+        sessions.find(session => session.id === where.id) ?? null),
+      findMany: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+        sessions.filter(session => matches(session, where))),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<StoredSession> }) =>
+        Object.assign(sessions.find(session => session.id === where.id)!, data)),
+      updateMany: vi.fn(async ({ where, data }: { where: Partial<StoredSession>; data: Partial<StoredSession> }) => {
+        const targets = sessions.filter(session => matches(session, where));
+        targets.forEach(session => Object.assign(session, data));
+        return { count: targets.length };
+      }),
+    },
+    refreshToken: {
+      create: vi.fn(async ({ data }: { data: Pick<StoredRefreshToken, "userId" | "familyId" | "tokenHash" | "expiresAt"> }) => {
+        const token: StoredRefreshToken = {
+          id: `rt-${refreshTokens.length + 1}`,
+          revokedAt: null,
+          replacedById: null,
+          createdAt: new Date(),
+          ...data,
+        };
+        refreshTokens.push(token);
+        return token;
+      }),
+      findUnique: vi.fn(async ({ where }: { where: { tokenHash: string } }) => {
+        const token = refreshTokens.find(t => t.tokenHash === where.tokenHash);
+        if (!token) {
+          return null;
+        }
+        return {
+          ...token,
+          user: findUserById(token.userId),
+          session: sessions.find(session => session.id === token.familyId),
+        };
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<StoredRefreshToken> }) => {
+        const token = refreshTokens.find(t => t.id === where.id)!;
+        return Object.assign(token, data);
+      }),
+      updateMany: vi.fn(async ({ where, data }: { where: Partial<StoredRefreshToken>; data: Partial<StoredRefreshToken> }) => {
+        const targets = refreshTokens.filter(t => matches(t, where));
+        targets.forEach(t => Object.assign(t, data));
+        return { count: targets.length };
+      }),
+    },
+    user: {
+      findUnique: vi.fn(async ({ where }: { where: { id?: string; email?: string } }) =>
+        (where.email ? users.get(where.email) : findUserById(where.id!)) ?? null),
+      create: vi.fn(async ({ data }: { data: Partial<StoredUser> & { email: string; password: string } }) => {
+        const user: StoredUser = {
+          id: `user-${users.size + 1}`,
+          active: true,
+          firstName: null,
+          lastName: null,
+          role: "user",
+          emailVerifiedAt: null,
+          failedSignInCount: 0,
+          lastFailedSignInAt: null,
+          lockedUntil: null,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastStep: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          ...data,
+        };
+        users.set(user.email, user);
+        return user;
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        return applyUpdate(findUserById(where.id)!, data);
+      }),
+      updateMany: vi.fn(async ({ where, data }: { where: Record<string, unknown>; data: Partial<StoredUser> }) => {
+        const targets = [...users.values()].filter(u => matches(u, where));
+        targets.forEach(u => Object.assign(u, data));
+        return { count: targets.length };
+      }),
+    },
+  };
+
+  return store;
+}
+
+/**
+ * Creates a mailer that records sent messages
+ */
+function createTestMailer() {
+  const sent: MailMessage[] = [];
+  const mailer: Mailer = {
+    transport: "test",
+    send: vi.fn(async (message: MailMessage) => {
+      sent.push(message);
+    }),
+  };
+  return { mailer, sent };
+}
+
+/**
+ * Creates a minimal test app for auth endpoints
+ */
+function createAuthTestApp(
+  store: ReturnType<typeof createUserStore>,
+  mailer: Mailer = createTestMailer().mailer,
+  principal?: AuthPrincipal,
+  events: EventBus = createMemoryEventBus(),
+) {
+  const app = new OpenAPIHono<AppBindings>();
+
+  app.use("*", async (c, next) => {
+    c.set("requestId", "test-request-id-auth");
+    c.set("logger", {
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+      debug: () => {},
+      security: () => {},
+    } as any);
+    c.set("logContext", {});
+    c.set("prisma", store as any);
+    c.set("mailer", mailer);
+    c.set("events", events);
+    if (principal) {
+      c.set("principal", principal);
+    }
+    await next();
+  });
+
+  app.route("/", auth);
+  app.onError(errorHandler);
+
+  return app;
+}
+
+function postJson(
+  app: OpenAPIHono<AppBindings>,
+  path: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+) {
+  return app.request(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+// =================================================================
+// TEST: SIGN-UP (/auth/signup)
+// =================================================================
+
+describe("sign-up /auth/signup", () => {
+  it("registers a user and returns 201 with an access token", async () => {
+    const store = createUserStore();
+    const app = createAuthTestApp(store);
+
+    const res = await postJson(app, "/auth/signup", {
+      email: "Jane.Doe@Example.com",
+      password: "correct-horse",
+      firstName: "Jane",
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(body.success).toBe(true);
+    expect(body.data.tokenType).toBe("Bearer");
+    expect(body.data.user).toMatchObject({
+      email: "jane.doe@example.com",
+      firstName: "Jane",
+      role: "user",
+      active: true,
+    });
+  });
+
+  it("stores an argon2id hash and never serializes it", async () => {
+    const store = createUserStore();
+    const app = createAuthTestApp(store);
+
+    const res = await postJson(app, "/auth/signup", {
+      email: "jane@example.com",
+      password: "correct-horse",
+    });
+    const body = await res.json();
+
+    expect(store.users.get("jane@example.com")?.password).toMatch(/^\$argon2id\$/);
+    expect(body.data.user).not.toHaveProperty("password");
+  });
+
+  it("publishes the new account as users.changed", async () => {
+    const events = createMemoryEventBus();
+    const publish = vi.spyOn(events, "publish");
+    const app = createAuthTestApp(createUserStore(), undefined, undefined, events);
+
+    const res = await postJson(app, "/auth/signup", { email: "jane@example.com", password: "correct-horse" });
+    const { data } = await res.json();
+
+    expect(publish).toHaveBeenCalledWith("users.changed", {
+      kind: "created",
+      userId: data.user.id,
+      user: expect.objectContaining({ id: data.user.id, email: "jane@example.com", active: true }),
+    });
+  });
+
+  it("returns 409 when the email is already registered", async () => {
+    const store = createUserStore();
+    const app = createAuthTestApp(store);
+
+    await postJson(app, "/auth/signup", { email: "jane@example.com", password: "correct-horse" });
+    const res = await postJson(app, "/auth/signup", { email: "jane@example.com", password: "correct-horse" });
+
+    expect(res.status).toBe(409);
+  });
+
+  it("returns 409 when a concurrent sign-up registered the email first", async () => {
+    const store = createUserStore();
+    store.user.create.mockRejectedValueOnce(new Prisma.PrismaClientKnownRequestError(
+      "Unique constraint failed on the fields: (`email`)",
+      { code: "P2002", clientVersion: "test", meta: { target: ["email"] } },
+    ));
+    const app = createAuthTestApp(store);
+
+    const res = await postJson(app, "/auth/signup", { email: "jane@example.com", password: "correct-horse" });
+
+    expect(res.status).toBe(409);
+  });
+
+  it("returns 422 for a short password", async () => {
+    const app = createAuthTestApp(createUserStore());
+
+    const res = await postJson(app, "/auth/signup", { email: "jane@example.com", password: "short" });
+    const body = await res.json();
+
+    expect(res.status).toBe(422);
+    expect(body.error.errors[0]).toHaveProperty("pointer", "#/password");
+  });
+});
+
+// =================================================================
+// TEST: SIGN-IN (/auth/signin)
+// =================================================================
+
+describe("sign-in /auth/signin", () => {
+  let store: ReturnType<typeof createUserStore>;
+
+  beforeEach(async () => {
+    const password = await hashPassword("correct-horse");
+    const base = {
+      password,
+      firstName: null,
+      lastName: null,
+      emailVerifiedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    store = createUserStore([
+      { ...base, id: "user-1", email: "jane@example.com", active: true, role: "admin" },
+      { ...base, id: "user-2", email: "inactive@example.com", active: false, role: "user" },
+    ]);
+  });
+
+  it("returns a refresh token and stores only its hash", async () => {
+    const app = createAuthTestApp(store);
+
+    const res = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "correct-horse" });
+    const body = await res.json();
+
+    expect(body.data.refreshToken).toEqual(expect.any(String));
+    expect(body.data.refreshExpiresIn).toBe(env.JWT_REFRESH_TOKEN_TTL_SECONDS);
+    expect(store.refreshTokens).toHaveLength(1);
+    expect(store.refreshTokens[0].tokenHash).not.toBe(body.data.refreshToken);
+  });
+
+  it("returns a JWT with sub, role and email_verified claims", async () => {
+    const app = createAuthTestApp(store);
+
+    const res = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "correct-horse" });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.expiresIn).toBe(env.JWT_ACCESS_TOKEN_TTL_SECONDS);
+
+    const payload = await verify(body.data.accessToken, env.JWT_SECRET!, "HS256");
+    expect(payload.sub).toBe("user-1");
+    expect(payload.role).toBe("admin");
+    expect(payload.email_verified).toBe(true);
+  });
+
+  it("returns 401 with E2001 for a wrong password", async () => {
+    const app = createAuthTestApp(store);
+
+    const res = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "wrong-horse" });
+    const body = await res.json();
+
+    expect(res.status).toBe(401);
+    expect(body.error.code).toBe(AUTH_CODES.INVALID_CREDENTIALS);
+  });
+
+  it("returns the same 401 for an unknown email", async () => {
+    const app = createAuthTestApp(store);
+
+    const res = await postJson(app, "/auth/signin", { email: "nobody@example.com", password: "correct-horse" });
+    const body = await res.json();
+
+    expect(res.status).toBe(401);
+    expect(body.error.code).toBe(AUTH_CODES.INVALID_CREDENTIALS);
+  });
+
+  it("returns 403 with E2008 for an inactive account", async () => {
+    const app = createAuthTestApp(store);
+
+    const res = await postJson(app, "/auth/signin", { email: "inactive@example.com", password: "correct-horse" });
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.error.code).toBe(AUTH_CODES.ACCOUNT_INACTIVE);
+  });
+});
+
+// =================================================================
+// TEST: ACCOUNT LOCKOUT (/auth/signin)
+// =================================================================
+
+describe("account lockout", () => {
+  let store: ReturnType<typeof createUserStore>;
+  let events: EventBus;
+  let app: OpenAPIHono<AppBindings>;
+
+  function signIn(password: string) {
+    return postJson(app, "/auth/signin", { email: "jane@example.com", password });
+  }
+
+  async function failUntilLocked() {
+    for (let attempt = 1; attempt < env.ACCOUNT_LOCKOUT_THRESHOLD; attempt++) {
+      await signIn("wrong-horse");
+    }
+    return signIn("wrong-horse");
+  }
+
+  function storedUser() {
+    return store.users.get("jane@example.com")!;
+  }
+
+  beforeEach(async () => {
+    store = createUserStore([{
+      id: "user-1",
+      email: "jane@example.com",
+      password: await hashPassword("correct-horse"),
+      active: true,
+      firstName: null,
+      lastName: null,
+      role: "user",
+      emailVerifiedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }]);
+    events = createMemoryEventBus();
+    app = createAuthTestApp(store, undefined, undefined, events);
+  });
+
+  it("locks the account with E2009 once the threshold is reached", async () => {
+    const res = await failUntilLocked();
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.error.code).toBe(AUTH_CODES.ACCOUNT_LOCKED);
+    expect(storedUser().failedSignInCount).toBe(env.ACCOUNT_LOCKOUT_THRESHOLD);
+    expect(storedUser().lockedUntil!.getTime() - Date.now())
+      .toBeGreaterThan((env.ACCOUNT_LOCKOUT_BASE_SECONDS - 5) * 1000);
+  });
+
+  it("refuses the correct password while locked", async () => {
+    await failUntilLocked();
+
+    const res = await signIn("correct-horse");
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.error.code).toBe(AUTH_CODES.ACCOUNT_LOCKED);
+  });
+
+  it("doubles the lockout for each failure after it expires", async () => {
+    await failUntilLocked();
+    storedUser().lockedUntil = new Date(Date.now() - 1000);
+
+    await signIn("wrong-horse");
+
+    const seconds = (storedUser().lockedUntil!.getTime() - Date.now()) / 1000;
+    expect(seconds).toBeGreaterThan(env.ACCOUNT_LOCKOUT_BASE_SECONDS * 2 - 5);
+  });
+
+  it("forgets failures older than the window", async () => {
+    await signIn("wrong-horse");
+    storedUser().lastFailedSignInAt = new Date(Date.now() - env.ACCOUNT_LOCKOUT_WINDOW_SECONDS * 1000 - 1000);
+
+    await signIn("wrong-horse");
+
+    expect(storedUser().failedSignInCount).toBe(1);
+  });
+
+  it("clears failed attempts after a successful sign-in", async () => {
+    await signIn("wrong-horse");
+    await signIn("wrong-horse");
+
+    const res = await signIn("correct-horse");
+
+    expect(res.status).toBe(200);
+    expect(storedUser()).toMatchObject({ failedSignInCount: 0, lockedUntil: null });
+  });
+
+  it("publishes locking and clearing as users.changed", async () => {
+    const publish = vi.spyOn(events, "publish");
+
+    await signIn("wrong-horse");
+    expect(publish).not.toHaveBeenCalled();
+
+    await failUntilLocked();
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(publish).toHaveBeenLastCalledWith("users.changed", {
+      kind: "updated",
+      userId: "user-1",
+      user: expect.objectContaining({ lockedUntil: storedUser().lockedUntil!.toISOString() }),
+    });
+
+    storedUser().lockedUntil = new Date(Date.now() - 1000);
+    await signIn("correct-horse");
+    expect(publish).toHaveBeenCalledTimes(2);
+    expect(publish).toHaveBeenLastCalledWith("users.changed", {
+      kind: "updated",
+      userId: "user-1",
+      user: expect.objectContaining({ lockedUntil: undefined }),
+    });
+  });
+});
+
+// =================================================================
+// TEST: REFRESH (/auth/refresh)
+// =================================================================
+
+describe("refresh /auth/refresh", () => {
+  let store: ReturnType<typeof createUserStore>;
+  let app: OpenAPIHono<AppBindings>;
+
+  async function signIn(email = "jane@example.com") {
+    const res = await postJson(app, "/auth/signin", { email, password: "correct-horse" });
+    const body = await res.json();
+    return body.data.refreshToken as string;
+  }
+
+  beforeEach(async () => {
+    const password = await hashPassword("correct-horse");
+    store = createUserStore([{
+      id: "user-1",
+      email: "jane@example.com",
+      password,
+      active: true,
+      firstName: null,
+      lastName: null,
+      role: "user",
+      emailVerifiedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }]);
+    app = createAuthTestApp(store);
+  });
+
+  it("rotates the refresh token within the same family", async () => {
+    const refreshToken = await signIn();
+
+    const res = await postJson(app, "/auth/refresh", { refreshToken });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.accessToken).toEqual(expect.any(String));
+    expect(body.data.refreshToken).not.toBe(refreshToken);
+
+    const [previous, current] = store.refreshTokens;
+    expect(previous.revokedAt).toBeInstanceOf(Date);
+    expect(previous.replacedById).toBe(current.id);
+    expect(current.familyId).toBe(previous.familyId);
+    expect(current.revokedAt).toBeNull();
+  });
+
+  it("revokes the whole family when a used token is presented again", async () => {
+    const stolen = await signIn();
+    const otherDevice = await signIn();
+
+    const first = await postJson(app, "/auth/refresh", { refreshToken: stolen });
+    const { data } = await first.json();
+
+    const replay = await postJson(app, "/auth/refresh", { refreshToken: stolen });
+    const replayBody = await replay.json();
+
+    expect(replay.status).toBe(401);
+    expect(replayBody.error.code).toBe(AUTH_CODES.INVALID_REFRESH_TOKEN);
+
+    const successor = await postJson(app, "/auth/refresh", { refreshToken: data.refreshToken });
+    expect(successor.status).toBe(401);
+
+    const unaffected = await postJson(app, "/auth/refresh", { refreshToken: otherDevice });
+    expect(unaffected.status).toBe(200);
+  });
+
+  it("rejects unknown refresh tokens with E2007", async () => {
+    const res = await postJson(app, "/auth/refresh", { refreshToken: "not-a-real-token" });
+    const body = await res.json();
+
+    expect(res.status).toBe(401);
+    expect(body.error.code).toBe(AUTH_CODES.INVALID_REFRESH_TOKEN);
+  });
+
+  it("rejects expired refresh tokens", async () => {
+    const refreshToken = await signIn();
+    store.refreshTokens[0].expiresAt = new Date(Date.now() - 1000);
+
+    const res = await postJson(app, "/auth/refresh", { refreshToken });
+
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 403 when the account was deactivated", async () => {
+    const refreshToken = await signIn();
+    store.users.get("jane@example.com")!.active = false;
+
+    const res = await postJson(app, "/auth/refresh", { refreshToken });
+
+    expect(res.status).toBe(403);
+    expect(store.refreshTokens[0].revokedAt).toBeInstanceOf(Date);
+  });
+});
+
+// =================================================================
+// TEST: PASSWORD RESET (/auth/forgot-password, /auth/reset-password)
+// =================================================================
+
+describe("password reset", () => {
+  let store: ReturnType<typeof createUserStore>;
+  let outbox: ReturnType<typeof createTestMailer>;
+  let events: EventBus;
+  let app: OpenAPIHono<AppBindings>;
+
+  function tokenFromMail(message: MailMessage) {
+    const match = message.text.match(/\/auth\/reset-password\/(\S+)/);
+    return decodeURIComponent(match![1]);
+  }
+
+  beforeEach(async () => {
+    const password = await hashPassword("correct-horse");
+    store = createUserStore([{
+      id: "user-1",
+      email: "jane@example.com",
+      password,
+      active: true,
+      firstName: null,
+      lastName: null,
+      role: "user",
+      emailVerifiedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }]);
+    outbox = createTestMailer();
+    events = createMemoryEventBus();
+    app = createAuthTestApp(store, outbox.mailer, undefined, events);
+  });
+
+  it("answers identically for known and unknown emails", async () => {
+    const known = await postJson(app, "/auth/forgot-password", { email: "jane@example.com" });
+    const unknown = await postJson(app, "/auth/forgot-password", { email: "nobody@example.com" });
+
+    expect(known.status).toBe(200);
+    expect(unknown.status).toBe(200);
+    expect((await known.json()).data).toEqual((await unknown.json()).data);
+    expect(outbox.sent).toHaveLength(1);
+    expect(outbox.sent[0].to).toBe("jane@example.com");
+  });
+
+  it("stores only the token hash", async () => {
+    await postJson(app, "/auth/forgot-password", { email: "jane@example.com" });
+    const token = tokenFromMail(outbox.sent[0]);
+
+    expect(store.resetTokens).toHaveLength(1);
+    expect(store.resetTokens[0].tokenHash).not.toBe(token);
+  });
+
+  it("hides mail delivery failures", async () => {
+    vi.mocked(outbox.mailer.send).mockRejectedValueOnce(new Error("SMTP down"));
+
+    const res = await postJson(app, "/auth/forgot-password", { email: "jane@example.com" });
+
+    expect(res.status).toBe(200);
+  });
+
+  it("resets the password once and revokes refresh tokens", async () => {
+    const signIn = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "correct-horse" });
+    const { data: session } = await signIn.json();
+
+    await postJson(app, "/auth/forgot-password", { email: "jane@example.com" });
+    const token = tokenFromMail(outbox.sent[0]);
+
+    const reset = await postJson(app, "/auth/reset-password", { token, password: "new-horse-staple" });
+    expect(reset.status).toBe(200);
+
+    const oldPassword = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "correct-horse" });
+    expect(oldPassword.status).toBe(401);
+
+    const newPassword = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "new-horse-staple" });
+    expect(newPassword.status).toBe(200);
+
+    const refresh = await postJson(app, "/auth/refresh", { refreshToken: session.refreshToken });
+    expect(refresh.status).toBe(401);
+    expect(store.sessions[0].revokedAt).toBeInstanceOf(Date);
+
+    const reuse = await postJson(app, "/auth/reset-password", { token, password: "another-horse" });
+    const body = await reuse.json();
+    expect(reuse.status).toBe(400);
+    expect(body.error.code).toBe(AUTH_CODES.INVALID_RESET_TOKEN);
+  });
+
+  it("lifts a lockout and publishes it as users.changed", async () => {
+    store.users.get("jane@example.com")!.lockedUntil = new Date(Date.now() + 60_000);
+    const publish = vi.spyOn(events, "publish");
+
+    await postJson(app, "/auth/forgot-password", { email: "jane@example.com" });
+    await postJson(app, "/auth/reset-password", { token: tokenFromMail(outbox.sent[0]), password: "new-horse-staple" });
+
+    expect(store.users.get("jane@example.com")!.lockedUntil).toBeNull();
+    expect(publish).toHaveBeenCalledWith("users.changed", {
+      kind: "updated",
+      userId: "user-1",
+      user: expect.objectContaining({ lockedUntil: undefined }),
+    });
+  });
+
+  it("invalidates earlier tokens when a new one is requested", async () => {
+    await postJson(app, "/auth/forgot-password", { email: "jane@example.com" });
+    await postJson(app, "/auth/forgot-password", { email: "jane@example.com" });
+    const [first, second] = outbox.sent.map(tokenFromMail);
+
+    const stale = await postJson(app, "/auth/reset-password", { token: first, password: "new-horse-staple" });
+    const fresh = await postJson(app, "/auth/reset-password", { token: second, password: "new-horse-staple" });
+
+    expect(stale.status).toBe(400);
+    expect(fresh.status).toBe(200);
+  });
+
+  it("rejects expired tokens", async () => {
+    await postJson(app, "/auth/forgot-password", { email: "jane@example.com" });
+    const token = tokenFromMail(outbox.sent[0]);
+    store.resetTokens[0].expiresAt = new Date(Date.now() - 1000);
+
+    const res = await postJson(app, "/auth/reset-password", { token, password: "new-horse-staple" });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+// =================================================================
+// TEST: EMAIL VERIFICATION (/auth/verify-email, /auth/resend-verification)
+// =================================================================
+
+describe("email verification", () => {
+  let store: ReturnType<typeof createUserStore>;
+  let outbox: ReturnType<typeof createTestMailer>;
+  let events: EventBus;
+  let app: OpenAPIHono<AppBindings>;
+
+  function tokenFromMail(message: MailMessage) {
+    const match = message.text.match(/\/auth\/verify-email\/(\S+)/);
+    return decodeURIComponent(match![1]);
+  }
+
+  async function signUp(email = "jane@example.com") {
+    const res = await postJson(app, "/auth/signup", { email, password: "correct-horse" });
+    return { res, body: await res.json() };
+  }
+
+  beforeEach(() => {
+    store = createUserStore();
+    outbox = createTestMailer();
+    events = createMemoryEventBus();
+    app = createAuthTestApp(store, outbox.mailer, undefined, events);
+  });
+
+  const policy = env.EMAIL_VERIFICATION_POLICY;
+
+  afterEach(() => {
+    env.EMAIL_VERIFICATION_POLICY = policy;
+  });
+
+  it("emails a verification link on sign-up and stores only its hash", async () => {
+    const { body } = await signUp();
+
+    expect(body.data.user.emailVerified).toBe(false);
+    expect(outbox.sent).toHaveLength(1);
+    expect(outbox.sent[0].to).toBe("jane@example.com");
+    expect(store.verificationTokens).toHaveLength(1);
+    expect(store.verificationTokens[0].tokenHash).not.toBe(tokenFromMail(outbox.sent[0]));
+  });
+
+  it("signs unverified users in with email_verified false under allow-restricted", async () => {
+    env.EMAIL_VERIFICATION_POLICY = "allow-restricted";
+
+    const { res, body } = await signUp();
+
+    expect(res.status).toBe(201);
+    const payload = await verify(body.data.accessToken, env.JWT_SECRET!, "HS256");
+    expect(payload.email_verified).toBe(false);
+  });
+
+  it("verifies the email once", async () => {
+    await signUp();
+    const token = tokenFromMail(outbox.sent[0]);
+
+    const res = await app.request(`/auth/verify-email/${token}`, { method: "POST" });
+    expect(res.status).toBe(200);
+    expect(store.users.get("jane@example.com")!.emailVerifiedAt).toBeInstanceOf(Date);
+
+    const reuse = await app.request(`/auth/verify-email/${token}`, { method: "POST" });
+    const body = await reuse.json();
+    expect(reuse.status).toBe(400);
+    expect(body.error.code).toBe(AUTH_CODES.INVALID_VERIFICATION_TOKEN);
+  });
+
+  it("publishes the verification as users.changed", async () => {
+    const { body } = await signUp();
+    const publish = vi.spyOn(events, "publish");
+
+    await app.request(`/auth/verify-email/${tokenFromMail(outbox.sent[0])}`, { method: "POST" });
+
+    expect(publish).toHaveBeenCalledWith("users.changed", {
+      kind: "updated",
+      userId: body.data.user.id,
+      user: expect.objectContaining({ id: body.data.user.id }),
+    });
+  });
+
+  it("rejects expired tokens", async () => {
+    await signUp();
+    const token = tokenFromMail(outbox.sent[0]);
+    store.verificationTokens[0].expiresAt = new Date(Date.now() - 1000);
+
+    const res = await app.request(`/auth/verify-email/${token}`, { method: "POST" });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("resends a fresh link and invalidates the previous one", async () => {
+    await signUp();
+
+    const known = await postJson(app, "/auth/resend-verification", { email: "jane@example.com" });
+    const unknown = await postJson(app, "/auth/resend-verification", { email: "nobody@example.com" });
+    expect((await known.json()).data).toEqual((await unknown.json()).data);
+
+    const [first, second] = outbox.sent.map(tokenFromMail);
+    const stale = await app.request(`/auth/verify-email/${first}`, { method: "POST" });
+    const fresh = await app.request(`/auth/verify-email/${second}`, { method: "POST" });
+
+    expect(outbox.sent).toHaveLength(2);
+    expect(stale.status).toBe(400);
+    expect(fresh.status).toBe(200);
+  });
+
+  it("does not resend to verified accounts", async () => {
+    await signUp();
+    store.users.get("jane@example.com")!.emailVerifiedAt = new Date();
+
+    await postJson(app, "/auth/resend-verification", { email: "jane@example.com" });
+
+    expect(outbox.sent).toHaveLength(1);
+  });
+
+  it("issues no session and blocks sign-in with E2013 under the block policy", async () => {
+    env.EMAIL_VERIFICATION_POLICY = "block";
+
+    const { res, body } = await signUp();
+    expect(res.status).toBe(201);
+    expect(body.data).toMatchObject({ verificationRequired: true, user: { emailVerified: false } });
+    expect(body.data).not.toHaveProperty("accessToken");
+    expect(store.refreshTokens).toHaveLength(0);
+
+    const blocked = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "correct-horse" });
+    const blockedBody = await blocked.json();
+    expect(blocked.status).toBe(403);
+    expect(blockedBody.error.code).toBe(AUTH_CODES.EMAIL_NOT_VERIFIED);
+
+    await app.request(`/auth/verify-email/${tokenFromMail(outbox.sent[0])}`, { method: "POST" });
+
+    const allowed = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "correct-horse" });
+    expect(allowed.status).toBe(200);
+  });
+});
+
+// =================================================================
+// TEST: TWO-FACTOR AUTHENTICATION (/auth/2fa/*)
+// =================================================================
+
+describe("two-factor authentication", () => {
+  let store: ReturnType<typeof createUserStore>;
+  let events: EventBus;
+  let app: OpenAPIHono<AppBindings>;
+  /** TOTP secret shown at the last setup */
+  let secret: string;
+
+  function storedUser() {
+    return store.users.get("jane@example.com")!;
+  }
+
+  /** Enrolls jane and returns her recovery codes */
+  async function enroll() {
+    const setup = await (await postJson(app, "/auth/2fa/setup", {})).json();
+    secret = setup.data.secret;
+    const enable = await postJson(app, "/auth/2fa/enable", { code: generateTotp(setup.data.secret) });
+    return (await enable.json()).data.recoveryCodes as string[];
+  }
+
+  async function signIn() {
+    const res = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "correct-horse" });
+    return (await res.json()).data;
+  }
+
+  /** Moves the last accepted step back so the current code is fresh again */
+  function forgetLastStep() {
+    storedUser().twoFactorLastStep = totpStep() - 2;
+  }
+
+  beforeEach(async () => {
+    store = createUserStore([{
+      id: "user-1",
+      email: "jane@example.com",
+      password: await hashPassword("correct-horse"),
+      active: true,
+      firstName: null,
+      lastName: null,
+      role: "user",
+      emailVerifiedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }]);
+    events = createMemoryEventBus();
+    app = createAuthTestApp(store, undefined, { userId: "user-1", role: "user", emailVerified: true }, events);
+  });
+
+  it("returns a secret and otpauth URI on setup without enabling 2FA", async () => {
+    const res = await postJson(app, "/auth/2fa/setup", {});
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(body.data.otpauthUri).toContain(`secret=${body.data.secret}`);
+    expect(storedUser().twoFactorEnabledAt).toBeNull();
+  });
+
+  it("rejects a wrong code on enable with E2015", async () => {
+    await postJson(app, "/auth/2fa/setup", {});
+
+    const res = await postJson(app, "/auth/2fa/enable", { code: "000000" });
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body.error.code).toBe(AUTH_CODES.INVALID_TWO_FACTOR_CODE);
+    expect(storedUser().twoFactorEnabledAt).toBeNull();
+  });
+
+  it("enables 2FA and stores only recovery code hashes", async () => {
+    const codes = await enroll();
+
+    expect(storedUser().twoFactorEnabledAt).toBeInstanceOf(Date);
+    expect(codes).toHaveLength(10);
+    expect(store.recoveryCodes.map(code => code.codeHash)).not.toContain(codes[0]);
+  });
+
+  it("publishes enabling 2FA as users.changed", async () => {
+    const publish = vi.spyOn(events, "publish");
+
+    await enroll();
+
+    expect(publish).toHaveBeenCalledWith("users.changed", {
+      kind: "updated",
+      userId: "user-1",
+      user: expect.objectContaining({ twoFactorEnabled: true }),
+    });
+  });
+
+  it("stores the TOTP secret encrypted", async () => {
+    await enroll();
+
+    expect(storedUser().twoFactorSecret).toMatch(/^v1\./);
+    expect(storedUser().twoFactorSecret).not.toContain(secret);
+    expect(decryptSecret(storedUser().twoFactorSecret!)).toBe(secret);
+  });
+
+  it("accepts secrets stored in plaintext and encrypts them once used", async () => {
+    await enroll();
+    storedUser().twoFactorSecret = secret;
+    forgetLastStep();
+
+    const { challengeToken } = await signIn();
+    const res = await postJson(app, "/auth/2fa/verify", { challengeToken, code: generateTotp(secret) });
+
+    expect(res.status).toBe(200);
+    expect(storedUser().twoFactorSecret).toMatch(/^v1\./);
+    expect(decryptSecret(storedUser().twoFactorSecret!)).toBe(secret);
+  });
+
+  it("keeps plaintext secrets working without TWO_FACTOR_ENCRYPTION_KEY but refuses enrollment", async () => {
+    const key = env.TWO_FACTOR_ENCRYPTION_KEY;
+    await enroll();
+    storedUser().twoFactorSecret = secret;
+    forgetLastStep();
+    env.TWO_FACTOR_ENCRYPTION_KEY = undefined;
+
+    try {
+      const { challengeToken } = await signIn();
+      const verified = await postJson(app, "/auth/2fa/verify", { challengeToken, code: generateTotp(secret) });
+      storedUser().twoFactorEnabledAt = null;
+      const setup = await postJson(app, "/auth/2fa/setup", {});
+
+      expect(verified.status).toBe(200);
+      expect(storedUser().twoFactorSecret).toBe(secret);
+      expect(setup.status).toBe(503);
+    }
+    finally {
+      env.TWO_FACTOR_ENCRYPTION_KEY = key;
+    }
+  });
+
+  it("refuses accounts deactivated since the password step with E2008", async () => {
+    const [recoveryCode] = await enroll();
+    const { challengeToken } = await signIn();
+    storedUser().active = false;
+
+    const res = await postJson(app, "/auth/2fa/verify", { challengeToken, code: recoveryCode });
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).error.code).toBe(AUTH_CODES.ACCOUNT_INACTIVE);
+    expect(store.refreshTokens).toHaveLength(0);
+  });
+
+  it("refuses unverified emails under the block policy with E2013", async () => {
+    const policy = env.EMAIL_VERIFICATION_POLICY;
+    const [recoveryCode] = await enroll();
+    const { challengeToken } = await signIn();
+    storedUser().emailVerifiedAt = null;
+    env.EMAIL_VERIFICATION_POLICY = "block";
+
+    try {
+      const res = await postJson(app, "/auth/2fa/verify", { challengeToken, code: recoveryCode });
+
+      expect(res.status).toBe(403);
+      expect((await res.json()).error.code).toBe(AUTH_CODES.EMAIL_NOT_VERIFIED);
+      expect(store.refreshTokens).toHaveLength(0);
+    }
+    finally {
+      env.EMAIL_VERIFICATION_POLICY = policy;
+    }
+  });
+
+  it("turns sign-in into a challenge instead of a session", async () => {
+    await enroll();
+
+    const data = await signIn();
+
+    expect(data).toMatchObject({ twoFactorRequired: true, challengeToken: expect.any(String) });
+    expect(data).not.toHaveProperty("accessToken");
+    expect(store.refreshTokens).toHaveLength(0);
+  });
+
+  it("issues a session for a valid TOTP code and rejects its replay", async () => {
+    await enroll();
+    forgetLastStep();
+    const code = generateTotp(secret);
+
+    const { challengeToken } = await signIn();
+    const res = await postJson(app, "/auth/2fa/verify", { challengeToken, code });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.accessToken).toEqual(expect.any(String));
+
+    const second = await signIn();
+    const replay = await postJson(app, "/auth/2fa/verify", { challengeToken: second.challengeToken, code });
+
+    expect(replay.status).toBe(400);
+    expect((await replay.json()).error.code).toBe(AUTH_CODES.INVALID_TWO_FACTOR_CODE);
+  });
+
+  it("accepts each recovery code once", async () => {
+    const [recoveryCode] = await enroll();
+
+    const first = await signIn();
+    const res = await postJson(app, "/auth/2fa/verify", {
+      challengeToken: first.challengeToken,
+      code: recoveryCode.toUpperCase(),
+    });
+    expect(res.status).toBe(200);
+
+    const second = await signIn();
+    const reuse = await postJson(app, "/auth/2fa/verify", { challengeToken: second.challengeToken, code: recoveryCode });
+    expect(reuse.status).toBe(400);
+  });
+
+  it("rejects used and unknown challenges with E2016", async () => {
+    const [first, second] = await enroll();
+    const { challengeToken } = await signIn();
+    await postJson(app, "/auth/2fa/verify", { challengeToken, code: first });
+
+    const used = await postJson(app, "/auth/2fa/verify", { challengeToken, code: second });
+    const unknown = await postJson(app, "/auth/2fa/verify", { challengeToken: "unknown", code: second });
+
+    expect((await used.json()).error.code).toBe(AUTH_CODES.INVALID_TWO_FACTOR_CHALLENGE);
+    expect((await unknown.json()).error.code).toBe(AUTH_CODES.INVALID_TWO_FACTOR_CHALLENGE);
+  });
+
+  it("counts wrong codes towards the account lockout", async () => {
+    await enroll();
+    const { challengeToken } = await signIn();
+
+    let res!: Response;
+    for (let attempt = 0; attempt < env.ACCOUNT_LOCKOUT_THRESHOLD; attempt++) {
+      res = await postJson(app, "/auth/2fa/verify", { challengeToken, code: "wrong-code" });
+    }
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.error.code).toBe(AUTH_CODES.ACCOUNT_LOCKED);
+  });
+});
+
+// =================================================================
+// TEST: SESSIONS (/auth/sessions)
+// =================================================================
+
+describe("sessions", () => {
+  const CHROME_ON_MAC = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 "
+    + "(KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36";
+
+  let store: ReturnType<typeof createUserStore>;
+  let app: OpenAPIHono<AppBindings>;
+
+  async function signIn(headers: Record<string, string> = {}) {
+    const res = await postJson(app, "/auth/signin", { email: "jane@example.com", password: "correct-horse" }, headers);
+    return (await res.json()).data as { accessToken: string; refreshToken: string };
+  }
+
+  /** App acting as the holder of the access token */
+  async function appFor(accessToken: string, events?: EventBus) {
+    const principal = toPrincipal(await verify(accessToken, env.JWT_SECRET!, "HS256"))!;
+    return createAuthTestApp(store, undefined, principal, events);
+  }
+
+  beforeEach(async () => {
+    store = createUserStore([{
+      id: "user-1",
+      email: "jane@example.com",
+      password: await hashPassword("correct-horse"),
+      active: true,
+      firstName: null,
+      lastName: null,
+      role: "user",
+      emailVerifiedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }]);
+    app = createAuthTestApp(store);
+  });
+
+  it("records device, user agent and client IP on sign-in", async () => {
+    const { accessToken } = await signIn({ "User-Agent": CHROME_ON_MAC, "X-Forwarded-For": "203.0.113.7, 10.0.0.1" });
+
+    expect(store.sessions[0]).toMatchObject({
+      userId: "user-1",
+      device: "Chrome on macOS",
+      userAgent: CHROME_ON_MAC,
+      ipAddress: "203.0.113.7",
+    });
+    expect(store.refreshTokens[0].familyId).toBe(store.sessions[0].id);
+
+    const payload = await verify(accessToken, env.JWT_SECRET!, "HS256");
+    expect(payload.sid).toBe(store.sessions[0].id);
+  });
+
+  it("lists active sessions and flags the current one", async () => {
+    const first = await signIn({ "User-Agent": CHROME_ON_MAC });
+    await signIn();
+    await signIn();
+    store.sessions[2].revokedAt = new Date();
+
+    const res = await (await appFor(first.accessToken)).request("/auth/sessions");
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data).toHaveLength(2);
+    expect(body.data.find((session: { current: boolean }) => session.current)).toMatchObject({
+      id: store.sessions[0].id,
+      device: "Chrome on macOS",
+    });
+  });
+
+  it("revokes a session with its refresh tokens", async () => {
+    const current = await signIn();
+    const other = await signIn();
+
+    const res = await (await appFor(current.accessToken)).request(`/auth/sessions/${store.sessions[1].id}`, {
+      method: "DELETE",
+    });
+
+    expect(res.status).toBe(204);
+    expect(await isSessionActive(store as any, store.sessions[1].id)).toBe(false);
+    expect(await isSessionActive(store as any, store.sessions[0].id)).toBe(true);
+
+    const refresh = await postJson(app, "/auth/refresh", { refreshToken: other.refreshToken });
+    expect(refresh.status).toBe(401);
+    expect((await refresh.json()).error.code).toBe(AUTH_CODES.INVALID_REFRESH_TOKEN);
+  });
+
+  it("publishes the revocation so subscriptions of the session end", async () => {
+    const { accessToken } = await signIn();
+    const events = createMemoryEventBus();
+    const publish = vi.spyOn(events, "publish");
+
+    await (await appFor(accessToken, events)).request(`/auth/sessions/${store.sessions[0].id}`, { method: "DELETE" });
+
+    expect(publish).toHaveBeenCalledWith("credentials.revoked", {
+      kind: "session",
+      id: store.sessions[0].id,
+      userId: "user-1",
+    });
+  });
+
+  it("returns 404 for sessions of other users", async () => {
+    const { accessToken } = await signIn();
+    store.sessions[0].userId = "user-2";
+
+    const res = await (await appFor(accessToken)).request(`/auth/sessions/${store.sessions[0].id}`, {
+      method: "DELETE",
+    });
+
+    expect(res.status).toBe(404);
+    expect(store.sessions[0].revokedAt).toBeNull();
+  });
+
+  it("revokes the session when refresh token reuse is detected", async () => {
+    const { refreshToken } = await signIn();
+    await postJson(app, "/auth/refresh", { refreshToken });
+
+    const events = createMemoryEventBus();
+    const publish = vi.spyOn(events, "publish");
+    await postJson(createAuthTestApp(store, undefined, undefined, events), "/auth/refresh", { refreshToken });
+
+    expect(store.sessions[0].revokedAt).toBeInstanceOf(Date);
+    expect(publish).toHaveBeenCalledWith("credentials.revoked", {
+      kind: "session",
+      id: store.sessions[0].id,
+      userId: "user-1",
+    });
+  });
+
+  it("returns the current user from /auth/me", async () => {
+    const { accessToken } = await signIn();
+
+    const res = await (await appFor(accessToken)).request("/auth/me");
+
+    const { data } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data).toMatchObject({ id: "user-1", email: "jane@example.com", emailVerified: true });
+    expect(data).not.toHaveProperty("password");
+  });
+
+  it("describes common user agents", () => {
+    expect(describeDevice(CHROME_ON_MAC)).toBe("Chrome on macOS");
+    expect(describeDevice("Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:133.0) Gecko/20100101 Firefox/133.0"))
+      .toBe("Firefox on Windows");
+    expect(describeDevice("curl/8.5.0")).toBeNull();
+    expect(describeDevice(undefined)).toBeNull();
+  });
+});
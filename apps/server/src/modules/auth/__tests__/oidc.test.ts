@@ -0,0 +1,439 @@
+/**
+ * SSO (OIDC) Integration Tests
+ *
+ * Runs the relying party against a local mock issuer (discovery, JWKS and
+ * token endpoints on 127.0.0.1) instead of a live identity provider:
+ * - GET /auth/oidc/authorize: state, nonce and PKCE challenge
+ * - POST /auth/oidc/callback: code exchange, ID token validation and
+ *   account linking by verified email
+ *
+ * @module modules/auth/__tests__/oidc.test
+ */
+
+import type { AddressInfo } from "node:net";
+
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { sign } from "hono/jwt";
+import { Buffer } from "node:buffer";
+import { createHash, generateKeyPairSync, randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { EventBus } from "@/lib/events";
+import type { OidcClient } from "@/lib/oidc";
+import type { AppBindings } from "@/types";
+
+import { AUTH_CODES } from "@/errors";
+import { errorHandler } from "@/lib/error-handler";
+import { createMemoryEventBus } from "@/lib/events";
+import { verifyAccessToken } from "@/lib/jwt";
+import { createOidcClient } from "@/lib/oidc";
+import { hashToken } from "@/lib/token";
+
+import auth from "../index";
+
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+const CLIENT_ID = "api-template";
+const CLIENT_SECRET = "mock-client-secret";
+const REDIRECT_URI = "http://localhost:3000/auth/sso/callback";
+
+// =================================================================
+// MOCK ISSUER
+// =================================================================
+
+function createSigningKey(kid: string) {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return {
+    privateJwk: { ...privateKey.export({ format: "jwk" }), kid, alg: "RS256" },
+    publicJwk: { ...publicKey.export({ format: "jwk" }), kid, alg: "RS256", use: "sig" },
+  };
+}
+
+/**
+ * Minimal OpenID provider: `authorize()` stands in for the user signing in
+ * at the provider and returns the code the browser would be redirected with
+ */
+function createMockIssuer() {
+  let signingKey = createSigningKey("key-1");
+  let issuer = "";
+  const codes = new Map<string, { codeChallenge: string; nonce: string; claims: Record<string, unknown> }>();
+
+  const server = createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === "/.well-known/openid-configuration") {
+      return send(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        token_endpoint_auth_methods_supported: ["client_secret_basic"],
+        code_challenge_methods_supported: ["S256"],
+      });
+    }
+    if (req.url === "/jwks") {
+      return send(200, { keys: [signingKey.publicJwk] });
+    }
+    if (req.url !== "/token" || req.method !== "POST") {
+      return send(404, { error: "not_found" });
+    }
+
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", async () => {
+      const form = new URLSearchParams(raw);
+      const basic = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64");
+      if (req.headers.authorization !== `Basic ${basic}`) {
+        return send(401, { error: "invalid_client" });
+      }
+
+      const grant = codes.get(form.get("code") ?? "");
+      codes.delete(form.get("code") ?? "");
+      const challenge = createHash("sha256").update(form.get("code_verifier") ?? "").digest("base64url");
+      if (!grant || grant.codeChallenge !== challenge || form.get("redirect_uri") !== REDIRECT_URI) {
+        return send(400, { error: "invalid_grant" });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await sign(
+        { iss: issuer, aud: CLIENT_ID, nonce: grant.nonce, iat: now, exp: now + 300, ...grant.claims },
+        signingKey.privateJwk,
+        "RS256",
+      );
+      send(200, { access_token: "mock-access-token", token_type: "Bearer", id_token: idToken });
+    });
+  });
+
+  return {
+    get issuer() {
+      return issuer;
+    },
+    async start() {
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    },
+    stop: () => new Promise<void>(resolve => server.close(() => resolve())),
+    rotateKey(kid: string) {
+      signingKey = createSigningKey(kid);
+    },
+    /** Signs the user in at the provider and returns the authorization code */
+    authorize(authorizationUrl: string, claims: Record<string, unknown>) {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = randomUUID();
+      codes.set(code, { codeChallenge: params.get("code_challenge")!, nonce: params.get("nonce")!, claims });
+      return code;
+    },
+  };
+}
+
+// =================================================================
+// TEST APP FACTORY
+// =================================================================
+
+interface StoredUser {
+  id: string;
+  email: string;
+  password: string;
+  active: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  role: "admin" | "user";
+  emailVerifiedAt: Date | null;
+  lockedUntil: Date | null;
+  twoFactorEnabledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function createStore() {
+  const users: StoredUser[] = [];
+  const requests: { id: string; stateHash: string; nonce: string; codeVerifier: string; expiresAt: Date }[] = [];
+  const identities: { id: string; userId: string; issuer: string; subject: string; email: string; lastSignInAt: Date | null }[] = [];
+
+  const prisma: Record<string, any> = {
+    user: {
+      findUnique: vi.fn(async ({ where }: { where: { email: string } }) =>
+        users.find(user => user.email === where.email) ?? null),
+      create: vi.fn(async ({ data }: { data: Partial<StoredUser> }) => {
+        const user = {
+          id: randomUUID(),
+          active: true,
+          firstName: null,
+          lastName: null,
+          role: "user" as const,
+          emailVerifiedAt: null,
+          lockedUntil: null,
+          twoFactorEnabledAt: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          ...data,
+        } as StoredUser;
+        users.push(user);
+        return user;
+      }),
+    },
+    oidcAuthorizationRequest: {
+      create: vi.fn(async ({ data }: { data: Omit<(typeof requests)[number], "id"> }) => {
+        const request = { ...data, id: randomUUID() };
+        requests.push(request);
+        return request;
+      }),
+      findUnique: vi.fn(async ({ where }: { where: { stateHash: string } }) =>
+        requests.find(request => request.stateHash === where.stateHash) ?? null),
+      deleteMany: vi.fn(async ({ where }: { where: { id: string } }) => {
+        const index = requests.findIndex(request => request.id === where.id);
+        if (index === -1) {
+          return { count: 0 };
+        }
+        requests.splice(index, 1);
+        return { count: 1 };
+      }),
+    },
+    oidcIdentity: {
+      findUnique: vi.fn(async ({ where }: { where: { issuer_subject: { issuer: string; subject: string } } }) => {
+        const { issuer, subject } = where.issuer_subject;
+        const identity = identities.find(item => item.issuer === issuer && item.subject === subject);
+        return identity ? { ...identity, user: users.find(user => user.id === identity.userId)! } : null;
+      }),
+      create: vi.fn(async ({ data }: { data: Omit<(typeof identities)[number], "id"> }) => {
+        const identity = { ...data, id: randomUUID() };
+        identities.push(identity);
+        return identity;
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: object }) =>
+        Object.assign(identities.find(identity => identity.id === where.id)!, data)),
+    },
+    session: {
+      create: vi.fn(async ({ data }: { data: object }) => ({ ...data, id: randomUUID() })),
+    },
+    refreshToken: {
+      create: vi.fn(async ({ data }: { data: object }) => ({ ...data, id: randomUUID() })),
+    },
+    twoFactorChallenge: {
+      create: vi.fn(async ({ data }: { data: object }) => ({ ...data, id: randomUUID() })),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma));
+
+  return { users, requests, identities, prisma };
+}
+
+function createOidcTestApp(
+  store: ReturnType<typeof createStore>,
+  oidc: OidcClient | null,
+  events: EventBus = createMemoryEventBus(),
+) {
+  const app = new OpenAPIHono<AppBindings>();
+
+  app.use("*", async (c, next) => {
+    c.set("requestId", "test-request-id-oidc");
+    c.set("logger", {
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+      debug: () => {},
+      security: () => {},
+    } as any);
+    c.set("logContext", {});
+    c.set("prisma", store.prisma as any);
+    c.set("oidc", oidc);
+    c.set("events", events);
+    await next();
+  });
+
+  app.route("/", auth);
+  app.onError(errorHandler);
+
+  return app;
+}
+
+function seedUser(store: ReturnType<typeof createStore>, overrides: Partial<StoredUser> = {}) {
+  const user: StoredUser = {
+    id: randomUUID(),
+    email: "jane.doe@example.com",
+    password: "unused",
+    active: true,
+    firstName: "Jane",
+    lastName: "Doe",
+    role: "user",
+    emailVerifiedAt: new Date(),
+    lockedUntil: null,
+    twoFactorEnabledAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+  store.users.push(user);
+  return user;
+}
+
+// =================================================================
+// TESTS
+// =================================================================
+
+describe("sSO sign-in (OIDC)", () => {
+  const issuer = createMockIssuer();
+  let store: ReturnType<typeof createStore>;
+  let events: EventBus;
+  let app: OpenAPIHono<AppBindings>;
+
+  beforeAll(() => issuer.start());
+
+  beforeEach(() => {
+    store = createStore();
+    events = createMemoryEventBus();
+    app = createOidcTestApp(store, createOidcClient({
+      issuer: issuer.issuer,
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      redirectUri: REDIRECT_URI,
+      scopes: ["openid", "email", "profile"],
+    }), events);
+  });
+
+  afterAll(() => issuer.stop());
+
+  async function startSignIn() {
+    const res = await app.request("/auth/oidc/authorize");
+    expect(res.status).toBe(200);
+    return (await res.json()).data as { authorizationUrl: string; state: string };
+  }
+
+  async function signIn(claims: Record<string, unknown>) {
+    const { authorizationUrl, state } = await startSignIn();
+    const code = issuer.authorize(authorizationUrl, claims);
+    return app.request("/auth/oidc/callback", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code, state }),
+    });
+  }
+
+  it("starts an authorization code request with state, nonce and an S256 PKCE challenge", async () => {
+    const { authorizationUrl, state } = await startSignIn();
+    const url = new URL(authorizationUrl);
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${issuer.issuer}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      response_type: "code",
+      client_id: CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+      scope: "openid email profile",
+      state,
+      code_challenge_method: "S256",
+    });
+    expect(url.searchParams.get("code_challenge")).toMatch(/^[\w-]{43}$/);
+    expect(store.requests[0]).toMatchObject({ stateHash: hashToken(state), nonce: url.searchParams.get("nonce") });
+  });
+
+  it("creates a verified account on the first sign-in and reuses the linked identity afterwards", async () => {
+    const first = await signIn({ sub: "idp-user-1", email: "Jane.Doe@Example.com", email_verified: true, given_name: "Jane" });
+    const { data } = await first.json();
+
+    expect(first.status).toBe(200);
+    expect(data.user).toMatchObject({ email: "jane.doe@example.com", firstName: "Jane", emailVerified: true });
+    expect(await verifyAccessToken(data.accessToken)).toMatchObject({ userId: data.user.id });
+    expect(store.identities).toEqual([
+      expect.objectContaining({ userId: data.user.id, issuer: issuer.issuer, subject: "idp-user-1" }),
+    ]);
+
+    // The identity, not the (changed) email, identifies the user from now on
+    const second = await signIn({ sub: "idp-user-1", email: "jane@new-domain.example", email_verified: false });
+    expect((await second.json()).data.user.id).toBe(data.user.id);
+    expect(store.users).toHaveLength(1);
+  });
+
+  it("publishes accounts created by SSO as users.changed", async () => {
+    const publish = vi.spyOn(events, "publish");
+
+    const first = await signIn({ sub: "idp-user-1", email: "jane.doe@example.com", email_verified: true });
+    const { data } = await first.json();
+    await signIn({ sub: "idp-user-1", email: "jane.doe@example.com", email_verified: true });
+
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(publish).toHaveBeenCalledWith("users.changed", {
+      kind: "created",
+      userId: data.user.id,
+      user: expect.objectContaining({ id: data.user.id, email: "jane.doe@example.com" }),
+    });
+  });
+
+  it("links an existing account by verified email", async () => {
+    const user = seedUser(store);
+
+    const res = await signIn({ sub: "idp-user-2", email: "jane.doe@example.com", email_verified: "true" });
+
+    expect((await res.json()).data.user.id).toBe(user.id);
+    expect(store.identities[0]).toMatchObject({ userId: user.id, subject: "idp-user-2" });
+  });
+
+  it("refuses unverified provider emails and unverified local accounts", async () => {
+    const unverifiedClaim = await signIn({ sub: "idp-user-3", email: "jane.doe@example.com", email_verified: false });
+    expect(unverifiedClaim.status).toBe(401);
+    expect((await unverifiedClaim.json()).error.code).toBe(AUTH_CODES.SSO_FAILED);
+
+    seedUser(store, { emailVerifiedAt: null });
+    const unverifiedAccount = await signIn({ sub: "idp-user-3", email: "jane.doe@example.com", email_verified: true });
+    expect(unverifiedAccount.status).toBe(409);
+    expect(store.identities).toHaveLength(0);
+  });
+
+  it("accepts each state once", async () => {
+    const { authorizationUrl, state } = await startSignIn();
+    const callback = (code: string) => app.request("/auth/oidc/callback", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code, state }),
+    });
+
+    const first = await callback(issuer.authorize(authorizationUrl, { sub: "idp-user-4", email: "a@example.com", email_verified: true }));
+    const replay = await callback(issuer.authorize(authorizationUrl, { sub: "idp-user-4", email: "a@example.com", email_verified: true }));
+
+    expect(first.status).toBe(200);
+    expect(replay.status).toBe(400);
+    expect((await replay.json()).error.code).toBe(AUTH_CODES.INVALID_SSO_STATE);
+  });
+
+  it.each([
+    ["another nonce", { nonce: "forged-nonce" }],
+    ["another audience", { aud: "other-client" }],
+    ["another issuer", { iss: "https://evil.example.com" }],
+    ["an expired token", { exp: Math.floor(Date.now() / 1000) - 60 }],
+  ])("rejects ID tokens with %s", async (_, overrides) => {
+    const res = await signIn({ sub: "idp-user-5", email: "b@example.com", email_verified: true, ...overrides });
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error.code).toBe(AUTH_CODES.SSO_FAILED);
+    expect(store.users).toHaveLength(0);
+  });
+
+  it("picks up rotated provider keys", async () => {
+    expect((await signIn({ sub: "idp-user-6", email: "c@example.com", email_verified: true })).status).toBe(200);
+
+    issuer.rotateKey("key-2");
+
+    expect((await signIn({ sub: "idp-user-6", email: "c@example.com", email_verified: true })).status).toBe(200);
+  });
+
+  it("issues a two-factor challenge for enrolled users", async () => {
+    seedUser(store, { twoFactorEnabledAt: new Date() });
+
+    const res = await signIn({ sub: "idp-user-7", email: "jane.doe@example.com", email_verified: true });
+    const { data } = await res.json();
+
+    expect(data.twoFactorRequired).toBe(true);
+    expect(data).not.toHaveProperty("accessToken");
+  });
+
+  it("answers 404 while SSO is not configured", async () => {
+    const res = await createOidcTestApp(store, null).request("/auth/oidc/authorize");
+
+    expect(res.status).toBe(404);
+  });
+});
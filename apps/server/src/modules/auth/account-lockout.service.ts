@@ -0,0 +1,113 @@
+/**
+ * Account Lockout Service - Per-Account Failed Sign-In Tracking
+ *
+ * Complements the IP-keyed auth rate limiter, which rotating
+ * `x-forwarded-for` addresses can evade. Failed sign-ins are counted
+ * on the user row; once ACCOUNT_LOCKOUT_THRESHOLD is reached the
+ * account is locked, and every further failure doubles the lockout
+ * (ACCOUNT_LOCKOUT_BASE_SECONDS up to ACCOUNT_LOCKOUT_MAX_SECONDS).
+ * A successful sign-in, password reset or admin unlock clears the count.
+ * Locking and clearing publish "users.changed"; failures below the
+ * threshold do not change the public user and publish nothing.
+ *
+ * @module modules/auth/account-lockout.service
+ */
+
+import type { PrismaClient, User } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+
+import { env } from "@/config";
+import { publishUserChanged, toPublicUser } from "@/lib/events";
+
+/**
+ * Lockout started by a failed sign-in
+ */
+export interface AccountLockout {
+  failedAttempts: number;
+  lockedUntil: Date;
+}
+
+/**
+ * Data that clears failed attempts and any lockout
+ */
+export const CLEARED_LOCKOUT = {
+  failedSignInCount: 0,
+  lastFailedSignInAt: null,
+  lockedUntil: null,
+} as const;
+
+/**
+ * Seconds until the lockout expires, or 0 when the account is not locked
+ */
+export function lockoutRemainingSeconds(user: Pick<User, "lockedUntil">, now = Date.now()) {
+  if (!user.lockedUntil) {
+    return 0;
+  }
+  return Math.max(0, Math.ceil((user.lockedUntil.getTime() - now) / 1000));
+}
+
+/**
+ * Lockout duration for the given number of consecutive failures
+ */
+export function lockoutDurationSeconds(failedAttempts: number) {
+  const exponent = failedAttempts - env.ACCOUNT_LOCKOUT_THRESHOLD;
+  if (exponent < 0) {
+    return 0;
+  }
+  return Math.min(env.ACCOUNT_LOCKOUT_BASE_SECONDS * 2 ** exponent, env.ACCOUNT_LOCKOUT_MAX_SECONDS);
+}
+
+/**
+ * Records a failed sign-in and locks the account once the threshold is reached
+ *
+ * The counter is incremented atomically, so concurrent attempts cannot
+ * slip past the threshold.
+ *
+ * @returns the lockout when this failure locked the account, otherwise null
+ */
+export async function recordFailedSignIn(
+  prisma: PrismaClient,
+  events: EventBus,
+  user: Pick<User, "id" | "lastFailedSignInAt">,
+): Promise<AccountLockout | null> {
+  const now = new Date();
+  const withinWindow = user.lastFailedSignInAt !== null
+    && now.getTime() - user.lastFailedSignInAt.getTime() < env.ACCOUNT_LOCKOUT_WINDOW_SECONDS * 1000;
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedSignInCount: withinWindow ? { increment: 1 } : 1,
+      lastFailedSignInAt: now,
+    },
+  });
+
+  const duration = lockoutDurationSeconds(updated.failedSignInCount);
+  if (duration === 0) {
+    return null;
+  }
+
+  const lockedUntil = new Date(now.getTime() + duration * 1000);
+  const locked = await prisma.user.update({
+    where: { id: user.id },
+    data: { lockedUntil },
+  });
+  await publishUserChanged(events, "updated", toPublicUser(locked));
+
+  return { failedAttempts: updated.failedSignInCount, lockedUntil };
+}
+
+/**
+ * Clears failed attempts after a successful sign-in (no-op when already clear)
+ */
+export async function clearFailedSignIns(
+  prisma: PrismaClient,
+  events: EventBus,
+  user: Pick<User, "id" | "failedSignInCount" | "lockedUntil">,
+) {
+  if (user.failedSignInCount === 0 && user.lockedUntil === null) {
+    return;
+  }
+  const cleared = await prisma.user.update({ where: { id: user.id }, data: CLEARED_LOCKOUT });
+  await publishUserChanged(events, "updated", toPublicUser(cleared));
+}
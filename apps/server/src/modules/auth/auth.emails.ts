@@ -0,0 +1,67 @@
+/**
+ * Auth Module Emails
+ *
+ * Plain-text + HTML templates for transactional auth emails.
+ *
+ * @module modules/auth/auth.emails
+ */
+
+import type { MailMessage } from "@/lib/mail";
+
+import { env } from "@/config";
+
+function clientLink(pathname: string) {
+  return new URL(pathname, env.CLIENT_URL).toString();
+}
+
+/**
+ * Password reset email with a single-use link to the client reset page
+ */
+export function passwordResetEmail(to: string, token: string, expiresInSeconds: number): MailMessage {
+  const link = clientLink(`/auth/reset-password/${encodeURIComponent(token)}`);
+  const minutes = Math.round(expiresInSeconds / 60);
+
+  return {
+    to,
+    subject: "Reset your password",
+    text: [
+      "We received a request to reset your password.",
+      "",
+      `Open this link to choose a new password (valid for ${minutes} minutes):`,
+      link,
+      "",
+      "If you did not request a reset, you can ignore this email.",
+    ].join("\n"),
+    html: [
+      "<p>We received a request to reset your password.</p>",
+      `<p><a href="${link}">Choose a new password</a> (valid for ${minutes} minutes).</p>`,
+      "<p>If you did not request a reset, you can ignore this email.</p>",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Email verification message with a single-use link to the client verify page
+ */
+export function emailVerificationEmail(to: string, token: string, expiresInSeconds: number): MailMessage {
+  const link = clientLink(`/auth/verify-email/${encodeURIComponent(token)}`);
+  const hours = Math.round(expiresInSeconds / 3600);
+
+  return {
+    to,
+    subject: "Verify your email address",
+    text: [
+      "Thanks for signing up.",
+      "",
+      `Open this link to verify your email address (valid for ${hours} hours):`,
+      link,
+      "",
+      "If you did not create an account, you can ignore this email.",
+    ].join("\n"),
+    html: [
+      "<p>Thanks for signing up.</p>",
+      `<p><a href="${link}">Verify your email address</a> (valid for ${hours} hours).</p>`,
+      "<p>If you did not create an account, you can ignore this email.</p>",
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,427 @@
+/**
+ * Auth Module Handlers
+ *
+ * Route handlers for sign-up, sign-in, token refresh, password reset,
+ * email verification, two-factor authentication, SSO and sessions.
+ * Failures are thrown as AppError and rendered by the central error handler.
+ *
+ * @module modules/auth/auth.handlers
+ */
+
+import type { Context } from "hono";
+
+import type { AppBindings, AppRouteHandler } from "@/types";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+import { created, noContent, ok } from "@/lib/response";
+import { getPrincipal } from "@/middlewares/authorization.middleware";
+import { extractClientIp } from "@/utils/sanitize";
+
+import type { AccountLockout } from "./account-lockout.service";
+import type {
+  EnableTwoFactorRoute,
+  ForgotPasswordRoute,
+  ListSessionsRoute,
+  MeRoute,
+  OidcAuthorizeRoute,
+  OidcCallbackRoute,
+  RefreshRoute,
+  ResendVerificationRoute,
+  ResetPasswordRoute,
+  RevokeSessionRoute,
+  SetupTwoFactorRoute,
+  SignInRoute,
+  SignUpRoute,
+  VerifyEmailRoute,
+  VerifyTwoFactorRoute,
+} from "./auth.routes";
+
+import { lockoutRemainingSeconds } from "./account-lockout.service";
+import { authenticateUser, createAuthSession, getCurrentUser, registerUser, toAuthUser } from "./auth.service";
+import {
+  resendEmailVerification,
+  sendEmailVerification,
+  VERIFICATION_RESENT_MESSAGE,
+  verifyEmail,
+} from "./email-verification.service";
+import { completeOidcSignIn, requireOidcClient, startOidcSignIn } from "./oidc.service";
+import {
+  PASSWORD_RESET_REQUESTED_MESSAGE,
+  requestPasswordReset,
+  resetPassword,
+} from "./password-reset.service";
+import { rotateRefreshToken } from "./refresh-token.service";
+import { listSessions, revokeSession, startSession } from "./session.service";
+import {
+  confirmTwoFactorEnrollment,
+  createTwoFactorChallenge,
+  startTwoFactorEnrollment,
+  verifyTwoFactorChallenge,
+} from "./two-factor.service";
+
+/**
+ * Logs a lockout started by a failed sign-in or 2FA code and builds the error
+ */
+function accountLockedError(c: Context<AppBindings>, userId: string, lockout: AccountLockout) {
+  c.get("logger").security("Account locked after repeated failed sign-ins", {
+    ...c.get("logContext"),
+    userId,
+    failedAttempts: lockout.failedAttempts,
+    lockedUntil: lockout.lockedUntil.toISOString(),
+    action: "auth.lockout",
+  });
+  return AppError.accountLocked(lockoutRemainingSeconds(lockout));
+}
+
+/**
+ * Reads the user agent and client IP recorded with a session
+ */
+function sessionMetadata(c: Context<AppBindings>) {
+  return {
+    userAgent: c.req.header("User-Agent"),
+    ipAddress: extractClientIp(c.req.header("X-Forwarded-For"), c.req.header("X-Real-IP")),
+  };
+}
+
+/**
+ * Sign-up handler - registers the user, emails a verification link and
+ * signs them in (unless EMAIL_VERIFICATION_POLICY=block)
+ *
+ * A failed verification email does not fail the sign-up; the user can
+ * request a new link via /auth/resend-verification.
+ */
+export const signUpHandler: AppRouteHandler<SignUpRoute> = async (c) => {
+  const body = c.req.valid("json");
+  const prisma = c.get("prisma");
+  const logger = c.get("logger");
+
+  const user = await registerUser(prisma, c.get("events"), body);
+
+  logger.info("User registered", {
+    ...c.get("logContext"),
+    userId: user.id,
+    action: "auth.signup",
+  });
+
+  try {
+    await sendEmailVerification(prisma, c.get("mailer"), user);
+  }
+  catch (error) {
+    logger.error("Verification email failed", {
+      ...c.get("logContext"),
+      userId: user.id,
+      action: "auth.email_verification.send",
+      error: error instanceof Error ? { name: error.name, message: error.message } : undefined,
+    });
+  }
+
+  if (env.EMAIL_VERIFICATION_POLICY === "block") {
+    return created(c, { verificationRequired: true as const, user: toAuthUser(user) });
+  }
+
+  const refreshToken = await startSession(prisma, user.id, sessionMetadata(c));
+  return created(c, await createAuthSession(user, refreshToken));
+};
+
+/**
+ * Sign-in handler - verifies credentials and issues a token pair, or a
+ * two-factor challenge when the user has enrolled
+ */
+export const signInHandler: AppRouteHandler<SignInRoute> = async (c) => {
+  const body = c.req.valid("json");
+  const prisma = c.get("prisma");
+
+  const result = await authenticateUser(prisma, c.get("events"), body);
+
+  if (result.outcome === "locked") {
+    throw accountLockedError(c, result.userId, result.lockout);
+  }
+
+  const { user } = result;
+
+  if (user.twoFactorEnabledAt) {
+    const challenge = await createTwoFactorChallenge(prisma, user.id);
+    c.get("logger").info("Two-factor challenge issued", {
+      ...c.get("logContext"),
+      userId: user.id,
+      action: "auth.signin.2fa_challenge",
+    });
+    return ok(c, { twoFactorRequired: true as const, ...challenge }, 200);
+  }
+
+  const refreshToken = await startSession(prisma, user.id, sessionMetadata(c));
+
+  c.get("logger").info("User signed in", {
+    ...c.get("logContext"),
+    userId: user.id,
+    action: "auth.signin",
+  });
+
+  return ok(c, await createAuthSession(user, refreshToken), 200);
+};
+
+/**
+ * Refresh handler - rotates the refresh token and issues a new pair
+ */
+export const refreshHandler: AppRouteHandler<RefreshRoute> = async (c) => {
+  const { refreshToken } = c.req.valid("json");
+
+  const result = await rotateRefreshToken(c.get("prisma"), c.get("events"), refreshToken, sessionMetadata(c));
+
+  if (result.outcome === "reused") {
+    c.get("logger").security("Refresh token reuse detected, token family revoked", {
+      ...c.get("logContext"),
+      userId: result.userId,
+      familyId: result.familyId,
+      action: "auth.refresh.reuse",
+    });
+    throw AppError.invalidRefreshToken();
+  }
+
+  return ok(c, await createAuthSession(result.user, result.refreshToken), 200);
+};
+
+/**
+ * Current-user handler - returns the signed-in user
+ */
+export const meHandler: AppRouteHandler<MeRoute> = async (c) => {
+  const { userId } = getPrincipal(c);
+
+  const user = await getCurrentUser(c.get("prisma"), userId);
+
+  return ok(c, toAuthUser(user), 200);
+};
+
+/**
+ * Forgot-password handler - always answers with the same message
+ *
+ * Delivery failures are logged but not reported, otherwise the
+ * response would reveal that the account exists.
+ */
+export const forgotPasswordHandler: AppRouteHandler<ForgotPasswordRoute> = async (c) => {
+  const { email } = c.req.valid("json");
+  const logger = c.get("logger");
+
+  try {
+    const userId = await requestPasswordReset(c.get("prisma"), c.get("mailer"), email);
+    if (userId) {
+      logger.info("Password reset requested", {
+        ...c.get("logContext"),
+        userId,
+        action: "auth.password_reset.request",
+      });
+    }
+  }
+  catch (error) {
+    logger.error("Password reset request failed", {
+      ...c.get("logContext"),
+      action: "auth.password_reset.request",
+      error: error instanceof Error ? { name: error.name, message: error.message } : undefined,
+    });
+  }
+
+  return ok(c, { message: PASSWORD_RESET_REQUESTED_MESSAGE }, 200);
+};
+
+/**
+ * Reset-password handler - sets the new password and revokes sessions
+ */
+export const resetPasswordHandler: AppRouteHandler<ResetPasswordRoute> = async (c) => {
+  const body = c.req.valid("json");
+
+  const userId = await resetPassword(c.get("prisma"), c.get("events"), body);
+
+  c.get("logger").security("Password reset completed, sessions revoked", {
+    ...c.get("logContext"),
+    userId,
+    action: "auth.password_reset.complete",
+  });
+
+  return ok(c, { message: "Your password has been changed. Please sign in." }, 200);
+};
+
+/**
+ * Verify-email handler - marks the email address as verified
+ */
+export const verifyEmailHandler: AppRouteHandler<VerifyEmailRoute> = async (c) => {
+  const { token } = c.req.valid("param");
+
+  const userId = await verifyEmail(c.get("prisma"), c.get("events"), token);
+
+  c.get("logger").info("Email verified", {
+    ...c.get("logContext"),
+    userId,
+    action: "auth.email_verification.complete",
+  });
+
+  return ok(c, { message: "Your email address has been verified." }, 200);
+};
+
+/**
+ * Resend-verification handler - always answers with the same message
+ */
+export const resendVerificationHandler: AppRouteHandler<ResendVerificationRoute> = async (c) => {
+  const { email } = c.req.valid("json");
+  const logger = c.get("logger");
+
+  try {
+    const userId = await resendEmailVerification(c.get("prisma"), c.get("mailer"), email);
+    if (userId) {
+      logger.info("Verification email resent", {
+        ...c.get("logContext"),
+        userId,
+        action: "auth.email_verification.resend",
+      });
+    }
+  }
+  catch (error) {
+    logger.error("Verification email resend failed", {
+      ...c.get("logContext"),
+      action: "auth.email_verification.resend",
+      error: error instanceof Error ? { name: error.name, message: error.message } : undefined,
+    });
+  }
+
+  return ok(c, { message: VERIFICATION_RESENT_MESSAGE }, 200);
+};
+
+/**
+ * 2FA setup handler - starts TOTP enrollment for the signed-in user
+ */
+export const setupTwoFactorHandler: AppRouteHandler<SetupTwoFactorRoute> = async (c) => {
+  const { userId } = getPrincipal(c);
+
+  const enrollment = await startTwoFactorEnrollment(c.get("prisma"), userId);
+
+  return ok(c, enrollment, 200);
+};
+
+/**
+ * 2FA enable handler - confirms enrollment and returns recovery codes
+ */
+export const enableTwoFactorHandler: AppRouteHandler<EnableTwoFactorRoute> = async (c) => {
+  const { code } = c.req.valid("json");
+  const { userId } = getPrincipal(c);
+
+  const recoveryCodes = await confirmTwoFactorEnrollment(c.get("prisma"), c.get("events"), userId, code);
+
+  c.get("logger").security("Two-factor authentication enabled", {
+    ...c.get("logContext"),
+    userId,
+    action: "auth.2fa.enable",
+  });
+
+  return ok(c, { recoveryCodes }, 200);
+};
+
+/**
+ * 2FA verify handler - completes a sign-in challenge and issues a token pair
+ */
+export const verifyTwoFactorHandler: AppRouteHandler<VerifyTwoFactorRoute> = async (c) => {
+  const body = c.req.valid("json");
+  const prisma = c.get("prisma");
+
+  const result = await verifyTwoFactorChallenge(prisma, c.get("events"), body);
+
+  if (result.outcome === "locked") {
+    throw accountLockedError(c, result.userId, result.lockout);
+  }
+
+  const { user, method } = result;
+  const refreshToken = await startSession(prisma, user.id, sessionMetadata(c));
+
+  const logContext = { ...c.get("logContext"), userId: user.id, action: "auth.signin.2fa", method };
+  if (method === "recovery_code") {
+    c.get("logger").security("User signed in with a recovery code", logContext);
+  }
+  else {
+    c.get("logger").info("User signed in", logContext);
+  }
+
+  return ok(c, await createAuthSession(user, refreshToken), 200);
+};
+
+/**
+ * SSO authorize handler - starts a sign-in at the identity provider
+ */
+export const oidcAuthorizeHandler: AppRouteHandler<OidcAuthorizeRoute> = async (c) => {
+  const client = requireOidcClient(c.get("oidc"));
+
+  const authorization = await startOidcSignIn(c.get("prisma"), client);
+
+  return ok(c, authorization, 200);
+};
+
+/**
+ * SSO callback handler - signs in the user linked to the provider
+ * identity, or issues a two-factor challenge like password sign-in
+ */
+export const oidcCallbackHandler: AppRouteHandler<OidcCallbackRoute> = async (c) => {
+  const body = c.req.valid("json");
+  const prisma = c.get("prisma");
+  const client = requireOidcClient(c.get("oidc"));
+
+  const user = await completeOidcSignIn(prisma, c.get("events"), client, body);
+
+  const retryAfter = lockoutRemainingSeconds(user);
+  if (retryAfter > 0) {
+    throw AppError.accountLocked(retryAfter);
+  }
+  if (!user.active) {
+    throw AppError.accountInactive();
+  }
+
+  if (user.twoFactorEnabledAt) {
+    const challenge = await createTwoFactorChallenge(prisma, user.id);
+    c.get("logger").info("Two-factor challenge issued", {
+      ...c.get("logContext"),
+      userId: user.id,
+      action: "auth.signin.2fa_challenge",
+      method: "oidc",
+    });
+    return ok(c, { twoFactorRequired: true as const, ...challenge }, 200);
+  }
+
+  const refreshToken = await startSession(prisma, user.id, sessionMetadata(c));
+
+  c.get("logger").info("User signed in", {
+    ...c.get("logContext"),
+    userId: user.id,
+    issuer: client.issuer,
+    action: "auth.signin.oidc",
+  });
+
+  return ok(c, await createAuthSession(user, refreshToken), 200);
+};
+
+/**
+ * Session list handler - returns the user's signed-in devices
+ */
+export const listSessionsHandler: AppRouteHandler<ListSessionsRoute> = async (c) => {
+  const { userId, sessionId } = getPrincipal(c);
+
+  const sessions = await listSessions(c.get("prisma"), userId, sessionId);
+
+  return ok(c, sessions, 200);
+};
+
+/**
+ * Session revoke handler - signs one of the user's devices out
+ */
+export const revokeSessionHandler: AppRouteHandler<RevokeSessionRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId, sessionId } = getPrincipal(c);
+
+  await revokeSession(c.get("prisma"), c.get("events"), userId, id);
+
+  c.get("logger").security("Session revoked", {
+    ...c.get("logContext"),
+    userId,
+    sessionId: id,
+    current: id === sessionId,
+    action: "auth.session.revoke",
+  });
+
+  return noContent(c);
+};
@@ -0,0 +1,386 @@
+/**
+ * Auth Module Routes
+ *
+ * OpenAPI route definitions for authentication endpoints:
+ * - POST /auth/signup: Register a new account
+ * - POST /auth/signin: Exchange credentials for an access/refresh token pair
+ * - POST /auth/refresh: Rotate a refresh token for a new pair
+ * - GET /auth/me: Current user (authenticated)
+ * - POST /auth/forgot-password: Email a password reset link
+ * - POST /auth/reset-password: Set a new password with a reset token
+ * - POST /auth/verify-email/{token}: Verify the email address with a verification token
+ * - POST /auth/resend-verification: Email a new verification link
+ * - POST /auth/2fa/setup: Start TOTP enrollment (authenticated)
+ * - POST /auth/2fa/enable: Confirm enrollment and receive recovery codes (authenticated)
+ * - POST /auth/2fa/verify: Complete a two-factor sign-in challenge
+ * - GET /auth/oidc/authorize: Start an SSO sign-in at the identity provider
+ * - POST /auth/oidc/callback: Complete an SSO sign-in
+ * - GET /auth/sessions: List signed-in devices (authenticated)
+ * - DELETE /auth/sessions/{id}: Sign a device out (authenticated)
+ *
+ * All endpoints except /auth/me, 2FA enrollment and sessions are public; all are
+ * covered by the auth rate limiter.
+ *
+ * @module modules/auth/auth.routes
+ */
+
+import { createRoute } from "@hono/zod-openapi";
+
+import { ACCESS_SCOPES } from "@/lib/authorization";
+import { HTTP_STATUS } from "@/lib/http-status";
+import { jsonContent, jsonContentRequired } from "@/lib/openapi/helpers";
+import { requireScope } from "@/middlewares/authorization.middleware";
+import {
+  badRequestEnvelopeSchema,
+  conflictEnvelopeSchema,
+  forbiddenEnvelopeSchema,
+  notFoundEnvelopeSchema,
+  serviceUnavailableEnvelopeSchema,
+  unauthorizedEnvelopeSchema,
+  validationErrorEnvelopeSchema,
+} from "@/schemas/envelope.schema";
+
+import {
+  authMessageEnvelopeSchema,
+  authSessionEnvelopeSchema,
+  authUserEnvelopeSchema,
+  enableTwoFactorBodySchema,
+  forgotPasswordBodySchema,
+  oidcAuthorizationEnvelopeSchema,
+  oidcCallbackBodySchema,
+  recoveryCodesEnvelopeSchema,
+  refreshBodySchema,
+  resendVerificationBodySchema,
+  resetPasswordBodySchema,
+  sessionIdParamSchema,
+  sessionListEnvelopeSchema,
+  signInBodySchema,
+  signInResultEnvelopeSchema,
+  signUpBodySchema,
+  signUpResultEnvelopeSchema,
+  twoFactorEnrollmentEnvelopeSchema,
+  verifyEmailParamSchema,
+  verifyTwoFactorBodySchema,
+} from "./auth.schema";
+
+const tags = ["Auth"];
+
+// =================================================================
+// SIGN-UP ROUTE
+// =================================================================
+
+export const signUp = createRoute({
+  path: "/auth/signup",
+  method: "post",
+  tags,
+  summary: "Register a new account",
+  description: "Creates a user with an argon2id-hashed password and emails a verification link. "
+    + "Returns a session, or `{ verificationRequired: true, user }` when EMAIL_VERIFICATION_POLICY=block.",
+  request: {
+    body: jsonContentRequired(signUpBodySchema, "Account details"),
+  },
+  responses: {
+    [HTTP_STATUS.CREATED]: jsonContent(signUpResultEnvelopeSchema, "Account created"),
+    [HTTP_STATUS.CONFLICT]: jsonContent(conflictEnvelopeSchema, "Email already registered"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// SIGN-IN ROUTE
+// =================================================================
+
+export const signIn = createRoute({
+  path: "/auth/signin",
+  method: "post",
+  tags,
+  summary: "Sign in with email and password",
+  description: "Verifies credentials and returns a signed JWT with `sub`, `role` and `email_verified` claims "
+    + "plus a refresh token. Fails with E2001 for invalid credentials, E2008 for inactive accounts, "
+    + "E2009 while the account is locked after repeated failures and "
+    + "E2013 for unverified emails when EMAIL_VERIFICATION_POLICY=block. "
+    + "Users with two-factor authentication receive `{ twoFactorRequired: true, challengeToken }` instead "
+    + "of a session; complete it at `/auth/2fa/verify`.",
+  request: {
+    body: jsonContentRequired(signInBodySchema, "Credentials"),
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(signInResultEnvelopeSchema, "Signed in or two-factor challenge issued"),
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Invalid credentials (E2001)"),
+    [HTTP_STATUS.FORBIDDEN]: jsonContent(forbiddenEnvelopeSchema, "Account inactive (E2008), locked (E2009) or email not verified (E2013)"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// CURRENT USER ROUTE
+// =================================================================
+
+export const me = createRoute({
+  path: "/auth/me",
+  method: "get",
+  tags,
+  middleware: [requireScope(ACCESS_SCOPES.ACCOUNT)] as const,
+  summary: "Get the current user",
+  description: "Returns the signed-in user. Clients call it on start-up to restore the user of a "
+    + "persisted access token; `401` means the token is no longer valid.",
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(authUserEnvelopeSchema, "Current user"),
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Authentication required"),
+  },
+});
+
+// =================================================================
+// REFRESH ROUTE
+// =================================================================
+
+export const refresh = createRoute({
+  path: "/auth/refresh",
+  method: "post",
+  tags,
+  summary: "Rotate a refresh token",
+  description: "Exchanges a refresh token for a new access/refresh token pair. "
+    + "Each refresh token is single-use; presenting a used token revokes every token "
+    + "issued from the same sign-in (E2007).",
+  request: {
+    body: jsonContentRequired(refreshBodySchema, "Refresh token"),
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(authSessionEnvelopeSchema, "Token pair rotated"),
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Invalid, expired or reused refresh token (E2007)"),
+    [HTTP_STATUS.FORBIDDEN]: jsonContent(forbiddenEnvelopeSchema, "Account inactive (E2008) or email not verified (E2013)"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// PASSWORD RESET ROUTES
+// =================================================================
+
+export const forgotPassword = createRoute({
+  path: "/auth/forgot-password",
+  method: "post",
+  tags,
+  summary: "Request a password reset link",
+  description: "Emails a single-use reset link when the account exists. "
+    + "The response is identical for unknown emails to prevent account enumeration.",
+  request: {
+    body: jsonContentRequired(forgotPasswordBodySchema, "Account email"),
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(authMessageEnvelopeSchema, "Request accepted"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const resetPassword = createRoute({
+  path: "/auth/reset-password",
+  method: "post",
+  tags,
+  summary: "Reset password with a reset token",
+  description: "Sets a new password and signs the account out of every device. "
+    + "Fails with E2012 when the token is invalid, expired or already used.",
+  request: {
+    body: jsonContentRequired(resetPasswordBodySchema, "Reset token and new password"),
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(authMessageEnvelopeSchema, "Password changed"),
+    [HTTP_STATUS.BAD_REQUEST]: jsonContent(badRequestEnvelopeSchema, "Invalid reset token (E2012)"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// EMAIL VERIFICATION ROUTES
+// =================================================================
+
+export const verifyEmail = createRoute({
+  path: "/auth/verify-email/{token}",
+  method: "post",
+  tags,
+  summary: "Verify email address",
+  description: "Marks the account email as verified. Tokens issued afterwards carry `email_verified: true`. "
+    + "Fails with E2014 when the token is invalid, expired or already used.",
+  request: {
+    params: verifyEmailParamSchema,
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(authMessageEnvelopeSchema, "Email verified"),
+    [HTTP_STATUS.BAD_REQUEST]: jsonContent(badRequestEnvelopeSchema, "Invalid verification token (E2014)"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const resendVerification = createRoute({
+  path: "/auth/resend-verification",
+  method: "post",
+  tags,
+  summary: "Resend the verification link",
+  description: "Emails a new verification link to an unverified account. "
+    + "The response is identical for unknown emails to prevent account enumeration. "
+    + "Rate limited per client by EMAIL_VERIFICATION_RESEND_MAX.",
+  request: {
+    body: jsonContentRequired(resendVerificationBodySchema, "Account email"),
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(authMessageEnvelopeSchema, "Request accepted"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// TWO-FACTOR ROUTES
+// =================================================================
+
+export const setupTwoFactor = createRoute({
+  path: "/auth/2fa/setup",
+  method: "post",
+  tags,
+  summary: "Start two-factor enrollment",
+  description: "Generates a TOTP secret and otpauth URI for the signed-in user. "
+    + "Two-factor authentication is enforced only after `/auth/2fa/enable` confirms a first code.",
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(twoFactorEnrollmentEnvelopeSchema, "Enrollment started"),
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Authentication required"),
+    [HTTP_STATUS.CONFLICT]: jsonContent(conflictEnvelopeSchema, "Two-factor authentication already enabled"),
+    [HTTP_STATUS.SERVICE_UNAVAILABLE]: jsonContent(
+      serviceUnavailableEnvelopeSchema,
+      "TWO_FACTOR_ENCRYPTION_KEY is not configured",
+    ),
+  },
+});
+
+export const enableTwoFactor = createRoute({
+  path: "/auth/2fa/enable",
+  method: "post",
+  tags,
+  summary: "Enable two-factor authentication",
+  description: "Confirms enrollment with a code from the authenticator app and returns one-time "
+    + "recovery codes. The codes are shown only once.",
+  request: {
+    body: jsonContentRequired(enableTwoFactorBodySchema, "Authenticator code"),
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(recoveryCodesEnvelopeSchema, "Two-factor authentication enabled"),
+    [HTTP_STATUS.BAD_REQUEST]: jsonContent(badRequestEnvelopeSchema, "Enrollment not started or invalid code (E2015)"),
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Authentication required"),
+    [HTTP_STATUS.CONFLICT]: jsonContent(conflictEnvelopeSchema, "Two-factor authentication already enabled"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const verifyTwoFactor = createRoute({
+  path: "/auth/2fa/verify",
+  method: "post",
+  tags,
+  summary: "Complete a two-factor sign-in",
+  description: "Exchanges a sign-in challenge and an authenticator or recovery code for a session. "
+    + "Each recovery code works once. Failed codes count towards the account lockout (E2009).",
+  request: {
+    body: jsonContentRequired(verifyTwoFactorBodySchema, "Challenge token and code"),
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(authSessionEnvelopeSchema, "Signed in"),
+    [HTTP_STATUS.BAD_REQUEST]: jsonContent(badRequestEnvelopeSchema, "Invalid code (E2015) or challenge (E2016)"),
+    [HTTP_STATUS.FORBIDDEN]: jsonContent(forbiddenEnvelopeSchema, "Account locked (E2009)"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// SSO (OIDC) ROUTES
+// =================================================================
+
+export const oidcAuthorize = createRoute({
+  path: "/auth/oidc/authorize",
+  method: "get",
+  tags,
+  summary: "Start an SSO sign-in",
+  description: "Creates a single-use `state`, `nonce` and PKCE verifier and returns the identity provider "
+    + "URL to send the browser to. The provider redirects to OIDC_REDIRECT_URI with `code` and `state`, "
+    + "which the client posts to `/auth/oidc/callback`. 404 while SSO is not configured.",
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(oidcAuthorizationEnvelopeSchema, "Authorization URL"),
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Provider metadata rejected (E2018)"),
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "SSO not configured"),
+  },
+});
+
+export const oidcCallback = createRoute({
+  path: "/auth/oidc/callback",
+  method: "post",
+  tags,
+  summary: "Complete an SSO sign-in",
+  description: "Exchanges the authorization code, validates the ID token and signs in the user linked to "
+    + "the provider identity. On the first sign-in the identity is linked to the account with the same "
+    + "verified email address, or a new account is created. Returns the same result as `/auth/signin`.",
+  request: {
+    body: jsonContentRequired(oidcCallbackBodySchema, "Authorization response"),
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(signInResultEnvelopeSchema, "Signed in or two-factor challenge issued"),
+    [HTTP_STATUS.BAD_REQUEST]: jsonContent(badRequestEnvelopeSchema, "Invalid, expired or used state (E2017)"),
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Code exchange or ID token rejected (E2018)"),
+    [HTTP_STATUS.FORBIDDEN]: jsonContent(forbiddenEnvelopeSchema, "Account inactive (E2008) or locked (E2009)"),
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "SSO not configured"),
+    [HTTP_STATUS.CONFLICT]: jsonContent(conflictEnvelopeSchema, "Matching account has an unverified email"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// SESSION ROUTES
+// =================================================================
+
+export const listSessions = createRoute({
+  path: "/auth/sessions",
+  method: "get",
+  tags,
+  middleware: [requireScope(ACCESS_SCOPES.ACCOUNT)] as const,
+  summary: "List sessions",
+  description: "Lists the devices the user is signed in on, most recently used first. "
+    + "The session of the request is flagged as `current`.",
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(sessionListEnvelopeSchema, "Active sessions"),
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Authentication required"),
+  },
+});
+
+export const revokeSession = createRoute({
+  path: "/auth/sessions/{id}",
+  method: "delete",
+  tags,
+  middleware: [requireScope(ACCESS_SCOPES.ACCOUNT)] as const,
+  summary: "Revoke a session",
+  description: "Signs the device out: its refresh tokens stop working and its access tokens "
+    + "are refused from the next request on. Revoking the current session signs the caller out.",
+  request: {
+    params: sessionIdParamSchema,
+  },
+  responses: {
+    [HTTP_STATUS.NO_CONTENT]: { description: "Session revoked" },
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Authentication required"),
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "Session not found"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// TYPE EXPORTS
+// =================================================================
+
+export type SignUpRoute = typeof signUp;
+export type SignInRoute = typeof signIn;
+export type RefreshRoute = typeof refresh;
+export type MeRoute = typeof me;
+export type ForgotPasswordRoute = typeof forgotPassword;
+export type ResetPasswordRoute = typeof resetPassword;
+export type VerifyEmailRoute = typeof verifyEmail;
+export type ResendVerificationRoute = typeof resendVerification;
+export type SetupTwoFactorRoute = typeof setupTwoFactor;
+export type EnableTwoFactorRoute = typeof enableTwoFactor;
+export type VerifyTwoFactorRoute = typeof verifyTwoFactor;
+export type OidcAuthorizeRoute = typeof oidcAuthorize;
+export type OidcCallbackRoute = typeof oidcCallback;
+export type ListSessionsRoute = typeof listSessions;
+export type RevokeSessionRoute = typeof revokeSession;
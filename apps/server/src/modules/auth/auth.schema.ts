@@ -0,0 +1,268 @@
+/**
+ * Auth Module Schemas
+ *
+ * OpenAPI schemas for sign-in, sign-up, token refresh, password reset,
+ * email verification, two-factor authentication, SSO and session endpoints.
+ * Bodies and session shapes shared with the client come from @repo/shared.
+ *
+ * @module modules/auth/auth.schema
+ */
+
+import { z } from "@hono/zod-openapi";
+import {
+  authMessageSchema as sharedAuthMessageSchema,
+  authSessionSchema as sharedAuthSessionSchema,
+  authUserSchema as sharedAuthUserSchema,
+  forgotPasswordBodySchema as sharedForgotPasswordBodySchema,
+  oidcAuthorizationSchema as sharedOidcAuthorizationSchema,
+  oidcCallbackBodySchema as sharedOidcCallbackBodySchema,
+  pendingVerificationSchema as sharedPendingVerificationSchema,
+  refreshBodySchema as sharedRefreshBodySchema,
+  resendVerificationBodySchema as sharedResendVerificationBodySchema,
+  resetPasswordBodySchema as sharedResetPasswordBodySchema,
+  signInBodySchema as sharedSignInBodySchema,
+  signUpBodySchema as sharedSignUpBodySchema,
+  twoFactorChallengeSchema as sharedTwoFactorChallengeSchema,
+  verifyTwoFactorBodySchema as sharedVerifyTwoFactorBodySchema,
+} from "@repo/shared";
+
+import { createSuccessEnvelopeSchema } from "@/schemas/envelope.schema";
+
+export { PASSWORD_MIN_LENGTH } from "@repo/shared";
+export type {
+  AuthSession,
+  AuthUser,
+  ForgotPasswordBody,
+  OidcAuthorization,
+  PendingVerification,
+  RefreshBody,
+  ResendVerificationBody,
+  ResetPasswordBody,
+  SignInBody,
+  SignUpBody,
+  VerifyTwoFactorBody,
+} from "@repo/shared";
+
+// =================================================================
+// REQUEST SCHEMAS
+// =================================================================
+
+/**
+ * Sign-in request body
+ */
+export const signInBodySchema = sharedSignInBodySchema.openapi("SignInBody");
+
+/**
+ * Sign-up request body
+ */
+export const signUpBodySchema = sharedSignUpBodySchema.openapi("SignUpBody");
+
+/**
+ * Token refresh request body
+ */
+export const refreshBodySchema = sharedRefreshBodySchema.openapi("RefreshBody");
+
+/**
+ * Forgot-password request body
+ */
+export const forgotPasswordBodySchema = sharedForgotPasswordBodySchema.openapi("ForgotPasswordBody");
+
+/**
+ * Reset-password request body
+ */
+export const resetPasswordBodySchema = sharedResetPasswordBodySchema.openapi("ResetPasswordBody");
+
+/**
+ * Verify-email path parameters
+ */
+export const verifyEmailParamSchema = z.object({
+  token: z.string().min(1).openapi({
+    param: { name: "token", in: "path" },
+    description: "Verification token from the emailed link",
+    example: "hV2n8Qe0sT4mK1pW7cZ3yB6xR9dL5aG0jF2uN8oI4rE",
+  }),
+});
+
+/**
+ * Session path parameters
+ */
+export const sessionIdParamSchema = z.object({
+  id: z.uuid().openapi({
+    param: { name: "id", in: "path" },
+    description: "Session ID",
+    example: "3f2b8c1e-9d4a-4e7b-8a6c-1d2e3f4a5b6c",
+  }),
+});
+
+/**
+ * Resend-verification request body
+ */
+export const resendVerificationBodySchema = sharedResendVerificationBodySchema.openapi("ResendVerificationBody");
+
+/**
+ * Two-factor enrollment confirmation body
+ */
+export const enableTwoFactorBodySchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Expected a 6-digit code").openapi({
+    description: "Current code from the authenticator app",
+    example: "123456",
+  }),
+}).openapi("EnableTwoFactorBody");
+
+/**
+ * Two-factor sign-in verification body
+ */
+export const verifyTwoFactorBodySchema = sharedVerifyTwoFactorBodySchema.openapi("VerifyTwoFactorBody");
+
+/**
+ * SSO callback body - the authorization response parameters received by
+ * the redirect URI
+ */
+export const oidcCallbackBodySchema = sharedOidcCallbackBodySchema.openapi("OidcCallbackBody");
+
+// =================================================================
+// RESPONSE SCHEMAS
+// =================================================================
+
+/**
+ * Public user representation (password hash is never serialized)
+ */
+export const authUserSchema = sharedAuthUserSchema.openapi("AuthUser");
+
+/**
+ * Issued session - access/refresh token pair plus the authenticated user
+ */
+export const authSessionSchema = sharedAuthSessionSchema
+  .extend({ user: authUserSchema })
+  .openapi("AuthSession");
+
+export const authUserEnvelopeSchema = createSuccessEnvelopeSchema(
+  authUserSchema,
+  "AuthUserEnvelope",
+);
+
+export const authSessionEnvelopeSchema = createSuccessEnvelopeSchema(
+  authSessionSchema,
+  "AuthSessionEnvelope",
+);
+
+/**
+ * Sign-in result for users with two-factor authentication - the session
+ * is issued by `/auth/2fa/verify`
+ */
+export const twoFactorChallengeSchema = sharedTwoFactorChallengeSchema.openapi("TwoFactorChallenge");
+
+export const signInResultEnvelopeSchema = createSuccessEnvelopeSchema(
+  z.union([authSessionSchema, twoFactorChallengeSchema]).openapi("SignInResult"),
+  "SignInResultEnvelope",
+);
+
+/**
+ * Started SSO sign-in - send the browser to `authorizationUrl` and keep
+ * `state` to check it against the authorization response
+ */
+export const oidcAuthorizationSchema = sharedOidcAuthorizationSchema.openapi("OidcAuthorization");
+
+export const oidcAuthorizationEnvelopeSchema = createSuccessEnvelopeSchema(
+  oidcAuthorizationSchema,
+  "OidcAuthorizationEnvelope",
+);
+
+/**
+ * Two-factor enrollment - scan `otpauthUri` as a QR code or type `secret`
+ */
+export const twoFactorEnrollmentSchema = z.object({
+  secret: z.string().openapi({
+    description: "Base32 TOTP secret",
+    example: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+  }),
+  otpauthUri: z.string().openapi({
+    description: "Provisioning URI for authenticator apps (QR code content)",
+    example: "otpauth://totp/API%20Template%3Ajane.doe%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP"
+      + "&issuer=API+Template&algorithm=SHA1&digits=6&period=30",
+  }),
+}).openapi("TwoFactorEnrollment");
+
+export const twoFactorEnrollmentEnvelopeSchema = createSuccessEnvelopeSchema(
+  twoFactorEnrollmentSchema,
+  "TwoFactorEnrollmentEnvelope",
+);
+
+/**
+ * One-time recovery codes, shown once when two-factor authentication is enabled
+ */
+export const recoveryCodesSchema = z.object({
+  recoveryCodes: z.array(z.string()).openapi({
+    description: "Single-use codes accepted instead of an authenticator code",
+    example: ["k4d2m-x7q9p", "b3n8r-w2c5t"],
+  }),
+}).openapi("RecoveryCodes");
+
+export const recoveryCodesEnvelopeSchema = createSuccessEnvelopeSchema(
+  recoveryCodesSchema,
+  "RecoveryCodesEnvelope",
+);
+
+/**
+ * Signed-in device
+ */
+export const sessionSchema = z.object({
+  id: z.string().openapi({
+    description: "Session ID",
+    example: "3f2b8c1e-9d4a-4e7b-8a6c-1d2e3f4a5b6c",
+  }),
+  device: z.string().optional().openapi({
+    description: "Browser and operating system derived from the user agent",
+    example: "Chrome on macOS",
+  }),
+  userAgent: z.string().optional().openapi({
+    description: "User agent at sign-in",
+    example: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0 Safari/537.36",
+  }),
+  ipAddress: z.string().optional().openapi({
+    description: "Client IP of the latest sign-in or token refresh",
+    example: "203.0.113.7",
+  }),
+  lastSeenAt: z.string().openapi({
+    description: "Last activity (ISO 8601)",
+    example: "2025-01-15T10:30:00.000Z",
+  }),
+  createdAt: z.string().openapi({
+    description: "Sign-in time (ISO 8601)",
+    example: "2025-01-15T10:30:00.000Z",
+  }),
+  current: z.boolean().openapi({
+    description: "Whether this is the session of the request",
+    example: true,
+  }),
+}).openapi("Session");
+
+export type SessionResponse = z.infer<typeof sessionSchema>;
+
+export const sessionListEnvelopeSchema = createSuccessEnvelopeSchema(
+  z.array(sessionSchema),
+  "SessionListEnvelope",
+);
+
+/**
+ * Sign-up result when EMAIL_VERIFICATION_POLICY=block - no session is
+ * issued until the emailed link is opened
+ */
+export const pendingVerificationSchema = sharedPendingVerificationSchema
+  .extend({ user: authUserSchema })
+  .openapi("PendingVerification");
+
+export const signUpResultEnvelopeSchema = createSuccessEnvelopeSchema(
+  z.union([authSessionSchema, pendingVerificationSchema]).openapi("SignUpResult"),
+  "SignUpResultEnvelope",
+);
+
+/**
+ * Generic acknowledgement message
+ */
+export const authMessageSchema = sharedAuthMessageSchema.openapi("AuthMessage");
+
+export const authMessageEnvelopeSchema = createSuccessEnvelopeSchema(
+  authMessageSchema,
+  "AuthMessageEnvelope",
+);
@@ -0,0 +1,225 @@
+/**
+ * Auth Service - Credential Checks and Session Issuing
+ *
+ * Registers users and verifies credentials against argon2id hashes.
+ * Used by auth handlers for sign-up and sign-in. Failed sign-ins feed
+ * the per-account lockout (see account-lockout.service).
+ *
+ * @module modules/auth/auth.service
+ */
+
+import type { PrismaClient, User } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+import { publishUserChanged, toPublicUser } from "@/lib/events";
+import { signAccessToken } from "@/lib/jwt";
+import { hashPassword, verifyPassword } from "@/lib/password";
+import { isUniqueConstraintError } from "@/lib/prisma-errors";
+
+import type { AccountLockout } from "./account-lockout.service";
+import type { AuthSession, AuthUser, SignInBody, SignUpBody } from "./auth.schema";
+import type { IssuedRefreshToken } from "./refresh-token.service";
+
+import {
+  clearFailedSignIns,
+  lockoutRemainingSeconds,
+  recordFailedSignIn,
+} from "./account-lockout.service";
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+/**
+ * Normalizes an email address for storage and lookup
+ */
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Maps a User row to its public representation (drops the password hash)
+ */
+export function toAuthUser(user: User): AuthUser {
+  return {
+    id: user.id,
+    email: user.email,
+    active: user.active,
+    firstName: user.firstName ?? undefined,
+    lastName: user.lastName ?? undefined,
+    role: user.role,
+    emailVerified: user.emailVerifiedAt !== null,
+  };
+}
+
+/**
+ * Whether EMAIL_VERIFICATION_POLICY refuses sign-in for this user
+ */
+export function isBlockedByEmailVerification(user: User) {
+  return env.EMAIL_VERIFICATION_POLICY === "block" && user.emailVerifiedAt === null;
+}
+
+/**
+ * Hash used when the email is unknown, so that sign-in takes the same
+ * time whether or not the account exists (prevents user enumeration).
+ */
+let dummyHashPromise: Promise<string> | undefined;
+
+function getDummyHash() {
+  dummyHashPromise ??= hashPassword("dummy-password-for-timing-equalization");
+  return dummyHashPromise;
+}
+
+/**
+ * Issues an access token for the user and pairs it with the refresh token
+ */
+export async function createAuthSession(
+  user: User,
+  refreshToken: IssuedRefreshToken,
+): Promise<AuthSession> {
+  const { token, expiresIn } = await signAccessToken({
+    sub: user.id,
+    role: user.role,
+    emailVerified: user.emailVerifiedAt !== null,
+    sessionId: refreshToken.familyId,
+  });
+
+  return {
+    accessToken: token,
+    tokenType: "Bearer",
+    expiresIn,
+    refreshToken: refreshToken.token,
+    refreshExpiresIn: refreshToken.expiresIn,
+    user: toAuthUser(user),
+  };
+}
+
+/**
+ * Loads the signed-in user
+ *
+ * @throws AppError.unauthorized when the account no longer exists
+ */
+export async function getCurrentUser(prisma: PrismaClient, userId: string): Promise<User> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw AppError.unauthorized("The account no longer exists");
+  }
+  return user;
+}
+
+// =================================================================
+// SIGN-UP
+// =================================================================
+
+/**
+ * Registers a new user
+ *
+ * @throws AppError.conflict if the email is already registered
+ */
+export async function registerUser(
+  prisma: PrismaClient,
+  events: EventBus,
+  input: SignUpBody,
+): Promise<User> {
+  const email = normalizeEmail(input.email);
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    throw AppError.conflict("An account with this email already exists");
+  }
+
+  const password = await hashPassword(input.password);
+
+  let user;
+  try {
+    user = await prisma.user.create({
+      data: {
+        email,
+        password,
+        firstName: input.firstName,
+        lastName: input.lastName,
+      },
+    });
+  }
+  catch (error) {
+    // A concurrent sign-up with the same email passed the check above too
+    if (isUniqueConstraintError(error)) {
+      throw AppError.conflict("An account with this email already exists");
+    }
+    throw error;
+  }
+
+  await publishUserChanged(events, "created", toPublicUser(user));
+  return user;
+}
+
+// =================================================================
+// SIGN-IN
+// =================================================================
+
+/**
+ * Result of a sign-in attempt
+ *
+ * `locked` means this failed attempt locked the account; the caller
+ * should log it and answer with AppError.accountLocked.
+ */
+export type SignInResult
+  = | { outcome: "authenticated"; user: User }
+    | { outcome: "locked"; userId: string; lockout: AccountLockout };
+
+/**
+ * Verifies credentials and returns the matching user
+ *
+ * Locked accounts are refused before the password is checked, so
+ * guesses made during a lockout are never evaluated.
+ *
+ * @throws AppError.invalidCredentials for unknown email or wrong password
+ * @throws AppError.accountLocked while the account is locked
+ * @throws AppError.accountInactive when the account is deactivated
+ * @throws AppError.emailNotVerified when EMAIL_VERIFICATION_POLICY=block and the email is unverified
+ */
+export async function authenticateUser(
+  prisma: PrismaClient,
+  events: EventBus,
+  input: SignInBody,
+): Promise<SignInResult> {
+  const user = await prisma.user.findUnique({
+    where: { email: normalizeEmail(input.email) },
+  });
+
+  if (!user) {
+    await verifyPassword(await getDummyHash(), input.password);
+    throw AppError.invalidCredentials();
+  }
+
+  const retryAfter = lockoutRemainingSeconds(user);
+  if (retryAfter > 0) {
+    throw AppError.accountLocked(retryAfter);
+  }
+
+  const valid = await verifyPassword(user.password, input.password);
+  if (!valid) {
+    const lockout = await recordFailedSignIn(prisma, events, user);
+    if (lockout) {
+      return { outcome: "locked", userId: user.id, lockout };
+    }
+    throw AppError.invalidCredentials();
+  }
+
+  // With two-factor enabled the attempt only counts once the code is verified
+  if (!user.twoFactorEnabledAt) {
+    await clearFailedSignIns(prisma, events, user);
+  }
+
+  if (!user.active) {
+    throw AppError.accountInactive();
+  }
+
+  if (isBlockedByEmailVerification(user)) {
+    throw AppError.emailNotVerified();
+  }
+
+  return { outcome: "authenticated", user };
+}
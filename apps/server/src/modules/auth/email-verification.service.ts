@@ -0,0 +1,128 @@
+/**
+ * Email Verification Service - Single-Use Verification Tokens
+ *
+ * Verification tokens are opaque random strings stored only as SHA-256
+ * hashes, expire after EMAIL_VERIFICATION_TOKEN_TTL_SECONDS and can be
+ * used once. Issuing a new token invalidates any earlier unused one.
+ *
+ * @module modules/auth/email-verification.service
+ */
+
+import type { PrismaClient, User } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+import type { Mailer } from "@/lib/mail";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+import { publishUserChanged, toPublicUser } from "@/lib/events";
+import { generateOpaqueToken, hashToken } from "@/lib/token";
+
+import { emailVerificationEmail } from "./auth.emails";
+import { normalizeEmail } from "./auth.service";
+
+/**
+ * Response for every resend request, whether or not the email exists
+ */
+export const VERIFICATION_RESENT_MESSAGE
+  = "If an unverified account with that email exists, a verification link has been sent.";
+
+/**
+ * Issues a verification token for the user and mails the link
+ */
+export async function sendEmailVerification(
+  prisma: PrismaClient,
+  mailer: Mailer,
+  user: Pick<User, "id" | "email">,
+) {
+  const token = generateOpaqueToken();
+  const expiresIn = env.EMAIL_VERIFICATION_TOKEN_TTL_SECONDS;
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.emailVerificationToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.emailVerificationToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + expiresIn * 1000),
+      },
+    }),
+  ]);
+
+  await mailer.send(emailVerificationEmail(user.email, token, expiresIn));
+}
+
+/**
+ * Sends a fresh verification link
+ *
+ * Unknown, inactive and already verified accounts are ignored silently
+ * so the caller cannot tell which emails are registered.
+ *
+ * @returns the user ID when a link was sent (for logging), otherwise null
+ */
+export async function resendEmailVerification(
+  prisma: PrismaClient,
+  mailer: Mailer,
+  email: string,
+): Promise<string | null> {
+  const user = await prisma.user.findUnique({ where: { email: normalizeEmail(email) } });
+  if (!user || !user.active || user.emailVerifiedAt) {
+    return null;
+  }
+
+  await sendEmailVerification(prisma, mailer, user);
+
+  return user.id;
+}
+
+/**
+ * Marks the email address as verified using a verification token
+ *
+ * The token is claimed with a conditional update, so it cannot be
+ * used twice even by concurrent requests.
+ *
+ * @returns the verified user ID
+ * @throws AppError.invalidVerificationToken for unknown, expired or used tokens
+ */
+export async function verifyEmail(
+  prisma: PrismaClient,
+  events: EventBus,
+  token: string,
+): Promise<string> {
+  const record = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!record || record.usedAt || record.expiresAt.getTime() <= Date.now()) {
+    throw AppError.invalidVerificationToken();
+  }
+
+  const verified = await prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const claimed = await tx.emailVerificationToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw AppError.invalidVerificationToken();
+    }
+
+    const updated = await tx.user.updateMany({
+      where: { id: record.userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: now },
+    });
+    return updated.count > 0;
+  });
+
+  if (verified) {
+    const user = await prisma.user.findUnique({ where: { id: record.userId } });
+    if (user) {
+      await publishUserChanged(events, "updated", toPublicUser(user));
+    }
+  }
+
+  return record.userId;
+}
@@ -0,0 +1,97 @@
+/**
+ * Auth Module - Sign-up, Sign-in, Token Refresh, Password Reset, Email
+ * Verification, Two-Factor Authentication, SSO and Sessions
+ *
+ * Provides credential-based authentication endpoints:
+ * - POST /auth/signup: Register a new account
+ * - POST /auth/signin: Sign in and receive an access/refresh token pair
+ * - POST /auth/refresh: Rotate the refresh token
+ * - GET /auth/me: Current user
+ * - POST /auth/forgot-password: Email a password reset link
+ * - POST /auth/reset-password: Set a new password with a reset token
+ * - POST /auth/verify-email/{token}: Verify the email address
+ * - POST /auth/resend-verification: Email a new verification link
+ * - POST /auth/2fa/setup, /auth/2fa/enable: TOTP enrollment
+ * - POST /auth/2fa/verify: Complete a two-factor sign-in
+ * - GET /auth/oidc/authorize, POST /auth/oidc/callback: SSO sign-in (OIDC authorization code + PKCE)
+ * - GET /auth/sessions, DELETE /auth/sessions/{id}: Signed-in devices and remote sign-out
+ *
+ * Mounted under the API prefix (BASE_PATH, default /rest/v1).
+ *
+ * @module modules/auth
+ */
+
+import { createRouter } from "@/lib/create-app";
+
+import {
+  enableTwoFactorHandler,
+  forgotPasswordHandler,
+  listSessionsHandler,
+  meHandler,
+  oidcAuthorizeHandler,
+  oidcCallbackHandler,
+  refreshHandler,
+  resendVerificationHandler,
+  resetPasswordHandler,
+  revokeSessionHandler,
+  setupTwoFactorHandler,
+  signInHandler,
+  signUpHandler,
+  verifyEmailHandler,
+  verifyTwoFactorHandler,
+} from "./auth.handlers";
+import {
+  enableTwoFactor,
+  forgotPassword,
+  listSessions,
+  me,
+  oidcAuthorize,
+  oidcCallback,
+  refresh,
+  resendVerification,
+  resetPassword,
+  revokeSession,
+  setupTwoFactor,
+  signIn,
+  signUp,
+  verifyEmail,
+  verifyTwoFactor,
+} from "./auth.routes";
+
+// =================================================================
+// ROUTER CONFIGURATION
+// =================================================================
+
+const router = createRouter()
+  .openapi(signUp, signUpHandler)
+  .openapi(signIn, signInHandler)
+  .openapi(refresh, refreshHandler)
+  .openapi(me, meHandler)
+  .openapi(forgotPassword, forgotPasswordHandler)
+  .openapi(resetPassword, resetPasswordHandler)
+  .openapi(verifyEmail, verifyEmailHandler)
+  .openapi(resendVerification, resendVerificationHandler)
+  .openapi(setupTwoFactor, setupTwoFactorHandler)
+  .openapi(enableTwoFactor, enableTwoFactorHandler)
+  .openapi(verifyTwoFactor, verifyTwoFactorHandler)
+  .openapi(oidcAuthorize, oidcAuthorizeHandler)
+  .openapi(oidcCallback, oidcCallbackHandler)
+  .openapi(listSessions, listSessionsHandler)
+  .openapi(revokeSession, revokeSessionHandler);
+
+export default router;
+
+// =================================================================
+// PUBLIC API EXPORTS
+// =================================================================
+
+export { CLEARED_LOCKOUT } from "./account-lockout.service";
+
+export type { AuthSession, AuthUser, PendingVerification } from "./auth.schema";
+
+export type { SignInResult } from "./auth.service";
+export { authenticateUser, normalizeEmail, registerUser, toAuthUser } from "./auth.service";
+
+export { revokeUserSessions } from "./refresh-token.service";
+
+export { resetTwoFactor } from "./two-factor.service";
@@ -0,0 +1,163 @@
+/**
+ * OIDC Service - SSO Sign-In State and Account Linking
+ *
+ * Starting an SSO sign-in stores the `state`, `nonce` and PKCE verifier
+ * server-side (the state only as hash) and returns the provider URL. The
+ * callback consumes the state once, lets the OIDC client exchange the code
+ * and validate the ID token, and resolves the user:
+ * - by a linked identity (issuer + subject), else
+ * - by the verified email address, linking the identity to that user, else
+ * - by creating a user with a verified email and an unusable password
+ *   (published as "users.changed").
+ *
+ * Local accounts whose email is unverified are not linked: their password
+ * was never proven to belong to the mailbox owner.
+ *
+ * @module modules/auth/oidc.service
+ */
+
+import type { PrismaClient, User } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+import type { OidcClient } from "@/lib/oidc";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+import { publishUserChanged, toPublicUser } from "@/lib/events";
+import { generatePkcePair, isEmailVerified } from "@/lib/oidc";
+import { hashPassword } from "@/lib/password";
+import { generateOpaqueToken, hashToken } from "@/lib/token";
+
+import type { OidcAuthorization } from "./auth.schema";
+
+import { normalizeEmail } from "./auth.service";
+
+/**
+ * Returns the configured client
+ *
+ * @throws AppError.notFound while OIDC_ISSUER is unset
+ */
+export function requireOidcClient(client: OidcClient | null) {
+  if (!client) {
+    throw AppError.notFound("SSO provider");
+  }
+  return client;
+}
+
+/**
+ * Starts an SSO sign-in and returns the provider URL
+ */
+export async function startOidcSignIn(
+  prisma: PrismaClient,
+  client: OidcClient,
+): Promise<OidcAuthorization> {
+  const state = generateOpaqueToken();
+  const nonce = generateOpaqueToken();
+  const { codeVerifier, codeChallenge } = generatePkcePair();
+  const expiresIn = env.OIDC_STATE_TTL_SECONDS;
+
+  const authorizationUrl = await client.authorizationUrl({ state, nonce, codeChallenge });
+
+  await prisma.oidcAuthorizationRequest.create({
+    data: {
+      stateHash: hashToken(state),
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    },
+  });
+
+  return { authorizationUrl, state, expiresIn };
+}
+
+/**
+ * Finds or creates the user for validated ID token claims
+ *
+ * @throws AppError.ssoFailed when the provider reports no verified email
+ * @throws AppError.conflict when the matching local account is unverified
+ */
+async function resolveOidcUser(
+  prisma: PrismaClient,
+  events: EventBus,
+  issuer: string,
+  claims: { sub: string; email?: string; emailVerified: boolean; firstName?: string; lastName?: string },
+): Promise<User> {
+  const identity = await prisma.oidcIdentity.findUnique({
+    where: { issuer_subject: { issuer, subject: claims.sub } },
+    include: { user: true },
+  });
+
+  if (identity) {
+    await prisma.oidcIdentity.update({ where: { id: identity.id }, data: { lastSignInAt: new Date() } });
+    return identity.user;
+  }
+
+  if (!claims.email || !claims.emailVerified) {
+    throw AppError.ssoFailed("The identity provider did not confirm a verified email address");
+  }
+
+  const email = normalizeEmail(claims.email);
+  let user = await prisma.user.findUnique({ where: { email } });
+
+  if (user && !user.emailVerifiedAt) {
+    throw AppError.conflict("An account with this email exists but is not verified. Verify it or sign in with your password first");
+  }
+
+  if (!user) {
+    user = await prisma.user.create({
+      data: {
+        email,
+        // SSO-only accounts can set a password through the reset flow
+        password: await hashPassword(generateOpaqueToken()),
+        firstName: claims.firstName,
+        lastName: claims.lastName,
+        emailVerifiedAt: new Date(),
+      },
+    });
+    await publishUserChanged(events, "created", toPublicUser(user));
+  }
+
+  await prisma.oidcIdentity.create({
+    data: { userId: user.id, issuer, subject: claims.sub, email, lastSignInAt: new Date() },
+  });
+
+  return user;
+}
+
+/**
+ * Completes an SSO sign-in from the authorization response
+ *
+ * @returns the linked (or newly created) user; account state checks are
+ * left to the caller, as for password sign-in
+ * @throws AppError.invalidSsoState for unknown, expired or used states
+ * @throws AppError.ssoFailed when the code exchange or ID token is rejected
+ */
+export async function completeOidcSignIn(
+  prisma: PrismaClient,
+  events: EventBus,
+  client: OidcClient,
+  input: { code: string; state: string },
+): Promise<User> {
+  const request = await prisma.oidcAuthorizationRequest.findUnique({
+    where: { stateHash: hashToken(input.state) },
+  });
+
+  if (!request || request.expiresAt.getTime() <= Date.now()) {
+    throw AppError.invalidSsoState();
+  }
+
+  // Deleting claims the state, so concurrent callbacks cannot both use it
+  const claimed = await prisma.oidcAuthorizationRequest.deleteMany({ where: { id: request.id } });
+  if (claimed.count === 0) {
+    throw AppError.invalidSsoState();
+  }
+
+  const claims = await client.exchangeCode(input.code, request.codeVerifier, request.nonce);
+
+  return resolveOidcUser(prisma, events, client.issuer, {
+    sub: claims.sub,
+    email: claims.email,
+    emailVerified: isEmailVerified(claims),
+    firstName: claims.given_name,
+    lastName: claims.family_name,
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * Password Reset Service - Single-Use Reset Tokens
+ *
+ * Reset tokens are opaque random strings stored only as SHA-256 hashes,
+ * expire after PASSWORD_RESET_TOKEN_TTL_SECONDS and can be used once.
+ * Requesting a new token invalidates any earlier unused one, and a
+ * successful reset revokes every session and refresh token of the account and
+ * clears any sign-in lockout.
+ *
+ * @module modules/auth/password-reset.service
+ */
+
+import type { PrismaClient } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+import type { Mailer } from "@/lib/mail";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+import { publishUserChanged, toPublicUser } from "@/lib/events";
+import { hashPassword } from "@/lib/password";
+import { generateOpaqueToken, hashToken } from "@/lib/token";
+
+import type { ResetPasswordBody } from "./auth.schema";
+
+import { CLEARED_LOCKOUT } from "./account-lockout.service";
+import { passwordResetEmail } from "./auth.emails";
+import { normalizeEmail } from "./auth.service";
+import { revokeUserSessions } from "./refresh-token.service";
+
+/**
+ * Response for every forgot-password request, whether or not the email exists
+ */
+export const PASSWORD_RESET_REQUESTED_MESSAGE
+  = "If an account with that email exists, a password reset link has been sent.";
+
+/**
+ * Issues a reset token and mails the link
+ *
+ * Unknown and inactive accounts are ignored silently so the caller
+ * cannot tell which emails are registered.
+ *
+ * @returns the user ID when a link was sent (for logging), otherwise null
+ */
+export async function requestPasswordReset(
+  prisma: PrismaClient,
+  mailer: Mailer,
+  email: string,
+): Promise<string | null> {
+  const user = await prisma.user.findUnique({ where: { email: normalizeEmail(email) } });
+  if (!user || !user.active) {
+    return null;
+  }
+
+  const token = generateOpaqueToken();
+  const expiresIn = env.PASSWORD_RESET_TOKEN_TTL_SECONDS;
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + expiresIn * 1000),
+      },
+    }),
+  ]);
+
+  await mailer.send(passwordResetEmail(user.email, token, expiresIn));
+
+  return user.id;
+}
+
+/**
+ * Sets a new password using a reset token
+ *
+ * The token is claimed with a conditional update, so it cannot be
+ * used twice even by concurrent requests.
+ *
+ * @returns the user ID whose password was changed
+ * @throws AppError.invalidResetToken for unknown, expired or used tokens
+ */
+export async function resetPassword(
+  prisma: PrismaClient,
+  events: EventBus,
+  input: ResetPasswordBody,
+): Promise<string> {
+  const record = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(input.token) },
+  });
+
+  if (!record || record.usedAt || record.expiresAt.getTime() <= Date.now()) {
+    throw AppError.invalidResetToken();
+  }
+
+  const password = await hashPassword(input.password);
+
+  const user = await prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw AppError.invalidResetToken();
+    }
+
+    const updated = await tx.user.update({
+      where: { id: record.userId },
+      data: { password, ...CLEARED_LOCKOUT },
+    });
+    await revokeUserSessions(tx, record.userId);
+    return updated;
+  });
+
+  // After the commit, so subscriptions of the revoked sessions end (graphql/revocation)
+  await publishUserChanged(events, "updated", toPublicUser(user));
+  return record.userId;
+}
@@ -0,0 +1,212 @@
+/**
+ * Refresh Token Service - Rotation and Reuse Detection
+ *
+ * Refresh tokens are opaque random strings stored only as SHA-256 hashes.
+ * Each sign-in starts a session whose ID is the token family; every
+ * refresh revokes the presented token and issues its successor in the
+ * same family. A revoked token presented again means it was copied, so
+ * the whole family and its session are revoked and the device has to
+ * sign in again.
+ *
+ * @module modules/auth/refresh-token.service
+ */
+
+import type { PrismaClient, User } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+import { generateOpaqueToken, hashToken } from "@/lib/token";
+
+import type { SessionMetadata } from "./session.service";
+
+import { isBlockedByEmailVerification } from "./auth.service";
+
+// =================================================================
+// TYPE DEFINITIONS
+// =================================================================
+
+/**
+ * Freshly issued refresh token (plain value is returned exactly once)
+ */
+export interface IssuedRefreshToken {
+  /** Record ID */
+  id: string;
+  /** Plain token value for the client */
+  token: string;
+  /** Token family ID (= session ID) */
+  familyId: string;
+  /** Lifetime in seconds */
+  expiresIn: number;
+}
+
+/**
+ * Result of presenting a refresh token
+ */
+export type RefreshRotationResult
+  = | { outcome: "rotated"; user: User; refreshToken: IssuedRefreshToken }
+    | { outcome: "reused"; userId: string; familyId: string };
+
+type RefreshTokenClient = Pick<PrismaClient, "refreshToken" | "session">;
+
+// =================================================================
+// ISSUING
+// =================================================================
+
+/**
+ * Issues a refresh token in the family of a session (see startSession)
+ */
+export async function issueRefreshToken(
+  prisma: Pick<PrismaClient, "refreshToken">,
+  userId: string,
+  familyId: string,
+): Promise<IssuedRefreshToken> {
+  const token = generateOpaqueToken();
+  const expiresIn = env.JWT_REFRESH_TOKEN_TTL_SECONDS;
+
+  const record = await prisma.refreshToken.create({
+    data: {
+      userId,
+      familyId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    },
+  });
+
+  return { id: record.id, token, familyId, expiresIn };
+}
+
+// =================================================================
+// ROTATION
+// =================================================================
+
+/**
+ * Revokes every active token of a family and its session
+ */
+export async function revokeRefreshTokenFamily(
+  prisma: RefreshTokenClient,
+  familyId: string,
+) {
+  const revokedAt = new Date();
+  await prisma.session.updateMany({
+    where: { id: familyId, revokedAt: null },
+    data: { revokedAt },
+  });
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt },
+  });
+  return count;
+}
+
+/**
+ * Revokes every session of the user with its refresh tokens, signing out
+ * every device
+ */
+export async function revokeUserSessions(
+  prisma: RefreshTokenClient,
+  userId: string,
+) {
+  const revokedAt = new Date();
+  await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt },
+  });
+  await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt },
+  });
+}
+
+/**
+ * Exchanges a refresh token for its successor
+ *
+ * The presented token is claimed with a conditional update, so two
+ * concurrent refreshes with the same token cannot both succeed; the
+ * loser is treated as reuse. The session's last activity, client IP and
+ * expiry are updated with each rotation.
+ *
+ * A revoked family publishes "credentials.revoked" for its session.
+ *
+ * @returns `rotated` with the new token, or `reused` after the family was revoked
+ * @throws AppError.invalidRefreshToken for unknown or expired tokens and revoked sessions
+ * @throws AppError.accountInactive when the account was deactivated
+ * @throws AppError.emailNotVerified when EMAIL_VERIFICATION_POLICY=block and the email is unverified
+ */
+export async function rotateRefreshToken(
+  prisma: PrismaClient,
+  events: EventBus,
+  token: string,
+  metadata: SessionMetadata,
+): Promise<RefreshRotationResult> {
+  const record = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true, session: true },
+  });
+
+  // Tokens of a signed-out session are expected to be revoked, not reused
+  if (!record || record.session.revokedAt) {
+    throw AppError.invalidRefreshToken();
+  }
+
+  const revokeFamily = async () => {
+    await revokeRefreshTokenFamily(prisma, record.familyId);
+    await events.publish("credentials.revoked", { kind: "session", id: record.familyId, userId: record.userId });
+  };
+
+  const reused = (): RefreshRotationResult => ({
+    outcome: "reused",
+    userId: record.userId,
+    familyId: record.familyId,
+  });
+
+  if (record.revokedAt) {
+    await revokeFamily();
+    return reused();
+  }
+
+  if (record.expiresAt.getTime() <= Date.now()) {
+    throw AppError.invalidRefreshToken();
+  }
+
+  if (!record.user.active) {
+    await revokeFamily();
+    throw AppError.accountInactive();
+  }
+
+  if (isBlockedByEmailVerification(record.user)) {
+    throw AppError.emailNotVerified();
+  }
+
+  const successor = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: record.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const issued = await issueRefreshToken(tx, record.userId, record.familyId);
+    await tx.refreshToken.update({
+      where: { id: record.id },
+      data: { replacedById: issued.id },
+    });
+    await tx.session.update({
+      where: { id: record.familyId },
+      data: {
+        lastSeenAt: new Date(),
+        expiresAt: new Date(Date.now() + issued.expiresIn * 1000),
+        ipAddress: metadata.ipAddress,
+      },
+    });
+    return issued;
+  });
+
+  if (!successor) {
+    await revokeFamily();
+    return reused();
+  }
+
+  return { outcome: "rotated", user: record.user, refreshToken: successor };
+}
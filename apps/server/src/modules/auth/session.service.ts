@@ -0,0 +1,160 @@
+/**
+ * Session Service - Signed-In Devices and Remote Sign-Out
+ *
+ * Every sign-in starts a session that records the device, user agent,
+ * client IP and last activity. Its refresh tokens form one token family
+ * (familyId = session ID) and its access tokens carry the ID as `sid`
+ * claim, so revoking a session ends both refresh and access immediately.
+ *
+ * @module modules/auth/session.service
+ */
+
+import type { PrismaClient, Session } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+
+import type { SessionResponse } from "./auth.schema";
+import type { IssuedRefreshToken } from "./refresh-token.service";
+
+import { issueRefreshToken, revokeRefreshTokenFamily } from "./refresh-token.service";
+
+/**
+ * Request details recorded with a session
+ */
+export interface SessionMetadata {
+  userAgent?: string;
+  /** Client IP as returned by extractClientIp */
+  ipAddress?: string;
+}
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * Derives a readable device label such as "Chrome on macOS"
+ *
+ * @returns null when neither browser nor operating system is recognized
+ */
+export function describeDevice(userAgent?: string) {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser ?? os ?? null;
+}
+
+/**
+ * Expiry of a session whose newest refresh token was issued now
+ */
+function sessionExpiry() {
+  return new Date(Date.now() + env.JWT_REFRESH_TOKEN_TTL_SECONDS * 1000);
+}
+
+function toSessionResponse(session: Session, currentSessionId?: string): SessionResponse {
+  return {
+    id: session.id,
+    device: session.device ?? undefined,
+    userAgent: session.userAgent ?? undefined,
+    ipAddress: session.ipAddress ?? undefined,
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    createdAt: session.createdAt.toISOString(),
+    current: session.id === currentSessionId,
+  };
+}
+
+// =================================================================
+// SESSIONS
+// =================================================================
+
+/**
+ * Starts a session and issues the first refresh token of its family
+ */
+export async function startSession(
+  prisma: PrismaClient,
+  userId: string,
+  metadata: SessionMetadata,
+): Promise<IssuedRefreshToken> {
+  return prisma.$transaction(async (tx) => {
+    const session = await tx.session.create({
+      data: {
+        userId,
+        device: describeDevice(metadata.userAgent),
+        userAgent: metadata.userAgent,
+        ipAddress: metadata.ipAddress,
+        expiresAt: sessionExpiry(),
+      },
+    });
+    return issueRefreshToken(tx, userId, session.id);
+  });
+}
+
+/**
+ * Lists the user's active sessions, most recently used first; the
+ * caller's own session is flagged as `current`
+ */
+export async function listSessions(
+  prisma: PrismaClient,
+  userId: string,
+  currentSessionId?: string,
+): Promise<SessionResponse[]> {
+  const sessions = await prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: "desc" },
+  });
+
+  return sessions.map(session => toSessionResponse(session, currentSessionId));
+}
+
+/**
+ * Revokes one of the user's sessions and its refresh tokens; the
+ * published event ends subscriptions opened with the session
+ *
+ * @throws AppError.notFound when the session does not exist, belongs to
+ * another user or is already revoked
+ */
+export async function revokeSession(
+  prisma: PrismaClient,
+  events: EventBus,
+  userId: string,
+  sessionId: string,
+) {
+  await prisma.$transaction(async (tx) => {
+    const revoked = await tx.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (revoked.count === 0) {
+      throw AppError.notFound("Session", sessionId);
+    }
+
+    await revokeRefreshTokenFamily(tx, sessionId);
+  });
+
+  await events.publish("credentials.revoked", { kind: "session", id: sessionId, userId });
+}
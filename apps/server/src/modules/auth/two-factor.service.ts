@@ -0,0 +1,331 @@
+/**
+ * Two-Factor Service - TOTP Enrollment, Sign-In Challenges and Recovery Codes
+ *
+ * Enrollment stores a TOTP secret (encrypted, see lib/secret-box) and
+ * enforces it once the user proves possession with a first code. Sign-in for enrolled users stops at an
+ * opaque single-use challenge that is exchanged, together with a TOTP or
+ * recovery code, for a session. Failed codes count towards the account
+ * lockout, accepted TOTP steps are remembered to reject replays, and the
+ * account checks of password sign-in run again before the session.
+ *
+ * @module modules/auth/two-factor.service
+ */
+
+import { randomBytes } from "node:crypto";
+
+import type { PrismaClient, User } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+
+import { env } from "@/config";
+import { AppError } from "@/errors";
+import { publishUserChanged, toPublicUser } from "@/lib/events";
+import { decryptSecret, encryptSecret, hasSecretKey, isEncryptedSecret } from "@/lib/secret-box";
+import { generateOpaqueToken, hashToken } from "@/lib/token";
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from "@/lib/totp";
+
+import type { AccountLockout } from "./account-lockout.service";
+
+import {
+  clearFailedSignIns,
+  lockoutRemainingSeconds,
+  recordFailedSignIn,
+} from "./account-lockout.service";
+import { isBlockedByEmailVerification } from "./auth.service";
+
+/**
+ * Number of recovery codes issued at enrollment
+ */
+export const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Secret and provisioning URI shown while enrolling
+ */
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Issued sign-in challenge
+ */
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  /** Lifetime in seconds */
+  expiresIn: number;
+}
+
+/**
+ * Second factor accepted by verifyTwoFactorChallenge
+ */
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+/**
+ * Result of answering a sign-in challenge (see SignInResult)
+ */
+export type TwoFactorVerificationResult
+  = | { outcome: "authenticated"; user: User; method: TwoFactorMethod }
+    | { outcome: "locked"; userId: string; lockout: AccountLockout };
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+async function findUser(prisma: PrismaClient, userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw AppError.notFound("User", userId);
+  }
+  return user;
+}
+
+/**
+ * Generates a recovery code in `xxxxx-xxxxx` form (50 bits of entropy)
+ */
+function generateRecoveryCode() {
+  const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Hashes a recovery code, ignoring case and separators
+ */
+function hashRecoveryCode(code: string) {
+  return hashToken(code.toUpperCase().replace(/[^A-Z2-7]/g, ""));
+}
+
+/**
+ * Accepts a TOTP step newer than the last one used
+ *
+ * The conditional update makes each step usable once, even for
+ * concurrent requests.
+ */
+async function claimTotpStep(prisma: PrismaClient, userId: string, step: number) {
+  const claimed = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+    },
+    data: { twoFactorLastStep: step },
+  });
+  return claimed.count > 0;
+}
+
+/**
+ * Checks a TOTP or recovery code and consumes it
+ *
+ * @returns the accepted method, or null for an invalid code
+ */
+async function verifySecondFactor(
+  prisma: PrismaClient,
+  user: User,
+  code: string,
+): Promise<TwoFactorMethod | null> {
+  const trimmed = code.replace(/\s/g, "");
+
+  if (/^\d+$/.test(trimmed)) {
+    const stored = user.twoFactorSecret;
+    const step = stored ? verifyTotp(decryptSecret(stored), trimmed) : null;
+    if (step === null || !(await claimTotpStep(prisma, user.id, step))) {
+      return null;
+    }
+    // Secrets stored before encryption are encrypted once they are used
+    if (stored && !isEncryptedSecret(stored) && hasSecretKey()) {
+      await prisma.user.update({ where: { id: user.id }, data: { twoFactorSecret: encryptSecret(stored) } });
+    }
+    return "totp";
+  }
+
+  const claimed = await prisma.recoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hashRecoveryCode(trimmed), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return claimed.count > 0 ? "recovery_code" : null;
+}
+
+// =================================================================
+// ENROLLMENT
+// =================================================================
+
+/**
+ * Starts enrollment with a fresh secret (replaces any unconfirmed one)
+ *
+ * @throws AppError.serviceUnavailable when TWO_FACTOR_ENCRYPTION_KEY is not set
+ * @throws AppError.conflict when two-factor authentication is already enabled
+ */
+export async function startTwoFactorEnrollment(
+  prisma: PrismaClient,
+  userId: string,
+): Promise<TwoFactorEnrollment> {
+  if (!hasSecretKey()) {
+    throw AppError.serviceUnavailable("Two-factor authentication");
+  }
+
+  const user = await findUser(prisma, userId);
+  if (user.twoFactorEnabledAt) {
+    throw AppError.conflict("Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri({ issuer: env.TWO_FACTOR_ISSUER, account: user.email, secret }),
+  };
+}
+
+/**
+ * Confirms enrollment with a first TOTP code and issues recovery codes
+ *
+ * @returns the plain recovery codes (only their hashes are stored)
+ * @throws AppError.conflict when two-factor authentication is already enabled
+ * @throws AppError.badRequest when enrollment was not started
+ * @throws AppError.invalidTwoFactorCode for a wrong code
+ */
+export async function confirmTwoFactorEnrollment(
+  prisma: PrismaClient,
+  events: EventBus,
+  userId: string,
+  code: string,
+): Promise<string[]> {
+  const user = await findUser(prisma, userId);
+  if (user.twoFactorEnabledAt) {
+    throw AppError.conflict("Two-factor authentication is already enabled");
+  }
+  if (!user.twoFactorSecret) {
+    throw AppError.badRequest("Start two-factor enrollment before confirming it");
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step === null) {
+    throw AppError.invalidTwoFactorCode();
+  }
+
+  const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  const [enabled] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: recoveryCodes.map(recoveryCode => ({ userId, codeHash: hashRecoveryCode(recoveryCode) })),
+    }),
+  ]);
+
+  await publishUserChanged(events, "updated", toPublicUser(enabled));
+  return recoveryCodes;
+}
+
+/**
+ * Turns two-factor authentication off and discards secret, recovery
+ * codes and pending challenges (admin reset)
+ *
+ * @throws AppError.notFound when the user does not exist
+ */
+export async function resetTwoFactor(prisma: PrismaClient, userId: string) {
+  await findUser(prisma, userId);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorChallenge.deleteMany({ where: { userId } }),
+  ]);
+}
+
+// =================================================================
+// SIGN-IN CHALLENGE
+// =================================================================
+
+/**
+ * Issues the challenge that replaces the session for enrolled users
+ */
+export async function createTwoFactorChallenge(
+  prisma: PrismaClient,
+  userId: string,
+): Promise<TwoFactorChallenge> {
+  const challengeToken = generateOpaqueToken();
+  const expiresIn = env.TWO_FACTOR_CHALLENGE_TTL_SECONDS;
+
+  await prisma.twoFactorChallenge.create({
+    data: {
+      userId,
+      tokenHash: hashToken(challengeToken),
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    },
+  });
+
+  return { challengeToken, expiresIn };
+}
+
+/**
+ * Completes a sign-in challenge with a TOTP or recovery code
+ *
+ * The account may have changed since the password step, so the checks of
+ * authenticateUser run again before a session is issued.
+ *
+ * @returns `authenticated` with the accepted method, or `locked` when
+ * this failed code locked the account
+ * @throws AppError.invalidTwoFactorChallenge for unknown, expired or used challenges
+ * @throws AppError.accountLocked while the account is locked
+ * @throws AppError.invalidTwoFactorCode for a wrong code
+ * @throws AppError.accountInactive when the account is deactivated
+ * @throws AppError.emailNotVerified when EMAIL_VERIFICATION_POLICY=block and the email is unverified
+ */
+export async function verifyTwoFactorChallenge(
+  prisma: PrismaClient,
+  events: EventBus,
+  input: { challengeToken: string; code: string },
+): Promise<TwoFactorVerificationResult> {
+  const record = await prisma.twoFactorChallenge.findUnique({
+    where: { tokenHash: hashToken(input.challengeToken) },
+    include: { user: true },
+  });
+
+  if (!record || record.usedAt || record.expiresAt.getTime() <= Date.now()) {
+    throw AppError.invalidTwoFactorChallenge();
+  }
+
+  const { user } = record;
+
+  const retryAfter = lockoutRemainingSeconds(user);
+  if (retryAfter > 0) {
+    throw AppError.accountLocked(retryAfter);
+  }
+
+  const method = await verifySecondFactor(prisma, user, input.code);
+  if (!method) {
+    const lockout = await recordFailedSignIn(prisma, events, user);
+    if (lockout) {
+      return { outcome: "locked", userId: user.id, lockout };
+    }
+    throw AppError.invalidTwoFactorCode();
+  }
+
+  const claimed = await prisma.twoFactorChallenge.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw AppError.invalidTwoFactorChallenge();
+  }
+
+  await clearFailedSignIns(prisma, events, user);
+
+  if (!user.active) {
+    throw AppError.accountInactive();
+  }
+
+  if (isBlockedByEmailVerification(user)) {
+    throw AppError.emailNotVerified();
+  }
+
+  return { outcome: "authenticated", user, method };
+}
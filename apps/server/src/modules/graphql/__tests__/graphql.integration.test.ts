@@ -2,19 +2,26 @@ import { createAdaptorServer } from "@hono/node-server";
 import { Hono } from "hono";
 import { sign } from "hono/jwt";
 import request from "supertest";
-import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import type { EventBus } from "@/lib/events";
+import type { AppBindings } from "@/types";
 
 import { env } from "@/config";
 import { errorHandler } from "@/lib/error-handler";
+import { createMemoryEventBus } from "@/lib/events";
+import { signClientAccessToken } from "@/lib/jwt";
 import { authMiddleware } from "@/middlewares/auth.middleware";
 import graphql from "@/modules/graphql";
-import type { AppBindings } from "@/types";
 
-function createGraphQLTestServer() {
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+function createGraphQLTestApp(events: EventBus) {
   const app = new Hono<AppBindings>();
 
   app.use("*", async (c, next) => {
     c.set("requestId", "test-request-id-graphql");
+    c.set("events", events);
     c.set("logger", {
       info: () => {},
       warn: () => {},
@@ -28,20 +35,23 @@ function createGraphQLTestServer() {
   app.route("/", graphql);
   app.onError(errorHandler);
 
-  return createAdaptorServer({
-    fetch: app.fetch,
-  });
+  return app;
+}
+
+async function clientBearer(scopes: string[]) {
+  const { token } = await signClientAccessToken({ sub: "client-1", clientId: "billing-sync", scopes });
+  return `Bearer ${token}`;
 }
 
 describe("graphql endpoint integration", () => {
-  const server = createGraphQLTestServer();
+  const server = createAdaptorServer({ fetch: createGraphQLTestApp(createMemoryEventBus()).fetch });
   let bearerToken = "";
 
   beforeAll(async () => {
     const jwt = await sign(
       { sub: "user-1", role: "user" },
-      env.JWT_SECRET,
-      "HS256"
+      env.JWT_SECRET!,
+      "HS256",
     );
     bearerToken = `Bearer ${jwt}`;
   });
@@ -83,4 +93,96 @@ describe("graphql endpoint integration", () => {
     expect(response.body.data.ping).toBe("pong");
     expect(typeof response.body.data.serverTime).toBe("string");
   });
+
+  it("requires the graphql scope of client tokens", async () => {
+    const send = async (scopes: string[]) => request(server)
+      .post("/graphql")
+      .set("Authorization", await clientBearer(scopes))
+      .send({ query: "{ ping }" });
+
+    const denied = await send(["users:read"]);
+    const allowed = await send(["graphql"]);
+
+    expect(denied.status).toBe(403);
+    expect(denied.headers["www-authenticate"]).toContain("scope=\"graphql\"");
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.data.ping).toBe("pong");
+  });
+});
+
+describe("graphql over HTTP with client tokens", () => {
+  const events = createMemoryEventBus();
+  const app = createGraphQLTestApp(events);
+
+  async function post(scopes: string[], query: string, accept = "application/json") {
+    return app.request("/graphql", {
+      method: "POST",
+      headers: { "authorization": await clientBearer(scopes), "content-type": "application/json", accept },
+      body: JSON.stringify({ query }),
+    });
+  }
+
+  /**
+   * Collects the `next` events of a server-sent events subscription until
+   * the returned function cancels it
+   */
+  async function subscribe(scopes: string[]) {
+    const response = await post(scopes, "subscription { userEvents { kind userId } }", "text/event-stream");
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const received: unknown[] = [];
+    let buffer = "";
+
+    void (async () => {
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        buffer += decoder.decode(chunk.value, { stream: true });
+        const messages = buffer.split("\n\n");
+        buffer = messages.pop()!;
+        for (const message of messages) {
+          const data = /^event: next\ndata: (.*)$/m.exec(message)?.[1];
+          if (data) {
+            received.push(JSON.parse(data));
+          }
+        }
+      }
+    })();
+
+    return { received, cancel: () => reader.cancel() };
+  }
+
+  it("resolves me to null", async () => {
+    const response = await post(["graphql"], "{ me { id } }");
+
+    expect(await response.json()).toEqual({ data: { me: null } });
+  });
+
+  it("refuses updateProfile", async () => {
+    const response = await post(["graphql"], "mutation { updateProfile(input: { firstName: \"Jane\" }) { id } }");
+    const { errors } = await response.json() as { errors: { message: string; extensions: Record<string, unknown> }[] };
+
+    expect(errors[0]).toMatchObject({
+      message: "OAuth2 client tokens have no user profile",
+      extensions: { status: 403 },
+    });
+  });
+
+  it("streams user events only with users:read", async () => {
+    const subscribeEvents = vi.spyOn(events, "subscribe");
+    const reader = await subscribe(["graphql", "users:read"]);
+    const other = await subscribe(["graphql"]);
+    // Each userEvents stream with its revocation watch
+    await vi.waitFor(() => expect(subscribeEvents).toHaveBeenCalledTimes(4));
+
+    // The client's own ID is not a user, so it does not see changes to it either
+    await events.publish("users.changed", { kind: "updated", userId: "client-1", user: null });
+
+    await vi.waitFor(() => expect(reader.received).toEqual([
+      { data: { userEvents: { kind: "UPDATED", userId: "client-1" } } },
+    ]));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(other.received).toEqual([]);
+
+    await Promise.all([reader.cancel(), other.cancel()]);
+    subscribeEvents.mockRestore();
+  });
 });
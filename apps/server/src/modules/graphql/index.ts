@@ -1,13 +1,20 @@
 import { Hono } from "hono";
 
-import { yoga } from "@/graphql";
 import type { AppBindings } from "@/types";
 
+import { yoga } from "@/graphql";
+import { ACCESS_SCOPES } from "@/lib/authorization";
+import { requireScope } from "@/middlewares/authorization.middleware";
+
 const router = new Hono<AppBindings>();
 
-router.on(["GET", "POST", "OPTIONS"], "/graphql", (c) => {
+// Scoped tokens and API keys need the graphql scope, like on WebSocket (graphql/server.ts)
+router.on(["GET", "POST", "OPTIONS"], "/graphql", requireScope(ACCESS_SCOPES.GRAPHQL), (c) => {
   return yoga.fetch(c.req.raw, {
     requestId: c.get("requestId"),
+    principal: c.get("principal"),
+    prisma: c.get("prisma"),
+    events: c.get("events"),
   });
 });
 
@@ -12,7 +12,7 @@
 
 import { createRoute } from "@hono/zod-openapi";
 
-import { standardErrorResponseSchema } from "@/schemas/common.schema";
+import { serviceUnavailableEnvelopeSchema } from "@/schemas/envelope.schema";
 
 import {
   healthResponseSchema,
@@ -85,7 +85,7 @@ export const ready = createRoute({
       description: "Service is not ready",
       content: {
         "application/json": {
-          schema: standardErrorResponseSchema,
+          schema: serviceUnavailableEnvelopeSchema,
         },
       },
     },
@@ -125,7 +125,7 @@ export const health = createRoute({
       description: "Service is unhealthy",
       content: {
         "application/json": {
-          schema: standardErrorResponseSchema,
+          schema: serviceUnavailableEnvelopeSchema,
         },
       },
     },
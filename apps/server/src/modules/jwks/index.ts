@@ -0,0 +1,10 @@
+import { createRouter } from "@/lib/create-app";
+
+import { getJwksHandler } from "./jwks.handlers";
+import { getJwks } from "./jwks.routes";
+
+const router = createRouter();
+
+router.openapi(getJwks, getJwksHandler);
+
+export default router;
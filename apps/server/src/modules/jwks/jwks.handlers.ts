@@ -0,0 +1,18 @@
+import type { AppRouteHandler } from "@/types";
+
+import { HTTP_STATUS } from "@/lib/http-status";
+import { getJwks } from "@/lib/jwt";
+
+import type { GetJwksRoute } from "./jwks.routes";
+
+/**
+ * Cache lifetime of the key set; new keys must be published at least
+ * this long before they become active
+ */
+export const JWKS_MAX_AGE_SECONDS = 300;
+
+export const getJwksHandler: AppRouteHandler<GetJwksRoute> = (c) => {
+  c.header("Cache-Control", `public, max-age=${JWKS_MAX_AGE_SECONDS}`);
+
+  return c.json(getJwks(), HTTP_STATUS.OK);
+};
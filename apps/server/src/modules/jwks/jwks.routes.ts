@@ -0,0 +1,36 @@
+import { createRoute } from "@hono/zod-openapi";
+import { z } from "zod";
+
+import { HTTP_STATUS } from "@/lib/http-status";
+
+// Key parameters (n/e for RSA, crv/x/y for EC) pass through unchanged
+const jwkSchema = z.looseObject({
+  kid: z.string(),
+  kty: z.string(),
+  alg: z.string(),
+  use: z.string().optional(),
+}).openapi("JsonWebKey");
+
+const jwksSchema = z.object({
+  keys: z.array(jwkSchema),
+}).openapi("JsonWebKeySet");
+
+export const getJwks = createRoute({
+  tags: ["Auth"],
+  method: "get",
+  path: "/.well-known/jwks.json",
+  summary: "Get access token public keys",
+  description: "JSON Web Key Set (RFC 7517) for verifying RS256/ES256 access tokens by `kid`. Empty when the server signs with HS256.",
+  responses: {
+    [HTTP_STATUS.OK]: {
+      description: "Public keys that currently verify access tokens",
+      content: {
+        "application/json": {
+          schema: jwksSchema,
+        },
+      },
+    },
+  },
+});
+
+export type GetJwksRoute = typeof getJwks;
@@ -0,0 +1,320 @@
+/**
+ * OAuth Module Integration Tests
+ *
+ * Tests for the client_credentials grant at /oauth/token:
+ * - Client authentication with HTTP Basic and body parameters
+ * - RFC 6749 error responses (invalid_client, invalid_scope, ...)
+ * - Scope enforcement by authMiddleware for the issued tokens
+ * - API client administration (secret shown once, revocation)
+ *
+ * @module modules/oauth/__tests__/oauth.test
+ */
+
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AppBindings } from "@/types";
+
+import { API_PREFIX } from "@/config";
+import { errorHandler } from "@/lib/error-handler";
+import { createMemoryEventBus } from "@/lib/events";
+import { signAccessToken } from "@/lib/jwt";
+import { hashToken } from "@/lib/token";
+import { authMiddleware } from "@/middlewares/auth.middleware";
+import apiClients from "@/modules/api-clients";
+
+import oauth from "../index";
+
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+// =================================================================
+// TEST APP FACTORY
+// =================================================================
+
+interface StoredApiClient {
+  id: string;
+  clientId: string;
+  name: string;
+  secretHash: string;
+  scopes: string[];
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CLIENT_ID = "billing-sync";
+const CLIENT_SECRET = "billing-sync-secret";
+
+function createStore() {
+  const clients = new Map<string, StoredApiClient>();
+
+  const addClient = (overrides: Partial<StoredApiClient> = {}) => {
+    const client: StoredApiClient = {
+      id: randomUUID(),
+      clientId: CLIENT_ID,
+      name: "Billing sync",
+      secretHash: hashToken(CLIENT_SECRET),
+      scopes: ["api-clients:read", "users:read"],
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    };
+    clients.set(client.id, client);
+    return client;
+  };
+
+  const prisma = {
+    apiClient: {
+      findUnique: vi.fn(async ({ where }: { where: { clientId: string } }) =>
+        [...clients.values()].find(client => client.clientId === where.clientId) ?? null),
+      findMany: vi.fn(async () => [...clients.values()]),
+      create: vi.fn(async ({ data }: { data: Partial<StoredApiClient> }) => addClient(data)),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<StoredApiClient> }) => {
+        const client = Object.assign(clients.get(where.id)!, data);
+        return client;
+      }),
+      updateMany: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<StoredApiClient> }) => {
+        const client = clients.get(where.id);
+        if (!client || client.revokedAt) {
+          return { count: 0 };
+        }
+        Object.assign(client, data);
+        return { count: 1 };
+      }),
+    },
+  };
+
+  return { clients, addClient, prisma };
+}
+
+function createOAuthTestApp(store: ReturnType<typeof createStore>, events = createMemoryEventBus()) {
+  const app = new OpenAPIHono<AppBindings>();
+
+  app.use("*", async (c, next) => {
+    c.set("requestId", "test-request-id-oauth");
+    c.set("logger", {
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+      debug: () => {},
+      security: () => {},
+    } as any);
+    c.set("logContext", {});
+    c.set("prisma", store.prisma as any);
+    c.set("events", events);
+    await next();
+  });
+
+  app.use("*", authMiddleware);
+  app.route("/", oauth);
+  app.route(API_PREFIX, apiClients);
+  app.onError(errorHandler);
+
+  return app;
+}
+
+function requestToken(app: OpenAPIHono<AppBindings>, params: Record<string, string>, headers: Record<string, string> = {}) {
+  return app.request("/oauth/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", ...headers },
+    body: new URLSearchParams(params).toString(),
+  });
+}
+
+function basic(clientId: string, clientSecret: string) {
+  return { Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}` };
+}
+
+// =================================================================
+// TEST: TOKEN ENDPOINT
+// =================================================================
+
+describe("pOST /oauth/token", () => {
+  let store: ReturnType<typeof createStore>;
+  let app: OpenAPIHono<AppBindings>;
+
+  beforeEach(() => {
+    store = createStore();
+    app = createOAuthTestApp(store);
+  });
+
+  it("issues a token with every client scope for HTTP Basic credentials", async () => {
+    const client = store.addClient();
+
+    const res = await requestToken(app, { grant_type: "client_credentials" }, basic(CLIENT_ID, CLIENT_SECRET));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("cache-control")).toBe("no-store");
+    expect(await res.json()).toMatchObject({
+      token_type: "Bearer",
+      expires_in: 3600,
+      scope: "api-clients:read users:read",
+    });
+    expect(client.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it("accepts body credentials and narrows the scope", async () => {
+    store.addClient();
+
+    const res = await requestToken(app, {
+      grant_type: "client_credentials",
+      scope: "users:read",
+      client_id: CLIENT_ID,
+      client_secret: CLIENT_SECRET,
+    });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).scope).toBe("users:read");
+  });
+
+  it("rejects wrong secrets and revoked clients with invalid_client", async () => {
+    store.addClient({ clientId: "revoked", revokedAt: new Date() });
+    store.addClient();
+
+    const wrongSecret = await requestToken(app, { grant_type: "client_credentials" }, basic(CLIENT_ID, "nope"));
+    const revoked = await requestToken(app, { grant_type: "client_credentials" }, basic("revoked", CLIENT_SECRET));
+
+    expect(wrongSecret.status).toBe(401);
+    expect(wrongSecret.headers.get("www-authenticate")).toContain("Basic");
+    expect(await wrongSecret.json()).toEqual({ error: "invalid_client", error_description: "Client authentication failed" });
+    expect(revoked.status).toBe(401);
+  });
+
+  it("returns RFC 6749 errors for grant type and scope problems", async () => {
+    store.addClient();
+
+    const missing = await requestToken(app, {}, basic(CLIENT_ID, CLIENT_SECRET));
+    const unsupported = await requestToken(app, { grant_type: "password" }, basic(CLIENT_ID, CLIENT_SECRET));
+    const scope = await requestToken(
+      app,
+      { grant_type: "client_credentials", scope: "users:write" },
+      basic(CLIENT_ID, CLIENT_SECRET),
+    );
+
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error).toBe("invalid_request");
+    expect(unsupported.status).toBe(400);
+    expect((await unsupported.json()).error).toBe("unsupported_grant_type");
+    expect(scope.status).toBe(400);
+    expect((await scope.json()).error).toBe("invalid_scope");
+  });
+
+  it("rejects credentials sent both ways", async () => {
+    store.addClient();
+
+    const res = await requestToken(
+      app,
+      { grant_type: "client_credentials", client_id: CLIENT_ID, client_secret: CLIENT_SECRET },
+      basic(CLIENT_ID, CLIENT_SECRET),
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("invalid_request");
+  });
+});
+
+// =================================================================
+// TEST: SCOPED TOKENS
+// =================================================================
+
+describe("client access tokens", () => {
+  it("can call routes within their scope only", async () => {
+    const store = createStore();
+    const app = createOAuthTestApp(store);
+    store.addClient();
+
+    const tokenRes = await requestToken(
+      app,
+      { grant_type: "client_credentials", scope: "api-clients:read" },
+      basic(CLIENT_ID, CLIENT_SECRET),
+    );
+    const headers = { Authorization: `Bearer ${(await tokenRes.json()).access_token}` };
+
+    const list = await app.request(`${API_PREFIX}/api-clients`, { headers });
+    const create = await app.request(`${API_PREFIX}/api-clients`, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Escalation", scopes: ["users:write"] }),
+    });
+
+    expect(list.status).toBe(200);
+    expect(create.status).toBe(403);
+    expect(create.headers.get("www-authenticate")).toBe("Bearer error=\"insufficient_scope\", scope=\"api-clients:write\"");
+  });
+});
+
+// =================================================================
+// TEST: API CLIENT ADMINISTRATION
+// =================================================================
+
+describe("aPI client administration", () => {
+  async function adminHeaders() {
+    const { token } = await signAccessToken({ sub: randomUUID(), role: "admin", emailVerified: true });
+    return { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" };
+  }
+
+  it("returns the secret once and stores its hash", async () => {
+    const store = createStore();
+    const app = createOAuthTestApp(store);
+
+    const res = await app.request(`${API_PREFIX}/api-clients`, {
+      method: "POST",
+      headers: await adminHeaders(),
+      body: JSON.stringify({ name: "Billing sync", scopes: ["users:read"] }),
+    });
+    const { data } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(data.clientSecret).toEqual(expect.any(String));
+    expect(store.clients.get(data.id)!.secretHash).toBe(hashToken(data.clientSecret));
+
+    const list = await app.request(`${API_PREFIX}/api-clients`, { headers: await adminHeaders() });
+    expect((await list.json()).data[0]).not.toHaveProperty("clientSecret");
+  });
+
+  it("revokes a client so it can no longer obtain tokens", async () => {
+    const store = createStore();
+    const app = createOAuthTestApp(store);
+    const client = store.addClient();
+
+    const revoke = await app.request(`${API_PREFIX}/api-clients/${client.id}`, {
+      method: "DELETE",
+      headers: await adminHeaders(),
+    });
+    const again = await app.request(`${API_PREFIX}/api-clients/${client.id}`, {
+      method: "DELETE",
+      headers: await adminHeaders(),
+    });
+    const token = await requestToken(app, { grant_type: "client_credentials" }, basic(CLIENT_ID, CLIENT_SECRET));
+
+    expect(revoke.status).toBe(204);
+    expect(again.status).toBe(404);
+    expect(token.status).toBe(401);
+  });
+
+  it("publishes the revocation so the client's subscriptions end", async () => {
+    const store = createStore();
+    const events = createMemoryEventBus();
+    const publish = vi.spyOn(events, "publish");
+    const app = createOAuthTestApp(store, events);
+    const client = store.addClient();
+
+    await app.request(`${API_PREFIX}/api-clients/${client.id}`, { method: "DELETE", headers: await adminHeaders() });
+
+    expect(publish).toHaveBeenCalledWith("credentials.revoked", { kind: "client", id: client.id, userId: client.id });
+  });
+
+  it("requires api-clients permissions", async () => {
+    const app = createOAuthTestApp(createStore());
+    const { token } = await signAccessToken({ sub: randomUUID(), role: "user", emailVerified: true });
+
+    const res = await app.request(`${API_PREFIX}/api-clients`, { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * OAuth Module - Client Credentials Grant
+ *
+ * OAuth2 token endpoint for machine-to-machine access:
+ * - POST /oauth/token: Issue a scoped access token to an API client
+ *
+ * Clients are managed through /api-clients (modules/api-clients).
+ * Mounted at the root, outside the API prefix.
+ *
+ * @module modules/oauth
+ */
+
+import { createRouter } from "@/lib/create-app";
+
+import { issueTokenHandler } from "./oauth.handlers";
+import { issueToken } from "./oauth.routes";
+
+const router = createRouter()
+  .openapi(issueToken, issueTokenHandler);
+
+export default router;
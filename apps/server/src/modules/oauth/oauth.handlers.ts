@@ -0,0 +1,93 @@
+/**
+ * OAuth Module Handlers
+ *
+ * Route handler for the OAuth2 token endpoint. Failures are thrown as
+ * AppError; the central error handler renders them as RFC 6749 error
+ * responses for this route.
+ *
+ * @module modules/oauth/oauth.handlers
+ */
+
+import type { Context } from "hono";
+
+import { Buffer } from "node:buffer";
+
+import type { AppBindings, AppRouteHandler } from "@/types";
+
+import { AppError } from "@/errors";
+import { HTTP_STATUS } from "@/lib/http-status";
+
+import type { IssueTokenRoute } from "./oauth.routes";
+import type { TokenRequest } from "./oauth.schema";
+import type { ClientCredentials } from "./oauth.service";
+
+import { issueClientCredentialsToken } from "./oauth.service";
+
+/**
+ * Reads client credentials from HTTP Basic authentication or the body
+ * (RFC 6749 Section 2.3.1); using both at once is rejected
+ *
+ * @throws AppError.invalidClient for malformed Basic credentials
+ * @throws AppError.badRequest when credentials are missing or sent twice
+ */
+function readClientCredentials(c: Context<AppBindings>, body: TokenRequest): ClientCredentials {
+  const authorization = c.req.header("authorization");
+  const hasBodyCredentials = body.client_id !== undefined || body.client_secret !== undefined;
+
+  if (authorization?.startsWith("Basic ")) {
+    if (hasBodyCredentials) {
+      throw AppError.badRequest("Use only one client authentication method");
+    }
+
+    const decoded = Buffer.from(authorization.slice(6).trim(), "base64").toString("utf8");
+    const separator = decoded.indexOf(":");
+    if (separator < 0) {
+      throw AppError.invalidClient();
+    }
+
+    try {
+      // Basic credentials are form-encoded before base64 (Section 2.3.1)
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator).replace(/\+/g, " ")),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1).replace(/\+/g, " ")),
+      };
+    }
+    catch {
+      throw AppError.invalidClient();
+    }
+  }
+
+  if (!body.client_id || !body.client_secret) {
+    throw AppError.invalidClient();
+  }
+  return { clientId: body.client_id, clientSecret: body.client_secret };
+}
+
+/**
+ * Token handler - client_credentials grant
+ */
+export const issueTokenHandler: AppRouteHandler<IssueTokenRoute> = async (c) => {
+  const body = c.req.valid("form");
+
+  if (!body.grant_type) {
+    throw AppError.badRequest("Missing grant_type");
+  }
+  if (body.grant_type !== "client_credentials") {
+    throw AppError.unsupportedGrantType(body.grant_type);
+  }
+
+  const credentials = readClientCredentials(c, body);
+  const { token, apiClientId } = await issueClientCredentialsToken(c.get("prisma"), credentials, body.scope);
+
+  c.get("logger").info("Client access token issued", {
+    ...c.get("logContext"),
+    apiClientId,
+    scope: token.scope,
+    action: "oauth.token",
+  });
+
+  c.header("Cache-Control", "no-store");
+  c.header("Pragma", "no-cache");
+
+  return c.json(token, HTTP_STATUS.OK);
+};
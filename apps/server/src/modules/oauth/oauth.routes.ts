@@ -0,0 +1,48 @@
+/**
+ * OAuth Module Routes
+ *
+ * OpenAPI route definition for the OAuth2 token endpoint:
+ * - POST /oauth/token: client_credentials grant
+ *
+ * @module modules/oauth/oauth.routes
+ */
+
+import { createRoute } from "@hono/zod-openapi";
+
+import { HTTP_STATUS } from "@/lib/http-status";
+import { jsonContent } from "@/lib/openapi/helpers";
+import { OAUTH_TOKEN_PATH } from "@/middlewares/auth.middleware";
+
+import { oauthErrorSchema, tokenRequestSchema, tokenResponseSchema } from "./oauth.schema";
+
+const tags = ["OAuth"];
+
+export const issueToken = createRoute({
+  path: OAUTH_TOKEN_PATH,
+  method: "post",
+  tags,
+  summary: "Issue a client access token",
+  description: "OAuth2 client_credentials grant (RFC 6749 Section 4.4). Authenticate with HTTP Basic "
+    + "(`client_id:client_secret`) or `client_id`/`client_secret` form parameters. The access token is limited "
+    + "to the requested scopes and can only call routes whose permissions are within them; `/graphql` "
+    + "requires the `graphql` scope.",
+  request: {
+    body: {
+      content: {
+        "application/x-www-form-urlencoded": {
+          schema: tokenRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(tokenResponseSchema, "Access token"),
+    [HTTP_STATUS.BAD_REQUEST]: jsonContent(
+      oauthErrorSchema,
+      "invalid_request, invalid_scope or unsupported_grant_type",
+    ),
+    [HTTP_STATUS.UNAUTHORIZED]: jsonContent(oauthErrorSchema, "invalid_client"),
+  },
+});
+
+export type IssueTokenRoute = typeof issueToken;
@@ -0,0 +1,66 @@
+/**
+ * OAuth Module Schemas
+ *
+ * Zod schemas for the OAuth2 token endpoint. Request and response follow
+ * RFC 6749 (form-encoded request, snake_case JSON response without the
+ * API envelope).
+ *
+ * @module modules/oauth/oauth.schema
+ */
+
+import { z } from "@hono/zod-openapi";
+
+// =================================================================
+// REQUEST SCHEMAS
+// =================================================================
+
+/**
+ * Token request body (RFC 6749 Section 4.4.2)
+ *
+ * Every field is optional here so that missing parameters are reported
+ * as RFC 6749 `invalid_request` by the handler instead of a 422.
+ */
+export const tokenRequestSchema = z.object({
+  grant_type: z.string().optional().openapi({
+    description: "Must be `client_credentials`",
+    example: "client_credentials",
+  }),
+  scope: z.string().optional().openapi({
+    description: "Space-separated scopes (default: every scope of the client)",
+    example: "users:read",
+  }),
+  client_id: z.string().optional().openapi({
+    description: "Client ID, when not sent with HTTP Basic authentication",
+    example: "Xk3v9QmR2pLw7sTn",
+  }),
+  client_secret: z.string().optional().openapi({
+    description: "Client secret, when not sent with HTTP Basic authentication",
+    example: "Jq0q6cW8nYz2m5v1kR4sT7uX9aB3dE6gH8jK1lM4nP0",
+  }),
+}).openapi("TokenRequest");
+
+export type TokenRequest = z.infer<typeof tokenRequestSchema>;
+
+// =================================================================
+// RESPONSE SCHEMAS
+// =================================================================
+
+/**
+ * Successful token response (RFC 6749 Section 5.1)
+ */
+export const tokenResponseSchema = z.object({
+  access_token: z.string().openapi({ description: "Scoped JWT access token" }),
+  token_type: z.literal("Bearer"),
+  expires_in: z.number().int().openapi({ description: "Lifetime in seconds", example: 3600 }),
+  scope: z.string().openapi({ description: "Granted scopes (space-separated)", example: "users:read" }),
+}).openapi("TokenResponse");
+
+export type TokenResponse = z.infer<typeof tokenResponseSchema>;
+
+/**
+ * Error response (RFC 6749 Section 5.2)
+ */
+export const oauthErrorSchema = z.object({
+  error: z.enum(["invalid_request", "invalid_client", "invalid_grant", "invalid_scope", "unsupported_grant_type"]),
+  error_description: z.string().optional(),
+}).openapi("OAuthError");
@@ -0,0 +1,441 @@
+/**
+ * Users Module Integration Tests
+ *
+ * Tests for user administration endpoints:
+ * - Permission guards (admin vs user)
+ * - List query translation (q, sort, filters, pagination cap)
+ * - CRUD responses never include the password hash
+ * - Unlocking accounts locked after failed sign-ins
+ * - Resetting two-factor authentication
+ * - Revoking sessions on password changes and deactivation
+ * - Refusing changes to the acting administrator's own account
+ * - Conflicts on taken emails, including concurrent writes
+ * - Publishing "users.changed" events
+ *
+ * @module modules/users/__tests__/users.test
+ */
+
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { userSchema } from "@repo/shared";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AuthPrincipal } from "@/lib/authorization";
+import type { EventBus } from "@/lib/events";
+import type { AppBindings } from "@/types";
+
+import { AUTH_CODES } from "@/errors";
+import { Prisma } from "@/generated/prisma/client";
+import { errorHandler } from "@/lib/error-handler";
+import { createMemoryEventBus } from "@/lib/events";
+
+import users from "../index";
+
+vi.mock("@/db/prisma", () => ({ prisma: {} }));
+
+// =================================================================
+// TEST APP FACTORY
+// =================================================================
+
+const ADMIN: AuthPrincipal = { userId: "00000000-0000-4000-8000-000000000001", role: "admin", emailVerified: true };
+const MEMBER: AuthPrincipal = { userId: "00000000-0000-4000-8000-000000000002", role: "user", emailVerified: true };
+const USER_ID = "00000000-0000-4000-8000-000000000003";
+
+function createUserRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: USER_ID,
+    email: "jane@example.com",
+    password: "$argon2id$hash",
+    active: true,
+    firstName: "Jane",
+    lastName: null,
+    role: "user",
+    twoFactorEnabledAt: null,
+    createdAt: new Date("2025-01-15T10:30:00.000Z"),
+    updatedAt: new Date("2025-01-15T10:30:00.000Z"),
+    ...overrides,
+  };
+}
+
+function createPrismaMock() {
+  const rows = new Map([[USER_ID, createUserRow()]]);
+
+  const prisma = {
+    rows,
+    $transaction: vi.fn(async (arg: unknown): Promise<unknown> =>
+      typeof arg === "function" ? arg(prisma) : Promise.all(arg as Promise<unknown>[])),
+    session: { updateMany: vi.fn(async () => ({ count: 1 })) },
+    refreshToken: { updateMany: vi.fn(async () => ({ count: 1 })) },
+    recoveryCode: { deleteMany: vi.fn(async () => ({ count: 0 })) },
+    twoFactorChallenge: { deleteMany: vi.fn(async () => ({ count: 0 })) },
+    user: {
+      findMany: vi.fn(async () => [...rows.values()]),
+      count: vi.fn(async () => rows.size),
+      findUnique: vi.fn(async ({ where }: { where: { id?: string; email?: string } }) =>
+        [...rows.values()].find(row => row.id === where.id || row.email === where.email) ?? null),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        const row = createUserRow({ ...data, id: "00000000-0000-4000-8000-000000000004" });
+        rows.set(row.id as string, row);
+        return row;
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        const defined = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+        const row = { ...rows.get(where.id)!, ...defined };
+        rows.set(where.id, row);
+        return row;
+      }),
+      delete: vi.fn(async ({ where }: { where: { id: string } }) => rows.delete(where.id)),
+    },
+  };
+
+  return prisma;
+}
+
+function createUsersTestApp(
+  prisma: ReturnType<typeof createPrismaMock>,
+  principal: AuthPrincipal = ADMIN,
+  events: EventBus = createMemoryEventBus(),
+) {
+  const app = new OpenAPIHono<AppBindings>();
+
+  app.use("*", async (c, next) => {
+    c.set("requestId", "test-request-id-users");
+    c.set("logger", {
+      info: () => {},
+      warn: () => {},
+      error: () => {},
+      debug: () => {},
+      security: () => {},
+    } as any);
+    c.set("logContext", {});
+    c.set("prisma", prisma as any);
+    c.set("events", events);
+    c.set("principal", principal);
+    await next();
+  });
+
+  app.route("/", users);
+  app.onError(errorHandler);
+
+  return app;
+}
+
+function sendJson(app: OpenAPIHono<AppBindings>, method: string, path: string, body: unknown) {
+  return app.request(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// =================================================================
+// TEST: PERMISSIONS
+// =================================================================
+
+describe("users permissions", () => {
+  it("returns 403 with E2010 for non-admin users", async () => {
+    const app = createUsersTestApp(createPrismaMock(), MEMBER);
+
+    const res = await app.request("/users");
+    const body = await res.json();
+
+    expect(res.status).toBe(403);
+    expect(body.error.code).toBe(AUTH_CODES.INSUFFICIENT_PERMISSIONS);
+  });
+});
+
+// =================================================================
+// TEST: LIST (/users)
+// =================================================================
+
+describe("list /users", () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+  });
+
+  it("returns a paginated envelope of userSchema-compatible users", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await app.request("/users");
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.pagination).toEqual({
+      page: 1,
+      pageSize: 10,
+      totalItems: 1,
+      totalPages: 1,
+      hasNextPage: false,
+      hasPreviousPage: false,
+    });
+    expect(body.data.items[0]).not.toHaveProperty("password");
+    expect(userSchema.safeParse(body.data.items[0]).success).toBe(true);
+  });
+
+  it("translates search, filters and sort into the query", async () => {
+    const app = createUsersTestApp(prisma);
+
+    await app.request("/users?q=jane&active=false&role=admin&sort=-email&page=3&limit=20");
+
+    expect(prisma.user.findMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { email: { contains: "jane", mode: "insensitive" } },
+          { firstName: { contains: "jane", mode: "insensitive" } },
+          { lastName: { contains: "jane", mode: "insensitive" } },
+        ],
+        active: false,
+        role: "admin",
+      },
+      orderBy: [{ email: "desc" }, { id: "asc" }],
+      skip: 40,
+      take: 20,
+    });
+  });
+
+  it("caps limit at MAX_LIMIT", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await app.request("/users?limit=1000");
+    const body = await res.json();
+
+    expect(prisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 100 }));
+    expect(body.data.pagination.pageSize).toBe(100);
+  });
+
+  it("rejects unknown sort fields with 422", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await app.request("/users?sort=password");
+
+    expect(res.status).toBe(422);
+  });
+});
+
+// =================================================================
+// TEST: CRUD (/users/{id})
+// =================================================================
+
+describe("users CRUD", () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+  });
+
+  it("gets a user by id", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await app.request(`/users/${USER_ID}`);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data).toMatchObject({ id: USER_ID, email: "jane@example.com", firstName: "Jane" });
+    expect(body.data).not.toHaveProperty("password");
+    expect(body.data).not.toHaveProperty("lastName");
+  });
+
+  it("returns 404 for unknown users", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await app.request("/users/00000000-0000-4000-8000-000000000099");
+
+    expect(res.status).toBe(404);
+  });
+
+  it("creates a user with a hashed password", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await sendJson(app, "POST", "/users", {
+      email: "New.User@Example.com",
+      password: "correct-horse",
+      role: "admin",
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(body.data).toMatchObject({ email: "new.user@example.com", role: "admin" });
+    expect(body.data).not.toHaveProperty("password");
+
+    const data = prisma.user.create.mock.calls[0][0].data;
+    expect(data.password).toMatch(/^\$argon2id\$/);
+  });
+
+  it("publishes user changes to the event bus", async () => {
+    const events = createMemoryEventBus();
+    const publish = vi.spyOn(events, "publish");
+    const app = createUsersTestApp(prisma, ADMIN, events);
+
+    await sendJson(app, "PATCH", `/users/${USER_ID}`, { lastName: "Doe" });
+    await app.request(`/users/${USER_ID}`, { method: "DELETE" });
+
+    expect(publish.mock.calls).toEqual([
+      ["users.changed", { kind: "updated", userId: USER_ID, user: expect.objectContaining({ lastName: "Doe" }) }],
+      ["users.changed", { kind: "deleted", userId: USER_ID, user: null }],
+    ]);
+  });
+
+  it("returns 409 when creating a user with a taken email", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await sendJson(app, "POST", "/users", { email: "jane@example.com", password: "correct-horse" });
+
+    expect(res.status).toBe(409);
+  });
+
+  it("returns 409 when a concurrent write took the email first", async () => {
+    const app = createUsersTestApp(prisma);
+    const conflict = () => new Prisma.PrismaClientKnownRequestError(
+      "Unique constraint failed on the fields: (`email`)",
+      { code: "P2002", clientVersion: "test", meta: { target: ["email"] } },
+    );
+    prisma.user.create.mockRejectedValueOnce(conflict());
+    prisma.user.update.mockRejectedValueOnce(conflict());
+
+    const created = await sendJson(app, "POST", "/users", { email: "john@example.com", password: "correct-horse" });
+    const updated = await sendJson(app, "PATCH", `/users/${USER_ID}`, { email: "john@example.com" });
+
+    expect(created.status).toBe(409);
+    expect(updated.status).toBe(409);
+  });
+
+  it("updates a user", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await sendJson(app, "PATCH", `/users/${USER_ID}`, { lastName: "Doe", role: "admin" });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data).toMatchObject({ lastName: "Doe", role: "admin" });
+  });
+
+  it("deactivates a user", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await app.request(`/users/${USER_ID}/deactivate`, { method: "POST" });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.active).toBe(false);
+  });
+
+  it("unlocks a locked user", async () => {
+    prisma.rows.set(USER_ID, createUserRow({
+      failedSignInCount: 7,
+      lockedUntil: new Date(Date.now() + 60_000),
+    }));
+    const app = createUsersTestApp(prisma);
+
+    const locked = await app.request(`/users/${USER_ID}`);
+    expect((await locked.json()).data.lockedUntil).toEqual(expect.any(String));
+
+    const res = await app.request(`/users/${USER_ID}/unlock`, { method: "POST" });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data).not.toHaveProperty("lockedUntil");
+    expect(prisma.rows.get(USER_ID)).toMatchObject({ failedSignInCount: 0, lockedUntil: null });
+  });
+
+  it("resets two-factor authentication", async () => {
+    prisma.rows.set(USER_ID, createUserRow({
+      twoFactorSecret: "JBSWY3DPEHPK3PXP",
+      twoFactorEnabledAt: new Date(),
+    }));
+    const app = createUsersTestApp(prisma);
+
+    const res = await app.request(`/users/${USER_ID}/2fa/reset`, { method: "POST" });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.twoFactorEnabled).toBe(false);
+    expect(prisma.rows.get(USER_ID)).toMatchObject({ twoFactorSecret: null, twoFactorEnabledAt: null });
+    expect(prisma.recoveryCode.deleteMany).toHaveBeenCalledWith({ where: { userId: USER_ID } });
+  });
+
+  it("deletes a user", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await app.request(`/users/${USER_ID}`, { method: "DELETE" });
+
+    expect(res.status).toBe(204);
+    expect(prisma.rows.has(USER_ID)).toBe(false);
+  });
+});
+
+// =================================================================
+// TEST: SESSION REVOCATION
+// =================================================================
+
+describe("session revocation", () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+
+  const revokedForUser = { where: { userId: USER_ID, revokedAt: null }, data: { revokedAt: expect.any(Date) } };
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+  });
+
+  it("revokes sessions and refresh tokens when an admin sets a new password", async () => {
+    const app = createUsersTestApp(prisma);
+
+    const res = await sendJson(app, "PATCH", `/users/${USER_ID}`, { password: "new-horse-staple" });
+
+    expect(res.status).toBe(200);
+    expect(prisma.session.updateMany).toHaveBeenCalledWith(revokedForUser);
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith(revokedForUser);
+  });
+
+  it("revokes sessions and refresh tokens on deactivation", async () => {
+    const app = createUsersTestApp(prisma);
+
+    await app.request(`/users/${USER_ID}/deactivate`, { method: "POST" });
+    await sendJson(app, "PATCH", `/users/${USER_ID}`, { active: false });
+
+    expect(prisma.session.updateMany).toHaveBeenCalledTimes(2);
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps sessions for other changes", async () => {
+    const app = createUsersTestApp(prisma);
+
+    await sendJson(app, "PATCH", `/users/${USER_ID}`, { lastName: "Doe", active: true });
+
+    expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+// =================================================================
+// TEST: OWN ACCOUNT
+// =================================================================
+
+describe("changes to the own account", () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let app: OpenAPIHono<AppBindings>;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    prisma.rows.set(ADMIN.userId, createUserRow({ id: ADMIN.userId, email: "admin@example.com", role: "admin" }));
+    app = createUsersTestApp(prisma);
+  });
+
+  it.each([
+    ["demoting", () => sendJson(app, "PATCH", `/users/${ADMIN.userId}`, { role: "user" })],
+    ["deactivating via update", () => sendJson(app, "PATCH", `/users/${ADMIN.userId}`, { active: false })],
+    ["deactivating", () => app.request(`/users/${ADMIN.userId}/deactivate`, { method: "POST" })],
+    ["deleting", () => app.request(`/users/${ADMIN.userId}`, { method: "DELETE" })],
+  ])("refuses %s the acting admin with 403", async (_name, send) => {
+    const res = await send();
+
+    expect(res.status).toBe(403);
+    expect(prisma.rows.get(ADMIN.userId)).toMatchObject({ role: "admin", active: true });
+  });
+
+  it("allows other changes to the own account", async () => {
+    const res = await sendJson(app, "PATCH", `/users/${ADMIN.userId}`, { lastName: "Admin" });
+
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Users Module - User Administration
+ *
+ * Admin REST endpoints for managing user accounts:
+ * - GET    /users: List (q, sort, active, role, page, limit)
+ * - GET    /users/{id}: Detail
+ * - POST   /users: Create
+ * - PATCH  /users/{id}: Update
+ * - POST   /users/{id}/deactivate: Deactivate
+ * - POST   /users/{id}/unlock: Unlock after repeated failed sign-ins
+ * - POST   /users/{id}/2fa/reset: Reset two-factor authentication
+ * - DELETE /users/{id}: Delete
+ *
+ * Mounted under the API prefix (BASE_PATH, default /rest/v1).
+ *
+ * @module modules/users
+ */
+
+import { createRouter } from "@/lib/create-app";
+
+import {
+  createUserHandler,
+  deactivateUserHandler,
+  deleteUserHandler,
+  getUserHandler,
+  listUsersHandler,
+  resetUserTwoFactorHandler,
+  unlockUserHandler,
+  updateUserHandler,
+} from "./users.handlers";
+import {
+  createUser,
+  deactivateUser,
+  deleteUser,
+  getUser,
+  listUsers,
+  resetUserTwoFactor,
+  unlockUser,
+  updateUser,
+} from "./users.routes";
+
+// =================================================================
+// ROUTER CONFIGURATION
+// =================================================================
+
+const router = createRouter()
+  .openapi(listUsers, listUsersHandler)
+  .openapi(getUser, getUserHandler)
+  .openapi(createUser, createUserHandler)
+  .openapi(updateUser, updateUserHandler)
+  .openapi(deactivateUser, deactivateUserHandler)
+  .openapi(unlockUser, unlockUserHandler)
+  .openapi(resetUserTwoFactor, resetUserTwoFactorHandler)
+  .openapi(deleteUser, deleteUserHandler);
+
+export default router;
+
+// =================================================================
+// PUBLIC API EXPORTS
+// =================================================================
+
+export type { UserResponse } from "./users.schema";
+
+export { listUsersQuerySchema, updateUserBodySchema, USER_SORT_FIELDS } from "./users.schema";
+
+export type { UserFilter } from "./users.service";
+
+export { assertNotOwnAccount, findUsers, getUsersByIds, updateUser } from "./users.service";
@@ -0,0 +1,162 @@
+/**
+ * Users Module Handlers
+ *
+ * Route handlers for user administration.
+ * Failures are thrown as AppError and rendered by the central error handler.
+ *
+ * @module modules/users/users.handlers
+ */
+
+import type { AppRouteHandler } from "@/types";
+
+import { created, noContent, ok, paginated } from "@/lib/response";
+import { getPrincipal } from "@/middlewares/authorization.middleware";
+
+import type {
+  CreateUserRoute,
+  DeactivateUserRoute,
+  DeleteUserRoute,
+  GetUserRoute,
+  ListUsersRoute,
+  ResetUserTwoFactorRoute,
+  UnlockUserRoute,
+  UpdateUserRoute,
+} from "./users.routes";
+
+import * as usersService from "./users.service";
+
+/**
+ * List handler - paginated, filtered and sorted users
+ */
+export const listUsersHandler: AppRouteHandler<ListUsersRoute> = async (c) => {
+  const query = c.req.valid("query");
+
+  const { items, pagination } = await usersService.listUsers(c.get("prisma"), query);
+
+  return paginated(c, items, pagination);
+};
+
+/**
+ * Get handler - single user by ID
+ */
+export const getUserHandler: AppRouteHandler<GetUserRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+
+  return ok(c, await usersService.getUser(c.get("prisma"), id), 200);
+};
+
+/**
+ * Create handler - creates a user with a hashed password
+ */
+export const createUserHandler: AppRouteHandler<CreateUserRoute> = async (c) => {
+  const body = c.req.valid("json");
+
+  const user = await usersService.createUser(c.get("prisma"), c.get("events"), body);
+
+  c.get("logger").info("User created", {
+    ...c.get("logContext"),
+    userId: getPrincipal(c).userId,
+    targetUserId: user.id,
+    action: "users.create",
+  });
+
+  return created(c, user);
+};
+
+/**
+ * Update handler - partial update
+ */
+export const updateUserHandler: AppRouteHandler<UpdateUserRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const body = c.req.valid("json");
+  const { userId } = getPrincipal(c);
+  usersService.assertNotOwnAccount(userId, id, body);
+
+  const user = await usersService.updateUser(c.get("prisma"), c.get("events"), id, body);
+
+  c.get("logger").info("User updated", {
+    ...c.get("logContext"),
+    userId,
+    targetUserId: id,
+    fields: Object.keys(body),
+    action: "users.update",
+  });
+
+  return ok(c, user, 200);
+};
+
+/**
+ * Deactivate handler - sets active to false and revokes sessions
+ */
+export const deactivateUserHandler: AppRouteHandler<DeactivateUserRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getPrincipal(c);
+  usersService.assertNotOwnAccount(userId, id, { active: false });
+
+  const user = await usersService.deactivateUser(c.get("prisma"), c.get("events"), id);
+
+  c.get("logger").info("User deactivated", {
+    ...c.get("logContext"),
+    userId,
+    targetUserId: id,
+    action: "users.deactivate",
+  });
+
+  return ok(c, user, 200);
+};
+
+/**
+ * Unlock handler - lifts a sign-in lockout
+ */
+export const unlockUserHandler: AppRouteHandler<UnlockUserRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+
+  const user = await usersService.unlockUser(c.get("prisma"), c.get("events"), id);
+
+  c.get("logger").security("Account unlocked by administrator", {
+    ...c.get("logContext"),
+    userId: getPrincipal(c).userId,
+    targetUserId: id,
+    action: "users.unlock",
+  });
+
+  return ok(c, user, 200);
+};
+
+/**
+ * 2FA reset handler - disables two-factor authentication for a user
+ */
+export const resetUserTwoFactorHandler: AppRouteHandler<ResetUserTwoFactorRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+
+  const user = await usersService.resetUserTwoFactor(c.get("prisma"), c.get("events"), id);
+
+  c.get("logger").security("Two-factor authentication reset by administrator", {
+    ...c.get("logContext"),
+    userId: getPrincipal(c).userId,
+    targetUserId: id,
+    action: "users.2fa_reset",
+  });
+
+  return ok(c, user, 200);
+};
+
+/**
+ * Delete handler - permanently removes a user
+ */
+export const deleteUserHandler: AppRouteHandler<DeleteUserRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getPrincipal(c);
+  usersService.assertNotOwnAccount(userId, id, "delete");
+
+  await usersService.deleteUser(c.get("prisma"), c.get("events"), id);
+
+  c.get("logger").info("User deleted", {
+    ...c.get("logContext"),
+    userId,
+    targetUserId: id,
+    action: "users.delete",
+  });
+
+  return noContent(c);
+};
@@ -0,0 +1,215 @@
+/**
+ * Users Module Routes
+ *
+ * OpenAPI route definitions for user administration:
+ * - GET    /users: List users (search, filters, sorting, pagination)
+ * - GET    /users/{id}: Get a user
+ * - POST   /users: Create a user
+ * - PATCH  /users/{id}: Update a user
+ * - POST   /users/{id}/deactivate: Deactivate a user
+ * - POST   /users/{id}/unlock: Lift a sign-in lockout
+ * - POST   /users/{id}/2fa/reset: Disable two-factor authentication
+ * - DELETE /users/{id}: Delete a user
+ *
+ * Reads require `users:read`, mutations require `users:write`.
+ *
+ * @module modules/users/users.routes
+ */
+
+import { createRoute } from "@hono/zod-openapi";
+
+import { PERMISSIONS } from "@/lib/authorization";
+import { HTTP_STATUS } from "@/lib/http-status";
+import { jsonContent, jsonContentRequired } from "@/lib/openapi/helpers";
+import { requirePermission } from "@/middlewares/authorization.middleware";
+import {
+  conflictEnvelopeSchema,
+  forbiddenEnvelopeSchema,
+  notFoundEnvelopeSchema,
+  unauthorizedEnvelopeSchema,
+  validationErrorEnvelopeSchema,
+} from "@/schemas/envelope.schema";
+
+import {
+  createUserBodySchema,
+  listUsersQuerySchema,
+  updateUserBodySchema,
+  userEnvelopeSchema,
+  userIdParamSchema,
+  userListEnvelopeSchema,
+} from "./users.schema";
+
+const tags = ["Users"];
+
+const authErrorResponses = {
+  [HTTP_STATUS.UNAUTHORIZED]: jsonContent(unauthorizedEnvelopeSchema, "Authentication required"),
+  [HTTP_STATUS.FORBIDDEN]: jsonContent(forbiddenEnvelopeSchema, "Insufficient permissions (E2010)"),
+};
+
+// =================================================================
+// QUERY ROUTES
+// =================================================================
+
+export const listUsers = createRoute({
+  path: "/users",
+  method: "get",
+  tags,
+  summary: "List users",
+  description: "Paginated user list with `q` search, `active`/`role` filters and `sort`. "
+    + "`limit` is capped at 100.",
+  middleware: [requirePermission(PERMISSIONS.USERS_READ)] as const,
+  request: {
+    query: listUsersQuerySchema,
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(userListEnvelopeSchema, "Page of users"),
+    ...authErrorResponses,
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const getUser = createRoute({
+  path: "/users/{id}",
+  method: "get",
+  tags,
+  summary: "Get a user",
+  middleware: [requirePermission(PERMISSIONS.USERS_READ)] as const,
+  request: {
+    params: userIdParamSchema,
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(userEnvelopeSchema, "User"),
+    ...authErrorResponses,
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "User not found"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// MUTATION ROUTES
+// =================================================================
+
+export const createUser = createRoute({
+  path: "/users",
+  method: "post",
+  tags,
+  summary: "Create a user",
+  middleware: [requirePermission(PERMISSIONS.USERS_WRITE)] as const,
+  request: {
+    body: jsonContentRequired(createUserBodySchema, "User details"),
+  },
+  responses: {
+    [HTTP_STATUS.CREATED]: jsonContent(userEnvelopeSchema, "User created"),
+    ...authErrorResponses,
+    [HTTP_STATUS.CONFLICT]: jsonContent(conflictEnvelopeSchema, "Email already registered"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const updateUser = createRoute({
+  path: "/users/{id}",
+  method: "patch",
+  tags,
+  summary: "Update a user",
+  description: "Partial update. A new `password` or `active: false` revokes every session and refresh token of "
+    + "the user. Administrators cannot change their own `role` or deactivate themselves (403).",
+  middleware: [requirePermission(PERMISSIONS.USERS_WRITE)] as const,
+  request: {
+    params: userIdParamSchema,
+    body: jsonContentRequired(updateUserBodySchema, "Fields to update"),
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(userEnvelopeSchema, "User updated"),
+    ...authErrorResponses,
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "User not found"),
+    [HTTP_STATUS.CONFLICT]: jsonContent(conflictEnvelopeSchema, "Email already registered"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const deactivateUser = createRoute({
+  path: "/users/{id}/deactivate",
+  method: "post",
+  tags,
+  summary: "Deactivate a user",
+  description: "Sets `active` to false and revokes every session and refresh token of the user. Sign-in and "
+    + "token refresh are refused for inactive accounts (E2008). Administrators cannot deactivate themselves (403).",
+  middleware: [requirePermission(PERMISSIONS.USERS_WRITE)] as const,
+  request: {
+    params: userIdParamSchema,
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(userEnvelopeSchema, "User deactivated"),
+    ...authErrorResponses,
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "User not found"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const unlockUser = createRoute({
+  path: "/users/{id}/unlock",
+  method: "post",
+  tags,
+  summary: "Unlock a user",
+  description: "Clears failed sign-in attempts and lifts the lockout (E2009) started by repeated failures.",
+  middleware: [requirePermission(PERMISSIONS.USERS_WRITE)] as const,
+  request: {
+    params: userIdParamSchema,
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(userEnvelopeSchema, "User unlocked"),
+    ...authErrorResponses,
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "User not found"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const resetUserTwoFactor = createRoute({
+  path: "/users/{id}/2fa/reset",
+  method: "post",
+  tags,
+  summary: "Reset two-factor authentication",
+  description: "Disables two-factor authentication and discards the TOTP secret and recovery codes, "
+    + "e.g. when the user lost their authenticator. The user can enroll again after signing in.",
+  middleware: [requirePermission(PERMISSIONS.USERS_WRITE)] as const,
+  request: {
+    params: userIdParamSchema,
+  },
+  responses: {
+    [HTTP_STATUS.OK]: jsonContent(userEnvelopeSchema, "Two-factor authentication reset"),
+    ...authErrorResponses,
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "User not found"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+export const deleteUser = createRoute({
+  path: "/users/{id}",
+  method: "delete",
+  tags,
+  summary: "Delete a user",
+  description: "Administrators cannot delete their own account (403).",
+  middleware: [requirePermission(PERMISSIONS.USERS_WRITE)] as const,
+  request: {
+    params: userIdParamSchema,
+  },
+  responses: {
+    [HTTP_STATUS.NO_CONTENT]: { description: "User deleted" },
+    ...authErrorResponses,
+    [HTTP_STATUS.NOT_FOUND]: jsonContent(notFoundEnvelopeSchema, "User not found"),
+    [HTTP_STATUS.UNPROCESSABLE_CONTENT]: jsonContent(validationErrorEnvelopeSchema, "Validation error"),
+  },
+});
+
+// =================================================================
+// TYPE EXPORTS
+// =================================================================
+
+export type ListUsersRoute = typeof listUsers;
+export type GetUserRoute = typeof getUser;
+export type CreateUserRoute = typeof createUser;
+export type UpdateUserRoute = typeof updateUser;
+export type DeactivateUserRoute = typeof deactivateUser;
+export type UnlockUserRoute = typeof unlockUser;
+export type ResetUserTwoFactorRoute = typeof resetUserTwoFactor;
+export type DeleteUserRoute = typeof deleteUser;
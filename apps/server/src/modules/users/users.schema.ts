@@ -0,0 +1,74 @@
+/**
+ * Users Module Schemas
+ *
+ * OpenAPI schemas for the users admin endpoints. Bodies, the list query
+ * and the user model are the @repo/shared contract; the password hash is
+ * never part of a response.
+ *
+ * @module modules/users/users.schema
+ */
+
+import { z } from "@hono/zod-openapi";
+import {
+  createUserBodySchema as sharedCreateUserBodySchema,
+  listUsersQuerySchema as sharedListUsersQuerySchema,
+  updateUserBodySchema as sharedUpdateUserBodySchema,
+  userSchema,
+} from "@repo/shared";
+
+import { createPaginatedEnvelopeSchema, createSuccessEnvelopeSchema } from "@/schemas/envelope.schema";
+
+export { USER_SORT_FIELDS } from "@repo/shared";
+export type {
+  CreateUserBody,
+  ListUsersQuery,
+  UpdateUserBody,
+  User as UserResponse,
+  UserSortField,
+} from "@repo/shared";
+
+// =================================================================
+// REQUEST SCHEMAS
+// =================================================================
+
+/**
+ * List query - pagination, search, sorting and filters
+ */
+export const listUsersQuerySchema = sharedListUsersQuerySchema.openapi("ListUsersQuery");
+
+/**
+ * User ID path parameter
+ */
+export const userIdParamSchema = z.object({
+  id: z.uuid().openapi({
+    description: "User ID",
+    example: "550e8400-e29b-41d4-a716-446655440000",
+    param: {
+      name: "id",
+      in: "path",
+    },
+  }),
+}).openapi("UserIdParam");
+
+/**
+ * Create user body
+ */
+export const createUserBodySchema = sharedCreateUserBodySchema.openapi("CreateUserBody");
+
+/**
+ * Update user body - every field is optional; `null` clears a name
+ */
+export const updateUserBodySchema = sharedUpdateUserBodySchema.openapi("UpdateUserBody");
+
+// =================================================================
+// RESPONSE SCHEMAS
+// =================================================================
+
+/**
+ * Public user representation
+ */
+export const userResponseSchema = userSchema.openapi("User");
+
+export const userEnvelopeSchema = createSuccessEnvelopeSchema(userResponseSchema, "UserEnvelope");
+
+export const userListEnvelopeSchema = createPaginatedEnvelopeSchema(userResponseSchema, "UserListEnvelope");
@@ -0,0 +1,334 @@
+/**
+ * Users Service - User Administration
+ *
+ * Listing, lookup and mutations for user accounts.
+ * Every result is mapped through toPublicUser so the password hash
+ * never leaves this module. Mutations publish "users.changed" events.
+ * Setting a password or deactivating an account signs out every device.
+ *
+ * @module modules/users/users.service
+ */
+
+import type { Prisma, PrismaClient } from "@/generated/prisma/client";
+import type { EventBus } from "@/lib/events";
+
+import { AppError } from "@/errors";
+import { publishUserChanged, toPublicUser } from "@/lib/events";
+import { createPaginationMeta, resolvePagination } from "@/lib/pagination";
+import { hashPassword } from "@/lib/password";
+import { isUniqueConstraintError } from "@/lib/prisma-errors";
+import { CLEARED_LOCKOUT, normalizeEmail, resetTwoFactor, revokeUserSessions } from "@/modules/auth";
+
+import type {
+  CreateUserBody,
+  ListUsersQuery,
+  UpdateUserBody,
+  UserResponse,
+  UserSortField,
+} from "./users.schema";
+
+// =================================================================
+// HELPERS
+// =================================================================
+
+/**
+ * Search, filters and sorting of the user list (everything but the page window)
+ */
+export type UserFilter = Omit<ListUsersQuery, "page" | "limit">;
+
+function toOrderBy(sort = "-createdAt"): Prisma.UserOrderByWithRelationInput {
+  const descending = sort.startsWith("-");
+  const field = (descending ? sort.slice(1) : sort) as UserSortField;
+  return { [field]: descending ? "desc" : "asc" };
+}
+
+function toWhere(query: UserFilter): Prisma.UserWhereInput {
+  const where: Prisma.UserWhereInput = {};
+
+  if (query.q) {
+    where.OR = [
+      { email: { contains: query.q, mode: "insensitive" } },
+      { firstName: { contains: query.q, mode: "insensitive" } },
+      { lastName: { contains: query.q, mode: "insensitive" } },
+    ];
+  }
+  if (query.active) {
+    where.active = query.active === "true";
+  }
+  if (query.role) {
+    where.role = query.role;
+  }
+
+  return where;
+}
+
+/**
+ * Refuses an administrator's changes to their own role or active state
+ * and the deletion of their own account, which could leave no admin
+ *
+ * @throws AppError.forbidden when the acting user targets themselves
+ */
+export function assertNotOwnAccount(
+  actorId: string,
+  targetId: string,
+  change: Pick<UpdateUserBody, "role" | "active"> | "delete",
+) {
+  if (actorId !== targetId) {
+    return;
+  }
+  if (change === "delete") {
+    throw AppError.forbidden("You cannot delete your own account");
+  }
+  if (change.role !== undefined) {
+    throw AppError.forbidden("You cannot change the role of your own account");
+  }
+  if (change.active === false) {
+    throw AppError.forbidden("You cannot deactivate your own account");
+  }
+}
+
+const EMAIL_TAKEN = "An account with this email already exists";
+
+async function assertEmailAvailable(prisma: PrismaClient, email: string, exceptId?: string) {
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing && existing.id !== exceptId) {
+    throw AppError.conflict(EMAIL_TAKEN);
+  }
+}
+
+/**
+ * Rethrows the unique violation of a concurrent write with the same email
+ * (which passed assertEmailAvailable too) as a conflict
+ */
+function rethrowEmailConflict(error: unknown): never {
+  if (isUniqueConstraintError(error)) {
+    throw AppError.conflict(EMAIL_TAKEN);
+  }
+  throw error;
+}
+
+// =================================================================
+// QUERIES
+// =================================================================
+
+/**
+ * Lists users with search, filters, sorting and pagination
+ */
+export async function listUsers(prisma: PrismaClient, query: ListUsersQuery) {
+  const { page, limit, skip } = resolvePagination(query);
+
+  const { items, totalItems } = await findUsers(prisma, query, { skip, take: limit });
+
+  return {
+    items,
+    pagination: createPaginationMeta(page, limit, totalItems),
+  };
+}
+
+/**
+ * Returns a window of the filtered, sorted user list and the total count
+ *
+ * Shared by the page-based REST list and the cursor-based GraphQL connection.
+ */
+export async function findUsers(
+  prisma: PrismaClient,
+  filter: UserFilter,
+  window: { skip: number; take: number },
+) {
+  const where = toWhere(filter);
+
+  const [users, totalItems] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      orderBy: [toOrderBy(filter.sort), { id: "asc" }],
+      skip: window.skip,
+      take: window.take,
+    }),
+    prisma.user.count({ where }),
+  ]);
+
+  return {
+    items: users.map(toPublicUser),
+    totalItems,
+  };
+}
+
+/**
+ * Returns the users with the given IDs in one query, in the order of `ids`
+ * (null for unknown IDs) - the batch function of the GraphQL user loader
+ */
+export async function getUsersByIds(
+  prisma: PrismaClient,
+  ids: readonly string[],
+): Promise<(UserResponse | null)[]> {
+  const users = await prisma.user.findMany({ where: { id: { in: [...ids] } } });
+  const byId = new Map(users.map(user => [user.id, toPublicUser(user)]));
+
+  return ids.map(id => byId.get(id) ?? null);
+}
+
+/**
+ * Returns a user by ID
+ *
+ * @throws AppError.notFound when the user does not exist
+ */
+export async function getUser(prisma: PrismaClient, id: string): Promise<UserResponse> {
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (!user) {
+    throw AppError.notFound("User", id);
+  }
+  return toPublicUser(user);
+}
+
+// =================================================================
+// MUTATIONS
+// =================================================================
+
+/**
+ * Creates a user
+ *
+ * Accounts provisioned by an administrator are treated as email-verified.
+ *
+ * @throws AppError.conflict if the email is already registered
+ */
+export async function createUser(
+  prisma: PrismaClient,
+  events: EventBus,
+  input: CreateUserBody,
+): Promise<UserResponse> {
+  const email = normalizeEmail(input.email);
+  await assertEmailAvailable(prisma, email);
+
+  const password = await hashPassword(input.password);
+
+  let user;
+  try {
+    user = await prisma.user.create({
+      data: {
+        email,
+        password,
+        firstName: input.firstName,
+        lastName: input.lastName,
+        role: input.role,
+        active: input.active,
+        emailVerifiedAt: new Date(),
+      },
+    });
+  }
+  catch (error) {
+    rethrowEmailConflict(error);
+  }
+
+  return publishUserChanged(events, "created", toPublicUser(user));
+}
+
+/**
+ * Updates a user
+ *
+ * A new password or deactivation revokes every session and refresh token
+ * of the user; the published event ends their open subscriptions.
+ *
+ * @throws AppError.notFound when the user does not exist
+ * @throws AppError.conflict if the new email is already registered
+ */
+export async function updateUser(
+  prisma: PrismaClient,
+  events: EventBus,
+  id: string,
+  input: UpdateUserBody,
+): Promise<UserResponse> {
+  await getUser(prisma, id);
+
+  const email = input.email ? normalizeEmail(input.email) : undefined;
+  if (email) {
+    await assertEmailAvailable(prisma, email, id);
+  }
+
+  const password = input.password ? await hashPassword(input.password) : undefined;
+
+  let user;
+  try {
+    user = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id },
+        data: {
+          email,
+          password,
+          firstName: input.firstName,
+          lastName: input.lastName,
+          role: input.role,
+          active: input.active,
+        },
+      });
+      if (password || input.active === false) {
+        await revokeUserSessions(tx, id);
+      }
+      return updated;
+    });
+  }
+  catch (error) {
+    rethrowEmailConflict(error);
+  }
+
+  return publishUserChanged(events, "updated", toPublicUser(user));
+}
+
+/**
+ * Deactivates a user and signs out every device (sign-in and token
+ * refresh are refused afterwards)
+ *
+ * @throws AppError.notFound when the user does not exist
+ */
+export async function deactivateUser(
+  prisma: PrismaClient,
+  events: EventBus,
+  id: string,
+): Promise<UserResponse> {
+  return updateUser(prisma, events, id, { active: false });
+}
+
+/**
+ * Clears failed sign-in attempts and lifts any lockout
+ *
+ * @throws AppError.notFound when the user does not exist
+ */
+export async function unlockUser(
+  prisma: PrismaClient,
+  events: EventBus,
+  id: string,
+): Promise<UserResponse> {
+  await getUser(prisma, id);
+
+  const user = await prisma.user.update({
+    where: { id },
+    data: CLEARED_LOCKOUT,
+  });
+
+  return publishUserChanged(events, "updated", toPublicUser(user));
+}
+
+/**
+ * Disables two-factor authentication so the user can sign in with the
+ * password alone and enroll again
+ *
+ * @throws AppError.notFound when the user does not exist
+ */
+export async function resetUserTwoFactor(
+  prisma: PrismaClient,
+  events: EventBus,
+  id: string,
+): Promise<UserResponse> {
+  await resetTwoFactor(prisma, id);
+  return publishUserChanged(events, "updated", await getUser(prisma, id));
+}
+
+/**
+ * Permanently deletes a user (refresh tokens cascade)
+ *
+ * @throws AppError.notFound when the user does not exist
+ */
+export async function deleteUser(prisma: PrismaClient, events: EventBus, id: string) {
+  const user = await getUser(prisma, id);
+  await prisma.user.delete({ where: { id } });
+  await publishUserChanged(events, "deleted", user);
+}
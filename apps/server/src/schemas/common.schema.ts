@@ -1,4 +1,5 @@
 import { z } from "@hono/zod-openapi";
+import { paginationQuerySchema as sharedPaginationQuerySchema } from "@repo/shared";
 
 // =================================================================
 // UTILITY SCHEMAS FOR ROUTE PARAMETERS
@@ -46,125 +47,6 @@ export const environmentIdParamSchema = z.object({
 // QUERY PARAMETER SCHEMAS
 // =================================================================
 
-export const paginationQuerySchema = z.object({
-  page: z.string()
-    .optional()
-    .openapi({
-      description: "Page number for pagination (default: 1)",
-      example: "1",
-    }),
-  limit: z.string()
-    .optional()
-    .openapi({
-      description: "Number of items per page (default: 10, max: 100)",
-      example: "10",
-    }),
-}).openapi("PaginationQuery");
-
-// =================================================================
-// RESPONSE SCHEMAS
-// =================================================================
-
-export function paginatedResponseSchema<T extends z.ZodType>(itemSchema: T) {
-  return z.object({
-    data: z.array(itemSchema).openapi({
-      description: "Array of items",
-    }),
-    pagination: z.object({
-      page: z.number().openapi({
-        description: "Current page number",
-        example: 1,
-      }),
-      limit: z.number().openapi({
-        description: "Items per page",
-        example: 10,
-      }),
-      total: z.number().openapi({
-        description: "Total number of items",
-        example: 100,
-      }),
-      totalPages: z.number().openapi({
-        description: "Total number of pages",
-        example: 10,
-      }),
-    }).openapi({
-      description: "Pagination metadata",
-    }),
-  });
-}
-
-export const errorResponseSchema = z.object({
-  message: z.string().openapi({
-    description: "Error message",
-    example: "An error occurred",
-  }),
-  error: z.string().optional().openapi({
-    description: "Error type or code",
-    example: "BAD_REQUEST",
-  }),
-  code: z.string().optional().openapi({
-    description: "Application-specific error code",
-    example: "ERR_001",
-  }),
-}).openapi("ErrorResponse");
-
-/**
- * Standard error response schema - matches error(message, statusCode)
- * Shared across all modules for consistent error responses
- */
-export const standardErrorResponseSchema = z.object({
-  message: z.string().openapi({
-    description: "Error message",
-    example: "Internal server error",
-  }),
-  code: z.number().openapi({
-    description: "HTTP status code",
-    example: 500,
-  }),
-  error: z.literal(true).openapi({
-    description: "Error flag (true for errors)",
-  }),
-}).openapi("StandardErrorResponse");
-
-// =================================================================
-// TYPE EXPORTS
-// =================================================================
-
-export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
-export type ErrorResponse = z.infer<typeof errorResponseSchema>;
-export type StandardErrorResponse = z.infer<typeof standardErrorResponseSchema>;
-
-// =================================================================
-// HELPER FUNCTIONS
-// =================================================================
-
-/**
- * Creates pagination info object
- */
-export function createPaginationInfo(
-  page: number,
-  limit: number,
-  total: number,
-) {
-  return {
-    page,
-    limit,
-    total,
-    totalPages: Math.ceil(total / limit),
-  };
-}
+export const paginationQuerySchema = sharedPaginationQuerySchema.openapi("PaginationQuery");
 
-/**
- * Creates a paginated response
- */
-export function createPaginatedResponse<T>(
-  data: T[],
-  page: number,
-  limit: number,
-  total: number,
-) {
-  return {
-    data,
-    pagination: createPaginationInfo(page, limit, total),
-  };
-}
+export type { PaginationQuery } from "@repo/shared";
@@ -8,36 +8,26 @@
  */
 
 import { z } from "@hono/zod-openapi";
+import {
+  errorEnvelopeSchema,
+  paginatedSchema,
+  problemFieldErrorSchema,
+  paginationMetaSchema as sharedPaginationMetaSchema,
+  problemDetailsSchema as sharedProblemDetailsSchema,
+  responseMetaSchema as sharedResponseMetaSchema,
+  successEnvelopeSchema,
+} from "@repo/shared";
 
 // =================================================================
-// RESPONSE META SCHEMA
+// ENVELOPE PARTS
 // =================================================================
+// The contract lives in @repo/shared; these register it as OpenAPI components
+// so envelopes reference them instead of inlining copies.
 
 /**
  * Response metadata schema - included in every envelope response
  */
-export const responseMetaSchema = z.object({
-  requestId: z.string().openapi({
-    description: "Unique request identifier for correlation",
-    example: "req_1234567890",
-  }),
-  timestamp: z.string().datetime().openapi({
-    description: "ISO 8601 timestamp of response generation",
-    example: "2025-01-15T10:30:00.000Z",
-  }),
-  traceId: z.string().optional().openapi({
-    description: "W3C Trace Context trace-id (if traceparent header present)",
-    example: "0af7651916cd43dd8448eb211c80319c",
-  }),
-  spanId: z.string().optional().openapi({
-    description: "W3C Trace Context span-id (if traceparent header present)",
-    example: "b7ad6b7169203331",
-  }),
-}).openapi("ResponseMeta");
-
-// =================================================================
-// FIELD ERROR SCHEMA (RFC 9457 Extension)
-// =================================================================
+export const responseMetaSchema = sharedResponseMetaSchema.openapi("ResponseMeta");
 
 /**
  * Field-level validation error schema
@@ -46,69 +36,14 @@ export const responseMetaSchema = z.object({
  * - `code`: Stable E-code for clients (E1001, E3002, etc.)
  * - `reason`: Zod issue code for debug/telemetry (optional)
  */
-export const fieldErrorSchema = z.object({
-  field: z.string().optional().openapi({
-    description: "Dot-path to the field (e.g., 'user.email')",
-    example: "email",
-  }),
-  pointer: z.string().optional().openapi({
-    description: "JSON Pointer in URI fragment form per RFC 6901. Tokens are escaped (~→~0, /→~1) and may be percent-encoded for special characters (space, %, #, etc.)",
-    example: "#/filedata",
-    format: "uri-reference",
-    pattern: "^#(/|$)",
-  }),
-  message: z.string().openapi({
-    description: "Human-readable error message",
-    example: "Invalid email format",
-  }),
-  code: z.string().optional().openapi({
-    description: "Stable E-code for client consumption (E1001, E3002, E3001, etc.)",
-    example: "E1001",
-  }),
-  reason: z.string().optional().openapi({
-    description: "Zod issue code for debug/telemetry (internal use only)",
-    example: "custom",
-  }),
-}).openapi("FieldError");
-
-// =================================================================
-// PROBLEM DETAILS SCHEMA (RFC 9457)
-// =================================================================
+export const fieldErrorSchema = problemFieldErrorSchema.openapi("FieldError");
 
 /**
  * RFC 9457 Problem Details schema
  */
-export const problemDetailsSchema = z.object({
-  type: z.string().openapi({
-    description: "URI reference identifying the problem type (may be relative per RFC 9457)",
-    example: "/problems/not-found",
-    format: "uri-reference",
-  }),
-  title: z.string().openapi({
-    description: "Short, human-readable summary (should not change between occurrences)",
-    example: "Not found",
-  }),
-  status: z.number().openapi({
-    description: "HTTP status code (must match actual HTTP response status)",
-    example: 404,
-  }),
-  detail: z.string().openapi({
-    description: "Human-readable explanation specific to this occurrence",
-    example: "Route was not found",
-  }),
-  instance: z.string().openapi({
-    description: "URI reference identifying the specific occurrence (typically the request path)",
-    example: "/missing",
-    format: "uri-reference",
-  }),
-  code: z.string().openapi({
-    description: "Stable E-code for client consumption (E#### pattern)",
-    example: "E1404",
-  }),
-  errors: z.array(fieldErrorSchema).optional().openapi({
-    description: "Field-level validation errors (present for 422 responses)",
-  }),
-}).openapi("ProblemDetails");
+export const problemDetailsSchema = sharedProblemDetailsSchema
+  .extend({ errors: z.array(fieldErrorSchema) })
+  .openapi("ProblemDetails");
 
 // =================================================================
 // ENVELOPE SCHEMA FACTORIES
@@ -127,16 +62,31 @@ export function createSuccessEnvelopeSchema<T extends z.ZodType>(
   dataSchema: T,
   name: string,
 ) {
-  return z.object({
-    success: z.literal(true).openapi({
-      description: "Success flag (true for successful responses)",
-    }),
-    data: dataSchema,
-    error: z.null().openapi({
-      description: "Error object (null for successful responses)",
-    }),
-    meta: responseMetaSchema,
-  }).openapi(name);
+  return successEnvelopeSchema(dataSchema).extend({ meta: responseMetaSchema }).openapi(name);
+}
+
+/**
+ * Pagination metadata schema - matches PaginationMeta from lib/response
+ */
+export const paginationMetaSchema = sharedPaginationMetaSchema.openapi("PaginationMeta");
+
+/**
+ * Creates a paginated success envelope schema - matches paginated() helper
+ *
+ * @param itemSchema - Zod schema for a single list item
+ * @param name - OpenAPI component name
+ *
+ * @example
+ * const usersEnvelope = createPaginatedEnvelopeSchema(userSchema, "UserListEnvelope");
+ */
+export function createPaginatedEnvelopeSchema<T extends z.ZodType>(
+  itemSchema: T,
+  name: string,
+) {
+  return createSuccessEnvelopeSchema(
+    paginatedSchema(itemSchema).extend({ pagination: paginationMetaSchema }),
+    name,
+  );
 }
 
 /**
@@ -148,22 +98,20 @@ export function createSuccessEnvelopeSchema<T extends z.ZodType>(
  * const authErrorEnvelope = createErrorEnvelopeSchema("AuthErrorEnvelope");
  */
 export function createErrorEnvelopeSchema(name: string) {
-  return z.object({
-    success: z.literal(false).openapi({
-      description: "Success flag (false for error responses)",
-    }),
-    data: z.null().openapi({
-      description: "Data object (null for error responses)",
-    }),
-    error: problemDetailsSchema,
-    meta: responseMetaSchema,
-  }).openapi(name);
-};
+  return errorEnvelopeSchema
+    .extend({ error: problemDetailsSchema, meta: responseMetaSchema })
+    .openapi(name);
+}
 
 // =================================================================
 // PRE-BUILT ERROR ENVELOPE SCHEMAS
 // =================================================================
 
+/**
+ * 400 Bad Request envelope schema
+ */
+export const badRequestEnvelopeSchema = createErrorEnvelopeSchema("BadRequestEnvelope");
+
 /**
  * 401 Unauthorized envelope schema
  */
@@ -200,6 +148,12 @@ export const internalErrorEnvelopeSchema = createErrorEnvelopeSchema("InternalEr
  */
 export const badGatewayEnvelopeSchema = createErrorEnvelopeSchema("BadGatewayEnvelope");
 
+/**
+ * 503 Service Unavailable envelope schema
+ * Used by the readiness and health checks
+ */
+export const serviceUnavailableEnvelopeSchema = createErrorEnvelopeSchema("ServiceUnavailableEnvelope");
+
 /**
  * 504 Gateway Timeout envelope schema
  * Used when upstream SOAP service times out
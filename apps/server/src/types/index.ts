@@ -2,7 +2,11 @@ import type { OpenAPIHono, RouteConfig, RouteHandler } from "@hono/zod-openapi";
 import type { Schema } from "hono";
 
 import type { prisma } from "@/db/prisma";
+import type { AuthPrincipal } from "@/lib/authorization";
+import type { EventBus } from "@/lib/events";
 import type { LogContext, logger } from "@/lib/logging";
+import type { Mailer } from "@/lib/mail";
+import type { OidcClient } from "@/lib/oidc";
 
 export interface AppBindings {
   Variables: {
@@ -11,6 +15,13 @@ export interface AppBindings {
     logger: typeof logger;
     logContext: LogContext;
     prisma: typeof prisma;
+    mailer: Mailer;
+    /** Domain event bus (GraphQL subscriptions) */
+    events: EventBus;
+    /** SSO relying party (null while OIDC_ISSUER is unset) */
+    oidc: OidcClient | null;
+    /** Verified caller, set by authMiddleware on protected routes */
+    principal?: AuthPrincipal;
   };
 }
 
@@ -21,7 +21,9 @@ export const SENSITIVE_PARAMS = new Set([
   "password",
   "secret",
   "api_key",
+  "api-key",
   "apikey",
+  "x-api-key",
   "key",
   "auth",
   "credential",
@@ -30,11 +32,17 @@ export const SENSITIVE_PARAMS = new Set([
   "bearer",
 ]);
 
+/**
+ * Personal API keys (`ak_<8 hex>_<secret>`, see lib/api-key)
+ */
+const API_KEY_PATTERN = /\b(ak_[0-9a-f]{8})_[\w-]+/g;
+
 /**
  * Sanitize string against log injection (OWASP)
  *
  * Escapes CR, LF, TAB and removes other control characters
  * that could be used to inject fake log entries or corrupt log parsing.
+ * API keys are masked down to their prefix, which still identifies them.
  *
  * @param str - String to sanitize
  * @returns Sanitized string with control characters escaped/removed
@@ -62,7 +70,9 @@ export function sanitizeLogString(
     .replace(/\t/g, "\\t")
     // Remove other control characters (NUL, BEL, etc.)
 
-    .replace(/[\x00-\x08\v\f\x0E-\x1F\x7F]/g, "");
+    .replace(/[\x00-\x08\v\f\x0E-\x1F\x7F]/g, "")
+    // Keep only the identifying prefix of API keys
+    .replace(API_KEY_PATTERN, "$1_[REDACTED]");
 }
 
 /**
@@ -111,7 +121,7 @@ export function sanitizePath(urlString: string) {
   catch {
     // If URL parsing fails, use regex fallback
     const sanitized = urlString.replace(
-      /([?&](token|password|secret|code|api_key|key|auth|jwt|bearer)=)[^&]*/gi,
+      /([?&](token|password|secret|code|api_key|api-key|apikey|x-api-key|key|auth|jwt|bearer)=)[^&]*/gi,
       "$1[REDACTED]",
     );
     return sanitizeLogString(sanitized) || sanitized;
@@ -1,6 +1,9 @@
+import { createRequire } from "node:module";
 import { fileURLToPath, URL } from "node:url";
 import { defineConfig } from "vitest/config";
 
+const require = createRequire(import.meta.url);
+
 export default defineConfig({
   test: {
     globals: true,
@@ -15,8 +18,12 @@ export default defineConfig({
     },
   },
   resolve: {
-    alias: {
-      "@": fileURLToPath(new URL("./src", import.meta.url)),
-    },
+    alias: [
+      { find: "@", replacement: fileURLToPath(new URL("./src", import.meta.url)) },
+      // Vite would pick graphql's ESM build for our sources while graphql-yoga
+      // (loaded by Node) gets the CommonJS one, and errors thrown by resolvers
+      // would then not be GraphQLError instances to Yoga
+      { find: /^graphql$/, replacement: require.resolve("graphql") },
+    ],
   },
 });
@@ -1,28 +1,150 @@
-export interface ResponseMeta {
-  requestId: string;
-  timestamp: string;
-  traceId?: string;
-  spanId?: string;
-}
+import { z } from 'zod';
 
-export interface ProblemFieldError {
-  field?: string;
-  pointer?: string;
-  message: string;
-  code?: string;
-  reason?: string;
-}
+/** Metadata included in every response */
+export const responseMetaSchema = z.object({
+  requestId: z.string().meta({
+    description: 'Unique request identifier for correlation',
+    example: 'req_1234567890',
+  }),
+  timestamp: z.iso.datetime().meta({
+    description: 'ISO 8601 timestamp of response generation',
+    example: '2025-01-15T10:30:00.000Z',
+  }),
+  traceId: z.string().optional().meta({
+    description: 'W3C Trace Context trace-id (if traceparent header present)',
+    example: '0af7651916cd43dd8448eb211c80319c',
+  }),
+  spanId: z.string().optional().meta({
+    description: 'W3C Trace Context span-id (if traceparent header present)',
+    example: 'b7ad6b7169203331',
+  }),
+});
 
-export interface ProblemDetails {
-  type: string;
-  title: string;
-  status: number;
-  detail: string;
-  instance: string;
-  code: string;
-  errors: ProblemFieldError[];
-  [key: string]: unknown;
-}
+export type ResponseMeta = z.infer<typeof responseMetaSchema>;
+
+/**
+ * Field-level validation error (RFC 9457 extension)
+ *
+ * `code` is the stable E-code for clients, `reason` the zod issue code for
+ * debugging.
+ */
+export const problemFieldErrorSchema = z.object({
+  field: z.string().optional().meta({
+    description: "Dot-path to the field (e.g., 'user.email')",
+    example: 'email',
+  }),
+  pointer: z.string().optional().meta({
+    description:
+      'JSON Pointer in URI fragment form per RFC 6901. Tokens are escaped (~→~0, /→~1) ' +
+      'and may be percent-encoded for special characters (space, %, #, etc.)',
+    example: '#/filedata',
+    format: 'uri-reference',
+    pattern: '^#(/|$)',
+  }),
+  message: z.string().meta({
+    description: 'Human-readable error message',
+    example: 'Invalid email format',
+  }),
+  code: z.string().optional().meta({
+    description: 'Stable E-code for client consumption (E1001, E3002, E3001, etc.)',
+    example: 'E1001',
+  }),
+  reason: z.string().optional().meta({
+    description: 'Zod issue code for debug/telemetry (internal use only)',
+    example: 'custom',
+  }),
+});
+
+export type ProblemFieldError = z.infer<typeof problemFieldErrorSchema>;
+
+/**
+ * RFC 9457 Problem Details; extension members other than `code` and
+ * `errors` are kept
+ */
+export const problemDetailsSchema = z.looseObject({
+  type: z.string().meta({
+    description: 'URI reference identifying the problem type (may be relative per RFC 9457)',
+    example: '/problems/not-found',
+    format: 'uri-reference',
+  }),
+  title: z.string().meta({
+    description: 'Short, human-readable summary (should not change between occurrences)',
+    example: 'Not found',
+  }),
+  status: z.number().meta({
+    description: 'HTTP status code (must match actual HTTP response status)',
+    example: 404,
+  }),
+  detail: z.string().meta({
+    description: 'Human-readable explanation specific to this occurrence',
+    example: 'Route was not found',
+  }),
+  instance: z.string().meta({
+    description:
+      'URI reference identifying the specific occurrence (typically the request path)',
+    example: '/missing',
+    format: 'uri-reference',
+  }),
+  code: z.string().meta({
+    description: 'Stable E-code for client consumption (E#### pattern)',
+    example: 'E1404',
+  }),
+  errors: z.array(problemFieldErrorSchema).meta({
+    description: 'Field-level validation errors (non-empty for 422 responses)',
+  }),
+});
+
+export type ProblemDetails = z.infer<typeof problemDetailsSchema>;
+
+/**
+ * Problem members in the `extensions` of a GraphQL error; the error
+ * `message` is the problem `detail`
+ */
+export const graphQLProblemExtensionsSchema = z.looseObject({
+  code: problemDetailsSchema.shape.code,
+  problemType: problemDetailsSchema.shape.type,
+  status: problemDetailsSchema.shape.status,
+  errors: problemDetailsSchema.shape.errors,
+  requestId: z.string().optional().meta({
+    description: 'Request ID for log correlation',
+    example: 'req_1234567890',
+  }),
+});
+
+export type GraphQLProblemExtensions = z.infer<
+  typeof graphQLProblemExtensionsSchema
+>;
+
+/** Success envelope around `data` */
+export const successEnvelopeSchema = <T extends z.ZodType>(data: T) =>
+  z.object({
+    success: z.literal(true).meta({
+      description: 'Success flag (true for successful responses)',
+    }),
+    data,
+    error: z.null().meta({
+      description: 'Error object (null for successful responses)',
+    }),
+    meta: responseMetaSchema,
+  });
+
+export const errorEnvelopeSchema = z.object({
+  success: z.literal(false).meta({
+    description: 'Success flag (false for error responses)',
+  }),
+  data: z.null().meta({
+    description: 'Data object (null for error responses)',
+  }),
+  error: problemDetailsSchema,
+  meta: responseMetaSchema,
+});
+
+/** Any response of an endpoint whose success data is `data` */
+export const apiResponseEnvelopeSchema = <T extends z.ZodType>(data: T) =>
+  z.discriminatedUnion('success', [
+    successEnvelopeSchema(data),
+    errorEnvelopeSchema,
+  ]);
 
 export interface SuccessEnvelope<T> {
   success: true;
@@ -31,12 +153,7 @@ export interface SuccessEnvelope<T> {
   meta: ResponseMeta;
 }
 
-export interface ErrorEnvelope {
-  success: false;
-  data: null;
-  error: ProblemDetails;
-  meta: ResponseMeta;
-}
+export type ErrorEnvelope = z.infer<typeof errorEnvelopeSchema>;
 
 export type ApiResponseEnvelope<T> = SuccessEnvelope<T> | ErrorEnvelope;
 
@@ -1,3 +1,4 @@
 export * from './models';
-export * from './api';
+export * from './domain-codes';
 export * from './envelope';
+export * from './pagination';
@@ -0,0 +1,245 @@
+import { z } from 'zod';
+import { userSchema } from './user';
+
+/** Minimum password length accepted on sign-up and password reset */
+export const PASSWORD_MIN_LENGTH = 8;
+
+/** Maximum password length accepted on sign-up and password reset */
+export const PASSWORD_MAX_LENGTH = 128;
+
+const emailSchema = z.email().meta({
+  description: 'Account email address',
+  example: 'jane.doe@example.com',
+});
+
+const newPasswordSchema = z
+  .string()
+  .min(PASSWORD_MIN_LENGTH)
+  .max(PASSWORD_MAX_LENGTH)
+  .meta({
+    description: `Password (${PASSWORD_MIN_LENGTH}-${PASSWORD_MAX_LENGTH} characters)`,
+    example: 'correct-horse-battery-staple',
+  });
+
+// =================================================================
+// REQUEST BODIES
+// =================================================================
+
+export const signInBodySchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1).meta({
+    description: 'Account password',
+    example: 'correct-horse-battery-staple',
+  }),
+});
+
+export type SignInBody = z.infer<typeof signInBodySchema>;
+
+export const signUpBodySchema = z.object({
+  email: emailSchema.meta({
+    description: 'Account email address (must be unique)',
+  }),
+  password: newPasswordSchema,
+  firstName: z.string().trim().min(1).max(100).optional().meta({
+    description: 'First name',
+    example: 'Jane',
+  }),
+  lastName: z.string().trim().min(1).max(100).optional().meta({
+    description: 'Last name',
+    example: 'Doe',
+  }),
+});
+
+export type SignUpBody = z.infer<typeof signUpBodySchema>;
+
+export const refreshBodySchema = z.object({
+  refreshToken: z.string().min(1).meta({
+    description: 'Refresh token from the previous sign-in or refresh',
+    example: 'l1Wq3v0p1m3nZ8w8n2mH0lJ5b4Vg7Xn0QyK0mB6vF1s',
+  }),
+});
+
+export type RefreshBody = z.infer<typeof refreshBodySchema>;
+
+export const forgotPasswordBodySchema = z.object({
+  email: emailSchema,
+});
+
+export type ForgotPasswordBody = z.infer<typeof forgotPasswordBodySchema>;
+
+export const resetPasswordBodySchema = z.object({
+  token: z.string().min(1).meta({
+    description: 'Reset token from the emailed link',
+    example: 'Zp3c0gB1m0v7XrQ2Yt9sH4kL8wN6aE5dF1jU0iO3pR2',
+  }),
+  password: newPasswordSchema,
+});
+
+export type ResetPasswordBody = z.infer<typeof resetPasswordBodySchema>;
+
+export const resendVerificationBodySchema = z.object({
+  email: emailSchema,
+});
+
+export type ResendVerificationBody = z.infer<
+  typeof resendVerificationBodySchema
+>;
+
+export const verifyTwoFactorBodySchema = z.object({
+  challengeToken: z.string().min(1).meta({
+    description: 'Challenge token returned by `/auth/signin`',
+    example: 'c2Q0Tm1VdXh3Y0pZb3R2QnFmN0ZqZ0x6S2hQbTFhRVI',
+  }),
+  code: z.string().trim().min(6).max(32).meta({
+    description: '6-digit authenticator code or a recovery code',
+    example: '123456',
+  }),
+});
+
+export type VerifyTwoFactorBody = z.infer<typeof verifyTwoFactorBodySchema>;
+
+/** Authorization response parameters received by the SSO redirect URI */
+export const oidcCallbackBodySchema = z.object({
+  code: z.string().min(1).max(2048).meta({
+    description: 'Authorization code issued by the identity provider',
+    example: 'SplxlOBeZQQYbYS6WxSbIA',
+  }),
+  state: z.string().min(1).max(256).meta({
+    description: 'State returned by `/auth/oidc/authorize`',
+    example: 'af0ifjsldkj9Xq2b3c4d5e6f7g8h9i0jKlMnOpQrStU',
+  }),
+});
+
+export type OidcCallbackBody = z.infer<typeof oidcCallbackBodySchema>;
+
+// =================================================================
+// RESPONSES
+// =================================================================
+
+/** The signed-in user as returned by sign-in and `/auth/me` */
+export const authUserSchema = userSchema
+  .pick({
+    id: true,
+    email: true,
+    active: true,
+    firstName: true,
+    lastName: true,
+    role: true,
+  })
+  .extend({
+    emailVerified: z.boolean().meta({
+      description: 'Whether the email address has been verified',
+      example: true,
+    }),
+  });
+
+export type AuthUser = z.infer<typeof authUserSchema>;
+
+/** Issued session - access/refresh token pair plus the authenticated user */
+export const authSessionSchema = z.object({
+  accessToken: z.string().meta({
+    description: 'Signed JWT access token (send as `Authorization: Bearer <token>`)',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  }),
+  tokenType: z.literal('Bearer').meta({
+    description: 'Token type',
+    example: 'Bearer',
+  }),
+  expiresIn: z.number().int().meta({
+    description: 'Access token lifetime in seconds',
+    example: 900,
+  }),
+  refreshToken: z.string().meta({
+    description: 'Opaque single-use refresh token (exchange at `/auth/refresh`)',
+    example: 'l1Wq3v0p1m3nZ8w8n2mH0lJ5b4Vg7Xn0QyK0mB6vF1s',
+  }),
+  refreshExpiresIn: z.number().int().meta({
+    description: 'Refresh token lifetime in seconds',
+    example: 2592000,
+  }),
+  user: authUserSchema,
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+/**
+ * Sign-in result for users with two-factor authentication - the session is
+ * issued by `/auth/2fa/verify`
+ */
+export const twoFactorChallengeSchema = z.object({
+  twoFactorRequired: z.literal(true).meta({
+    description: 'A second factor is required to complete the sign-in',
+    example: true,
+  }),
+  challengeToken: z.string().meta({
+    description: 'Opaque single-use token for `/auth/2fa/verify`',
+    example: 'c2Q0Tm1VdXh3Y0pZb3R2QnFmN0ZqZ0x6S2hQbTFhRVI',
+  }),
+  expiresIn: z.number().int().meta({
+    description: 'Challenge lifetime in seconds',
+    example: 300,
+  }),
+});
+
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+
+export const signInResultSchema = z.union([
+  authSessionSchema,
+  twoFactorChallengeSchema,
+]);
+
+export type SignInResult = z.infer<typeof signInResultSchema>;
+
+/**
+ * Sign-up result when EMAIL_VERIFICATION_POLICY=block - no session is issued
+ * until the emailed link is opened
+ */
+export const pendingVerificationSchema = z.object({
+  verificationRequired: z.literal(true).meta({
+    description: 'The email must be verified before signing in',
+    example: true,
+  }),
+  user: authUserSchema,
+});
+
+export type PendingVerification = z.infer<typeof pendingVerificationSchema>;
+
+export const signUpResultSchema = z.union([
+  authSessionSchema,
+  pendingVerificationSchema,
+]);
+
+export type SignUpResult = z.infer<typeof signUpResultSchema>;
+
+/**
+ * Started SSO sign-in - send the browser to `authorizationUrl` and keep
+ * `state` to check it against the authorization response
+ */
+export const oidcAuthorizationSchema = z.object({
+  authorizationUrl: z.url().meta({
+    description: 'Identity provider URL with state, nonce and PKCE challenge',
+    example:
+      'https://idp.example.com/authorize?response_type=code&client_id=api-template&state=af0ifjsldkj',
+  }),
+  state: z.string().meta({
+    description: 'Opaque single-use state, echoed back by the provider',
+    example: 'af0ifjsldkj9Xq2b3c4d5e6f7g8h9i0jKlMnOpQrStU',
+  }),
+  expiresIn: z.number().int().meta({
+    description: 'Seconds until the state expires',
+    example: 600,
+  }),
+});
+
+export type OidcAuthorization = z.infer<typeof oidcAuthorizationSchema>;
+
+/** Generic acknowledgement, e.g. after requesting a password reset */
+export const authMessageSchema = z.object({
+  message: z.string().meta({
+    description: 'Human-readable outcome',
+    example:
+      'If an account with that email exists, a password reset link has been sent.',
+  }),
+});
+
+export type AuthMessage = z.infer<typeof authMessageSchema>;
@@ -1,12 +1,132 @@
 import { z } from 'zod';
+import { paginationQuerySchema } from '../pagination';
 
+export const USER_ROLES = ['admin', 'user'] as const;
+
+export const userRoleSchema = z.enum(USER_ROLES).meta({
+  description: 'User role',
+  example: 'user',
+});
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+/** Public user representation; the password hash is never serialized */
 export const userSchema = z.object({
-  id: z.string(),
-  email: z.string().email().optional(),
-  active: z.boolean().optional(),
-  firstName: z.string().optional(),
-  lastName: z.string().optional(),
-  role: z.enum(['admin', 'user']).optional(),
+  id: z.string().meta({
+    description: 'User ID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  }),
+  email: z.email().meta({
+    description: 'Account email address',
+    example: 'jane.doe@example.com',
+  }),
+  active: z.boolean().meta({
+    description: 'Whether the account is active',
+    example: true,
+  }),
+  firstName: z.string().optional().meta({ description: 'First name', example: 'Jane' }),
+  lastName: z.string().optional().meta({ description: 'Last name', example: 'Doe' }),
+  role: userRoleSchema,
+  twoFactorEnabled: z.boolean().meta({
+    description: 'Whether two-factor authentication is enabled',
+    example: false,
+  }),
+  lockedUntil: z.string().optional().meta({
+    description: 'Sign-in is locked after repeated failures until this time (ISO 8601)',
+    example: '2025-01-15T10:45:00.000Z',
+  }),
+  createdAt: z.string().meta({
+    description: 'Creation timestamp (ISO 8601)',
+    example: '2025-01-15T10:30:00.000Z',
+  }),
+  updatedAt: z.string().meta({
+    description: 'Last update timestamp (ISO 8601)',
+    example: '2025-01-15T10:30:00.000Z',
+  }),
 });
 
 export type User = z.infer<typeof userSchema>;
+
+/** Fields the user list can be sorted by (prefix with `-` for descending) */
+export const USER_SORT_FIELDS = [
+  'email',
+  'firstName',
+  'lastName',
+  'role',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+const userSortValues = USER_SORT_FIELDS.flatMap(
+  field => [field, `-${field}`] as const
+);
+
+/** User list query - pagination, search, sorting and filters */
+export const listUsersQuerySchema = paginationQuerySchema.extend({
+  q: z.string().trim().max(100).optional().meta({
+    description: 'Case-insensitive search in email, first name and last name',
+    example: 'jane',
+  }),
+  sort: z
+    .enum(userSortValues as [string, ...string[]])
+    .optional()
+    .meta({
+      description: `Sort field, prefix with \`-\` for descending (${USER_SORT_FIELDS.join(', ')}). Default: \`-createdAt\``,
+      example: '-createdAt',
+    }),
+  active: z.enum(['true', 'false']).optional().meta({
+    description: 'Filter by active flag',
+    example: 'true',
+  }),
+  role: userRoleSchema.optional().meta({
+    description: 'Filter by role',
+    example: 'admin',
+  }),
+});
+
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+
+const nameSchema = z.string().trim().min(1).max(100);
+
+export const createUserBodySchema = z.object({
+  email: z.email().meta({
+    description: 'Account email address (must be unique)',
+    example: 'jane.doe@example.com',
+  }),
+  password: z.string().min(8).max(128).meta({
+    description: 'Initial password (8-128 characters)',
+    example: 'correct-horse-battery-staple',
+  }),
+  firstName: nameSchema.optional().meta({ description: 'First name', example: 'Jane' }),
+  lastName: nameSchema.optional().meta({ description: 'Last name', example: 'Doe' }),
+  role: userRoleSchema.optional(),
+  active: z.boolean().optional().meta({
+    description: 'Whether the account is active (default: true)',
+    example: true,
+  }),
+});
+
+export type CreateUserBody = z.infer<typeof createUserBodySchema>;
+
+/** Every field is optional; `null` clears a name */
+export const updateUserBodySchema = z.object({
+  email: z.email().optional().meta({
+    description: 'Account email address',
+    example: 'jane.doe@example.com',
+  }),
+  password: z.string().min(8).max(128).optional().meta({
+    description: 'New password',
+    example: 'correct-horse-battery-staple',
+  }),
+  firstName: nameSchema.nullable().optional().meta({ description: 'First name', example: 'Jane' }),
+  lastName: nameSchema.nullable().optional().meta({ description: 'Last name', example: 'Doe' }),
+  role: userRoleSchema.optional(),
+  active: z.boolean().optional().meta({
+    description: 'Whether the account is active',
+    example: true,
+  }),
+});
+
+export type UpdateUserBody = z.infer<typeof updateUserBodySchema>;
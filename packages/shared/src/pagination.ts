@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+/** `page`/`limit` query parameters; the server applies defaults and caps */
+export const paginationQuerySchema = z.object({
+  page: z.string().optional().meta({
+    description: 'Page number for pagination (default: 1)',
+    example: '1',
+  }),
+  limit: z.string().optional().meta({
+    description: 'Number of items per page (default: 10, max: 100)',
+    example: '10',
+  }),
+});
+
+export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
+
+export const paginationMetaSchema = z.object({
+  page: z.number().int().meta({ description: 'Current page number', example: 1 }),
+  pageSize: z.number().int().meta({ description: 'Items per page', example: 10 }),
+  totalItems: z.number().int().meta({ description: 'Total number of items', example: 42 }),
+  totalPages: z.number().int().meta({ description: 'Total number of pages', example: 5 }),
+  hasNextPage: z.boolean().meta({ description: 'Whether a next page exists', example: true }),
+  hasPreviousPage: z
+    .boolean()
+    .meta({ description: 'Whether a previous page exists', example: false }),
+});
+
+export type PaginationMeta = z.infer<typeof paginationMetaSchema>;
+
+/** A page of `item` with its pagination metadata */
+export const paginatedSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    items: z.array(item),
+    pagination: paginationMetaSchema,
+  });
+
+export interface PaginatedData<T> {
+  items: T[];
+  pagination: PaginationMeta;
+}